@@ -3,13 +3,15 @@
 -- Run this in your Neon database editor
 
 -- Create enum for cart status
-CREATE TYPE "CartStatus" AS ENUM ('ACTIVE', 'CHECKOUT', 'ABANDONED', 'COMPLETED', 'EXPIRED');
+CREATE TYPE "CartStatus" AS ENUM ('ACTIVE', 'CHECKOUT', 'ABANDONED', 'COMPLETED', 'EXPIRED', 'ARCHIVED');
 
 -- Create cart_sessions table
 CREATE TABLE "cart_sessions" (
     "id" TEXT NOT NULL,
+    "tenantId" TEXT NOT NULL DEFAULT 'default',
     "userId" TEXT,
     "sessionToken" TEXT NOT NULL,
+    "channel" TEXT NOT NULL DEFAULT 'WEB',
     "expiresAt" TIMESTAMP(3) NOT NULL,
     "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
     "updatedAt" TIMESTAMP(3) NOT NULL,
@@ -20,9 +22,16 @@ CREATE TABLE "cart_sessions" (
 -- Create carts table
 CREATE TABLE "carts" (
     "id" TEXT NOT NULL,
+    "tenantId" TEXT NOT NULL DEFAULT 'default',
     "sessionId" TEXT NOT NULL,
     "userId" TEXT,
+    "name" TEXT,
     "status" "CartStatus" NOT NULL DEFAULT 'ACTIVE',
+    "isCurrent" BOOLEAN NOT NULL DEFAULT true,
+    "version" INTEGER NOT NULL DEFAULT 1,
+    "currency" TEXT NOT NULL DEFAULT 'USD',
+    "channel" TEXT NOT NULL DEFAULT 'WEB',
+    "giftOptions" TEXT,
     "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
     "updatedAt" TIMESTAMP(3) NOT NULL,
 
@@ -38,6 +47,19 @@ CREATE TABLE "cart_items" (
     "quantity" INTEGER NOT NULL DEFAULT 1,
     "price" DECIMAL(10,2) NOT NULL,
     "originalPrice" DECIMAL(10,2),
+    "bundleId" TEXT,
+    "parentItemId" TEXT,
+    "unitQuantity" INTEGER,
+    "customization" TEXT,
+    "customizationFingerprint" TEXT NOT NULL DEFAULT '',
+    "surcharge" DECIMAL(10,2) NOT NULL DEFAULT 0,
+    "quoteId" TEXT,
+    "priceLockedUntil" TIMESTAMP(3),
+    "giftOptions" TEXT,
+    "subscriptionEvery" INTEGER,
+    "subscriptionUnit" TEXT,
+    "availability" TEXT NOT NULL DEFAULT 'IN_STOCK',
+    "estimatedShipDate" TIMESTAMP(3),
     "addedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
     "updatedAt" TIMESTAMP(3) NOT NULL,
 
@@ -55,15 +77,446 @@ CREATE TABLE "cart_metadata" (
     CONSTRAINT "cart_metadata_pkey" PRIMARY KEY ("id")
 );
 
+-- Create cart_shares table
+CREATE TABLE "cart_shares" (
+    "id" TEXT NOT NULL,
+    "cartId" TEXT NOT NULL,
+    "token" TEXT NOT NULL,
+    "createdBy" TEXT,
+    "expiresAt" TIMESTAMP(3),
+    "revokedAt" TIMESTAMP(3),
+    "viewCount" INTEGER NOT NULL DEFAULT 0,
+    "cloneCount" INTEGER NOT NULL DEFAULT 0,
+    "lastViewedAt" TIMESTAMP(3),
+    "lastClonedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "cart_shares_pkey" PRIMARY KEY ("id")
+);
+
+-- Create cart_events table
+CREATE TABLE "cart_events" (
+    "id" TEXT NOT NULL,
+    "cartId" TEXT NOT NULL,
+    "sequence" SERIAL NOT NULL,
+    "type" TEXT NOT NULL,
+    "changes" TEXT NOT NULL,
+    "details" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "cart_events_pkey" PRIMARY KEY ("id")
+);
+
+-- Create cart_undo_steps table
+CREATE TABLE "cart_undo_steps" (
+    "id" TEXT NOT NULL,
+    "cartId" TEXT NOT NULL,
+    "sequence" SERIAL NOT NULL,
+    "action" TEXT NOT NULL,
+    "changes" TEXT NOT NULL,
+    "undoneAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "cart_undo_steps_pkey" PRIMARY KEY ("id")
+);
+
+-- Create quantity_rule_overrides table
+CREATE TABLE "quantity_rule_overrides" (
+    "id" TEXT NOT NULL,
+    "productId" TEXT NOT NULL,
+    "minQuantity" INTEGER,
+    "maxQuantity" INTEGER,
+    "step" INTEGER,
+    "casePack" INTEGER,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "quantity_rule_overrides_pkey" PRIMARY KEY ("id")
+);
+
+-- Create business_rules table
+CREATE TABLE "business_rules" (
+    "id" TEXT NOT NULL,
+    "tenantId" TEXT NOT NULL DEFAULT 'default',
+    "name" TEXT NOT NULL,
+    "description" TEXT,
+    "scope" TEXT NOT NULL,
+    "match" TEXT NOT NULL DEFAULT 'ALL',
+    "conditions" TEXT NOT NULL,
+    "action" TEXT NOT NULL,
+    "capQuantity" INTEGER,
+    "message" TEXT NOT NULL,
+    "priority" INTEGER NOT NULL DEFAULT 0,
+    "isActive" BOOLEAN NOT NULL DEFAULT true,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "business_rules_pkey" PRIMARY KEY ("id")
+);
+
+-- Create quotes table
+CREATE TABLE "quotes" (
+    "id" TEXT NOT NULL,
+    "tenantId" TEXT NOT NULL DEFAULT 'default',
+    "cartId" TEXT NOT NULL,
+    "sessionId" TEXT NOT NULL,
+    "userId" TEXT,
+    "status" TEXT NOT NULL DEFAULT 'REQUESTED',
+    "currency" TEXT NOT NULL,
+    "lines" TEXT NOT NULL,
+    "discount" DECIMAL(10,2) NOT NULL DEFAULT 0,
+    "customerNote" TEXT,
+    "salesNote" TEXT,
+    "quotedBy" TEXT,
+    "quotedAt" TIMESTAMP(3),
+    "expiresAt" TIMESTAMP(3),
+    "respondedAt" TIMESTAMP(3),
+    "convertedCartId" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "quotes_pkey" PRIMARY KEY ("id")
+);
+
+-- Create subscriptions table
+CREATE TABLE "subscriptions" (
+    "id" TEXT NOT NULL,
+    "tenantId" TEXT NOT NULL DEFAULT 'default',
+    "userId" TEXT NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'ACTIVE',
+    "productId" TEXT NOT NULL,
+    "variantId" TEXT,
+    "quantity" INTEGER NOT NULL,
+    "unitPrice" DECIMAL(10,2) NOT NULL,
+    "discountPercent" DECIMAL(5,2) NOT NULL DEFAULT 0,
+    "currency" TEXT NOT NULL,
+    "every" INTEGER NOT NULL,
+    "unit" TEXT NOT NULL,
+    "nextOrderAt" TIMESTAMP(3) NOT NULL,
+    "shippingAddress" TEXT NOT NULL,
+    "billingAddress" TEXT NOT NULL,
+    "shippingMethod" TEXT NOT NULL,
+    "paymentMethod" TEXT NOT NULL,
+    "paymentProvider" TEXT NOT NULL,
+    "firstOrderId" TEXT NOT NULL,
+    "lastOrderId" TEXT,
+    "orderCount" INTEGER NOT NULL DEFAULT 1,
+    "failureCount" INTEGER NOT NULL DEFAULT 0,
+    "lastError" TEXT,
+    "pausedAt" TIMESTAMP(3),
+    "cancelledAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "subscriptions_pkey" PRIMARY KEY ("id")
+);
+
+-- Create product_affinities table
+CREATE TABLE "product_affinities" (
+    "id" TEXT NOT NULL,
+    "tenantId" TEXT NOT NULL DEFAULT 'default',
+    "productId" TEXT NOT NULL,
+    "relatedProductId" TEXT NOT NULL,
+    "baskets" INTEGER NOT NULL,
+    "score" DECIMAL(6,4) NOT NULL,
+    "computedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "product_affinities_pkey" PRIMARY KEY ("id")
+);
+
+-- Create saved_items table
+CREATE TABLE "saved_items" (
+    "id" TEXT NOT NULL,
+    "tenantId" TEXT NOT NULL DEFAULT 'default',
+    "userId" TEXT,
+    "sessionId" TEXT NOT NULL,
+    "productId" TEXT NOT NULL,
+    "variantId" TEXT,
+    "quantity" INTEGER NOT NULL DEFAULT 1,
+    "customization" TEXT,
+    "customizationFingerprint" TEXT NOT NULL DEFAULT '',
+    "currency" TEXT NOT NULL DEFAULT 'USD',
+    "savedPrice" DECIMAL(10,2) NOT NULL,
+    "currentPrice" DECIMAL(10,2) NOT NULL,
+    "alertedPrice" DECIMAL(10,2),
+    "inStock" BOOLEAN NOT NULL DEFAULT true,
+    "notes" TEXT,
+    "checkedAt" TIMESTAMP(3),
+    "savedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "saved_items_pkey" PRIMARY KEY ("id")
+);
+
+-- Create orders table
+CREATE TABLE "orders" (
+    "id" TEXT NOT NULL,
+    "tenantId" TEXT NOT NULL DEFAULT 'default',
+    "orderNumber" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "sessionId" TEXT,
+    "status" TEXT NOT NULL DEFAULT 'PENDING',
+    "backorderPolicy" TEXT,
+    "channel" TEXT,
+    "gift" JSONB,
+    "subtotal" DECIMAL(10,2) NOT NULL,
+    "tax" DECIMAL(10,2) NOT NULL,
+    "shippingCost" DECIMAL(10,2) NOT NULL,
+    "discount" DECIMAL(10,2) NOT NULL DEFAULT 0,
+    "giftCharge" DECIMAL(10,2) NOT NULL DEFAULT 0,
+    "total" DECIMAL(10,2) NOT NULL,
+    "currency" TEXT NOT NULL,
+    "notes" TEXT,
+    "metadata" JSONB,
+    "completedAt" TIMESTAMP(3),
+    "cancelledAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "orders_pkey" PRIMARY KEY ("id")
+);
+
+-- Create order_items table
+CREATE TABLE "order_items" (
+    "id" TEXT NOT NULL,
+    "orderId" TEXT NOT NULL,
+    "productId" TEXT NOT NULL,
+    "variantId" TEXT,
+    "productName" TEXT NOT NULL,
+    "productSku" TEXT NOT NULL,
+    "quantity" INTEGER NOT NULL,
+    "unitPrice" DECIMAL(10,2) NOT NULL,
+    "totalPrice" DECIMAL(10,2) NOT NULL,
+    "productImage" TEXT,
+    "productUrl" TEXT,
+    "gift" JSONB,
+    "giftCharge" DECIMAL(10,2),
+    "fulfillment" JSONB,
+    "metadata" JSONB,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "order_items_pkey" PRIMARY KEY ("id")
+);
+
+-- Create payments table
+CREATE TABLE "payments" (
+    "id" TEXT NOT NULL,
+    "orderId" TEXT NOT NULL,
+    "paymentMethod" TEXT NOT NULL,
+    "paymentProvider" TEXT NOT NULL,
+    "transactionId" TEXT,
+    "amount" DECIMAL(10,2) NOT NULL,
+    "currency" TEXT NOT NULL,
+    "status" TEXT NOT NULL,
+    "processedAt" TIMESTAMP(3),
+    "failedAt" TIMESTAMP(3),
+    "refundedAt" TIMESTAMP(3),
+    "refundAmount" DECIMAL(10,2),
+    "metadata" JSONB,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "payments_pkey" PRIMARY KEY ("id")
+);
+
+-- Create shippings table
+CREATE TABLE "shippings" (
+    "id" TEXT NOT NULL,
+    "orderId" TEXT,
+    "shipmentOrderId" TEXT,
+    "carrier" TEXT NOT NULL,
+    "trackingNumber" TEXT,
+    "status" TEXT NOT NULL,
+    "estimatedDelivery" TIMESTAMP(3),
+    "actualDelivery" TIMESTAMP(3),
+    "shippingAddress" JSONB NOT NULL,
+    "shippingMethod" TEXT NOT NULL,
+    "shippingCost" DECIMAL(10,2) NOT NULL,
+    "tax" DECIMAL(10,2) NOT NULL DEFAULT 0,
+    "items" JSONB,
+    "metadata" JSONB,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "shippings_pkey" PRIMARY KEY ("id")
+);
+
+-- Create order_addresses table
+CREATE TABLE "order_addresses" (
+    "id" TEXT NOT NULL,
+    "orderId" TEXT NOT NULL,
+    "firstName" TEXT NOT NULL,
+    "lastName" TEXT NOT NULL,
+    "company" TEXT,
+    "address1" TEXT NOT NULL,
+    "address2" TEXT,
+    "city" TEXT NOT NULL,
+    "state" TEXT NOT NULL,
+    "postalCode" TEXT NOT NULL,
+    "country" TEXT NOT NULL,
+    "phone" TEXT,
+    "email" TEXT,
+    "isDefault" BOOLEAN NOT NULL DEFAULT false,
+
+    CONSTRAINT "order_addresses_pkey" PRIMARY KEY ("id")
+);
+
+-- Create order_events table
+CREATE TABLE "order_events" (
+    "id" TEXT NOT NULL,
+    "orderId" TEXT NOT NULL,
+    "eventType" TEXT NOT NULL,
+    "eventData" JSONB,
+    "userId" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "order_events_pkey" PRIMARY KEY ("id")
+);
+
+-- Create discounts table
+CREATE TABLE "discounts" (
+    "id" TEXT NOT NULL,
+    "tenantId" TEXT NOT NULL DEFAULT 'default',
+    "code" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "description" TEXT,
+    "type" TEXT NOT NULL,
+    "value" DECIMAL(10,2) NOT NULL,
+    "minimumOrderAmount" DECIMAL(10,2),
+    "maximumDiscountAmount" DECIMAL(10,2),
+    "isActive" BOOLEAN NOT NULL DEFAULT true,
+    "isStackable" BOOLEAN NOT NULL DEFAULT false,
+    "validFrom" TIMESTAMP(3) NOT NULL,
+    "validTo" TIMESTAMP(3) NOT NULL,
+    "usageLimit" INTEGER,
+    "usageCount" INTEGER NOT NULL DEFAULT 0,
+    "applicableProducts" TEXT[],
+    "applicableCategories" TEXT[],
+    "applicableUsers" TEXT[],
+    "metadata" JSONB,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "discounts_pkey" PRIMARY KEY ("id")
+);
+
+-- Create discount_usages table
+CREATE TABLE "discount_usages" (
+    "id" TEXT NOT NULL,
+    "discountId" TEXT NOT NULL,
+    "orderId" TEXT NOT NULL,
+    "usedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "discount_usages_pkey" PRIMARY KEY ("id")
+);
+
+-- Create promotions table
+CREATE TABLE "promotions" (
+    "id" TEXT NOT NULL,
+    "tenantId" TEXT NOT NULL DEFAULT 'default',
+    "name" TEXT NOT NULL,
+    "description" TEXT,
+    "type" TEXT NOT NULL,
+    "isActive" BOOLEAN NOT NULL DEFAULT true,
+    "validFrom" TIMESTAMP(3) NOT NULL,
+    "validTo" TIMESTAMP(3) NOT NULL,
+    "conditions" JSONB NOT NULL,
+    "rewards" JSONB NOT NULL,
+    "usageLimit" INTEGER,
+    "usageCount" INTEGER NOT NULL DEFAULT 0,
+    "metadata" JSONB,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "promotions_pkey" PRIMARY KEY ("id")
+);
+
+-- Create promotion_usages table
+CREATE TABLE "promotion_usages" (
+    "id" TEXT NOT NULL,
+    "promotionId" TEXT NOT NULL,
+    "userId" TEXT,
+    "orderId" TEXT,
+    "appliedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "metadata" JSONB,
+
+    CONSTRAINT "promotion_usages_pkey" PRIMARY KEY ("id")
+);
+
+-- Create tax_rates table
+CREATE TABLE "tax_rates" (
+    "id" TEXT NOT NULL,
+    "tenantId" TEXT NOT NULL DEFAULT 'default',
+    "region" TEXT NOT NULL,
+    "country" TEXT NOT NULL,
+    "state" TEXT,
+    "city" TEXT,
+    "postalCode" TEXT,
+    "type" TEXT NOT NULL,
+    "rate" DECIMAL(6,4) NOT NULL,
+    "isInclusive" BOOLEAN NOT NULL DEFAULT false,
+    "applicableProducts" TEXT[],
+    "applicableCategories" TEXT[],
+    "isActive" BOOLEAN NOT NULL DEFAULT true,
+    "validFrom" TIMESTAMP(3) NOT NULL,
+    "validTo" TIMESTAMP(3),
+    "metadata" JSONB,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "tax_rates_pkey" PRIMARY KEY ("id")
+);
+
+-- Create notifications table
+CREATE TABLE "notifications" (
+    "id" TEXT NOT NULL,
+    "tenantId" TEXT NOT NULL DEFAULT 'default',
+    "userId" TEXT NOT NULL,
+    "type" TEXT NOT NULL,
+    "channel" TEXT NOT NULL,
+    "priority" TEXT NOT NULL,
+    "status" TEXT NOT NULL,
+    "content" JSONB NOT NULL,
+    "scheduledAt" TIMESTAMP(3),
+    "metadata" JSONB,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "notifications_pkey" PRIMARY KEY ("id")
+);
+
+-- Create idempotency_keys table
+CREATE TABLE "idempotency_keys" (
+    "id" TEXT NOT NULL,
+    "scope" TEXT NOT NULL,
+    "key" TEXT NOT NULL,
+    "requestHash" TEXT NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'in_progress',
+    "responseStatus" INTEGER,
+    "responseBody" TEXT,
+    "responseHeaders" TEXT,
+    "expiresAt" TIMESTAMP(3) NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "idempotency_keys_pkey" PRIMARY KEY ("id")
+);
+
 -- Create indexes for cart_sessions
 CREATE UNIQUE INDEX "cart_sessions_sessionToken_key" ON "cart_sessions"("sessionToken");
+CREATE INDEX "cart_sessions_tenantId_userId_idx" ON "cart_sessions"("tenantId", "userId");
 CREATE INDEX "cart_sessions_userId_idx" ON "cart_sessions"("userId");
 CREATE INDEX "cart_sessions_expiresAt_idx" ON "cart_sessions"("expiresAt");
 
 -- Create indexes for carts
 CREATE INDEX "carts_sessionId_idx" ON "carts"("sessionId");
+CREATE INDEX "carts_sessionId_isCurrent_idx" ON "carts"("sessionId", "isCurrent");
 CREATE INDEX "carts_userId_idx" ON "carts"("userId");
 CREATE INDEX "carts_status_idx" ON "carts"("status");
+CREATE INDEX "carts_status_updatedAt_idx" ON "carts"("status", "updatedAt");
+CREATE INDEX "carts_channel_idx" ON "carts"("channel");
+CREATE INDEX "carts_tenantId_status_idx" ON "carts"("tenantId", "status");
 CREATE INDEX "carts_createdAt_idx" ON "carts"("createdAt");
 
 -- Create indexes for cart_items
@@ -71,20 +524,132 @@ CREATE INDEX "cart_items_cartId_idx" ON "cart_items"("cartId");
 CREATE INDEX "cart_items_productId_idx" ON "cart_items"("productId");
 CREATE INDEX "cart_items_variantId_idx" ON "cart_items"("variantId");
 CREATE INDEX "cart_items_addedAt_idx" ON "cart_items"("addedAt");
-CREATE UNIQUE INDEX "cart_items_cartId_productId_variantId_key" ON "cart_items"("cartId", "productId", "variantId");
+CREATE INDEX "cart_items_parentItemId_idx" ON "cart_items"("parentItemId");
+CREATE INDEX "cart_items_quoteId_idx" ON "cart_items"("quoteId");
+CREATE UNIQUE INDEX "cart_items_cartId_productId_variantId_parentItemId_customizationFingerprint_key" ON "cart_items"("cartId", "productId", "variantId", "parentItemId", "customizationFingerprint");
 
 -- Create indexes for cart_metadata
 CREATE INDEX "cart_metadata_cartId_idx" ON "cart_metadata"("cartId");
 CREATE INDEX "cart_metadata_key_idx" ON "cart_metadata"("key");
 CREATE UNIQUE INDEX "cart_metadata_cartId_key_key" ON "cart_metadata"("cartId", "key");
 
+-- Create indexes for cart_shares
+CREATE UNIQUE INDEX "cart_shares_token_key" ON "cart_shares"("token");
+CREATE INDEX "cart_shares_cartId_idx" ON "cart_shares"("cartId");
+
+-- Create indexes for cart_events
+CREATE UNIQUE INDEX "cart_events_sequence_key" ON "cart_events"("sequence");
+CREATE INDEX "cart_events_cartId_createdAt_idx" ON "cart_events"("cartId", "createdAt");
+
+-- Create indexes for cart_undo_steps
+CREATE UNIQUE INDEX "cart_undo_steps_sequence_key" ON "cart_undo_steps"("sequence");
+CREATE INDEX "cart_undo_steps_cartId_sequence_idx" ON "cart_undo_steps"("cartId", "sequence");
+
+-- Create indexes for quantity_rule_overrides
+CREATE UNIQUE INDEX "quantity_rule_overrides_productId_key" ON "quantity_rule_overrides"("productId");
+
+-- Create indexes for business_rules
+CREATE INDEX "business_rules_tenantId_isActive_priority_idx" ON "business_rules"("tenantId", "isActive", "priority");
+
+-- Create indexes for quotes
+CREATE UNIQUE INDEX "quotes_convertedCartId_key" ON "quotes"("convertedCartId");
+CREATE INDEX "quotes_sessionId_idx" ON "quotes"("sessionId");
+CREATE INDEX "quotes_userId_idx" ON "quotes"("userId");
+CREATE INDEX "quotes_status_createdAt_idx" ON "quotes"("status", "createdAt");
+CREATE INDEX "quotes_tenantId_status_idx" ON "quotes"("tenantId", "status");
+
+-- Create indexes for subscriptions
+CREATE INDEX "subscriptions_tenantId_userId_idx" ON "subscriptions"("tenantId", "userId");
+CREATE INDEX "subscriptions_userId_idx" ON "subscriptions"("userId");
+CREATE INDEX "subscriptions_status_nextOrderAt_idx" ON "subscriptions"("status", "nextOrderAt");
+
+-- Create indexes for product_affinities
+CREATE UNIQUE INDEX "product_affinities_tenantId_productId_relatedProductId_key" ON "product_affinities"("tenantId", "productId", "relatedProductId");
+CREATE INDEX "product_affinities_tenantId_productId_score_idx" ON "product_affinities"("tenantId", "productId", "score");
+
+-- Create indexes for saved_items
+CREATE INDEX "saved_items_tenantId_userId_savedAt_idx" ON "saved_items"("tenantId", "userId", "savedAt");
+CREATE INDEX "saved_items_tenantId_sessionId_savedAt_idx" ON "saved_items"("tenantId", "sessionId", "savedAt");
+CREATE INDEX "saved_items_checkedAt_idx" ON "saved_items"("checkedAt");
+
+-- Create indexes for orders
+CREATE UNIQUE INDEX "orders_orderNumber_key" ON "orders"("orderNumber");
+CREATE INDEX "orders_tenantId_status_idx" ON "orders"("tenantId", "status");
+CREATE INDEX "orders_userId_idx" ON "orders"("userId");
+CREATE INDEX "orders_status_createdAt_idx" ON "orders"("status", "createdAt");
+
+-- Create indexes for order_items
+CREATE INDEX "order_items_orderId_idx" ON "order_items"("orderId");
+CREATE INDEX "order_items_productId_idx" ON "order_items"("productId");
+
+-- Create indexes for payments
+CREATE UNIQUE INDEX "payments_orderId_key" ON "payments"("orderId");
+
+-- Create indexes for shippings
+CREATE UNIQUE INDEX "shippings_orderId_key" ON "shippings"("orderId");
+CREATE INDEX "shippings_shipmentOrderId_idx" ON "shippings"("shipmentOrderId");
+
+-- Create indexes for order_addresses
+CREATE UNIQUE INDEX "order_addresses_orderId_key" ON "order_addresses"("orderId");
+
+-- Create indexes for order_events
+CREATE INDEX "order_events_orderId_createdAt_idx" ON "order_events"("orderId", "createdAt");
+
+-- Create indexes for discounts
+CREATE UNIQUE INDEX "discounts_tenantId_code_key" ON "discounts"("tenantId", "code");
+CREATE INDEX "discounts_tenantId_isActive_idx" ON "discounts"("tenantId", "isActive");
+
+-- Create indexes for discount_usages
+CREATE INDEX "discount_usages_discountId_idx" ON "discount_usages"("discountId");
+
+-- Create indexes for promotions
+CREATE INDEX "promotions_tenantId_isActive_idx" ON "promotions"("tenantId", "isActive");
+
+-- Create indexes for promotion_usages
+CREATE INDEX "promotion_usages_promotionId_idx" ON "promotion_usages"("promotionId");
+
+-- Create indexes for tax_rates
+CREATE INDEX "tax_rates_tenantId_country_isActive_idx" ON "tax_rates"("tenantId", "country", "isActive");
+
+-- Create indexes for notifications
+CREATE INDEX "notifications_tenantId_userId_idx" ON "notifications"("tenantId", "userId");
+CREATE INDEX "notifications_status_idx" ON "notifications"("status");
+
+-- Create indexes for idempotency_keys
+CREATE UNIQUE INDEX "idempotency_keys_scope_key_key" ON "idempotency_keys"("scope", "key");
+CREATE INDEX "idempotency_keys_expiresAt_idx" ON "idempotency_keys"("expiresAt");
+
 -- Add foreign key constraints
 ALTER TABLE "carts" ADD CONSTRAINT "carts_sessionId_fkey" FOREIGN KEY ("sessionId") REFERENCES "cart_sessions"("id") ON DELETE CASCADE ON UPDATE CASCADE;
 
 ALTER TABLE "cart_items" ADD CONSTRAINT "cart_items_cartId_fkey" FOREIGN KEY ("cartId") REFERENCES "carts"("id") ON DELETE CASCADE ON UPDATE CASCADE;
 
+ALTER TABLE "cart_items" ADD CONSTRAINT "cart_items_parentItemId_fkey" FOREIGN KEY ("parentItemId") REFERENCES "cart_items"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
 ALTER TABLE "cart_metadata" ADD CONSTRAINT "cart_metadata_cartId_fkey" FOREIGN KEY ("cartId") REFERENCES "carts"("id") ON DELETE CASCADE ON UPDATE CASCADE;
 
+ALTER TABLE "cart_shares" ADD CONSTRAINT "cart_shares_cartId_fkey" FOREIGN KEY ("cartId") REFERENCES "carts"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+ALTER TABLE "cart_events" ADD CONSTRAINT "cart_events_cartId_fkey" FOREIGN KEY ("cartId") REFERENCES "carts"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+ALTER TABLE "cart_undo_steps" ADD CONSTRAINT "cart_undo_steps_cartId_fkey" FOREIGN KEY ("cartId") REFERENCES "carts"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+ALTER TABLE "order_items" ADD CONSTRAINT "order_items_orderId_fkey" FOREIGN KEY ("orderId") REFERENCES "orders"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+ALTER TABLE "payments" ADD CONSTRAINT "payments_orderId_fkey" FOREIGN KEY ("orderId") REFERENCES "orders"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+ALTER TABLE "shippings" ADD CONSTRAINT "shippings_orderId_fkey" FOREIGN KEY ("orderId") REFERENCES "orders"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+ALTER TABLE "shippings" ADD CONSTRAINT "shippings_shipmentOrderId_fkey" FOREIGN KEY ("shipmentOrderId") REFERENCES "orders"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+ALTER TABLE "order_addresses" ADD CONSTRAINT "order_addresses_orderId_fkey" FOREIGN KEY ("orderId") REFERENCES "orders"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+ALTER TABLE "order_events" ADD CONSTRAINT "order_events_orderId_fkey" FOREIGN KEY ("orderId") REFERENCES "orders"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+ALTER TABLE "discount_usages" ADD CONSTRAINT "discount_usages_discountId_fkey" FOREIGN KEY ("discountId") REFERENCES "discounts"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+ALTER TABLE "promotion_usages" ADD CONSTRAINT "promotion_usages_promotionId_fkey" FOREIGN KEY ("promotionId") REFERENCES "promotions"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
 -- Insert sample data for testing
 INSERT INTO "cart_sessions" ("id", "userId", "sessionToken", "expiresAt", "createdAt", "updatedAt") VALUES
 ('session_guest_001', NULL, 'cart_guest_1234567890_abc123def', NOW() + INTERVAL '24 hours', NOW(), NOW()),
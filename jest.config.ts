@@ -7,7 +7,11 @@ const config: Config = {
 	rootDir: '.',
 	testRegex: '.*\\.spec\\.ts$',
 	moduleNameMapper: {},
+	// uuid only ships ES modules; compile it to CommonJS like our own sources
+	transform: {
+		'^.+/node_modules/uuid/.+\\.js$': ['ts-jest', { tsconfig: { allowJs: true }, diagnostics: false }],
+	},
+	transformIgnorePatterns: ['/node_modules/(?!uuid/)'],
 };
 
 export default config;
-
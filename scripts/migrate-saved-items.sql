@@ -0,0 +1,54 @@
+-- Move items saved for later into saved_items
+-- Before saved_items existed, a cart kept the item it saved for later as a
+-- 'saved_item' row of cart_metadata. Run this once in your Neon database
+-- editor after creating saved_items; running it again does nothing.
+
+BEGIN;
+
+INSERT INTO "saved_items" (
+    "id",
+    "tenantId",
+    "userId",
+    "sessionId",
+    "productId",
+    "variantId",
+    "quantity",
+    "customization",
+    "customizationFingerprint",
+    "currency",
+    "savedPrice",
+    "currentPrice",
+    "notes",
+    "savedAt",
+    "updatedAt"
+)
+SELECT
+    m."id",
+    c."tenantId",
+    c."userId",
+    c."sessionId",
+    m."value"::jsonb ->> 'productId',
+    m."value"::jsonb ->> 'variantId',
+    COALESCE((m."value"::jsonb ->> 'quantity')::INTEGER, 1),
+    CASE WHEN jsonb_typeof(m."value"::jsonb -> 'customization') = 'object'
+        THEN (m."value"::jsonb -> 'customization')::TEXT
+    END,
+    COALESCE(m."value"::jsonb ->> 'customizationFingerprint', ''),
+    c."currency",
+    (m."value"::jsonb ->> 'price')::DECIMAL(10,2),
+    (m."value"::jsonb ->> 'price')::DECIMAL(10,2),
+    m."value"::jsonb ->> 'notes',
+    COALESCE((m."value"::jsonb ->> 'savedAt')::TIMESTAMP(3), m."createdAt"),
+    NOW()
+FROM "cart_metadata" m
+JOIN "carts" c ON c."id" = m."cartId"
+WHERE m."key" = 'saved_item'
+ON CONFLICT ("id") DO NOTHING;
+
+DELETE FROM "cart_metadata" m
+WHERE m."key" = 'saved_item'
+  AND EXISTS (SELECT 1 FROM "saved_items" s WHERE s."id" = m."id");
+
+COMMIT;
+
+SELECT COUNT(*) AS total_saved_items FROM "saved_items";
@@ -16,6 +16,8 @@ import { EventsModule } from './events/events.module';
 import { CacheModule } from './cache/cache.module';
 import { OptimizationModule } from './optimization/optimization.module';
 import { MonitoringModule } from './monitoring/monitoring.module';
+import { RulesModule } from './rules/rules.module';
+import { TenantModule } from './tenant/tenant.module';
 import configuration from './config/configuration';
 
 @Module({
@@ -33,6 +35,9 @@ import configuration from './config/configuration';
     // Database module
     DatabaseModule,
 
+    // Tenant module: resolves the store of each request
+    TenantModule,
+
     // Common module for shared components
     CommonModule,
 
@@ -72,6 +77,9 @@ import configuration from './config/configuration';
     // Monitoring module
     MonitoringModule,
 
+    // Business rules module
+    RulesModule,
+
     // Feature modules
     CartModule,
   ],
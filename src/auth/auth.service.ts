@@ -8,6 +8,10 @@ export interface UserPayload {
     id: string;
     email: string;
     roles: string[];
+    // Sales channel the token was issued for, when the auth service sets one
+    channel?: string;
+    // Store the token was issued for; requests with it are kept to that store
+    tenantId?: string;
     iat?: number;
     exp?: number;
 }
@@ -14,23 +14,83 @@ import {
   BadRequestException,
   NotFoundException,
   UseGuards,
+  Res,
+  Ip,
 } from '@nestjs/common';
+import { Response } from 'express';
 import { CartService } from './cart.service';
 import { DatabaseService } from '../database/database.service';
 import { AddItemDto } from './dto/add-item.dto';
+import { AddBundleDto } from './dto/add-bundle.dto';
 import { UpdateItemDto } from './dto/update-item.dto';
+import { CustomizeItemDto } from './dto/customize-item.dto';
+import { GiftOptionsDto } from './dto/gift-options.dto';
+import { ItemSubscriptionDto } from './dto/item-subscription.dto';
+import { ChangeCurrencyDto } from './dto/change-currency.dto';
+import { SavedItemsQueryDto } from './dto/saved-item.dto';
+import {
+  CartSummaryDto,
+  CreateNamedCartDto,
+  RenameCartDto,
+  TransferItemsDto,
+  TransferItemsResponseDto
+} from './dto/named-cart.dto';
+import {
+  CartShareResponseDto,
+  CloneSharedCartResponseDto,
+  CreateCartShareDto,
+  SharedCartViewDto
+} from './dto/cart-share.dto';
+import { CartChangesQueryDto, CartChangesResponseDto, CartStateQueryDto } from './dto/cart-history.dto';
+import { CartStateAt } from '../types/cart-event.types';
+import { CartUndoResponseDto } from './dto/cart-undo.dto';
+import { CartUndoAction } from '../types/cart-undo.types';
+import { ChangeCartStatusDto } from './dto/cart-lifecycle.dto';
+import { CartExportDto, CartExportQueryDto, CartImportResponseDto, ImportCartDto } from './dto/cart-import.dto';
+import {
+  AcceptQuoteResponseDto,
+  QuoteOfferDto,
+  QuoteResponseDto,
+  QuoteReviewQueryDto,
+  RequestQuoteDto
+} from './dto/cart-quote.dto';
+import {
+  AgentReasonDto,
+  AssistedAddItemDto,
+  AssistedRepriceItemDto,
+  SendAssistedCartDto,
+  SendAssistedCartResponseDto
+} from './dto/assisted-cart.dto';
+import { AgentContext } from '../types/assisted-cart.types';
+import { AuditEntry } from '../types/monitoring.types';
+import { CartActor } from '../types/cart-lifecycle.types';
 import { CartResponseDto } from './dto/cart-response.dto';
 import { BulkOperationsDto, BulkOperationsResponseDto } from './dto/bulk-operations.dto';
 import { CartMergeDto, CartMergeResponseDto, MergePreviewDto } from './dto/cart-merge.dto';
-import { SessionContext } from '../types/cart.types';
+import { Cart, CartServiceError, SessionContext } from '../types/cart.types';
+import { SubscriptionUnit } from '../types/subscription.types';
+import { SavedItem } from '../types/saved-item.types';
 import { JwtAuthGuard } from '../common/guards/jwt-auth.guard';
 import { CurrentUser } from '../common/decorators/current-user.decorator';
 import { Public } from '../common/decorators/public.decorator';
 import { Roles } from '../common/decorators/roles.decorator';
+import { Idempotent } from '../common/decorators/idempotent.decorator';
 import { BulkOperationsService } from './operations/bulk-operations.service';
 import { CartMergerService } from './operations/cart-merger.service';
 import { ItemManagerService } from './operations/item-manager.service';
+import { NamedCartsService } from './operations/named-carts.service';
+import { CartSharingService } from './operations/cart-sharing.service';
+import { CartHistoryService } from './operations/cart-history.service';
+import { CartUndoService } from './operations/cart-undo.service';
+import { CartLifecycleService } from './operations/cart-lifecycle.service';
+import { CartImportService } from './operations/cart-import.service';
+import { CartQuotesService } from './operations/cart-quotes.service';
+import { CartGiftService } from './operations/cart-gift.service';
+import { AssistedCartService } from './operations/assisted-cart.service';
 import { CartValidatorService } from './validation/cart-validator.service';
+import { ChannelPolicyService } from '../services/channel-policy.service';
+import { RecommendationService } from '../services/recommendation.service';
+import { ProductRecommendation } from '../types/product-integration.types';
 
 @Controller('cart')
 export class CartController {
@@ -41,8 +101,19 @@ export class CartController {
     private readonly bulkOperationsService: BulkOperationsService,
     private readonly cartMergerService: CartMergerService,
     private readonly itemManagerService: ItemManagerService,
+    private readonly namedCartsService: NamedCartsService,
+    private readonly cartSharingService: CartSharingService,
+    private readonly cartHistoryService: CartHistoryService,
+    private readonly cartUndoService: CartUndoService,
+    private readonly cartLifecycleService: CartLifecycleService,
+    private readonly cartImportService: CartImportService,
+    private readonly cartQuotesService: CartQuotesService,
+    private readonly cartGiftService: CartGiftService,
+    private readonly assistedCartService: AssistedCartService,
     private readonly cartValidatorService: CartValidatorService,
     private readonly databaseService: DatabaseService,
+    private readonly channelPolicyService: ChannelPolicyService,
+    private readonly recommendationService: RecommendationService,
   ) {}
 
   /**
@@ -55,7 +126,8 @@ export class CartController {
     @Headers('x-test-session-id') testSessionId?: string,
     @Query('userId') queryUserId?: string,
     @Query('sessionId') querySessionId?: string,
-    @CurrentUser() user?: any
+    @CurrentUser() user?: any,
+    @Res({ passthrough: true }) res?: Response
   ): Promise<CartResponseDto> {
     // Development mode: Allow userId/sessionId from query params or headers
     let finalUserId: string | undefined;
@@ -76,6 +148,7 @@ export class CartController {
       };
 
       const cart = await this.cartService.getOrCreateCart(sessionContext);
+      this.setEtag(res, cart);
       return this.cartService.getCartResponse(cart);
     }
 
@@ -92,6 +165,7 @@ export class CartController {
         sessionId: user.sessionId || `user_${user.id}`,
         userId: user.id,
         isGuest: false,
+        channel: this.channelPolicyService.resolve(user.channel),
         expiresAt: new Date(Date.now() + 24 * 60 * 60 * 1000), // 24 hours
       };
     } else {
@@ -103,6 +177,7 @@ export class CartController {
     }
 
     const cart = await this.cartService.getOrCreateCart(sessionContext);
+    this.setEtag(res, cart);
     return this.cartService.getCartResponse(cart);
   }
 
@@ -111,12 +186,15 @@ export class CartController {
    */
   @Post('items')
   @HttpCode(HttpStatus.CREATED)
+  @Idempotent('cart.add-item')
   async addItem(
     @Headers('x-session-token') sessionToken: string,
     @Headers('x-test-user-id') testUserId?: string,
     @Headers('x-test-session-id') testSessionId?: string,
     @Body() addItemDto: AddItemDto,
-    @CurrentUser() user?: any
+    @CurrentUser() user?: any,
+    @Headers('if-match') ifMatch?: string,
+    @Res({ passthrough: true }) res?: Response
   ): Promise<CartResponseDto> {
     // Development mode: Allow userId/sessionId from headers
     let finalUserId: string | undefined;
@@ -137,10 +215,14 @@ export class CartController {
       };
 
       const cart = await this.cartService.getOrCreateCart(sessionContext);
-      await this.cartService.addItemToCart(cart.id, addItemDto);
+      const expectedVersion = await this.cartService.resolveExpectedVersion(cart, ifMatch);
+      await this.runUndoableWrite(cart.id, CartUndoAction.ADD_ITEM, () =>
+        this.cartService.addItemToCart(cart.id, addItemDto, expectedVersion)
+      );
 
       // Return updated cart
       const updatedCart = await this.cartService.getCartById(cart.id);
+      this.setEtag(res, updatedCart);
       return this.cartService.getCartResponse(updatedCart);
     }
 
@@ -157,6 +239,7 @@ export class CartController {
         sessionId: user.sessionId || `user_${user.id}`,
         userId: user.id,
         isGuest: false,
+        channel: this.channelPolicyService.resolve(user.channel),
         expiresAt: new Date(Date.now() + 24 * 60 * 60 * 1000), // 24 hours
       };
     } else {
@@ -168,10 +251,41 @@ export class CartController {
     }
 
     const cart = await this.cartService.getOrCreateCart(sessionContext);
-    await this.cartService.addItemToCart(cart.id, addItemDto);
+    const expectedVersion = await this.cartService.resolveExpectedVersion(cart, ifMatch);
+    await this.runUndoableWrite(cart.id, CartUndoAction.ADD_ITEM, () =>
+      this.cartService.addItemToCart(cart.id, addItemDto, expectedVersion)
+    );
 
     // Return updated cart
     const updatedCart = await this.cartService.getCartById(cart.id);
+    this.setEtag(res, updatedCart);
+    return this.cartService.getCartResponse(updatedCart);
+  }
+
+  /**
+   * Add a bundle to cart. The bundle line is then updated and removed
+   * through the item routes like any other line.
+   */
+  @Post('bundles')
+  @HttpCode(HttpStatus.CREATED)
+  @Idempotent('cart.add-bundle')
+  async addBundle(
+    @Headers('x-session-token') sessionToken: string,
+    @Body() addBundleDto: AddBundleDto,
+    @CurrentUser() user?: any,
+    @Headers('if-match') ifMatch?: string,
+    @Res({ passthrough: true }) res?: Response
+  ): Promise<CartResponseDto> {
+    const sessionContext = await this.resolveSessionContext(sessionToken, user);
+
+    const cart = await this.cartService.getOrCreateCart(sessionContext);
+    const expectedVersion = await this.cartService.resolveExpectedVersion(cart, ifMatch);
+    await this.runUndoableWrite(cart.id, CartUndoAction.ADD_BUNDLE, () =>
+      this.cartService.addBundleToCart(cart.id, addBundleDto, expectedVersion)
+    );
+
+    const updatedCart = await this.cartService.getCartById(cart.id);
+    this.setEtag(res, updatedCart);
     return this.cartService.getCartResponse(updatedCart);
   }
 
@@ -179,10 +293,13 @@ export class CartController {
    * Update cart item
    */
   @Patch('items/:itemId')
+  @Idempotent('cart.update-item')
   async updateItem(
     @Headers('x-session-token') sessionToken: string,
     @Param('itemId') itemId: string,
     @Body() updateItemDto: UpdateItemDto,
+    @Headers('if-match') ifMatch?: string,
+    @Res({ passthrough: true }) res?: Response,
   ): Promise<CartResponseDto> {
     if (!sessionToken) {
       throw new BadRequestException('Session token is required');
@@ -194,10 +311,101 @@ export class CartController {
     }
 
     const cart = await this.cartService.getOrCreateCart(sessionContext);
-    await this.cartService.updateCartItem(itemId, updateItemDto);
+    const expectedVersion = await this.cartService.resolveExpectedVersion(cart, ifMatch);
+    await this.runUndoableWrite(cart.id, CartUndoAction.UPDATE_ITEM, () =>
+      this.cartService.updateCartItem(itemId, updateItemDto, expectedVersion)
+    );
 
     // Return updated cart
     const updatedCart = await this.cartService.getCartById(cart.id);
+    this.setEtag(res, updatedCart);
+    return this.cartService.getCartResponse(updatedCart);
+  }
+
+  /**
+   * Set the customization of a cart line, merging it into another line that
+   * already has the same customization
+   */
+  @Patch('items/:itemId/customization')
+  async customizeItem(
+    @Headers('x-session-token') sessionToken: string,
+    @Param('itemId') itemId: string,
+    @Body() customizeItemDto: CustomizeItemDto,
+    @CurrentUser() user?: any,
+    @Headers('if-match') ifMatch?: string,
+    @Res({ passthrough: true }) res?: Response,
+  ): Promise<CartResponseDto> {
+    const sessionContext = await this.resolveSessionContext(sessionToken, user);
+
+    const cart = await this.cartService.getOrCreateCart(sessionContext);
+    const expectedVersion = await this.cartService.resolveExpectedVersion(cart, ifMatch);
+    await this.runUndoableWrite(cart.id, CartUndoAction.CUSTOMIZE_ITEM, () =>
+      this.itemManagerService.addItemCustomization(
+        itemId,
+        cart.id,
+        { itemId, customizations: customizeItemDto.customization },
+        sessionContext,
+        expectedVersion
+      )
+    );
+
+    const updatedCart = await this.cartService.getCartById(cart.id);
+    this.setEtag(res, updatedCart);
+    return this.cartService.getCartResponse(updatedCart);
+  }
+
+  /**
+   * Set gift wrap, message, receipt and recipient for a cart line
+   */
+  @Patch('items/:itemId/gift')
+  async setItemGiftOptions(
+    @Headers('x-session-token') sessionToken: string,
+    @Param('itemId') itemId: string,
+    @Body() giftOptionsDto: GiftOptionsDto,
+    @CurrentUser() user?: any,
+    @Headers('if-match') ifMatch?: string,
+    @Res({ passthrough: true }) res?: Response,
+  ): Promise<CartResponseDto> {
+    const sessionContext = await this.resolveSessionContext(sessionToken, user);
+
+    const cart = await this.cartService.getOrCreateCart(sessionContext);
+    const expectedVersion = await this.cartService.resolveExpectedVersion(cart, ifMatch);
+    await this.runConditionalWrite(cart.id, () =>
+      this.cartGiftService.setItemGiftOptions(cart.id, itemId, giftOptionsDto, expectedVersion)
+    );
+
+    const updatedCart = await this.cartService.getCartById(cart.id);
+    this.setEtag(res, updatedCart);
+    return this.cartService.getCartResponse(updatedCart);
+  }
+
+  /**
+   * Subscribe to a cart line at a frequency, or make it a one-time purchase
+   * again with an empty body
+   */
+  @Patch('items/:itemId/subscription')
+  async setItemSubscription(
+    @Headers('x-session-token') sessionToken: string,
+    @Param('itemId') itemId: string,
+    @Body() itemSubscriptionDto: ItemSubscriptionDto,
+    @CurrentUser() user?: any,
+    @Headers('if-match') ifMatch?: string,
+    @Res({ passthrough: true }) res?: Response,
+  ): Promise<CartResponseDto> {
+    const sessionContext = await this.resolveSessionContext(sessionToken, user);
+    const { every, unit } = itemSubscriptionDto;
+    const frequency = every !== undefined || unit !== undefined
+      ? { every: every as number, unit: unit as SubscriptionUnit }
+      : undefined;
+
+    const cart = await this.cartService.getOrCreateCart(sessionContext);
+    const expectedVersion = await this.cartService.resolveExpectedVersion(cart, ifMatch);
+    await this.runConditionalWrite(cart.id, () =>
+      this.itemManagerService.setItemSubscription(itemId, cart.id, frequency, expectedVersion)
+    );
+
+    const updatedCart = await this.cartService.getCartById(cart.id);
+    this.setEtag(res, updatedCart);
     return this.cartService.getCartResponse(updatedCart);
   }
 
@@ -209,6 +417,8 @@ export class CartController {
   async removeItem(
     @Headers('x-session-token') sessionToken: string,
     @Param('itemId') itemId: string,
+    @Headers('if-match') ifMatch?: string,
+    @Res({ passthrough: true }) res?: Response,
   ): Promise<void> {
     if (!sessionToken) {
       throw new BadRequestException('Session token is required');
@@ -219,7 +429,13 @@ export class CartController {
       throw new BadRequestException('Invalid or expired session');
     }
 
-    await this.cartService.removeItemFromCart(itemId);
+    const cart = await this.cartService.getOrCreateCart(sessionContext);
+    const expectedVersion = await this.cartService.resolveExpectedVersion(cart, ifMatch);
+    await this.runUndoableWrite(cart.id, CartUndoAction.REMOVE_ITEM, () =>
+      this.cartService.removeItemFromCart(itemId, expectedVersion)
+    );
+
+    this.setEtag(res, await this.cartService.getCartById(cart.id));
   }
 
   /**
@@ -227,7 +443,11 @@ export class CartController {
    */
   @Delete()
   @HttpCode(HttpStatus.NO_CONTENT)
-  async clearCart(@Headers('x-session-token') sessionToken: string): Promise<void> {
+  async clearCart(
+    @Headers('x-session-token') sessionToken: string,
+    @Headers('if-match') ifMatch?: string,
+    @Res({ passthrough: true }) res?: Response,
+  ): Promise<void> {
     if (!sessionToken) {
       throw new BadRequestException('Session token is required');
     }
@@ -238,7 +458,107 @@ export class CartController {
     }
 
     const cart = await this.cartService.getOrCreateCart(sessionContext);
-    await this.cartService.clearCart(cart.id);
+    const expectedVersion = await this.cartService.resolveExpectedVersion(cart, ifMatch);
+    await this.runUndoableWrite(cart.id, CartUndoAction.CLEAR_CART, () =>
+      this.cartService.clearCart(cart.id, expectedVersion)
+    );
+
+    this.setEtag(res, await this.cartService.getCartById(cart.id));
+  }
+
+  /**
+   * Change cart currency and reprice all items
+   */
+  @Patch('currency')
+  async changeCurrency(
+    @Headers('x-session-token') sessionToken: string,
+    @Body() changeCurrencyDto: ChangeCurrencyDto,
+    @CurrentUser() user?: any,
+    @Headers('if-match') ifMatch?: string,
+    @Res({ passthrough: true }) res?: Response
+  ): Promise<CartResponseDto> {
+    const sessionContext = await this.resolveSessionContext(sessionToken, user);
+
+    const cart = await this.cartService.getOrCreateCart(sessionContext);
+    const expectedVersion = await this.cartService.resolveExpectedVersion(cart, ifMatch);
+    const updatedCart = await this.runConditionalWrite(cart.id, () =>
+      this.cartService.changeCartCurrency(cart.id, changeCurrencyDto.currency, expectedVersion)
+    );
+
+    this.setEtag(res, updatedCart);
+    return this.cartService.getCartResponse(updatedCart);
+  }
+
+  /**
+   * Set gift options for the cart as a whole
+   */
+  @Patch('gift')
+  async setCartGiftOptions(
+    @Headers('x-session-token') sessionToken: string,
+    @Body() giftOptionsDto: GiftOptionsDto,
+    @CurrentUser() user?: any,
+    @Headers('if-match') ifMatch?: string,
+    @Res({ passthrough: true }) res?: Response
+  ): Promise<CartResponseDto> {
+    const sessionContext = await this.resolveSessionContext(sessionToken, user);
+
+    const cart = await this.cartService.getOrCreateCart(sessionContext);
+    const expectedVersion = await this.cartService.resolveExpectedVersion(cart, ifMatch);
+    await this.runConditionalWrite(cart.id, () =>
+      this.cartGiftService.setCartGiftOptions(cart.id, giftOptionsDto, expectedVersion)
+    );
+
+    const updatedCart = await this.cartService.getCartById(cart.id);
+    this.setEtag(res, updatedCart);
+    return this.cartService.getCartResponse(updatedCart);
+  }
+
+  /**
+   * Undo the last change to the cart
+   */
+  @Post('undo')
+  @HttpCode(HttpStatus.OK)
+  async undo(
+    @Headers('x-session-token') sessionToken: string,
+    @CurrentUser() user?: any,
+    @Headers('if-match') ifMatch?: string,
+    @Res({ passthrough: true }) res?: Response
+  ): Promise<CartUndoResponseDto> {
+    const sessionContext = await this.resolveSessionContext(sessionToken, user);
+
+    const cart = await this.cartService.getOrCreateCart(sessionContext);
+    const expectedVersion = await this.cartService.resolveExpectedVersion(cart, ifMatch);
+    const result = await this.runConditionalWrite(cart.id, () =>
+      this.cartUndoService.undo(cart.id, expectedVersion)
+    );
+
+    const updatedCart = await this.cartService.getCartById(cart.id);
+    this.setEtag(res, updatedCart);
+    return { ...result, cart: await this.cartService.getCartResponse(updatedCart) };
+  }
+
+  /**
+   * Redo the last undone change to the cart
+   */
+  @Post('redo')
+  @HttpCode(HttpStatus.OK)
+  async redo(
+    @Headers('x-session-token') sessionToken: string,
+    @CurrentUser() user?: any,
+    @Headers('if-match') ifMatch?: string,
+    @Res({ passthrough: true }) res?: Response
+  ): Promise<CartUndoResponseDto> {
+    const sessionContext = await this.resolveSessionContext(sessionToken, user);
+
+    const cart = await this.cartService.getOrCreateCart(sessionContext);
+    const expectedVersion = await this.cartService.resolveExpectedVersion(cart, ifMatch);
+    const result = await this.runConditionalWrite(cart.id, () =>
+      this.cartUndoService.redo(cart.id, expectedVersion)
+    );
+
+    const updatedCart = await this.cartService.getCartById(cart.id);
+    this.setEtag(res, updatedCart);
+    return { ...result, cart: await this.cartService.getCartResponse(updatedCart) };
   }
 
   /**
@@ -247,8 +567,9 @@ export class CartController {
   @Post('session')
   async createSession(
     @Headers('x-user-id') userId?: string,
+    @Headers('x-sales-channel') channel?: string,
   ): Promise<{ sessionToken: string; expiresAt: Date }> {
-    const result = await this.cartService.createSession(userId);
+    const result = await this.cartService.createSession(userId, this.channelPolicyService.resolve(channel));
     return result;
   }
 
@@ -257,10 +578,13 @@ export class CartController {
    */
   @Post('bulk/items')
   @HttpCode(HttpStatus.CREATED)
+  @Idempotent('cart.bulk-add')
   async addMultipleItems(
     @Headers('x-session-token') sessionToken: string,
     @Body() bulkOperationsDto: BulkOperationsDto,
-    @CurrentUser() user?: any
+    @CurrentUser() user?: any,
+    @Headers('if-match') ifMatch?: string,
+    @Res({ passthrough: true }) res?: Response
   ): Promise<BulkOperationsResponseDto> {
     if (!sessionToken && !user) {
       throw new BadRequestException('Session token or authentication required');
@@ -273,6 +597,7 @@ export class CartController {
         sessionId: user.sessionId || `user_${user.id}`,
         userId: user.id,
         isGuest: false,
+        channel: this.channelPolicyService.resolve(user.channel),
         expiresAt: new Date(Date.now() + 24 * 60 * 60 * 1000),
       };
     } else {
@@ -283,7 +608,80 @@ export class CartController {
     }
 
     const cart = await this.cartService.getOrCreateCart(sessionContext);
-    return this.bulkOperationsService.addMultipleItems(cart.id, bulkOperationsDto.items || [], sessionContext);
+    const expectedVersion = await this.cartService.resolveExpectedVersion(cart, ifMatch);
+    const result = await this.runUndoableWrite(cart.id, CartUndoAction.BULK_ADD, () =>
+      this.bulkOperationsService.addMultipleItems(cart.id, bulkOperationsDto.items || [], sessionContext, expectedVersion)
+    );
+
+    this.setEtag(res, await this.cartService.getCartById(cart.id));
+    return result;
+  }
+
+  /**
+   * Import a CSV or JSON list of products into the cart, reporting on
+   * every row
+   */
+  @Post('import')
+  @HttpCode(HttpStatus.OK)
+  @Idempotent('cart.import')
+  async importItems(
+    @Headers('x-session-token') sessionToken: string,
+    @Body() importCartDto: ImportCartDto,
+    @CurrentUser() user?: any,
+    @Headers('if-match') ifMatch?: string,
+    @Res({ passthrough: true }) res?: Response
+  ): Promise<CartImportResponseDto> {
+    const sessionContext = await this.resolveSessionContext(sessionToken, user);
+
+    const cart = await this.cartService.getOrCreateCart(sessionContext);
+    const expectedVersion = await this.cartService.resolveExpectedVersion(cart, ifMatch);
+    const result = await this.runUndoableWrite(cart.id, CartUndoAction.IMPORT, () =>
+      this.cartImportService.importItems(cart.id, importCartDto, expectedVersion)
+    );
+
+    const updatedCart = await this.cartService.getCartById(cart.id);
+    this.setEtag(res, updatedCart);
+    return { ...result, cart: await this.cartService.getCartResponse(updatedCart) };
+  }
+
+  /**
+   * Export the cart's lines with current prices as JSON or CSV
+   */
+  @Get('export')
+  async exportCart(
+    @Headers('x-session-token') sessionToken: string,
+    @Query() query: CartExportQueryDto,
+    @CurrentUser() user?: any,
+    @Res({ passthrough: true }) res?: Response
+  ): Promise<CartExportDto | string> {
+    const sessionContext = await this.resolveSessionContext(sessionToken, user);
+
+    const cart = await this.cartService.getOrCreateCart(sessionContext);
+    const cartExport = await this.cartImportService.exportCart(cart.id);
+
+    if (query.format !== 'csv') {
+      return cartExport;
+    }
+
+    res?.setHeader('Content-Type', 'text/csv; charset=utf-8');
+    res?.setHeader('Content-Disposition', `attachment; filename="cart-${cart.id}.csv"`);
+    return this.cartImportService.toCsv(cartExport);
+  }
+
+  /**
+   * "Complete your cart": in-stock products frequently bought together with
+   * the cart's lines
+   */
+  @Get('recommendations')
+  async getCartRecommendations(
+    @Headers('x-session-token') sessionToken: string,
+    @Query('limit') limit?: number,
+    @CurrentUser() user?: any
+  ): Promise<ProductRecommendation[]> {
+    const sessionContext = await this.resolveSessionContext(sessionToken, user);
+
+    const cart = await this.cartService.getOrCreateCart(sessionContext);
+    return this.recommendationService.completeCart(cart, limit);
   }
 
   /**
@@ -293,7 +691,9 @@ export class CartController {
   async removeMultipleItems(
     @Headers('x-session-token') sessionToken: string,
     @Body() bulkOperationsDto: BulkOperationsDto,
-    @CurrentUser() user?: any
+    @CurrentUser() user?: any,
+    @Headers('if-match') ifMatch?: string,
+    @Res({ passthrough: true }) res?: Response
   ): Promise<BulkOperationsResponseDto> {
     if (!sessionToken && !user) {
       throw new BadRequestException('Session token or authentication required');
@@ -306,6 +706,7 @@ export class CartController {
         sessionId: user.sessionId || `user_${user.id}`,
         userId: user.id,
         isGuest: false,
+        channel: this.channelPolicyService.resolve(user.channel),
         expiresAt: new Date(Date.now() + 24 * 60 * 60 * 1000),
       };
     } else {
@@ -316,26 +717,44 @@ export class CartController {
     }
 
     const cart = await this.cartService.getOrCreateCart(sessionContext);
-    return this.bulkOperationsService.removeMultipleItems(cart.id, bulkOperationsDto.itemIds || [], sessionContext);
+    const expectedVersion = await this.cartService.resolveExpectedVersion(cart, ifMatch);
+    const result = await this.runUndoableWrite(cart.id, CartUndoAction.BULK_REMOVE, () =>
+      this.bulkOperationsService.removeMultipleItems(cart.id, bulkOperationsDto.itemIds || [], sessionContext, expectedVersion)
+    );
+
+    this.setEtag(res, await this.cartService.getCartById(cart.id));
+    return result;
   }
 
   /**
    * Merge guest cart with user cart
    */
   @Post('merge')
+  @Idempotent('cart.merge')
   async mergeCarts(
     @Body() mergeDto: { guestCartId: string; userCartId: string; mergeOptions: CartMergeDto },
-    @CurrentUser() user: any
+    @CurrentUser() user: any,
+    @Headers('if-match') ifMatch?: string,
+    @Res({ passthrough: true }) res?: Response
   ): Promise<CartMergeResponseDto> {
     if (!user) {
       throw new BadRequestException('Authentication required for cart merging');
     }
 
-    return this.cartMergerService.mergeCarts(
-      mergeDto.guestCartId,
-      mergeDto.userCartId,
-      mergeDto.mergeOptions
+    // If-Match applies to the user cart, which is the one being written
+    const userCart = await this.cartService.getCartById(mergeDto.userCartId);
+    const expectedVersion = await this.cartService.resolveExpectedVersion(userCart, ifMatch);
+    const result = await this.runUndoableWrite(userCart.id, CartUndoAction.MERGE, () =>
+      this.cartMergerService.mergeCarts(
+        mergeDto.guestCartId,
+        mergeDto.userCartId,
+        mergeDto.mergeOptions,
+        expectedVersion
+      )
     );
+
+    this.setEtag(res, await this.cartService.getCartById(userCart.id));
+    return result;
   }
 
   /**
@@ -365,7 +784,9 @@ export class CartController {
     @Param('itemId') itemId: string,
     @Headers('x-session-token') sessionToken: string,
     @Body() body: { notes?: string },
-    @CurrentUser() user?: any
+    @CurrentUser() user?: any,
+    @Headers('if-match') ifMatch?: string,
+    @Res({ passthrough: true }) res?: Response
   ) {
     if (!sessionToken && !user) {
       throw new BadRequestException('Session token or authentication required');
@@ -378,6 +799,7 @@ export class CartController {
         sessionId: user.sessionId || `user_${user.id}`,
         userId: user.id,
         isGuest: false,
+        channel: this.channelPolicyService.resolve(user.channel),
         expiresAt: new Date(Date.now() + 24 * 60 * 60 * 1000),
       };
     } else {
@@ -388,7 +810,487 @@ export class CartController {
     }
 
     const cart = await this.cartService.getOrCreateCart(sessionContext);
-    return this.itemManagerService.moveToSavedForLater(itemId, cart.id, sessionContext, body.notes);
+    const expectedVersion = await this.cartService.resolveExpectedVersion(cart, ifMatch);
+    const savedItem = await this.runUndoableWrite(cart.id, CartUndoAction.SAVE_FOR_LATER, () =>
+      this.itemManagerService.moveToSavedForLater(itemId, cart.id, sessionContext, body.notes, expectedVersion)
+    );
+
+    this.setEtag(res, await this.cartService.getCartById(cart.id));
+    return savedItem;
+  }
+
+  /**
+   * List the caller's saved-for-later items, most recently saved first
+   */
+  @Get('saved')
+  async getSavedItems(
+    @Headers('x-session-token') sessionToken: string,
+    @Query() query: SavedItemsQueryDto,
+    @CurrentUser() user?: any,
+    @Res({ passthrough: true }) res?: Response
+  ): Promise<SavedItem[]> {
+    const sessionContext = await this.resolveSessionContext(sessionToken, user);
+
+    const page = await this.itemManagerService.getSavedItems(sessionContext, query.limit, query.offset);
+    res?.setHeader('X-Total-Count', String(page.total));
+    res?.setHeader('X-Page-Limit', String(page.limit));
+    res?.setHeader('X-Page-Offset', String(page.offset));
+    return page.items;
+  }
+
+  /**
+   * Move a saved item back into the active cart at its current price
+   */
+  @Post('saved/:savedItemId/restore')
+  async restoreSavedItem(
+    @Headers('x-session-token') sessionToken: string,
+    @Param('savedItemId') savedItemId: string,
+    @CurrentUser() user?: any,
+    @Headers('if-match') ifMatch?: string,
+    @Res({ passthrough: true }) res?: Response
+  ): Promise<CartResponseDto> {
+    const sessionContext = await this.resolveSessionContext(sessionToken, user);
+
+    const cart = await this.cartService.getOrCreateCart(sessionContext);
+    const expectedVersion = await this.cartService.resolveExpectedVersion(cart, ifMatch);
+    await this.runConditionalWrite(cart.id, () =>
+      this.itemManagerService.restoreFromSavedForLater(savedItemId, cart.id, sessionContext, expectedVersion)
+    );
+
+    const updatedCart = await this.cartService.getCartById(cart.id);
+    this.setEtag(res, updatedCart);
+    return this.cartService.getCartResponse(updatedCart);
+  }
+
+  /**
+   * Delete a saved item
+   */
+  @Delete('saved/:savedItemId')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  async removeSavedItem(
+    @Headers('x-session-token') sessionToken: string,
+    @Param('savedItemId') savedItemId: string,
+    @CurrentUser() user?: any
+  ): Promise<void> {
+    const sessionContext = await this.resolveSessionContext(sessionToken, user);
+    await this.itemManagerService.removeSavedItem(savedItemId, sessionContext);
+  }
+
+  /**
+   * List the caller's named carts
+   */
+  @Get('carts')
+  async listCarts(
+    @Headers('x-session-token') sessionToken: string,
+    @Query('includeArchived') includeArchived?: string,
+    @CurrentUser() user?: any
+  ): Promise<CartSummaryDto[]> {
+    const sessionContext = await this.resolveSessionContext(sessionToken, user);
+    return this.namedCartsService.listCarts(sessionContext, includeArchived === 'true');
+  }
+
+  /**
+   * Create a named cart
+   */
+  @Post('carts')
+  @HttpCode(HttpStatus.CREATED)
+  async createNamedCart(
+    @Headers('x-session-token') sessionToken: string,
+    @Body() createNamedCartDto: CreateNamedCartDto,
+    @CurrentUser() user?: any
+  ): Promise<CartSummaryDto> {
+    const sessionContext = await this.resolveSessionContext(sessionToken, user);
+    return this.namedCartsService.createCart(sessionContext, createNamedCartDto);
+  }
+
+  /**
+   * Rename a cart
+   */
+  @Patch('carts/:cartId')
+  async renameCart(
+    @Headers('x-session-token') sessionToken: string,
+    @Param('cartId') cartId: string,
+    @Body() renameCartDto: RenameCartDto,
+    @CurrentUser() user?: any
+  ): Promise<CartSummaryDto> {
+    const sessionContext = await this.resolveSessionContext(sessionToken, user);
+    return this.namedCartsService.renameCart(sessionContext, cartId, renameCartDto.name);
+  }
+
+  /**
+   * Switch the active cart used by all /cart routes
+   */
+  @Post('carts/:cartId/activate')
+  @HttpCode(HttpStatus.OK)
+  async activateCart(
+    @Headers('x-session-token') sessionToken: string,
+    @Param('cartId') cartId: string,
+    @CurrentUser() user?: any
+  ): Promise<CartSummaryDto> {
+    const sessionContext = await this.resolveSessionContext(sessionToken, user);
+    return this.namedCartsService.activateCart(sessionContext, cartId);
+  }
+
+  /**
+   * Archive a cart
+   */
+  @Post('carts/:cartId/archive')
+  @HttpCode(HttpStatus.OK)
+  async archiveCart(
+    @Headers('x-session-token') sessionToken: string,
+    @Param('cartId') cartId: string,
+    @CurrentUser() user?: any
+  ): Promise<CartSummaryDto> {
+    const sessionContext = await this.resolveSessionContext(sessionToken, user);
+    return this.namedCartsService.archiveCart(sessionContext, cartId);
+  }
+
+  /**
+   * Delete a cart
+   */
+  @Delete('carts/:cartId')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  async deleteNamedCart(
+    @Headers('x-session-token') sessionToken: string,
+    @Param('cartId') cartId: string,
+    @CurrentUser() user?: any
+  ): Promise<void> {
+    const sessionContext = await this.resolveSessionContext(sessionToken, user);
+    await this.namedCartsService.deleteCart(sessionContext, cartId);
+  }
+
+  /**
+   * Move or copy items into another cart
+   */
+  @Post('carts/:cartId/transfer')
+  @HttpCode(HttpStatus.OK)
+  async transferItems(
+    @Headers('x-session-token') sessionToken: string,
+    @Param('cartId') cartId: string,
+    @Body() transferItemsDto: TransferItemsDto,
+    @CurrentUser() user?: any,
+    @Headers('if-match') ifMatch?: string
+  ): Promise<TransferItemsResponseDto> {
+    const sessionContext = await this.resolveSessionContext(sessionToken, user);
+    return this.namedCartsService.transferItems(sessionContext, cartId, transferItemsDto, ifMatch);
+  }
+
+  /**
+   * Create a share link for a cart
+   */
+  @Post('shares')
+  @HttpCode(HttpStatus.CREATED)
+  async createShare(
+    @Headers('x-session-token') sessionToken: string,
+    @Body() createCartShareDto: CreateCartShareDto,
+    @CurrentUser() user?: any
+  ): Promise<CartShareResponseDto> {
+    const sessionContext = await this.resolveSessionContext(sessionToken, user);
+    return this.cartSharingService.createShare(sessionContext, createCartShareDto);
+  }
+
+  /**
+   * List the caller's share links with view and clone counts
+   */
+  @Get('shares')
+  async listShares(
+    @Headers('x-session-token') sessionToken: string,
+    @Query('cartId') cartId?: string,
+    @CurrentUser() user?: any
+  ): Promise<CartShareResponseDto[]> {
+    const sessionContext = await this.resolveSessionContext(sessionToken, user);
+    return this.cartSharingService.listShares(sessionContext, cartId);
+  }
+
+  /**
+   * Revoke a share link
+   */
+  @Delete('shares/:shareId')
+  async revokeShare(
+    @Headers('x-session-token') sessionToken: string,
+    @Param('shareId') shareId: string,
+    @CurrentUser() user?: any
+  ): Promise<CartShareResponseDto> {
+    const sessionContext = await this.resolveSessionContext(sessionToken, user);
+    return this.cartSharingService.revokeShare(sessionContext, shareId);
+  }
+
+  /**
+   * Read-only view of a shared cart
+   */
+  @Public()
+  @Get('shared/:token')
+  async getSharedCart(@Param('token') token: string): Promise<SharedCartViewDto> {
+    return this.cartSharingService.getSharedCart(token);
+  }
+
+  /**
+   * Copy a shared cart's items into the caller's active cart
+   */
+  @Post('shared/:token/clone')
+  @HttpCode(HttpStatus.OK)
+  async cloneSharedCart(
+    @Headers('x-session-token') sessionToken: string,
+    @Param('token') token: string,
+    @Body() mergeOptions: CartMergeDto,
+    @CurrentUser() user?: any,
+    @Headers('if-match') ifMatch?: string,
+    @Res({ passthrough: true }) res?: Response
+  ): Promise<CloneSharedCartResponseDto> {
+    const sessionContext = await this.resolveSessionContext(sessionToken, user);
+
+    const cart = await this.cartService.getOrCreateCart(sessionContext);
+    const expectedVersion = await this.cartService.resolveExpectedVersion(cart, ifMatch);
+    const result = await this.runUndoableWrite(cart.id, CartUndoAction.CLONE_SHARED_CART, () =>
+      this.cartSharingService.cloneSharedCart(token, cart.id, mergeOptions, expectedVersion)
+    );
+
+    this.setEtag(res, await this.cartService.getCartById(cart.id));
+    return result;
+  }
+
+  /**
+   * Request a quote for one of the caller's carts
+   */
+  @Post('quotes')
+  @HttpCode(HttpStatus.CREATED)
+  @Idempotent('cart.quote')
+  async requestQuote(
+    @Headers('x-session-token') sessionToken: string,
+    @Body() requestQuoteDto: RequestQuoteDto,
+    @CurrentUser() user?: any
+  ): Promise<QuoteResponseDto> {
+    const sessionContext = await this.resolveSessionContext(sessionToken, user);
+    return this.cartQuotesService.requestQuote(sessionContext, requestQuoteDto);
+  }
+
+  /**
+   * List the caller's quotes
+   */
+  @Get('quotes')
+  async listQuotes(
+    @Headers('x-session-token') sessionToken: string,
+    @CurrentUser() user?: any
+  ): Promise<QuoteResponseDto[]> {
+    const sessionContext = await this.resolveSessionContext(sessionToken, user);
+    return this.cartQuotesService.listQuotes(sessionContext);
+  }
+
+  /**
+   * Quotes waiting on sales, requested ones by default (sales staff)
+   */
+  @Get('quotes/review')
+  @Roles('admin', 'sales')
+  async listQuotesForReview(@Query() query: QuoteReviewQueryDto): Promise<QuoteResponseDto[]> {
+    return this.cartQuotesService.listForReview(query.status);
+  }
+
+  /**
+   * Reprice and discount a quote and start its validity period (sales staff)
+   */
+  @Post('quotes/:quoteId/offer')
+  @Roles('admin', 'sales')
+  @HttpCode(HttpStatus.OK)
+  async offerQuote(
+    @Param('quoteId') quoteId: string,
+    @Body() quoteOfferDto: QuoteOfferDto,
+    @CurrentUser() user?: any
+  ): Promise<QuoteResponseDto> {
+    return this.cartQuotesService.makeOffer(quoteId, quoteOfferDto, user?.id);
+  }
+
+  /**
+   * One of the caller's quotes
+   */
+  @Get('quotes/:quoteId')
+  async getQuote(
+    @Headers('x-session-token') sessionToken: string,
+    @Param('quoteId') quoteId: string,
+    @CurrentUser() user?: any
+  ): Promise<QuoteResponseDto> {
+    const sessionContext = await this.resolveSessionContext(sessionToken, user);
+    return this.cartQuotesService.getQuote(sessionContext, quoteId);
+  }
+
+  /**
+   * Accept a quote, converting it into a new current cart at the quoted prices
+   */
+  @Post('quotes/:quoteId/accept')
+  @HttpCode(HttpStatus.OK)
+  @Idempotent('cart.quote.accept')
+  async acceptQuote(
+    @Headers('x-session-token') sessionToken: string,
+    @Param('quoteId') quoteId: string,
+    @CurrentUser() user?: any,
+    @Res({ passthrough: true }) res?: Response
+  ): Promise<AcceptQuoteResponseDto> {
+    const sessionContext = await this.resolveSessionContext(sessionToken, user);
+    const { quote, cart } = await this.cartQuotesService.acceptQuote(sessionContext, quoteId);
+
+    this.setEtag(res, cart);
+    return { quote, cart: await this.cartService.getCartResponse(cart) };
+  }
+
+  /**
+   * Reject a quote, or withdraw a request that has not been quoted yet
+   */
+  @Post('quotes/:quoteId/reject')
+  @HttpCode(HttpStatus.OK)
+  async rejectQuote(
+    @Headers('x-session-token') sessionToken: string,
+    @Param('quoteId') quoteId: string,
+    @CurrentUser() user?: any
+  ): Promise<QuoteResponseDto> {
+    const sessionContext = await this.resolveSessionContext(sessionToken, user);
+    return this.cartQuotesService.rejectQuote(sessionContext, quoteId);
+  }
+
+  /**
+   * Changes recorded for any cart between two timestamps (support staff)
+   */
+  @Get('history/:cartId')
+  @Roles('admin', 'support')
+  async getCartChanges(
+    @Param('cartId') cartId: string,
+    @Query() query: CartChangesQueryDto
+  ): Promise<CartChangesResponseDto> {
+    return this.cartHistoryService.listChanges(
+      cartId,
+      new Date(query.from),
+      query.to ? new Date(query.to) : undefined
+    );
+  }
+
+  /**
+   * Any cart rebuilt as of a timestamp from its event log (support staff)
+   */
+  @Get('history/:cartId/state')
+  @Roles('admin', 'support')
+  async getCartStateAt(
+    @Param('cartId') cartId: string,
+    @Query() query: CartStateQueryDto
+  ): Promise<CartStateAt> {
+    return this.cartHistoryService.getCartStateAt(cartId, new Date(query.at));
+  }
+
+  /**
+   * Move any cart to another status, subject to the lifecycle transition
+   * table (admin)
+   */
+  @Post('lifecycle/:cartId/status')
+  @Roles('admin')
+  @HttpCode(HttpStatus.OK)
+  async changeCartStatus(
+    @Param('cartId') cartId: string,
+    @Body() dto: ChangeCartStatusDto
+  ): Promise<CartResponseDto> {
+    const cart = await this.cartLifecycleService.transition(cartId, dto.status, CartActor.ADMIN, {
+      reason: dto.reason
+    });
+    return this.cartService.getCartResponse(cart);
+  }
+
+  /**
+   * A customer's open carts (support agents)
+   */
+  @Get('assist/users/:userId/carts')
+  @Roles('admin', 'support')
+  async listCustomerCarts(
+    @Param('userId') userId: string,
+    @Query() query: AgentReasonDto,
+    @CurrentUser() user: any,
+    @Ip() ip: string,
+    @Headers('user-agent') userAgent?: string
+  ): Promise<CartSummaryDto[]> {
+    return this.assistedCartService.listCustomerCarts(this.toAgentContext(user, ip, userAgent), userId, query.reason);
+  }
+
+  /**
+   * A customer's cart as the customer sees it (support agents)
+   */
+  @Get('assist/carts/:cartId')
+  @Roles('admin', 'support')
+  async viewCustomerCart(
+    @Param('cartId') cartId: string,
+    @Query() query: AgentReasonDto,
+    @CurrentUser() user: any,
+    @Ip() ip: string,
+    @Headers('user-agent') userAgent?: string
+  ): Promise<CartResponseDto> {
+    return this.assistedCartService.viewCart(this.toAgentContext(user, ip, userAgent), cartId, query.reason);
+  }
+
+  /**
+   * Add a line to a customer's cart (support agents)
+   */
+  @Post('assist/carts/:cartId/items')
+  @Roles('admin', 'support')
+  @HttpCode(HttpStatus.CREATED)
+  async addCustomerCartItem(
+    @Param('cartId') cartId: string,
+    @Body() dto: AssistedAddItemDto,
+    @CurrentUser() user: any,
+    @Ip() ip: string,
+    @Headers('user-agent') userAgent?: string
+  ): Promise<CartResponseDto> {
+    return this.assistedCartService.addItem(this.toAgentContext(user, ip, userAgent), cartId, dto);
+  }
+
+  /**
+   * Remove a line from a customer's cart (support agents)
+   */
+  @Delete('assist/carts/:cartId/items/:itemId')
+  @Roles('admin', 'support')
+  async removeCustomerCartItem(
+    @Param('cartId') cartId: string,
+    @Param('itemId') itemId: string,
+    @Query() query: AgentReasonDto,
+    @CurrentUser() user: any,
+    @Ip() ip: string,
+    @Headers('user-agent') userAgent?: string
+  ): Promise<CartResponseDto> {
+    return this.assistedCartService.removeItem(this.toAgentContext(user, ip, userAgent), cartId, itemId, query.reason);
+  }
+
+  /**
+   * Set or reset the price of a line in a customer's cart (support agents)
+   */
+  @Patch('assist/carts/:cartId/items/:itemId/price')
+  @Roles('admin', 'support')
+  async repriceCustomerCartItem(
+    @Param('cartId') cartId: string,
+    @Param('itemId') itemId: string,
+    @Body() dto: AssistedRepriceItemDto,
+    @CurrentUser() user: any,
+    @Ip() ip: string,
+    @Headers('user-agent') userAgent?: string
+  ): Promise<CartResponseDto> {
+    return this.assistedCartService.repriceItem(this.toAgentContext(user, ip, userAgent), cartId, itemId, dto);
+  }
+
+  /**
+   * Notify the customer that their prepared cart is ready (support agents)
+   */
+  @Post('assist/carts/:cartId/send')
+  @Roles('admin', 'support')
+  @HttpCode(HttpStatus.OK)
+  async sendCustomerCart(
+    @Param('cartId') cartId: string,
+    @Body() dto: SendAssistedCartDto,
+    @CurrentUser() user: any,
+    @Ip() ip: string,
+    @Headers('user-agent') userAgent?: string
+  ): Promise<SendAssistedCartResponseDto> {
+    return this.assistedCartService.sendCart(this.toAgentContext(user, ip, userAgent), cartId, dto);
+  }
+
+  /**
+   * What agents have done with a cart (support agents)
+   */
+  @Get('assist/carts/:cartId/audit')
+  @Roles('admin', 'support')
+  getAssistedCartAudit(@Param('cartId') cartId: string): AuditEntry[] {
+    return this.assistedCartService.getAuditTrail(cartId);
   }
 
   /**
@@ -410,6 +1312,7 @@ export class CartController {
         sessionId: user.sessionId || `user_${user.id}`,
         userId: user.id,
         isGuest: false,
+        channel: this.channelPolicyService.resolve(user.channel),
         expiresAt: new Date(Date.now() + 24 * 60 * 60 * 1000),
       };
     } else {
@@ -561,4 +1464,66 @@ export class CartController {
       throw new BadRequestException('Failed to fetch sessions with carts');
     }
   }
+
+  /**
+   * Build the session context from the authenticated user or the guest
+   * session token
+   */
+  private async resolveSessionContext(sessionToken: string, user?: any): Promise<SessionContext> {
+    if (!sessionToken && !user) {
+      throw new BadRequestException('Session token or authentication required');
+    }
+
+    if (user) {
+      return {
+        sessionId: user.sessionId || `user_${user.id}`,
+        userId: user.id,
+        isGuest: false,
+        channel: this.channelPolicyService.resolve(user.channel),
+        expiresAt: new Date(Date.now() + 24 * 60 * 60 * 1000),
+      };
+    }
+
+    const sessionContext = await this.cartService.getSessionContext(sessionToken);
+    if (!sessionContext) {
+      throw new BadRequestException('Invalid or expired session');
+    }
+    return sessionContext;
+  }
+
+  /**
+   * Run a cart write, turning a version conflict detected inside the write
+   * into a 412 that carries the current cart
+   */
+  private async runConditionalWrite<T>(cartId: string, write: () => Promise<T>): Promise<T> {
+    try {
+      return await write();
+    } catch (error) {
+      if (error instanceof CartServiceError && error.code === 'CART_VERSION_CONFLICT') {
+        throw await this.cartService.createVersionConflict(cartId);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Run a cart write as a customer action that can be undone
+   */
+  private async runUndoableWrite<T>(cartId: string, action: CartUndoAction, write: () => Promise<T>): Promise<T> {
+    return this.runConditionalWrite(cartId, () => this.cartUndoService.record(cartId, action, write));
+  }
+
+  /**
+   * The agent behind an assisted-cart request, for the audit trail
+   */
+  private toAgentContext(user: any, ipAddress: string, userAgent?: string): AgentContext {
+    return { agentId: user.id, ipAddress, userAgent };
+  }
+
+  /**
+   * Expose the cart version as an ETag
+   */
+  private setEtag(res: Response | undefined, cart: Cart): void {
+    res?.setHeader('ETag', this.cartService.getCartEtag(cart));
+  }
 }
@@ -4,34 +4,75 @@ import { CartService } from './cart.service';
 import { BulkOperationsService } from './operations/bulk-operations.service';
 import { CartMergerService } from './operations/cart-merger.service';
 import { ItemManagerService } from './operations/item-manager.service';
+import { NamedCartsService } from './operations/named-carts.service';
+import { CartSharingService } from './operations/cart-sharing.service';
+import { CartHistoryService } from './operations/cart-history.service';
+import { CartUndoService } from './operations/cart-undo.service';
+import { CartLifecycleService } from './operations/cart-lifecycle.service';
+import { CartImportService } from './operations/cart-import.service';
+import { CartQuotesService } from './operations/cart-quotes.service';
+import { CartGiftService } from './operations/cart-gift.service';
+import { AssistedCartService } from './operations/assisted-cart.service';
 import { CartValidatorService } from './validation/cart-validator.service';
 import { ItemValidatorService } from './validation/item-validator.service';
 import { PricingEngineService } from '../services/pricing-engine.service';
 import { DiscountService } from '../services/discount.service';
 import { TaxService } from '../services/tax.service';
 import { PromotionService } from '../services/promotion.service';
+import { GiftOptionsService } from '../services/gift-options.service';
+import { SubscriptionPolicyService } from '../services/subscription-policy.service';
+import { SavedItemAlertsService } from '../services/saved-item-alerts.service';
+import { SavedItemAlertsJob } from '../jobs/saved-item-alerts.job';
 import { DatabaseModule } from '../database/database.module';
+import { ProductIntegrationModule } from '../product-integration/product-integration.module';
+import { CurrencyModule } from '../currency/currency.module';
+import { RulesModule } from '../rules/rules.module';
+import { EventsModule } from '../events/events.module';
+import { NotificationModule } from '../notifications/notification.module';
+import { MonitoringModule } from '../monitoring/monitoring.module';
 
 @Module({
-  imports: [DatabaseModule],
+  imports: [DatabaseModule, ProductIntegrationModule, CurrencyModule, RulesModule, EventsModule, NotificationModule, MonitoringModule],
   controllers: [CartController],
   providers: [
     CartService,
     BulkOperationsService,
     CartMergerService,
     ItemManagerService,
+    NamedCartsService,
+    CartSharingService,
+    CartHistoryService,
+    CartUndoService,
+    CartLifecycleService,
+    CartImportService,
+    CartQuotesService,
+    CartGiftService,
+    AssistedCartService,
     CartValidatorService,
     ItemValidatorService,
     PricingEngineService,
     DiscountService,
     TaxService,
     PromotionService,
+    GiftOptionsService,
+    SubscriptionPolicyService,
+    SavedItemAlertsService,
+    SavedItemAlertsJob,
   ],
   exports: [
     CartService,
     BulkOperationsService,
     CartMergerService,
     ItemManagerService,
+    NamedCartsService,
+    CartSharingService,
+    CartHistoryService,
+    CartUndoService,
+    CartLifecycleService,
+    CartImportService,
+    CartQuotesService,
+    CartGiftService,
+    AssistedCartService,
     CartValidatorService,
     ItemValidatorService,
   ],
@@ -1,6 +1,13 @@
-import { Injectable, Logger, NotFoundException } from '@nestjs/common';
+import { Injectable, Logger, NotFoundException, PreconditionFailedException } from '@nestjs/common';
 import { DatabaseService } from '../database/database.service';
 import { PricingEngineService } from '../services/pricing-engine.service';
+import { PricingService } from '../services/pricing.service';
+import { CustomizationService } from '../services/customization.service';
+import { QuantityRulesService } from '../services/quantity-rules.service';
+import { PriceLockService } from '../services/price-lock.service';
+import { InventoryService } from '../services/inventory.service';
+import { CurrencyService } from '../currency/currency.service';
+import { CartLifecycleService } from './operations/cart-lifecycle.service';
 import { 
   Cart, 
   CartItem, 
@@ -9,9 +16,16 @@ import {
   CartResponseDto, 
   CartItemResponseDto, 
   CartTotalsDto,
+  ItemPriceDto,
+  BundlePriceDto,
+  PricedLineDto,
   SessionContext,
-  CartServiceError 
+  CartServiceError,
+  CartStatus
 } from '../types/cart.types';
+import { Currency } from '../types/pricing.types';
+import { SalesChannel } from '../types/channel.types';
+import { AddBundleDto } from './dto/add-bundle.dto';
 
 @Injectable()
 export class CartService {
@@ -19,7 +33,14 @@ export class CartService {
 
   constructor(
     private readonly databaseService: DatabaseService,
-    private readonly pricingEngineService: PricingEngineService
+    private readonly pricingEngineService: PricingEngineService,
+    private readonly pricingService: PricingService,
+    private readonly customizationService: CustomizationService,
+    private readonly quantityRulesService: QuantityRulesService,
+    private readonly currencyService: CurrencyService,
+    private readonly cartLifecycleService: CartLifecycleService,
+    private readonly priceLockService: PriceLockService,
+    private readonly inventoryService: InventoryService
   ) {}
 
   /**
@@ -29,7 +50,16 @@ export class CartService {
     try {
       this.logger.log(`Getting cart for session: ${sessionContext.sessionId}`);
       
-      const cart = await this.databaseService.getOrCreateCart(sessionContext);
+      let cart = await this.databaseService.getOrCreateCart(
+        sessionContext,
+        this.currencyService.getStoreCurrency(),
+        true
+      );
+      
+      // A cart the idle sweep abandoned comes back when its customer does
+      if (cart.status === CartStatus.ABANDONED) {
+        cart = await this.cartLifecycleService.recoverAbandonedCart(cart);
+      }
       
       this.logger.log(`Cart retrieved/created: ${cart.id}`);
       return cart;
@@ -67,15 +97,23 @@ export class CartService {
   /**
    * Add item to cart
    */
-  async addItemToCart(cartId: string, addItemDto: AddItemDto): Promise<CartItem> {
+  async addItemToCart(cartId: string, addItemDto: AddItemDto, expectedVersion?: number): Promise<CartItem> {
     try {
       this.logger.log(`Adding item to cart: ${cartId}`, addItemDto);
       
       // Validate cart exists
-      await this.getCartById(cartId);
+      const cart = await this.getCartById(cartId);
+      const { pricing, customization, fulfillment } = await this.prepareLine(cart, addItemDto);
       
-      // Add item to cart
-      const cartItem = await this.databaseService.addItemToCart(cartId, addItemDto);
+      // Add item to cart; it merges only into a line with the same customization
+      const cartItem = await this.databaseService.addItemToCart(
+        cartId,
+        addItemDto,
+        pricing,
+        expectedVersion,
+        customization,
+        fulfillment
+      );
       
       this.logger.log(`Item added to cart: ${cartItem.id}`);
       return cartItem;
@@ -87,14 +125,144 @@ export class CartService {
     }
   }
 
+  /**
+   * Price a line for adding to a cart and check it the way every add is
+   * checked: customization, quantity rules and stock
+   */
+  async prepareLine(cart: Cart, addItemDto: AddItemDto): Promise<PricedLineDto> {
+    // Resolve the current price in the cart currency before writing the
+    // line, validating any customization and adding its surcharge
+    const { pricing, customization } = await this.customizationService.priceLine(
+      addItemDto.productId,
+      addItemDto.variantId,
+      addItemDto.customization,
+      cart.currency,
+      cart.channel
+    );
+    
+    // The product's quantity rules apply to the line as it will be once
+    // the quantity is merged in
+    const existingLine = cart.items.find(item =>
+      item.productId === addItemDto.productId &&
+      (item.variantId || undefined) === (addItemDto.variantId || undefined) &&
+      !item.bundleId &&
+      !item.parentItemId &&
+      (item.customizationFingerprint || '') === (customization?.fingerprint ?? '')
+    );
+    const lineQuantity = (existingLine?.quantity || 0) + (addItemDto.quantity || 1);
+    await this.quantityRulesService.assertLineQuantity(
+      addItemDto.productId,
+      lineQuantity,
+      cart.items,
+      existingLine?.id,
+      { userId: cart.userId, cartId: cart.id }
+    );
+    
+    // Stock short of the line is accepted only for back-order and pre-order products
+    const fulfillment = await this.inventoryService.resolveAvailability(
+      addItemDto.productId,
+      addItemDto.variantId,
+      lineQuantity
+    );
+    
+    // The price at add time is guaranteed for the product's lock window
+    pricing.lockedUntil = await this.priceLockService.lockUntil(addItemDto.productId);
+    
+    return { item: addItemDto, pricing, customization, fulfillment };
+  }
+
+  /**
+   * The cart as it will be once a prepared line is added to it
+   */
+  withLine(cart: Cart, line: PricedLineDto): Cart {
+    const fingerprint = line.customization?.fingerprint ?? '';
+    const existingLine = cart.items.find(item =>
+      item.productId === line.item.productId &&
+      (item.variantId || undefined) === (line.item.variantId || undefined) &&
+      !item.bundleId &&
+      !item.parentItemId &&
+      (item.customizationFingerprint || '') === fingerprint
+    );
+    const quantity = line.item.quantity || 1;
+
+    return {
+      ...cart,
+      items: existingLine
+        ? cart.items.map(item => item === existingLine ? { ...item, quantity: item.quantity + quantity } : item)
+        : [...cart.items, {
+            id: `pending-${cart.items.length}`,
+            productId: line.item.productId,
+            variantId: line.item.variantId,
+            quantity,
+            customizationFingerprint: fingerprint
+          } as CartItem]
+    };
+  }
+
+  /**
+   * Add kits of a bundle to cart as a bundle line with its component lines
+   */
+  async addBundleToCart(cartId: string, addBundleDto: AddBundleDto, expectedVersion?: number): Promise<CartItem> {
+    try {
+      this.logger.log(`Adding bundle to cart: ${cartId}`, addBundleDto);
+      
+      const cart = await this.getCartById(cartId);
+      
+      // Price the bundle and every component before writing any line
+      const pricing = await this.pricingService.resolveBundlePrice(addBundleDto.bundleId, cart.currency, cart.channel);
+      
+      const bundleLine = await this.databaseService.addBundleToCart(cartId, pricing, addBundleDto.quantity, expectedVersion);
+      
+      this.logger.log(`Bundle added to cart: ${bundleLine.id}`);
+      return bundleLine;
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      const errorStack = error instanceof Error ? error.stack : undefined;
+      this.logger.error(`Failed to add bundle to cart: ${errorMessage}`, errorStack);
+      throw error;
+    }
+  }
+
   /**
    * Update cart item
    */
-  async updateCartItem(itemId: string, updateItemDto: UpdateItemDto): Promise<CartItem> {
+  async updateCartItem(itemId: string, updateItemDto: UpdateItemDto, expectedVersion?: number): Promise<CartItem> {
     try {
       this.logger.log(`Updating cart item: ${itemId}`, updateItemDto);
       
-      const cartItem = await this.databaseService.updateCartItem(itemId, updateItemDto);
+      const existingItem = await this.databaseService.cartItem.findById(itemId);
+      if (!existingItem) {
+        throw new NotFoundException('Cart item not found');
+      }
+      
+      // Refresh the line price alongside the quantity change
+      const cart = await this.getCartById(existingItem.cartId);
+      
+      // A bundle line changes its number of kits, rescaling every component
+      if (existingItem.bundleId && !existingItem.parentItemId) {
+        const bundlePricing = await this.pricingService.resolveBundlePrice(existingItem.bundleId, cart.currency, cart.channel);
+        return await this.databaseService.updateBundleQuantity(itemId, bundlePricing, updateItemDto.quantity, expectedVersion);
+      }
+      
+      let fulfillment;
+      if (!existingItem.parentItemId) {
+        await this.quantityRulesService.assertLineQuantity(
+          existingItem.productId,
+          updateItemDto.quantity,
+          cart.items,
+          existingItem.id,
+          { userId: cart.userId, cartId: cart.id }
+        );
+        fulfillment = await this.inventoryService.resolveAvailability(
+          existingItem.productId,
+          existingItem.variantId,
+          updateItemDto.quantity
+        );
+      }
+      
+      const pricing = await this.customizationService.repriceLine(existingItem, cart.currency, cart.channel);
+      
+      const cartItem = await this.databaseService.updateCartItem(itemId, updateItemDto, pricing, expectedVersion, fulfillment);
       
       this.logger.log(`Cart item updated: ${cartItem.id}`);
       return cartItem;
@@ -109,11 +277,11 @@ export class CartService {
   /**
    * Remove item from cart
    */
-  async removeItemFromCart(itemId: string): Promise<void> {
+  async removeItemFromCart(itemId: string, expectedVersion?: number): Promise<void> {
     try {
       this.logger.log(`Removing item from cart: ${itemId}`);
       
-      await this.databaseService.removeItemFromCart(itemId);
+      await this.databaseService.removeItemFromCart(itemId, expectedVersion);
       
       this.logger.log(`Item removed from cart: ${itemId}`);
     } catch (error) {
@@ -127,14 +295,14 @@ export class CartService {
   /**
    * Clear cart
    */
-  async clearCart(cartId: string): Promise<void> {
+  async clearCart(cartId: string, expectedVersion?: number): Promise<void> {
     try {
       this.logger.log(`Clearing cart: ${cartId}`);
       
       // Validate cart exists
       await this.getCartById(cartId);
       
-      await this.databaseService.clearCart(cartId);
+      await this.databaseService.clearCart(cartId, expectedVersion);
       
       this.logger.log(`Cart cleared: ${cartId}`);
     } catch (error) {
@@ -145,6 +313,60 @@ export class CartService {
     }
   }
 
+  /**
+   * Switch the cart to another currency, repricing every line from the
+   * current product price
+   */
+  async changeCartCurrency(cartId: string, currency: string, expectedVersion?: number): Promise<Cart> {
+    try {
+      this.logger.log(`Changing cart currency: ${cartId} -> ${currency}`);
+      
+      const targetCurrency = this.currencyService.assertSupported(currency);
+      const cart = await this.getCartById(cartId);
+      
+      if (cart.currency === targetCurrency) {
+        return cart;
+      }
+      
+      // Quoted prices were agreed in the cart's currency
+      const quotedLine = cart.items.find(item => item.quoteId);
+      if (quotedLine) {
+        throw new CartServiceError(
+          'QUOTE_LINE_LOCKED',
+          `Cart ${cartId} holds lines priced by quote ${quotedLine.quoteId} and must stay in ${cart.currency}`,
+          { cartId, quoteId: quotedLine.quoteId }
+        );
+      }
+      
+      // Resolve all prices up front so a missing price or rate leaves the cart untouched
+      const prices = new Map<string, ItemPriceDto>();
+      for (const item of cart.items) {
+        if (item.parentItemId) {
+          continue; // priced with its bundle line
+        }
+        
+        if (item.bundleId) {
+          const bundlePricing = await this.pricingService.resolveBundlePrice(item.bundleId, targetCurrency, cart.channel);
+          prices.set(item.id, { price: bundlePricing.price, originalPrice: bundlePricing.originalPrice });
+          this.setComponentPrices(prices, cart.items, item.id, bundlePricing);
+          continue;
+        }
+        
+        prices.set(item.id, await this.customizationService.repriceLine(item, targetCurrency, cart.channel));
+      }
+      
+      await this.databaseService.repriceCart(cartId, targetCurrency, prices, expectedVersion);
+      
+      this.logger.log(`Cart currency changed: ${cartId} (${cart.currency} -> ${targetCurrency})`);
+      return this.getCartById(cartId);
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      const errorStack = error instanceof Error ? error.stack : undefined;
+      this.logger.error(`Failed to change cart currency: ${errorMessage}`, errorStack);
+      throw error;
+    }
+  }
+
   /**
    * Get cart response with totals
    */
@@ -153,8 +375,8 @@ export class CartService {
       // Calculate totals
       const totals = await this.calculateCartTotals(cart);
       
-      // Map items to response format
-      const items: CartItemResponseDto[] = cart.items.map(item => ({
+      // Map items to response format, nesting component lines under their bundle line
+      const toItemResponse = (item: CartItem): CartItemResponseDto => ({
         id: item.id,
         productId: item.productId,
         variantId: item.variantId || undefined,
@@ -162,8 +384,28 @@ export class CartService {
         price: item.price,
         originalPrice: item.originalPrice || undefined,
         total: item.price * item.quantity,
+        bundleId: item.bundleId,
+        unitQuantity: item.unitQuantity,
+        customization: item.customization,
+        surcharge: item.surcharge,
+        priceLockedUntil: this.priceLockService.isActive(item.priceLockedUntil) ? item.priceLockedUntil : undefined,
+        gift: item.gift,
+        subscription: item.subscription,
+        availability: item.availability,
+        estimatedShipDate: item.estimatedShipDate,
         addedAt: item.addedAt,
-      }));
+      });
+      const items: CartItemResponseDto[] = cart.items
+        .filter(item => !item.parentItemId)
+        .map(item => item.bundleId
+          ? {
+              ...toItemResponse(item),
+              components: cart.items
+                .filter(component => component.parentItemId === item.id)
+                .map(toItemResponse),
+            }
+          : toItemResponse(item)
+        );
 
       // Map metadata
       const metadata: Record<string, string> = {};
@@ -174,9 +416,14 @@ export class CartService {
       return {
         id: cart.id,
         userId: cart.userId || undefined,
+        name: cart.name,
         status: cart.status,
+        version: cart.version,
+        currency: cart.currency,
+        channel: cart.channel,
         items,
         totals,
+        gift: cart.gift,
         metadata,
         createdAt: cart.createdAt,
         updatedAt: cart.updatedAt,
@@ -189,12 +436,77 @@ export class CartService {
     }
   }
 
+  /**
+   * Strong ETag for the cart's current version
+   */
+  getCartEtag(cart: Pick<Cart, 'id' | 'version'>): string {
+    return `"${cart.id}:${cart.version}"`;
+  }
+
+  /**
+   * Resolve an If-Match header against the cart. Returns the version a
+   * conditional write must apply to, or undefined for unconditional writes.
+   */
+  async resolveExpectedVersion(cart: Cart, ifMatch?: string): Promise<number | undefined> {
+    if (!ifMatch || ifMatch.trim() === '*') {
+      return undefined;
+    }
+
+    const etag = this.getCartEtag(cart);
+    const matches = ifMatch
+      .split(',')
+      .some(tag => tag.trim().replace(/^W\//, '') === etag);
+
+    if (!matches) {
+      throw await this.createVersionConflict(cart.id);
+    }
+
+    return cart.version;
+  }
+
+  /**
+   * Build the 412 response for a stale write, carrying the current cart so
+   * the client can reconcile
+   */
+  async createVersionConflict(cartId: string): Promise<PreconditionFailedException> {
+    const cart = await this.getCartById(cartId);
+    const response = await this.getCartResponse(cart);
+
+    return new PreconditionFailedException({
+      message: 'Cart has been modified since it was last read',
+      errorCode: 'CART_VERSION_CONFLICT',
+      data: {
+        etag: this.getCartEtag(cart),
+        cart: response
+      }
+    });
+  }
+
+  /**
+   * Add the component prices of a repriced bundle line to the price map
+   */
+  private setComponentPrices(
+    prices: Map<string, ItemPriceDto>,
+    items: CartItem[],
+    bundleItemId: string,
+    bundlePricing: BundlePriceDto
+  ): void {
+    for (const item of items.filter(component => component.parentItemId === bundleItemId)) {
+      const component = bundlePricing.components.find(candidate =>
+        candidate.productId === item.productId && (candidate.variantId || undefined) === item.variantId
+      );
+      if (component) {
+        prices.set(item.id, { price: 0, originalPrice: component.pricing.price });
+      }
+    }
+  }
+
   /**
    * Calculate cart totals using pricing engine
    */
   private async calculateCartTotals(cart: Cart): Promise<CartTotalsDto> {
     try {
-      const itemCount = cart.items.reduce((sum, item) => sum + item.quantity, 0);
+      const itemCount = this.countItems(cart.items);
       
       // Convert cart items to pricing items
       const pricingItems = cart.items.map(item => ({
@@ -203,6 +515,11 @@ export class CartService {
         quantity: item.quantity,
         unitPrice: item.price,
         category: item.metadata?.category,
+        bundleId: item.bundleId,
+        isBundleComponent: !!item.parentItemId,
+        listPrice: item.originalPrice,
+        gift: item.gift,
+        subscription: item.subscription,
         metadata: item.metadata
       }));
 
@@ -211,7 +528,9 @@ export class CartService {
         items: pricingItems,
         userId: cart.userId,
         sessionId: cart.sessionId,
-        currency: 'USD' as any,
+        currency: cart.currency as Currency,
+        channel: cart.channel,
+        gift: cart.gift,
         metadata: {
           cartId: cart.id,
           calculatedAt: new Date()
@@ -226,8 +545,10 @@ export class CartService {
         subtotal: breakdown.subtotal,
         tax: breakdown.taxTotal,
         discount: breakdown.discountTotal,
+        gift: breakdown.giftTotal,
         total: breakdown.total,
         itemCount,
+        currency: cart.currency,
       };
 
     } catch (error) {
@@ -235,18 +556,29 @@ export class CartService {
       
       // Fallback to simple calculation if pricing engine fails
       const subtotal = cart.items.reduce((sum, item) => sum + (item.price * item.quantity), 0);
-      const itemCount = cart.items.reduce((sum, item) => sum + item.quantity, 0);
+      const itemCount = this.countItems(cart.items);
       
       return {
         subtotal,
         tax: 0,
         discount: 0,
+        gift: 0,
         total: subtotal,
         itemCount,
+        currency: cart.currency,
       };
     }
   }
 
+  /**
+   * Count units in the cart; a bundle counts once per kit, not per component
+   */
+  private countItems(items: CartItem[]): number {
+    return items
+      .filter(item => !item.parentItemId)
+      .reduce((sum, item) => sum + item.quantity, 0);
+  }
+
   /**
    * Get session context from request
    */
@@ -264,7 +596,7 @@ export class CartService {
   /**
    * Create session
    */
-  async createSession(userId?: string): Promise<{ sessionToken: string; expiresAt: Date }> {
+  async createSession(userId?: string, channel?: SalesChannel): Promise<{ sessionToken: string; expiresAt: Date }> {
     try {
       const sessionToken = this.databaseService.cartSession.generateSessionToken();
       const expiresAt = this.databaseService.cartSession.calculateExpiryDate(24);
@@ -272,6 +604,7 @@ export class CartService {
       await this.databaseService.createSession({
         userId: userId || undefined,
         sessionToken,
+        channel,
         expiresAt,
       });
       
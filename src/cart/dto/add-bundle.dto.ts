@@ -0,0 +1,12 @@
+import { IsString, IsInt, Min } from 'class-validator';
+import { Transform } from 'class-transformer';
+
+export class AddBundleDto {
+  @IsString()
+  bundleId!: string;
+
+  @IsInt()
+  @Min(1)
+  @Transform(({ value }) => parseInt(value, 10))
+  quantity!: number;
+}
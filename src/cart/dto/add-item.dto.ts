@@ -1,5 +1,6 @@
 import { IsString, IsOptional, IsInt, Min, IsObject } from 'class-validator';
 import { Transform } from 'class-transformer';
+import { CustomizationValues } from '../../types/cart.types';
 
 export class AddItemDto {
   @IsString()
@@ -14,6 +15,10 @@ export class AddItemDto {
   @Transform(({ value }) => parseInt(value, 10))
   quantity!: number;
 
+  @IsOptional()
+  @IsObject()
+  customization?: CustomizationValues;
+
   @IsOptional()
   @IsObject()
   metadata?: Record<string, string>;
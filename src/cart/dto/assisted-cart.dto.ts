@@ -0,0 +1,53 @@
+import { IsEnum, IsInt, IsNotEmpty, IsNumber, IsOptional, IsString, Max, MaxLength, Min } from 'class-validator';
+import { AddItemDto } from './add-item.dto';
+import { NotificationChannel } from '../../types/events.types';
+
+// Every agent action states why it was taken; the reason goes to the audit trail
+export class AgentReasonDto {
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(500)
+  reason!: string;
+}
+
+export class AssistedAddItemDto extends AddItemDto {
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(500)
+  reason!: string;
+}
+
+export class AssistedRepriceItemDto extends AgentReasonDto {
+  // Per-unit price in the cart currency; left out, the line goes back to
+  // the current catalogue price
+  @IsNumber({ maxDecimalPlaces: 2 })
+  @Min(0.01)
+  @IsOptional()
+  price?: number;
+
+  // How long the agent's price is held before normal repricing resumes
+  @IsInt()
+  @Min(1)
+  @Max(24 * 30)
+  @IsOptional()
+  validForHours?: number;
+}
+
+export class SendAssistedCartDto extends AgentReasonDto {
+  @IsEnum(NotificationChannel)
+  @IsOptional()
+  channel?: NotificationChannel;
+
+  // Note to the customer, in place of the standard message
+  @IsString()
+  @MaxLength(1000)
+  @IsOptional()
+  message?: string;
+}
+
+export class SendAssistedCartResponseDto {
+  cartId!: string;
+  // False when the customer's notification preferences held the message back
+  sent!: boolean;
+  notificationId?: string;
+}
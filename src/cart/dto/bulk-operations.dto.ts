@@ -1,5 +1,6 @@
-import { IsArray, IsString, IsInt, Min, IsOptional, ValidateNested, IsBoolean } from 'class-validator';
+import { IsArray, IsString, IsInt, Min, IsOptional, ValidateNested, IsBoolean, IsObject } from 'class-validator';
 import { Type } from 'class-transformer';
+import { CustomizationValues } from '../../types/cart.types';
 
 export class BulkAddItemDto {
   @IsString()
@@ -13,6 +14,10 @@ export class BulkAddItemDto {
   @Min(1)
   quantity!: number;
 
+  @IsOptional()
+  @IsObject()
+  customization?: CustomizationValues;
+
   @IsOptional()
   metadata?: Record<string, string>;
 }
@@ -0,0 +1,24 @@
+import { IsISO8601, IsOptional } from 'class-validator';
+import { CartEvent } from '../../types/cart-event.types';
+
+export class CartStateQueryDto {
+  @IsISO8601()
+  at!: string;
+}
+
+export class CartChangesQueryDto {
+  @IsISO8601()
+  from!: string;
+
+  // Defaults to now
+  @IsISO8601()
+  @IsOptional()
+  to?: string;
+}
+
+export class CartChangesResponseDto {
+  cartId!: string;
+  from!: Date;
+  to!: Date;
+  events!: CartEvent[];
+}
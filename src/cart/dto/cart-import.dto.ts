@@ -0,0 +1,76 @@
+import { IsArray, IsIn, IsOptional, IsString, MaxLength } from 'class-validator';
+import { CustomizationValues } from '../../types/cart.types';
+import { CartResponseDto } from './cart-response.dto';
+
+// Exactly one of csv or items. CSV needs a header row naming at least a
+// productId (or sku) column; variantId and quantity columns are optional.
+// JSON rows are checked one by one so a bad row only fails itself.
+export class ImportCartDto {
+  @IsString()
+  @MaxLength(500000)
+  @IsOptional()
+  csv?: string;
+
+  @IsArray()
+  @IsOptional()
+  items?: Array<Record<string, any>>;
+}
+
+export enum ImportRowStatus {
+  IMPORTED = 'IMPORTED',
+  ADJUSTED = 'ADJUSTED',
+  FAILED = 'FAILED'
+}
+
+export class ImportRowReportDto {
+  // CSV line number (the header is line 1) or 1-based JSON index
+  row!: number;
+  productId?: string;
+  variantId?: string;
+  requestedQuantity?: number;
+  // Quantity actually added, when it differs from the requested one or the
+  // row was imported
+  quantity?: number;
+  status!: ImportRowStatus;
+  itemId?: string;
+  errors!: string[];
+  warnings!: string[];
+}
+
+export class CartImportResponseDto {
+  totalRows!: number;
+  importedRows!: number;
+  adjustedRows!: number;
+  failedRows!: number;
+  rows!: ImportRowReportDto[];
+  cart!: CartResponseDto;
+}
+
+export class CartExportQueryDto {
+  @IsIn(['csv', 'json'])
+  @IsOptional()
+  format?: 'csv' | 'json';
+}
+
+export class CartExportLineDto {
+  productId!: string;
+  variantId?: string;
+  bundleId?: string;
+  quantity!: number;
+  // Unit price stored on the cart line
+  cartPrice!: number;
+  // Unit price the line would get now; null when it cannot be priced
+  currentPrice!: number | null;
+  lineTotal!: number | null;
+  customization?: CustomizationValues;
+}
+
+export class CartExportDto {
+  cartId!: string;
+  name?: string;
+  currency!: string;
+  lines!: CartExportLineDto[];
+  itemCount!: number;
+  subtotal!: number;
+  exportedAt!: Date;
+}
@@ -0,0 +1,13 @@
+import { IsEnum, IsOptional, IsString, MaxLength } from 'class-validator';
+import { CartStatus } from '../../types/cart.types';
+
+export class ChangeCartStatusDto {
+  @IsEnum(CartStatus)
+  status!: CartStatus;
+
+  // Recorded on the STATUS_CHANGED event
+  @IsString()
+  @MaxLength(200)
+  @IsOptional()
+  reason?: string;
+}
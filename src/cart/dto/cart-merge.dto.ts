@@ -43,6 +43,16 @@ export class MergeConflict {
   resolution!: 'guest' | 'user' | 'combined';
 }
 
+// A merged line whose quantity was changed to fit the product's quantity
+// rules; quantity is 0 when no allowed quantity was left for it
+export class QuantityAdjustment {
+  productId!: string;
+  variantId?: string;
+  requestedQuantity!: number;
+  quantity!: number;
+  reason!: string;
+}
+
 export class CartMergeResponseDto {
   success!: boolean;
   userCartId!: string;
@@ -50,6 +60,7 @@ export class CartMergeResponseDto {
   itemsAdded!: number;
   itemsUpdated!: number;
   conflicts!: MergeConflict[];
+  quantityAdjustments!: QuantityAdjustment[];
   message!: string;
 }
 
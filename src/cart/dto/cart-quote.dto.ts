@@ -0,0 +1,106 @@
+import { Type } from 'class-transformer';
+import {
+  IsArray,
+  IsEnum,
+  IsInt,
+  IsNumber,
+  IsOptional,
+  IsString,
+  Max,
+  MaxLength,
+  Min,
+  ValidateNested
+} from 'class-validator';
+import { CartResponseDto } from './cart-response.dto';
+import { QuoteStatus } from '../../types/quote.types';
+import { CustomizationValues } from '../../types/cart.types';
+
+export class RequestQuoteDto {
+  // One of the caller's carts; the active cart by default
+  @IsString()
+  @IsOptional()
+  cartId?: string;
+
+  @IsString()
+  @MaxLength(1000)
+  @IsOptional()
+  note?: string;
+}
+
+export class QuoteLinePriceDto {
+  @IsString()
+  lineId!: string;
+
+  // Per-unit price (per kit for a bundle line) in the quote currency
+  @IsNumber({ maxDecimalPlaces: 2 })
+  @Min(0)
+  price!: number;
+}
+
+export class QuoteOfferDto {
+  // Lines not listed keep their current quoted price
+  @IsArray()
+  @ValidateNested({ each: true })
+  @Type(() => QuoteLinePriceDto)
+  @IsOptional()
+  lines?: QuoteLinePriceDto[];
+
+  // Amount off the quoted subtotal
+  @IsNumber({ maxDecimalPlaces: 2 })
+  @Min(0)
+  @IsOptional()
+  discount?: number;
+
+  @IsInt()
+  @Min(1)
+  @Max(24 * 365)
+  @IsOptional()
+  validForHours?: number;
+
+  @IsString()
+  @MaxLength(1000)
+  @IsOptional()
+  note?: string;
+}
+
+export class QuoteReviewQueryDto {
+  @IsEnum(QuoteStatus)
+  @IsOptional()
+  status?: QuoteStatus;
+}
+
+export class QuoteLineDto {
+  lineId!: string;
+  productId!: string;
+  variantId?: string;
+  bundleId?: string;
+  quantity!: number;
+  listPrice!: number;
+  price!: number;
+  total!: number;
+  customization?: CustomizationValues;
+}
+
+export class QuoteResponseDto {
+  id!: string;
+  cartId!: string;
+  status!: QuoteStatus;
+  currency!: string;
+  lines!: QuoteLineDto[];
+  listSubtotal!: number;
+  subtotal!: number;
+  discount!: number;
+  total!: number;
+  customerNote?: string;
+  salesNote?: string;
+  quotedAt?: Date;
+  expiresAt?: Date;
+  respondedAt?: Date;
+  convertedCartId?: string;
+  createdAt!: Date;
+}
+
+export class AcceptQuoteResponseDto {
+  quote!: QuoteResponseDto;
+  cart!: CartResponseDto;
+}
@@ -1,4 +1,8 @@
-import { CartStatus } from '../../types/cart.types';
+import { CartStatus, CustomizationValues } from '../../types/cart.types';
+import { GiftOptions } from '../../types/gift.types';
+import { SubscriptionFrequency } from '../../types/subscription.types';
+import { AvailabilityStatus } from '../../types/fulfillment.types';
+import { SalesChannel } from '../../types/channel.types';
 
 export interface CartItemResponseDto {
   id: string;
@@ -8,6 +12,17 @@ export interface CartItemResponseDto {
   price: number;
   originalPrice?: number;
   total: number;
+  bundleId?: string;
+  unitQuantity?: number;
+  components?: CartItemResponseDto[];
+  customization?: CustomizationValues;
+  surcharge?: number;
+  // Present while the line's price is guaranteed by a price lock
+  priceLockedUntil?: Date;
+  gift?: GiftOptions;
+  subscription?: SubscriptionFrequency;
+  availability?: AvailabilityStatus;
+  estimatedShipDate?: Date;
   addedAt: Date;
 }
 
@@ -15,16 +30,24 @@ export interface CartTotalsDto {
   subtotal: number;
   tax: number;
   discount: number;
+  // Gift wrap and message charges, included in total
+  gift: number;
   total: number;
   itemCount: number;
+  currency: string;
 }
 
 export interface CartResponseDto {
   id: string;
   userId?: string;
+  name?: string;
   status: CartStatus;
+  version: number;
+  currency: string;
+  channel?: SalesChannel;
   items: CartItemResponseDto[];
   totals: CartTotalsDto;
+  gift?: GiftOptions;
   metadata: Record<string, string>;
   createdAt: Date;
   updatedAt: Date;
@@ -0,0 +1,61 @@
+import { IsString, IsOptional, IsInt, Min, Max } from 'class-validator';
+import { MergeConflict, QuantityAdjustment } from './cart-merge.dto';
+import { CustomizationValues } from '../../types/cart.types';
+
+export class CreateCartShareDto {
+  @IsString()
+  @IsOptional()
+  cartId?: string;
+
+  @IsInt()
+  @Min(1)
+  @Max(24 * 365)
+  @IsOptional()
+  expiresInHours?: number;
+}
+
+export class CartShareResponseDto {
+  id!: string;
+  cartId!: string;
+  token!: string;
+  expiresAt?: Date;
+  revokedAt?: Date;
+  isActive!: boolean;
+  viewCount!: number;
+  cloneCount!: number;
+  lastViewedAt?: Date;
+  lastClonedAt?: Date;
+  createdAt!: Date;
+}
+
+export class SharedCartItemDto {
+  productId!: string;
+  variantId?: string;
+  quantity!: number;
+  price!: number | null;
+  originalPrice?: number;
+  total!: number | null;
+  available!: number;
+  isInStock!: boolean;
+  bundleId?: string;
+  components?: SharedCartItemDto[];
+  customization?: CustomizationValues;
+}
+
+export class SharedCartViewDto {
+  name?: string;
+  currency!: string;
+  items!: SharedCartItemDto[];
+  itemCount!: number;
+  subtotal!: number;
+  sharedAt!: Date;
+  expiresAt?: Date;
+}
+
+export class CloneSharedCartResponseDto {
+  targetCartId!: string;
+  itemsAdded!: number;
+  itemsUpdated!: number;
+  conflicts!: MergeConflict[];
+  quantityAdjustments!: QuantityAdjustment[];
+}
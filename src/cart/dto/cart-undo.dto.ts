@@ -0,0 +1,30 @@
+import { CartUndoAction } from '../../types/cart-undo.types';
+import { CartResponseDto } from './cart-response.dto';
+
+// A line that could not be brought back, e.g. because it is out of stock
+export class UndoSkippedLineDto {
+  productId!: string;
+  variantId?: string;
+  bundleId?: string;
+  quantity!: number;
+  reason!: string;
+}
+
+// A line that was brought back at its current price rather than the one it
+// had when the action was taken
+export class UndoRepricedLineDto {
+  productId!: string;
+  variantId?: string;
+  bundleId?: string;
+  previousPrice!: number;
+  price!: number;
+}
+
+export class CartUndoResponseDto {
+  action!: CartUndoAction;
+  skipped!: UndoSkippedLineDto[];
+  repriced!: UndoRepricedLineDto[];
+  canUndo!: boolean;
+  canRedo!: boolean;
+  cart!: CartResponseDto;
+}
@@ -0,0 +1,7 @@
+import { IsEnum } from 'class-validator';
+import { Currency } from '../../types/pricing.types';
+
+export class ChangeCurrencyDto {
+  @IsEnum(Currency)
+  currency!: Currency;
+}
@@ -0,0 +1,8 @@
+import { IsObject } from 'class-validator';
+import { CustomizationValues } from '../../types/cart.types';
+
+export class CustomizeItemDto {
+  // Empty values remove the customization from the line
+  @IsObject()
+  customization!: CustomizationValues;
+}
@@ -0,0 +1,33 @@
+import { Type } from 'class-transformer';
+import { IsBoolean, IsOptional, IsString, ValidateNested } from 'class-validator';
+
+export class GiftRecipientDto {
+  @IsString()
+  name!: string;
+
+  @IsString()
+  @IsOptional()
+  email?: string;
+}
+
+// Message length and characters are checked against the configured gift
+// policy; an object with every option left out clears the gift options
+export class GiftOptionsDto {
+  @IsBoolean()
+  @IsOptional()
+  wrap?: boolean;
+
+  @IsString()
+  @IsOptional()
+  message?: string;
+
+  // Fulfillment leaves prices off the packing slip
+  @IsBoolean()
+  @IsOptional()
+  giftReceipt?: boolean;
+
+  @ValidateNested()
+  @Type(() => GiftRecipientDto)
+  @IsOptional()
+  recipient?: GiftRecipientDto;
+}
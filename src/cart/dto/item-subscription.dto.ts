@@ -0,0 +1,13 @@
+import { IsEnum, IsInt, IsOptional } from 'class-validator';
+import { SubscriptionUnit } from '../../types/subscription.types';
+
+// An empty body makes the line a one-time purchase again
+export class ItemSubscriptionDto {
+  @IsOptional()
+  @IsInt()
+  every?: number;
+
+  @IsOptional()
+  @IsEnum(SubscriptionUnit)
+  unit?: SubscriptionUnit;
+}
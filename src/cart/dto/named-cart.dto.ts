@@ -0,0 +1,64 @@
+import { IsString, IsBoolean, IsOptional, IsEnum, IsArray, MaxLength, MinLength, ArrayNotEmpty } from 'class-validator';
+import { CartStatus } from '../../types/cart.types';
+import { Currency } from '../../types/pricing.types';
+
+export enum TransferMode {
+  MOVE = 'move',
+  COPY = 'copy'
+}
+
+export class CreateNamedCartDto {
+  @IsString()
+  @MinLength(1)
+  @MaxLength(100)
+  name!: string;
+
+  @IsBoolean()
+  @IsOptional()
+  activate?: boolean = true;
+
+  @IsEnum(Currency)
+  @IsOptional()
+  currency?: Currency;
+}
+
+export class RenameCartDto {
+  @IsString()
+  @MinLength(1)
+  @MaxLength(100)
+  name!: string;
+}
+
+export class TransferItemsDto {
+  @IsString()
+  targetCartId!: string;
+
+  @IsEnum(TransferMode)
+  mode!: TransferMode;
+
+  @IsArray()
+  @ArrayNotEmpty()
+  @IsString({ each: true })
+  @IsOptional()
+  itemIds?: string[];
+}
+
+export class CartSummaryDto {
+  id!: string;
+  name?: string;
+  status!: CartStatus;
+  isCurrent!: boolean;
+  currency!: string;
+  itemCount!: number;
+  subtotal!: number;
+  version!: number;
+  createdAt!: Date;
+  updatedAt!: Date;
+}
+
+export class TransferItemsResponseDto {
+  sourceCartId!: string;
+  targetCartId!: string;
+  mode!: TransferMode;
+  itemsTransferred!: number;
+}
@@ -0,0 +1,233 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { DatabaseService } from '../../database/database.service';
+import { CurrencyService } from '../../currency/currency.service';
+import { CustomizationService } from '../../services/customization.service';
+import { NotificationService } from '../../notifications/notification.service';
+import { AuditService } from '../../logging/audit.service';
+import { CartService } from '../cart.service';
+import { NamedCartsService } from './named-carts.service';
+import { CartResponseDto } from '../dto/cart-response.dto';
+import { CartSummaryDto } from '../dto/named-cart.dto';
+import {
+  AssistedAddItemDto,
+  AssistedRepriceItemDto,
+  SendAssistedCartDto,
+  SendAssistedCartResponseDto
+} from '../dto/assisted-cart.dto';
+import { AgentContext, AssistedCartAction } from '../../types/assisted-cart.types';
+import { NotificationChannel, NotificationPriority, NotificationType } from '../../types/events.types';
+import { AuditEntry } from '../../types/monitoring.types';
+import { Cart, CartItem, CartServiceError, CartStatus, ItemPriceDto } from '../../types/cart.types';
+
+// Carts a customer can still come back to
+const OPEN_STATUSES = [CartStatus.ACTIVE, CartStatus.CHECKOUT, CartStatus.ABANDONED];
+
+/**
+ * Assisted carts: support agents look up a customer's carts, see them as
+ * the customer does, fix their lines and send the result to the customer.
+ * Every action, views included, is written to the audit trail with the
+ * agent and the reason they gave. A price an agent sets is held for
+ * ASSISTED_PRICE_HOURS so that the usual repricing does not undo it.
+ */
+@Injectable()
+export class AssistedCartService {
+  private readonly logger = new Logger(AssistedCartService.name);
+  private readonly priceHoldHours: number;
+
+  constructor(
+    private databaseService: DatabaseService,
+    private cartService: CartService,
+    private namedCartsService: NamedCartsService,
+    private customizationService: CustomizationService,
+    private currencyService: CurrencyService,
+    private notificationService: NotificationService,
+    private auditService: AuditService,
+    private configService: ConfigService
+  ) {
+    this.priceHoldHours = Math.max(1, Number(this.configService.get('ASSISTED_PRICE_HOURS', 72)) || 72);
+  }
+
+  /**
+   * A customer's open carts across all their sessions
+   */
+  async listCustomerCarts(agent: AgentContext, userId: string, reason: string): Promise<CartSummaryDto[]> {
+    const carts = await this.databaseService.cart.findByUserId(userId, OPEN_STATUSES);
+
+    this.audit('list_carts', agent, reason, userId, userId, { cartIds: carts.map(cart => cart.id) });
+    return carts.map(cart => this.namedCartsService.toSummary(cart));
+  }
+
+  /**
+   * A cart as its customer sees it, with current totals
+   */
+  async viewCart(agent: AgentContext, cartId: string, reason: string): Promise<CartResponseDto> {
+    const cart = await this.cartService.getCartById(cartId);
+
+    this.audit('view', agent, reason, cart.id, cart.userId);
+    return this.cartService.getCartResponse(cart);
+  }
+
+  /**
+   * Add a line for the customer at the current price, subject to the same
+   * quantity rules and stock checks as the customer's own additions
+   */
+  async addItem(agent: AgentContext, cartId: string, dto: AssistedAddItemDto): Promise<CartResponseDto> {
+    const { reason, ...addItemDto } = dto;
+    const cart = await this.findEditableCart(cartId);
+
+    const item = await this.cartService.addItemToCart(cart.id, addItemDto);
+
+    this.audit('add_item', agent, reason, cart.id, cart.userId, {
+      itemId: item.id,
+      productId: item.productId,
+      variantId: item.variantId,
+      quantity: addItemDto.quantity
+    });
+    return this.refreshed(cart.id);
+  }
+
+  async removeItem(agent: AgentContext, cartId: string, itemId: string, reason: string): Promise<CartResponseDto> {
+    const cart = await this.findEditableCart(cartId);
+    const item = this.findLine(cart, itemId);
+
+    await this.cartService.removeItemFromCart(item.id);
+
+    this.audit('remove_item', agent, reason, cart.id, cart.userId, {
+      itemId: item.id,
+      productId: item.productId,
+      variantId: item.variantId,
+      quantity: item.quantity
+    });
+    return this.refreshed(cart.id);
+  }
+
+  /**
+   * Set a line to a price of the agent's choosing, held for a while, or put
+   * it back on the current catalogue price. The price the line had before
+   * is kept as its original price so the customer sees the reduction.
+   */
+  async repriceItem(
+    agent: AgentContext,
+    cartId: string,
+    itemId: string,
+    dto: AssistedRepriceItemDto
+  ): Promise<CartResponseDto> {
+    const cart = await this.findEditableCart(cartId);
+    const item = this.findLine(cart, itemId);
+
+    let pricing: ItemPriceDto;
+    if (dto.price !== undefined) {
+      const hours = dto.validForHours ?? this.priceHoldHours;
+      pricing = {
+        price: this.currencyService.round(dto.price, cart.currency),
+        originalPrice: item.originalPrice ?? item.price,
+        surcharge: item.surcharge,
+        lockedUntil: new Date(Date.now() + hours * 60 * 60 * 1000)
+      };
+    } else {
+      pricing = await this.customizationService.repriceLine(item, cart.currency, cart.channel);
+    }
+
+    await this.databaseService.setItemPrice(item.id, pricing, { agentId: agent.agentId, reason: dto.reason });
+
+    this.audit('reprice_item', agent, dto.reason, cart.id, cart.userId, {
+      itemId: item.id,
+      fromPrice: item.price,
+      toPrice: pricing.price,
+      heldUntil: pricing.lockedUntil
+    });
+    return this.refreshed(cart.id);
+  }
+
+  /**
+   * Let the customer know their cart is ready. The cart already belongs to
+   * them, so they find it as it is when they next open their cart.
+   */
+  async sendCart(agent: AgentContext, cartId: string, dto: SendAssistedCartDto): Promise<SendAssistedCartResponseDto> {
+    const cart = await this.findEditableCart(cartId);
+    if (!cart.userId) {
+      throw new CartServiceError('CART_HAS_NO_CUSTOMER', `Cart ${cart.id} belongs to a guest and cannot be sent`, {
+        cartId: cart.id
+      });
+    }
+
+    const itemCount = cart.items.filter(item => !item.parentItemId).reduce((sum, item) => sum + item.quantity, 0);
+    const notification = await this.notificationService.createNotification({
+      userId: cart.userId,
+      type: NotificationType.CART_REMINDER,
+      channel: dto.channel ?? NotificationChannel.EMAIL,
+      priority: NotificationPriority.MEDIUM,
+      content: {
+        title: 'Your cart is ready',
+        message: dto.message ?? `We've prepared your cart with ${itemCount} item(s). It's ready for you to check out.`,
+        data: { cartId: cart.id }
+      },
+      metadata: { cartId: cart.id, assistedBy: agent.agentId }
+    });
+
+    this.audit('send', agent, dto.reason, cart.id, cart.userId, {
+      channel: dto.channel ?? NotificationChannel.EMAIL,
+      notificationId: notification?.id,
+      sent: !!notification
+    });
+    this.logger.log(`Cart ${cart.id} sent to customer ${cart.userId} by agent ${agent.agentId}`);
+
+    return { cartId: cart.id, sent: !!notification, notificationId: notification?.id };
+  }
+
+  /**
+   * What agents have done with a cart, oldest first
+   */
+  getAuditTrail(cartId: string): AuditEntry[] {
+    return this.auditService.getAuditTrail('cart', cartId).filter(entry => entry.metadata?.assistedCart);
+  }
+
+  /**
+   * Agents only change carts the customer is still shopping with
+   */
+  private async findEditableCart(cartId: string): Promise<Cart> {
+    const cart = await this.cartService.getCartById(cartId);
+    if (cart.status !== CartStatus.ACTIVE) {
+      throw new CartServiceError('CART_NOT_ACTIVE', `Cart ${cart.id} is ${cart.status.toLowerCase()} and cannot be changed`, {
+        cartId: cart.id,
+        status: cart.status
+      });
+    }
+
+    return cart;
+  }
+
+  private findLine(cart: Cart, itemId: string): CartItem {
+    const item = cart.items.find(line => line.id === itemId);
+    if (!item) {
+      throw new CartServiceError('ITEM_NOT_FOUND', `Cart ${cart.id} has no item ${itemId}`, { cartId: cart.id, itemId });
+    }
+
+    return item;
+  }
+
+  private async refreshed(cartId: string): Promise<CartResponseDto> {
+    return this.cartService.getCartResponse(await this.cartService.getCartById(cartId));
+  }
+
+  private audit(
+    action: AssistedCartAction,
+    agent: AgentContext,
+    reason: string,
+    resourceId: string,
+    customerId?: string,
+    changes?: Record<string, any>
+  ): void {
+    this.auditService.logAssistedCartAction(
+      action,
+      agent.agentId,
+      reason,
+      resourceId,
+      customerId,
+      changes,
+      agent.ipAddress,
+      agent.userAgent
+    );
+  }
+}
@@ -1,9 +1,12 @@
 import { Injectable, Logger, BadRequestException } from '@nestjs/common';
 import { DatabaseService } from '../../database/database.service';
+import { CustomizationService } from '../../services/customization.service';
+import { QuantityRulesService } from '../../services/quantity-rules.service';
+import { CartService } from '../cart.service';
 import { AddItemDto } from '../dto/add-item.dto';
 import { UpdateItemDto } from '../dto/update-item.dto';
 import { BulkOperationsDto, BulkOperationsResponseDto } from '../dto/bulk-operations.dto';
-import { SessionContext } from '../../types/cart.types';
+import { SessionContext, CartServiceError, ItemPriceDto, PricedLineDto } from '../../types/cart.types';
 
 export interface BulkOperationResult {
   success: boolean;
@@ -16,25 +19,29 @@ export interface BulkOperationResult {
 export class BulkOperationsService {
   private readonly logger = new Logger(BulkOperationsService.name);
 
-  constructor(private databaseService: DatabaseService) {}
+  constructor(
+    private databaseService: DatabaseService,
+    private cartService: CartService,
+    private customizationService: CustomizationService,
+    private quantityRulesService: QuantityRulesService
+  ) {}
 
   /**
-   * Add multiple items to cart in a single operation
+   * Add multiple items to cart in a single operation. Every item is checked
+   * first; the items that pass are written with one transaction.
    */
   async addMultipleItems(
     cartId: string,
     items: AddItemDto[],
-    sessionContext: SessionContext
+    sessionContext: SessionContext,
+    expectedVersion?: number
   ): Promise<BulkOperationsResponseDto> {
     const results: BulkOperationResult[] = [];
     const errors: string[] = [];
 
     try {
       // Validate cart exists and user has access
-      const cart = await this.databaseService.prisma.cart.findUnique({
-        where: { id: cartId },
-        include: { session: true }
-      });
+      const cart = await this.databaseService.cart.findById(cartId);
 
       if (!cart) {
         throw new BadRequestException('Cart not found');
@@ -45,15 +52,21 @@ export class BulkOperationsService {
         throw new BadRequestException('Unauthorized access to cart');
       }
 
-      // Process items in batch
+      this.assertVersion(cart, expectedVersion);
+
+      // Check every item against the cart as the earlier items leave it
+      const lines: PricedLineDto[] = [];
+      const added: BulkOperationResult[] = [];
+      let pendingCart = cart;
       for (const item of items) {
         try {
-          const result = await this.databaseService.addItemToCart(cartId, item);
-          results.push({
-            success: true,
-            itemId: result.id,
-            data: result
-          });
+          const line = await this.cartService.prepareLine(pendingCart, item);
+          pendingCart = this.cartService.withLine(pendingCart, line);
+          lines.push(line);
+
+          const result: BulkOperationResult = { success: true };
+          added.push(result);
+          results.push(result);
         } catch (error) {
           this.logger.error(`Failed to add item ${item.productId}:`, error.message);
           results.push({
@@ -64,6 +77,14 @@ export class BulkOperationsService {
         }
       }
 
+      if (lines.length > 0) {
+        const written = await this.databaseService.addItemsToCart(cartId, lines, expectedVersion);
+        written.forEach((item, index) => {
+          added[index].itemId = item.id;
+          added[index].data = item;
+        });
+      }
+
       return {
         success: results.some(r => r.success),
         totalItems: items.length,
@@ -74,28 +95,30 @@ export class BulkOperationsService {
       };
 
     } catch (error) {
+      if (error instanceof CartServiceError) {
+        throw error;
+      }
       this.logger.error('Bulk add operation failed:', error.message);
       throw new BadRequestException(`Bulk add operation failed: ${error.message}`);
     }
   }
 
   /**
-   * Remove multiple items from cart
+   * Remove multiple items from cart. Every item is checked first; the items
+   * that pass are removed with one transaction.
    */
   async removeMultipleItems(
     cartId: string,
     itemIds: string[],
-    sessionContext: SessionContext
+    sessionContext: SessionContext,
+    expectedVersion?: number
   ): Promise<BulkOperationsResponseDto> {
     const results: BulkOperationResult[] = [];
     const errors: string[] = [];
 
     try {
       // Validate cart access
-      const cart = await this.databaseService.prisma.cart.findUnique({
-        where: { id: cartId },
-        include: { session: true }
-      });
+      const cart = await this.databaseService.cart.findById(cartId);
 
       if (!cart) {
         throw new BadRequestException('Cart not found');
@@ -105,10 +128,21 @@ export class BulkOperationsService {
         throw new BadRequestException('Unauthorized access to cart');
       }
 
-      // Process removals
+      this.assertVersion(cart, expectedVersion);
+
+      // Check removals
+      const removals: string[] = [];
       for (const itemId of itemIds) {
         try {
-          await this.databaseService.removeItemFromCart(itemId);
+          const existingItem = cart.items.find(item => item.id === itemId);
+          if (!existingItem) {
+            throw new BadRequestException('Item not found in cart');
+          }
+          if (existingItem.parentItemId) {
+            this.databaseService.assertNotBundleLine(existingItem);
+          }
+
+          removals.push(itemId);
           results.push({
             success: true,
             itemId,
@@ -125,6 +159,10 @@ export class BulkOperationsService {
         }
       }
 
+      if (removals.length > 0) {
+        await this.databaseService.removeItemsFromCart(cartId, removals, expectedVersion);
+      }
+
       return {
         success: results.some(r => r.success),
         totalItems: itemIds.length,
@@ -135,28 +173,30 @@ export class BulkOperationsService {
       };
 
     } catch (error) {
+      if (error instanceof CartServiceError) {
+        throw error;
+      }
       this.logger.error('Bulk remove operation failed:', error.message);
       throw new BadRequestException(`Bulk remove operation failed: ${error.message}`);
     }
   }
 
   /**
-   * Update quantities for multiple items
+   * Update quantities for multiple items. Every item is checked first; the
+   * items that pass are updated with one transaction.
    */
   async updateMultipleItems(
     cartId: string,
     updates: Array<{ itemId: string; updateData: UpdateItemDto }>,
-    sessionContext: SessionContext
+    sessionContext: SessionContext,
+    expectedVersion?: number
   ): Promise<BulkOperationsResponseDto> {
     const results: BulkOperationResult[] = [];
     const errors: string[] = [];
 
     try {
       // Validate cart access
-      const cart = await this.databaseService.prisma.cart.findUnique({
-        where: { id: cartId },
-        include: { session: true }
-      });
+      const cart = await this.databaseService.cart.findById(cartId);
 
       if (!cart) {
         throw new BadRequestException('Cart not found');
@@ -166,15 +206,38 @@ export class BulkOperationsService {
         throw new BadRequestException('Unauthorized access to cart');
       }
 
-      // Process updates
+      this.assertVersion(cart, expectedVersion);
+
+      // Check every update against the cart as the earlier updates leave it
+      const writes: Array<{ itemId: string; itemData: UpdateItemDto; pricing?: ItemPriceDto }> = [];
+      const updated: BulkOperationResult[] = [];
+      let pendingItems = cart.items;
       for (const update of updates) {
         try {
-          const result = await this.databaseService.updateCartItem(update.itemId, update.updateData);
-          results.push({
-            success: true,
-            itemId: update.itemId,
-            data: result
-          });
+          const existingItem = pendingItems.find(item => item.id === update.itemId);
+          if (!existingItem) {
+            throw new BadRequestException('Item not found in cart');
+          }
+          this.databaseService.assertNotBundleLine(existingItem);
+          this.databaseService.assertNotQuotedLine(existingItem);
+
+          await this.quantityRulesService.assertLineQuantity(
+            existingItem.productId,
+            update.updateData.quantity,
+            pendingItems,
+            existingItem.id,
+            { userId: cart.userId, cartId }
+          );
+
+          const pricing = await this.customizationService.repriceLine(existingItem, cart.currency, cart.channel);
+          pendingItems = pendingItems.map(item =>
+            item === existingItem ? { ...item, quantity: update.updateData.quantity } : item
+          );
+          writes.push({ itemId: update.itemId, itemData: update.updateData, pricing });
+
+          const result: BulkOperationResult = { success: true, itemId: update.itemId };
+          updated.push(result);
+          results.push(result);
         } catch (error) {
           this.logger.error(`Failed to update item ${update.itemId}:`, error.message);
           results.push({
@@ -186,6 +249,13 @@ export class BulkOperationsService {
         }
       }
 
+      if (writes.length > 0) {
+        const written = await this.databaseService.updateCartItems(cartId, writes, expectedVersion);
+        written.forEach((item, index) => {
+          updated[index].data = item;
+        });
+      }
+
       return {
         success: results.some(r => r.success),
         totalItems: updates.length,
@@ -196,6 +266,9 @@ export class BulkOperationsService {
       };
 
     } catch (error) {
+      if (error instanceof CartServiceError) {
+        throw error;
+      }
       this.logger.error('Bulk update operation failed:', error.message);
       throw new BadRequestException(`Bulk update operation failed: ${error.message}`);
     }
@@ -204,13 +277,14 @@ export class BulkOperationsService {
   /**
    * Clear entire cart
    */
-  async clearCart(cartId: string, sessionContext: SessionContext): Promise<BulkOperationsResponseDto> {
+  async clearCart(
+    cartId: string,
+    sessionContext: SessionContext,
+    expectedVersion?: number
+  ): Promise<BulkOperationsResponseDto> {
     try {
       // Validate cart access
-      const cart = await this.databaseService.prisma.cart.findUnique({
-        where: { id: cartId },
-        include: { session: true }
-      });
+      const cart = await this.databaseService.cart.findById(cartId);
 
       if (!cart) {
         throw new BadRequestException('Cart not found');
@@ -220,13 +294,15 @@ export class BulkOperationsService {
         throw new BadRequestException('Unauthorized access to cart');
       }
 
+      this.assertVersion(cart, expectedVersion);
+
       // Get item count before clearing
       const itemCount = await this.databaseService.prisma.cartItem.count({
         where: { cartId }
       });
 
       // Clear cart
-      await this.databaseService.clearCart(cartId);
+      await this.databaseService.clearCart(cartId, expectedVersion);
 
       return {
         success: true,
@@ -241,23 +317,34 @@ export class BulkOperationsService {
       };
 
     } catch (error) {
+      if (error instanceof CartServiceError) {
+        throw error;
+      }
       this.logger.error('Clear cart operation failed:', error.message);
       throw new BadRequestException(`Clear cart operation failed: ${error.message}`);
     }
   }
 
+  /**
+   * Reject the whole batch up front when the client's version is stale. The
+   * batch's single write checks the version again.
+   */
+  private assertVersion(cart: { id: string; version: number }, expectedVersion?: number): void {
+    if (expectedVersion !== undefined && cart.version !== expectedVersion) {
+      throw new CartServiceError(
+        'CART_VERSION_CONFLICT',
+        'Cart has been modified since it was last read',
+        { cartId: cart.id, expectedVersion }
+      );
+    }
+  }
+
   /**
    * Get bulk operation statistics
    */
   async getBulkOperationStats(cartId: string, sessionContext: SessionContext) {
     try {
-      const cart = await this.databaseService.prisma.cart.findUnique({
-        where: { id: cartId },
-        include: {
-          items: true,
-          session: true
-        }
-      });
+      const cart = await this.databaseService.cart.findById(cartId);
 
       if (!cart) {
         throw new BadRequestException('Cart not found');
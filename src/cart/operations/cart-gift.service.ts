@@ -0,0 +1,50 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { DatabaseService } from '../../database/database.service';
+import { GiftOptionsService } from '../../services/gift-options.service';
+import { CartItem, CartServiceError } from '../../types/cart.types';
+import { GiftOptions } from '../../types/gift.types';
+
+@Injectable()
+export class CartGiftService {
+  private readonly logger = new Logger(CartGiftService.name);
+
+  constructor(
+    private databaseService: DatabaseService,
+    private giftOptionsService: GiftOptionsService
+  ) {}
+
+  /**
+   * Set the gift options of a line in the cart. Options that are all
+   * switched off clear them.
+   */
+  async setItemGiftOptions(
+    cartId: string,
+    itemId: string,
+    gift: GiftOptions,
+    expectedVersion?: number
+  ): Promise<CartItem> {
+    const item = await this.databaseService.cartItem.findById(itemId);
+    if (!item || item.cartId !== cartId) {
+      throw new CartServiceError('ITEM_NOT_FOUND', 'Cart item not found');
+    }
+
+    const updatedItem = await this.databaseService.setItemGiftOptions(
+      itemId,
+      this.giftOptionsService.normalize(gift),
+      expectedVersion
+    );
+
+    this.logger.log(`Gift options ${updatedItem.gift ? 'set' : 'cleared'} for item ${itemId}`);
+    return updatedItem;
+  }
+
+  /**
+   * Set the gift options for the cart as a whole
+   */
+  async setCartGiftOptions(cartId: string, gift: GiftOptions, expectedVersion?: number): Promise<void> {
+    const normalized = this.giftOptionsService.normalize(gift);
+    await this.databaseService.setCartGiftOptions(cartId, normalized, expectedVersion);
+
+    this.logger.log(`Gift options ${normalized ? 'set' : 'cleared'} for cart ${cartId}`);
+  }
+}
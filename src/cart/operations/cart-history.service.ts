@@ -0,0 +1,150 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { DatabaseService } from '../../database/database.service';
+import { CurrencyService } from '../../currency/currency.service';
+import { CartChangesResponseDto } from '../dto/cart-history.dto';
+import { CartEvent, CartEventType, CartLineState, CartStateAt } from '../../types/cart-event.types';
+import { Cart, CartServiceError } from '../../types/cart.types';
+
+@Injectable()
+export class CartHistoryService {
+  private readonly logger = new Logger(CartHistoryService.name);
+
+  constructor(
+    private databaseService: DatabaseService,
+    private currencyService: CurrencyService
+  ) {}
+
+  /**
+   * Rebuild a cart as it was at a point in time by replaying its event log.
+   * Lines that were already in the cart when event recording started are
+   * seeded from the state the log first saw them in.
+   */
+  async getCartStateAt(cartId: string, at: Date): Promise<CartStateAt> {
+    const cart = await this.findCart(cartId);
+    const events = await this.databaseService.cartEvent.findByCartId(cartId);
+    const applied = events.filter(event => event.createdAt <= at);
+
+    const lines = at < cart.createdAt
+      ? new Map<string, CartLineState>()
+      : this.seedUnloggedLines(cart, events, at);
+
+    for (const event of applied) {
+      for (const change of event.changes) {
+        if (change.after) {
+          lines.set(change.itemId, change.after);
+        } else {
+          lines.delete(change.itemId);
+        }
+      }
+    }
+
+    const items = Array.from(lines.values());
+    const currency = this.resolveAt(events, at, CartEventType.PRICE_CHANGED, 'fromCurrency', 'toCurrency') ?? cart.currency;
+
+    this.logger.log(`Rebuilt cart ${cartId} as of ${at.toISOString()} from ${applied.length} events`);
+
+    return {
+      cartId,
+      at,
+      status: this.resolveAt(events, at, CartEventType.STATUS_CHANGED, 'from', 'to') ?? cart.status,
+      currency,
+      items,
+      itemCount: items
+        .filter(item => !item.parentItemId)
+        .reduce((sum, item) => sum + item.quantity, 0),
+      subtotal: this.currencyService.round(
+        items.reduce((sum, item) => sum + item.price * item.quantity, 0),
+        currency
+      ),
+      lastEventAt: applied.length ? applied[applied.length - 1].createdAt : undefined,
+      eventsApplied: applied.length
+    };
+  }
+
+  /**
+   * List the events recorded for a cart after one point in time and up to
+   * another, oldest first
+   */
+  async listChanges(cartId: string, from: Date, to: Date = new Date()): Promise<CartChangesResponseDto> {
+    if (from >= to) {
+      throw new CartServiceError('VALIDATION_ERROR', 'from must be earlier than to', { from, to });
+    }
+
+    await this.findCart(cartId);
+    const events = await this.databaseService.cartEvent.findByCartId(cartId, { after: from, until: to });
+
+    return { cartId, from, to, events };
+  }
+
+  private async findCart(cartId: string): Promise<Cart> {
+    const cart = await this.databaseService.cart.findById(cartId);
+    if (!cart) {
+      throw new CartServiceError('CART_NOT_FOUND', `Cart ${cartId} not found`, { cartId });
+    }
+    return cart;
+  }
+
+  /**
+   * Lines the log never saw being added: the state before their first
+   * recorded change, or their current state if no event ever touched them
+   */
+  private seedUnloggedLines(cart: Cart, events: CartEvent[], at: Date): Map<string, CartLineState> {
+    const lines = new Map<string, CartLineState>();
+    const seen = new Set<string>();
+
+    for (const event of events) {
+      for (const change of event.changes) {
+        if (seen.has(change.itemId)) {
+          continue;
+        }
+        seen.add(change.itemId);
+        if (change.before && new Date(change.before.addedAt) <= at) {
+          lines.set(change.itemId, change.before);
+        }
+      }
+    }
+
+    for (const item of cart.items) {
+      if (!seen.has(item.id) && item.addedAt <= at) {
+        lines.set(item.id, {
+          itemId: item.id,
+          productId: item.productId,
+          variantId: item.variantId,
+          quantity: item.quantity,
+          price: item.price,
+          originalPrice: item.originalPrice,
+          bundleId: item.bundleId,
+          parentItemId: item.parentItemId,
+          unitQuantity: item.unitQuantity,
+          customization: item.customization,
+          surcharge: item.surcharge,
+          addedAt: item.addedAt
+        });
+      }
+    }
+
+    return lines;
+  }
+
+  /**
+   * Value of a field tracked by from/to events as of a point in time: the
+   * "to" of the last such event up to then, otherwise the "from" of the
+   * first one after
+   */
+  private resolveAt(
+    events: CartEvent[],
+    at: Date,
+    type: CartEventType,
+    fromKey: string,
+    toKey: string
+  ): string | undefined {
+    const matching = events.filter(event => event.type === type && event.details);
+    const last = matching.filter(event => event.createdAt <= at).pop();
+    if (last) {
+      return last.details![toKey];
+    }
+
+    const next = matching.find(event => event.createdAt > at);
+    return next?.details![fromKey];
+  }
+}
@@ -0,0 +1,573 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { DatabaseService } from '../../database/database.service';
+import { PricingService } from '../../services/pricing.service';
+import { CustomizationService } from '../../services/customization.service';
+import { QuantityRulesService } from '../../services/quantity-rules.service';
+import { InventoryService } from '../../services/inventory.service';
+import { PriceLockService } from '../../services/price-lock.service';
+import { CurrencyService } from '../../currency/currency.service';
+import { ProductClient } from '../../clients/product.client';
+import { ItemValidatorService } from '../validation/item-validator.service';
+import { BusinessRulesService } from '../../rules/business-rules.service';
+import {
+  CartExportDto,
+  CartExportLineDto,
+  CartImportResponseDto,
+  ImportCartDto,
+  ImportRowReportDto,
+  ImportRowStatus
+} from '../dto/cart-import.dto';
+import { EffectiveQuantityRules, Product, QuantityCustomer } from '../../types/product-integration.types';
+import { Cart, CartItem, CartServiceError, ItemPriceDto, PricedLineDto } from '../../types/cart.types';
+import { RuleAction } from '../../types/business-rule.types';
+import { FulfillmentExpectation } from '../../types/fulfillment.types';
+import { SalesChannel } from '../../types/channel.types';
+
+type CartImportResult = Omit<CartImportResponseDto, 'cart'>;
+
+// Largest import accepted in one request
+const MAX_IMPORT_ROWS = 500;
+
+// CSV header names accepted for each field, compared without case, spaces,
+// dashes or underscores
+const CSV_COLUMNS: Record<'productId' | 'variantId' | 'quantity' | 'bundleId', string[]> = {
+  productId: ['productid', 'sku', 'product'],
+  variantId: ['variantid', 'variant'],
+  quantity: ['quantity', 'qty'],
+  bundleId: ['bundleid']
+};
+
+const EXPORT_COLUMNS: Array<keyof CartExportLineDto> = [
+  'productId',
+  'variantId',
+  'bundleId',
+  'quantity',
+  'cartPrice',
+  'currentPrice',
+  'lineTotal'
+];
+
+// Spreadsheets run a cell starting with one of these as a formula
+const CSV_FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+interface ImportRow {
+  report: ImportRowReportDto;
+  pricing?: ItemPriceDto;
+  // The row's cart line and its quantity once the row and the rows before it are added
+  lineId?: string;
+  lineQuantity?: number;
+  fulfillment?: FulfillmentExpectation;
+}
+
+@Injectable()
+export class CartImportService {
+  private readonly logger = new Logger(CartImportService.name);
+
+  constructor(
+    private databaseService: DatabaseService,
+    private pricingService: PricingService,
+    private customizationService: CustomizationService,
+    private quantityRulesService: QuantityRulesService,
+    private inventoryService: InventoryService,
+    private priceLockService: PriceLockService,
+    private currencyService: CurrencyService,
+    private productClient: ProductClient,
+    private itemValidatorService: ItemValidatorService,
+    private businessRulesService: BusinessRulesService
+  ) {}
+
+  /**
+   * Add a pasted list of products to the cart. Every row is checked the way
+   * a single add is, then validated and run through the business rules with
+   * the cart as the import leaves it; rows the product's quantity rules do
+   * not allow are moved to the nearest allowed quantity. The rows left are
+   * added in one transaction and each row is reported on.
+   */
+  async importItems(cartId: string, dto: ImportCartDto, expectedVersion?: number): Promise<CartImportResult> {
+    const cart = await this.databaseService.cart.findById(cartId);
+    if (!cart) {
+      throw new CartServiceError('CART_NOT_FOUND', `Cart ${cartId} not found`, { cartId });
+    }
+
+    const rows = this.parseRows(dto);
+
+    await this.priceRows(rows, cart.currency, cart.channel);
+    await this.checkProducts(rows);
+    await this.validateRows(rows);
+    const lines = await this.fitQuantityRules(rows, cart.items, { userId: cart.userId, cartId: cart.id });
+    await this.checkBusinessRules(rows, { ...cart, items: lines });
+    await this.checkStock(rows);
+
+    const accepted = rows.filter(row => row.report.errors.length === 0);
+    if (accepted.length > 0) {
+      const lines: PricedLineDto[] = await Promise.all(accepted.map(async row => ({
+        item: {
+          productId: row.report.productId!,
+          variantId: row.report.variantId,
+          quantity: row.report.quantity!
+        },
+        pricing: { ...row.pricing!, lockedUntil: await this.priceLockService.lockUntil(row.report.productId!) },
+        fulfillment: row.fulfillment
+      })));
+
+      const items = await this.databaseService.addItemsToCart(cartId, lines, expectedVersion);
+      items.forEach((item, index) => {
+        accepted[index].report.itemId = item.id;
+      });
+    }
+
+    for (const { report } of rows) {
+      if (report.errors.length > 0) {
+        report.status = ImportRowStatus.FAILED;
+        report.quantity = undefined;
+      } else if (report.quantity !== report.requestedQuantity) {
+        report.status = ImportRowStatus.ADJUSTED;
+      }
+    }
+
+    const reports = rows.map(row => row.report);
+    this.logger.log(`Imported ${reports.filter(report => report.status !== ImportRowStatus.FAILED).length} of ${reports.length} rows into cart ${cartId}`);
+
+    return {
+      totalRows: reports.length,
+      importedRows: reports.filter(report => report.status === ImportRowStatus.IMPORTED).length,
+      adjustedRows: reports.filter(report => report.status === ImportRowStatus.ADJUSTED).length,
+      failedRows: reports.filter(report => report.status === ImportRowStatus.FAILED).length,
+      rows: reports
+    };
+  }
+
+  /**
+   * The cart's top-level lines with their current prices and line totals
+   */
+  async exportCart(cartId: string): Promise<CartExportDto> {
+    const cart = await this.databaseService.cart.findById(cartId);
+    if (!cart) {
+      throw new CartServiceError('CART_NOT_FOUND', `Cart ${cartId} not found`, { cartId });
+    }
+
+    const lines = await Promise.all(
+      cart.items
+        .filter(item => !item.parentItemId)
+        .map(item => this.toExportLine(item, cart.currency, cart.channel))
+    );
+
+    return {
+      cartId: cart.id,
+      name: cart.name,
+      currency: cart.currency,
+      lines,
+      itemCount: lines.reduce((sum, line) => sum + line.quantity, 0),
+      subtotal: this.currencyService.round(
+        lines.reduce((sum, line) => sum + (line.lineTotal ?? 0), 0),
+        cart.currency
+      ),
+      exportedAt: new Date()
+    };
+  }
+
+  /**
+   * Render an export as CSV, one row per line with the currency repeated on
+   * each row so the file stands on its own in a spreadsheet
+   */
+  toCsv(cartExport: CartExportDto): string {
+    const header = [...EXPORT_COLUMNS, 'currency'].join(',');
+    const rows = cartExport.lines.map(line =>
+      [...EXPORT_COLUMNS.map(column => line[column]), cartExport.currency]
+        .map(value => this.csvField(value))
+        .join(',')
+    );
+
+    return [header, ...rows].join('\r\n') + '\r\n';
+  }
+
+  private parseRows(dto: ImportCartDto): ImportRow[] {
+    if ((dto.csv === undefined) === (dto.items === undefined)) {
+      throw new CartServiceError('INVALID_IMPORT', 'Send either csv or items, not both or neither');
+    }
+
+    const rows = dto.csv !== undefined ? this.parseCsvRows(dto.csv) : this.parseJsonRows(dto.items!);
+
+    if (rows.length === 0) {
+      throw new CartServiceError('INVALID_IMPORT', 'The import has no rows');
+    }
+    if (rows.length > MAX_IMPORT_ROWS) {
+      throw new CartServiceError(
+        'INVALID_IMPORT',
+        `An import can have at most ${MAX_IMPORT_ROWS} rows`,
+        { rows: rows.length, maxRows: MAX_IMPORT_ROWS }
+      );
+    }
+
+    return rows;
+  }
+
+  private parseCsvRows(csv: string): ImportRow[] {
+    const records = this.parseCsv(csv);
+    const headerIndex = records.findIndex(record => record.fields.some(field => field.trim() !== ''));
+    if (headerIndex === -1) {
+      return [];
+    }
+
+    const header = records[headerIndex].fields.map(field => field.trim().toLowerCase().replace(/[\s_-]/g, ''));
+    const columns = Object.fromEntries(
+      Object.entries(CSV_COLUMNS).map(([key, names]) => [key, header.findIndex(name => names.includes(name))])
+    ) as Record<keyof typeof CSV_COLUMNS, number>;
+
+    if (columns.productId === -1) {
+      throw new CartServiceError(
+        'INVALID_IMPORT',
+        'The CSV header must name a productId column',
+        { header: records[headerIndex].fields }
+      );
+    }
+
+    const field = (fields: string[], column: number) => column === -1 ? undefined : fields[column]?.trim();
+
+    return records
+      .slice(headerIndex + 1)
+      .filter(record => record.fields.some(value => value.trim() !== ''))
+      .map(record => this.toImportRow(record.line, {
+        productId: field(record.fields, columns.productId),
+        variantId: field(record.fields, columns.variantId),
+        quantity: field(record.fields, columns.quantity),
+        bundleId: field(record.fields, columns.bundleId)
+      }));
+  }
+
+  private parseJsonRows(items: Array<Record<string, any>>): ImportRow[] {
+    return items.map((item, index) => {
+      if (!item || typeof item !== 'object' || Array.isArray(item)) {
+        return this.toImportRow(index + 1, {}, ['Row must be an object']);
+      }
+      return this.toImportRow(index + 1, item);
+    });
+  }
+
+  private toImportRow(row: number, values: Record<string, any>, errors: string[] = []): ImportRow {
+    const productId = this.optionalString(values.productId ?? values.sku);
+    const variantId = this.optionalString(values.variantId);
+    const rawQuantity = values.quantity === undefined || values.quantity === null || values.quantity === ''
+      ? 1
+      : Number(values.quantity);
+
+    if (errors.length === 0) {
+      if (!productId) {
+        errors.push('productId is required');
+      }
+      if (!Number.isInteger(rawQuantity) || rawQuantity < 1) {
+        errors.push(`Quantity must be a whole number of at least 1, got ${values.quantity}`);
+      }
+      if (this.optionalString(values.bundleId)) {
+        errors.push('Bundle lines cannot be imported; add the bundle instead');
+      }
+    }
+
+    const quantity = Number.isInteger(rawQuantity) && rawQuantity >= 1 ? rawQuantity : undefined;
+    return {
+      report: {
+        row,
+        productId,
+        variantId,
+        requestedQuantity: quantity,
+        quantity,
+        status: ImportRowStatus.IMPORTED,
+        errors,
+        warnings: []
+      }
+    };
+  }
+
+  /**
+   * Price each row in the cart currency and sales channel, which also
+   * confirms the product exists
+   */
+  private async priceRows(rows: ImportRow[], currency: string, channel?: SalesChannel): Promise<void> {
+    const prices = new Map<string, Promise<ItemPriceDto>>();
+
+    await Promise.all(rows.filter(row => row.report.errors.length === 0).map(async row => {
+      const { productId, variantId } = row.report;
+      const key = `${productId}_${variantId || 'no_variant'}`;
+      if (!prices.has(key)) {
+        prices.set(key, this.pricingService.resolveItemPrice(productId!, variantId, currency, channel));
+      }
+
+      try {
+        row.pricing = await prices.get(key)!;
+      } catch (error) {
+        row.report.errors.push(error.message);
+      }
+    }));
+  }
+
+  /**
+   * Check each row's product, and its variant when one is named, is still
+   * on sale
+   */
+  private async checkProducts(rows: ImportRow[]): Promise<void> {
+    const products = new Map<string, Promise<Product>>();
+
+    await Promise.all(rows.filter(row => row.report.errors.length === 0).map(async ({ report }) => {
+      const productId = report.productId!;
+      if (!products.has(productId)) {
+        products.set(productId, this.productClient.getProduct(productId));
+      }
+
+      let product: Product;
+      try {
+        product = await products.get(productId)!;
+      } catch (error) {
+        report.errors.push(`Product ${productId} could not be loaded`);
+        return;
+      }
+
+      if (!product.isActive || product.isDiscontinued) {
+        report.errors.push(`Product ${productId} is no longer available`);
+      } else if (report.variantId && !product.variants?.some(variant => variant.id === report.variantId && variant.isActive)) {
+        report.errors.push(`Variant ${report.variantId} of ${productId} is not available`);
+      }
+    }));
+  }
+
+  private async validateRows(rows: ImportRow[]): Promise<void> {
+    const priced = rows.filter(row => row.report.errors.length === 0);
+    if (priced.length === 0) {
+      return;
+    }
+
+    const { results } = await this.itemValidatorService.validateMultipleItems(priced.map(row => ({
+      productId: row.report.productId!,
+      variantId: row.report.variantId,
+      quantity: row.report.quantity!,
+      price: row.pricing!.price
+    })));
+
+    results.forEach((result, index) => {
+      const report = priced[index].report;
+      report.errors.push(...result.errors);
+      report.warnings.push(...result.warnings);
+    });
+  }
+
+  /**
+   * Move each row to the nearest quantity the product's rules allow, given
+   * what the customer, the cart and the earlier rows already hold. Rows are
+   * added without customization, so they merge into the product's
+   * uncustomized line. Returns the cart's top-level lines as the rows leave
+   * them.
+   */
+  private async fitQuantityRules(rows: ImportRow[], cartItems: CartItem[], customer: QuantityCustomer): Promise<CartItem[]> {
+    const lines = cartItems.filter(item => !item.parentItemId).map(item => ({ ...item }));
+    const rulesByProduct = new Map<string, Promise<EffectiveQuantityRules>>();
+    const heldByProduct = new Map<string, Promise<number>>();
+
+    for (const row of rows) {
+      const { report } = row;
+      if (report.errors.length > 0) {
+        continue;
+      }
+
+      const productId = report.productId!;
+      if (!rulesByProduct.has(productId)) {
+        rulesByProduct.set(productId, this.quantityRulesService.getRules(productId));
+        heldByProduct.set(productId, this.quantityRulesService.customerQuantity(productId, customer));
+      }
+      const rules = await rulesByProduct.get(productId)!;
+
+      const line = lines.find(item =>
+        item.productId === productId
+        && (item.variantId || undefined) === (report.variantId || undefined)
+        && !item.bundleId
+        && !item.customizationFingerprint
+      );
+      if (line?.quoteId) {
+        report.errors.push(`${productId} is priced by quote ${line.quoteId} and cannot be added to`);
+        continue;
+      }
+
+      const current = line?.quantity ?? 0;
+      const otherQuantity = this.quantityRulesService.otherLinesQuantity(productId, lines, line?.id)
+        + await heldByProduct.get(productId)!;
+      const check = this.quantityRulesService.check(rules, current + report.quantity!, otherQuantity);
+
+      if (!check.valid) {
+        const quantity = check.suggestedQuantity !== undefined ? check.suggestedQuantity - current : 0;
+        if (quantity < 1) {
+          report.errors.push(`${check.reason}. No more can be added`);
+          continue;
+        }
+        report.quantity = quantity;
+        report.warnings.push(`${check.reason}. Quantity changed from ${report.requestedQuantity} to ${quantity}`);
+      }
+
+      if (line) {
+        line.quantity += report.quantity!;
+      } else {
+        lines.push({
+          id: `import_${report.row}`,
+          cartId: '',
+          productId,
+          variantId: report.variantId,
+          quantity: report.quantity!,
+          price: row.pricing!.price,
+          addedAt: new Date(),
+          updatedAt: new Date()
+        });
+      }
+      row.lineId = line?.id ?? `import_${report.row}`;
+      row.lineQuantity = current + report.quantity!;
+    }
+
+    return lines;
+  }
+
+  /**
+   * Evaluate the business rules against the cart as the import leaves it.
+   * A line's outcome goes to the rows adding to that line, a cart's outcome
+   * to every row; lines the import does not touch are theirs to report.
+   */
+  private async checkBusinessRules(rows: ImportRow[], cart: Cart): Promise<void> {
+    const accepted = rows.filter(row => row.report.errors.length === 0);
+    if (accepted.length === 0) {
+      return;
+    }
+
+    const evaluation = await this.businessRulesService.evaluate(cart, { id: cart.userId, isGuest: !cart.userId });
+    for (const outcome of evaluation.outcomes) {
+      for (const { report, lineId } of accepted) {
+        if (outcome.itemId && outcome.itemId !== lineId) {
+          continue;
+        }
+
+        if (outcome.action === RuleAction.BLOCK || outcome.action === RuleAction.CAP_QUANTITY) {
+          report.errors.push(outcome.message);
+        } else {
+          report.warnings.push(outcome.message);
+        }
+      }
+    }
+  }
+
+  /**
+   * Check stock for each row's line as it will be once the row is added.
+   * Short stock is accepted only for back-order and pre-order products.
+   */
+  private async checkStock(rows: ImportRow[]): Promise<void> {
+    for (const row of rows) {
+      if (row.report.errors.length > 0) {
+        continue;
+      }
+
+      try {
+        row.fulfillment = await this.inventoryService.resolveAvailability(
+          row.report.productId!,
+          row.report.variantId,
+          row.lineQuantity!
+        );
+      } catch (error) {
+        row.report.errors.push(error.message);
+      }
+    }
+  }
+
+  private async toExportLine(item: CartItem, currency: string, channel?: SalesChannel): Promise<CartExportLineDto> {
+    const pricing = await (item.bundleId
+      ? this.pricingService.resolveBundlePrice(item.bundleId, currency, channel)
+      : this.customizationService.repriceLine(item, currency, channel)
+    ).catch((error): ItemPriceDto | null => {
+      this.logger.warn(`No current price for exported line ${item.id}: ${error.message}`);
+      return null;
+    });
+
+    return {
+      productId: item.productId,
+      variantId: item.variantId,
+      bundleId: item.bundleId,
+      quantity: item.quantity,
+      cartPrice: item.price,
+      currentPrice: pricing ? pricing.price : null,
+      lineTotal: pricing ? this.currencyService.round(pricing.price * item.quantity, currency) : null,
+      customization: item.customization
+    };
+  }
+
+  /**
+   * Split CSV text into records, honouring quoted fields with embedded
+   * commas, quotes and line breaks. Each record keeps the line it starts on.
+   */
+  private parseCsv(text: string): Array<{ line: number; fields: string[] }> {
+    const records: Array<{ line: number; fields: string[] }> = [];
+    let fields: string[] = [];
+    let field = '';
+    let quoted = false;
+    let line = 1;
+    let recordLine = 1;
+
+    const input = text.replace(/^\uFEFF/, '');
+    for (let i = 0; i < input.length; i++) {
+      const char = input[i];
+
+      if (quoted) {
+        if (char === '"' && input[i + 1] === '"') {
+          field += '"';
+          i++;
+        } else if (char === '"') {
+          quoted = false;
+        } else {
+          if (char === '\n') {
+            line++;
+          }
+          field += char;
+        }
+      } else if (char === '"') {
+        quoted = true;
+      } else if (char === ',') {
+        fields.push(field);
+        field = '';
+      } else if (char === '\n' || char === '\r') {
+        if (char === '\r' && input[i + 1] === '\n') {
+          i++;
+        }
+        fields.push(field);
+        records.push({ line: recordLine, fields });
+        fields = [];
+        field = '';
+        line++;
+        recordLine = line;
+      } else {
+        field += char;
+      }
+    }
+
+    if (field !== '' || fields.length > 0) {
+      fields.push(field);
+      records.push({ line: recordLine, fields });
+    }
+
+    return records;
+  }
+
+  /**
+   * Quote a CSV field where needed. Text a spreadsheet would run as a
+   * formula is prefixed with a single quote so it stays text.
+   */
+  private csvField(value: unknown): string {
+    if (value === undefined || value === null) {
+      return '';
+    }
+
+    let text = String(value);
+    if (typeof value === 'string' && CSV_FORMULA_PREFIX.test(text)) {
+      text = `'${text}`;
+    }
+    return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+  }
+
+  private optionalString(value: unknown): string | undefined {
+    if (value === undefined || value === null) {
+      return undefined;
+    }
+    const text = String(value).trim();
+    return text === '' ? undefined : text;
+  }
+}
@@ -0,0 +1,224 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { DatabaseService } from '../../database/database.service';
+import { InventoryService } from '../../services/inventory.service';
+import { CartEventPublisher } from '../../events/cart-event.publisher';
+import { TenantService } from '../../tenant/tenant.service';
+import {
+  CartActor,
+  CartSideEffect,
+  CartSweepResult,
+  CartTransition,
+  TERMINAL_CART_STATUSES
+} from '../../types/cart-lifecycle.types';
+import { Cart, CartServiceError, CartStatus } from '../../types/cart.types';
+
+const { CUSTOMER, ADMIN, SYSTEM } = CartActor;
+const { RELEASE_RESERVATIONS, EMIT_ABANDONED, EMIT_RECOVERED } = CartSideEffect;
+
+// Every status change a cart may go through. Anything not listed here is
+// rejected; COMPLETED and EXPIRED have no way out.
+export const CART_TRANSITIONS: CartTransition[] = [
+  { from: CartStatus.ACTIVE, to: CartStatus.CHECKOUT, actors: [CUSTOMER, SYSTEM], sideEffects: [] },
+  { from: CartStatus.ACTIVE, to: CartStatus.ABANDONED, actors: [SYSTEM, ADMIN], sideEffects: [EMIT_ABANDONED] },
+  { from: CartStatus.ACTIVE, to: CartStatus.ARCHIVED, actors: [CUSTOMER, ADMIN], sideEffects: [] },
+  { from: CartStatus.ACTIVE, to: CartStatus.COMPLETED, actors: [SYSTEM], sideEffects: [] },
+  { from: CartStatus.ACTIVE, to: CartStatus.EXPIRED, actors: [SYSTEM, ADMIN], sideEffects: [RELEASE_RESERVATIONS] },
+  { from: CartStatus.CHECKOUT, to: CartStatus.ACTIVE, actors: [CUSTOMER, SYSTEM, ADMIN], sideEffects: [RELEASE_RESERVATIONS] },
+  { from: CartStatus.CHECKOUT, to: CartStatus.ABANDONED, actors: [SYSTEM, ADMIN], sideEffects: [RELEASE_RESERVATIONS, EMIT_ABANDONED] },
+  { from: CartStatus.CHECKOUT, to: CartStatus.COMPLETED, actors: [SYSTEM], sideEffects: [] },
+  { from: CartStatus.CHECKOUT, to: CartStatus.EXPIRED, actors: [SYSTEM, ADMIN], sideEffects: [RELEASE_RESERVATIONS] },
+  { from: CartStatus.ABANDONED, to: CartStatus.ACTIVE, actors: [CUSTOMER, ADMIN], sideEffects: [EMIT_RECOVERED] },
+  { from: CartStatus.ABANDONED, to: CartStatus.COMPLETED, actors: [SYSTEM], sideEffects: [] },
+  { from: CartStatus.ABANDONED, to: CartStatus.EXPIRED, actors: [SYSTEM, ADMIN], sideEffects: [RELEASE_RESERVATIONS] }
+];
+
+// Carts handled per sweep query, so a large backlog is worked off in chunks
+const SWEEP_BATCH_SIZE = 100;
+
+@Injectable()
+export class CartLifecycleService {
+  private readonly logger = new Logger(CartLifecycleService.name);
+  private readonly abandonAfterHours: number;
+  private readonly expireAfterHours: number;
+
+  constructor(
+    private databaseService: DatabaseService,
+    private inventoryService: InventoryService,
+    private cartEventPublisher: CartEventPublisher,
+    private configService: ConfigService,
+    private tenantService: TenantService
+  ) {
+    this.abandonAfterHours = this.positiveHours('session.cartAbandonHours', 24);
+    this.expireAfterHours = this.positiveHours('session.cartExpiryHours', 72);
+  }
+
+  /**
+   * The transition from one status to another, if the actor may make it.
+   * Throws CART_TRANSITION_NOT_ALLOWED otherwise.
+   */
+  assertTransition(from: CartStatus, to: CartStatus, actor: CartActor): CartTransition {
+    const transition = CART_TRANSITIONS.find(entry => entry.from === from && entry.to === to);
+
+    if (!transition || !transition.actors.includes(actor)) {
+      throw new CartServiceError(
+        'CART_TRANSITION_NOT_ALLOWED',
+        TERMINAL_CART_STATUSES.includes(from)
+          ? `Cart is ${from.toLowerCase()} and its status can no longer change`
+          : `A cart cannot go from ${from} to ${to}${transition ? ` on behalf of ${actor.toLowerCase()}` : ''}`,
+        { from, to, actor }
+      );
+    }
+
+    return transition;
+  }
+
+  /**
+   * Move a cart to another status and run the transition's side effects.
+   * Side effects that fail are logged; the status change stands.
+   */
+  async transition(
+    cartId: string,
+    to: CartStatus,
+    actor: CartActor,
+    details: Record<string, any> = {}
+  ): Promise<Cart> {
+    const cart = await this.databaseService.cart.findById(cartId);
+    if (!cart) {
+      throw new CartServiceError('CART_NOT_FOUND', `Cart ${cartId} not found`, { cartId });
+    }
+
+    const transition = this.assertTransition(cart.status, to, actor);
+    const changed = await this.databaseService.cart.changeStatus(cartId, cart.status, to, { ...details, actor });
+    if (!changed) {
+      throw new CartServiceError(
+        'CART_VERSION_CONFLICT',
+        'Cart status has been changed since it was last read',
+        { cartId, from: cart.status, to }
+      );
+    }
+
+    this.logger.log(`Cart ${cartId}: ${cart.status} -> ${to} (${actor.toLowerCase()})`);
+
+    for (const sideEffect of transition.sideEffects) {
+      try {
+        await this.runSideEffect(sideEffect, cart);
+      } catch (error) {
+        this.logger.error(`${sideEffect} failed for cart ${cartId}:`, error.message);
+      }
+    }
+
+    return (await this.databaseService.cart.findById(cartId))!;
+  }
+
+  /**
+   * Bring back a current cart the idle sweep abandoned, so a returning
+   * customer picks up where they left off
+   */
+  async recoverAbandonedCart(cart: Cart): Promise<Cart> {
+    return this.transition(cart.id, CartStatus.ACTIVE, CartActor.CUSTOMER, { reason: 'customer_returned' });
+  }
+
+  /**
+   * Abandon carts that have been idle for CART_ABANDON_HOURS and expire
+   * carts that have stayed abandoned for CART_EXPIRY_HOURS. Each store's
+   * carts are swept within that store.
+   */
+  async sweepIdleCarts(now: Date = new Date()): Promise<CartSweepResult> {
+    const result: CartSweepResult = { abandoned: 0, expired: 0, failed: 0 };
+    const abandonBefore = new Date(now.getTime() - this.abandonAfterHours * 60 * 60 * 1000);
+    const expireBefore = new Date(now.getTime() - this.expireAfterHours * 60 * 60 * 1000);
+
+    for (const tenantId of this.tenantService.tenantIds()) {
+      await this.tenantService.run(tenantId, async () => {
+        await this.sweep([CartStatus.ACTIVE, CartStatus.CHECKOUT], abandonBefore, true, CartStatus.ABANDONED, result, 'abandoned');
+        await this.sweep([CartStatus.ABANDONED], expireBefore, false, CartStatus.EXPIRED, result, 'expired');
+      });
+    }
+
+    this.logger.log(`Idle cart sweep: ${result.abandoned} abandoned, ${result.expired} expired, ${result.failed} failed`);
+    return result;
+  }
+
+  private async sweep(
+    statuses: CartStatus[],
+    before: Date,
+    withItemsOnly: boolean,
+    to: CartStatus,
+    result: CartSweepResult,
+    counter: 'abandoned' | 'expired'
+  ): Promise<void> {
+    const failed = new Set<string>();
+
+    for (;;) {
+      const cartIds = (await this.databaseService.cart.findIdle(
+        statuses,
+        before,
+        SWEEP_BATCH_SIZE + failed.size,
+        withItemsOnly
+      )).filter(cartId => !failed.has(cartId));
+
+      if (cartIds.length === 0) {
+        return;
+      }
+
+      for (const cartId of cartIds) {
+        try {
+          await this.transition(cartId, to, CartActor.SYSTEM, { reason: 'idle' });
+          result[counter]++;
+        } catch (error) {
+          this.logger.warn(`Cart ${cartId} could not be moved to ${to}: ${error.message}`);
+          failed.add(cartId);
+          result.failed++;
+        }
+      }
+    }
+  }
+
+  private async runSideEffect(sideEffect: CartSideEffect, cart: Cart): Promise<void> {
+    switch (sideEffect) {
+      case CartSideEffect.RELEASE_RESERVATIONS:
+        await this.inventoryService.releaseInventoryReservations(cart.id);
+        break;
+      case CartSideEffect.EMIT_ABANDONED:
+        await this.cartEventPublisher.publishCartAbandoned(
+          cart.id,
+          cart.sessionId,
+          cart.userId,
+          this.withTotals(cart),
+          cart.updatedAt
+        );
+        break;
+      case CartSideEffect.EMIT_RECOVERED:
+        await this.cartEventPublisher.publishCartRecovered(cart.id, cart.sessionId, cart.userId, this.withTotals(cart));
+        break;
+    }
+  }
+
+  /**
+   * The cart with line totals at its stored prices, which is all the
+   * lifecycle events report
+   */
+  private withTotals(cart: Cart): Cart {
+    const lines = cart.items.filter(item => !item.parentItemId);
+    const subtotal = lines.reduce((sum, item) => sum + item.price * item.quantity, 0);
+
+    return {
+      ...cart,
+      totals: {
+        subtotal,
+        tax: 0,
+        discount: 0,
+        gift: 0,
+        total: subtotal,
+        itemCount: lines.reduce((sum, item) => sum + item.quantity, 0),
+        currency: cart.currency
+      }
+    };
+  }
+
+  private positiveHours(key: string, fallback: number): number {
+    const hours = Number(this.configService.get(key, fallback));
+    return hours > 0 ? hours : fallback;
+  }
+}
@@ -1,7 +1,19 @@
 import { Injectable, Logger, BadRequestException } from '@nestjs/common';
 import { DatabaseService } from '../../database/database.service';
-import { CartMergeDto, CartMergeResponseDto } from '../dto/cart-merge.dto';
-import { SessionContext } from '../../types/cart.types';
+import { PricingService } from '../../services/pricing.service';
+import { CustomizationService } from '../../services/customization.service';
+import { QuantityRulesService } from '../../services/quantity-rules.service';
+import { CartLifecycleService } from './cart-lifecycle.service';
+import { CartMergeDto, CartMergeResponseDto, QuantityAdjustment } from '../dto/cart-merge.dto';
+import { EffectiveQuantityRules, QuantityCustomer } from '../../types/product-integration.types';
+import { SessionContext, CartServiceError, CartStatus } from '../../types/cart.types';
+import { CartActor } from '../../types/cart-lifecycle.types';
+import { CartModel } from '../../models/cart.model';
+import { CartItemModel } from '../../models/cart-item.model';
+import { CartEventModel } from '../../models/cart-event.model';
+import { SavedItemModel } from '../../models/saved-item.model';
+import { CartEventType } from '../../types/cart-event.types';
+import { SalesChannel } from '../../types/channel.types';
 
 export interface MergeConflict {
   productId: string;
@@ -13,11 +25,33 @@ export interface MergeConflict {
   resolution: 'guest' | 'user' | 'combined';
 }
 
+export interface CloneItemsResult {
+  sourceCartId: string;
+  targetCartId: string;
+  itemsAdded: number;
+  itemsUpdated: number;
+  conflicts: MergeConflict[];
+  quantityAdjustments: QuantityAdjustment[];
+}
+
+interface ItemTransferPlan {
+  conflicts: MergeConflict[];
+  itemsToAdd: any[];
+  itemsToUpdate: any[];
+  quantityAdjustments: QuantityAdjustment[];
+}
+
 @Injectable()
 export class CartMergerService {
   private readonly logger = new Logger(CartMergerService.name);
 
-  constructor(private databaseService: DatabaseService) {}
+  constructor(
+    private databaseService: DatabaseService,
+    private pricingService: PricingService,
+    private customizationService: CustomizationService,
+    private quantityRulesService: QuantityRulesService,
+    private cartLifecycleService: CartLifecycleService
+  ) {}
 
   /**
    * Merge guest cart with user cart on login
@@ -25,19 +59,14 @@ export class CartMergerService {
   async mergeCarts(
     guestCartId: string,
     userCartId: string,
-    mergeOptions: CartMergeDto
+    mergeOptions: CartMergeDto,
+    expectedVersion?: number
   ): Promise<CartMergeResponseDto> {
     try {
       // Get both carts with items
       const [guestCart, userCart] = await Promise.all([
-        this.databaseService.prisma.cart.findUnique({
-          where: { id: guestCartId },
-          include: { items: true, metadata: true }
-        }),
-        this.databaseService.prisma.cart.findUnique({
-          where: { id: userCartId },
-          include: { items: true, metadata: true }
-        })
+        this.databaseService.cart.findById(guestCartId),
+        this.databaseService.cart.findById(userCartId)
       ]);
 
       if (!guestCart || !userCart) {
@@ -45,86 +74,35 @@ export class CartMergerService {
       }
 
       // Validate cart ownership
-      if (guestCart.userId !== null) {
+      if (guestCart.userId) {
         throw new BadRequestException('Guest cart must not have a user ID');
       }
 
-      if (userCart.userId === null) {
+      if (!userCart.userId) {
         throw new BadRequestException('User cart must have a user ID');
       }
 
-      const conflicts: MergeConflict[] = [];
-      const mergedItems = new Map<string, any>();
-      const itemsToAdd: any[] = [];
-      const itemsToUpdate: any[] = [];
-
-      // Process guest cart items
-      for (const guestItem of guestCart.items) {
-        const key = `${guestItem.productId}_${guestItem.variantId || 'no_variant'}`;
-        
-        // Find matching item in user cart
-        const userItem = userCart.items.find(item => 
-          item.productId === guestItem.productId && 
-          item.variantId === guestItem.variantId
-        );
-
-        if (userItem) {
-          // Conflict resolution
-          const conflict = this.resolveItemConflict(guestItem, userItem, mergeOptions);
-          conflicts.push(conflict);
+      // A merged guest cart is completed, so it must still be able to get there
+      this.cartLifecycleService.assertTransition(guestCart.status, CartStatus.COMPLETED, CartActor.SYSTEM);
 
-          if (conflict.resolution === 'combined') {
-            itemsToUpdate.push({
-              itemId: userItem.id,
-              quantity: userItem.quantity + guestItem.quantity,
-              price: mergeOptions.preferGuestPrice ? guestItem.price : userItem.price
-            });
-          } else if (conflict.resolution === 'guest') {
-            itemsToUpdate.push({
-              itemId: userItem.id,
-              quantity: guestItem.quantity,
-              price: guestItem.price
-            });
-          }
-          // If resolution is 'user', keep user cart as is
-        } else {
-          // No conflict, add guest item to user cart
-          itemsToAdd.push({
-            productId: guestItem.productId,
-            variantId: guestItem.variantId,
-            quantity: guestItem.quantity,
-            price: guestItem.price,
-            originalPrice: guestItem.originalPrice
-          });
-        }
-      }
+      const plan = await this.planItemTransfer(
+        guestCart.items,
+        userCart.items,
+        mergeOptions,
+        userCart.currency,
+        userCart.channel,
+        { userId: userCart.userId, cartId: userCart.id }
+      );
 
       // Execute merge in transaction
       const result = await this.databaseService.transaction(async (tx) => {
-        // Add new items
-        for (const item of itemsToAdd) {
-          await tx.cartItem.create({
-            data: {
-              cartId: userCartId,
-              productId: item.productId,
-              variantId: item.variantId,
-              quantity: item.quantity,
-              price: item.price,
-              originalPrice: item.originalPrice
-            }
-          });
-        }
-
-        // Update existing items
-        for (const update of itemsToUpdate) {
-          await tx.cartItem.update({
-            where: { id: update.itemId },
-            data: {
-              quantity: update.quantity,
-              price: update.price
-            }
-          });
-        }
+        const cartEventModel = new CartEventModel(tx);
+        await cartEventModel.track(
+          userCartId,
+          CartEventType.CART_MERGED,
+          () => this.applyItemTransfer(tx, userCartId, plan),
+          { sourceCartId: guestCartId }
+        );
 
         // Merge metadata
         if (mergeOptions.preserveMetadata) {
@@ -146,11 +124,11 @@ export class CartMergerService {
           }
         }
 
-        // Update user cart timestamp
-        await tx.cart.update({
-          where: { id: userCartId },
-          data: { updatedAt: new Date() }
-        });
+        // Items the guest saved for later are the customer's from now on
+        await new SavedItemModel(tx).assignToUser(guestCart.sessionId, userCart.userId);
+
+        // Bump the user cart version (conditionally, when the client sent If-Match)
+        await new CartModel(tx).incrementVersion(userCartId, expectedVersion);
 
         // Mark guest cart as merged
         await tx.cart.update({
@@ -160,13 +138,18 @@ export class CartMergerService {
             updatedAt: new Date()
           }
         });
+        await cartEventModel.append({
+          cartId: guestCartId,
+          type: CartEventType.STATUS_CHANGED,
+          details: { from: guestCart.status, to: 'COMPLETED', mergedInto: userCartId }
+        });
 
         return {
           userCartId,
           guestCartId,
-          itemsAdded: itemsToAdd.length,
-          itemsUpdated: itemsToUpdate.length,
-          conflicts: conflicts.length
+          itemsAdded: plan.itemsToAdd.length,
+          itemsUpdated: plan.itemsToUpdate.length,
+          conflicts: plan.conflicts.length
         };
       });
 
@@ -178,16 +161,295 @@ export class CartMergerService {
         guestCartId,
         itemsAdded: result.itemsAdded,
         itemsUpdated: result.itemsUpdated,
-        conflicts,
+        conflicts: plan.conflicts,
+        quantityAdjustments: plan.quantityAdjustments,
         message: 'Carts merged successfully'
       };
 
     } catch (error) {
+      if (error instanceof CartServiceError && error.code === 'CART_VERSION_CONFLICT') {
+        throw error;
+      }
       this.logger.error('Cart merge failed:', error.message);
       throw new BadRequestException(`Cart merge failed: ${error.message}`);
     }
   }
 
+  /**
+   * Copy the lines of one cart into another using the same conflict handling
+   * as a guest merge, with the source cart in the guest role. The source cart
+   * and its metadata are left untouched.
+   */
+  async cloneItemsIntoCart(
+    sourceCartId: string,
+    targetCartId: string,
+    mergeOptions: CartMergeDto,
+    expectedVersion?: number
+  ): Promise<CloneItemsResult> {
+    try {
+      const [sourceCart, targetCart] = await Promise.all([
+        this.databaseService.cart.findById(sourceCartId),
+        this.databaseService.cart.findById(targetCartId)
+      ]);
+
+      if (!sourceCart || !targetCart) {
+        throw new BadRequestException('One or both carts not found');
+      }
+
+      const plan = await this.planItemTransfer(
+        sourceCart.items,
+        targetCart.items,
+        mergeOptions,
+        targetCart.currency,
+        targetCart.channel,
+        { userId: targetCart.userId, cartId: targetCart.id }
+      );
+
+      await this.databaseService.transaction(async (tx) => {
+        await new CartEventModel(tx).track(
+          targetCartId,
+          CartEventType.CART_MERGED,
+          () => this.applyItemTransfer(tx, targetCartId, plan),
+          { sourceCartId, clone: true }
+        );
+        await new CartModel(tx).incrementVersion(targetCartId, expectedVersion);
+      });
+
+      this.logger.log(`Cloned cart items: ${sourceCartId} -> ${targetCartId}`);
+
+      return {
+        sourceCartId,
+        targetCartId,
+        itemsAdded: plan.itemsToAdd.length,
+        itemsUpdated: plan.itemsToUpdate.length,
+        conflicts: plan.conflicts,
+        quantityAdjustments: plan.quantityAdjustments
+      };
+
+    } catch (error) {
+      if (error instanceof CartServiceError) {
+        throw error;
+      }
+      this.logger.error('Cart clone failed:', error.message);
+      throw new BadRequestException(`Cart clone failed: ${error.message}`);
+    }
+  }
+
+  /**
+   * Work out which incoming lines are added to the target cart and which
+   * update an existing line, priced in the target cart's currency and
+   * sales channel
+   */
+  private async planItemTransfer(
+    incomingItems: any[],
+    targetItems: any[],
+    mergeOptions: CartMergeDto,
+    currency: string,
+    channel?: SalesChannel,
+    customer?: QuantityCustomer
+  ): Promise<ItemTransferPlan> {
+    const conflicts: MergeConflict[] = [];
+    const itemsToAdd: any[] = [];
+    const itemsToUpdate: any[] = [];
+
+    // Bundle components travel with their bundle line
+    for (const incomingItem of incomingItems.filter(item => !item.parentItemId)) {
+      // Find matching item in the target cart; bundles only match the same
+      // bundle and customized lines only the same customization
+      const targetItem = targetItems.find(item =>
+        !item.parentItemId &&
+        (item.bundleId || null) === (incomingItem.bundleId || null) &&
+        item.productId === incomingItem.productId &&
+        item.variantId === incomingItem.variantId &&
+        (item.customizationFingerprint || '') === (incomingItem.customizationFingerprint || '')
+      );
+
+      if (targetItem) {
+        // Conflict resolution
+        const conflict = this.resolveItemConflict(incomingItem, targetItem, mergeOptions);
+        conflicts.push(conflict);
+
+        if (conflict.resolution === 'combined') {
+          itemsToUpdate.push({
+            itemId: targetItem.id,
+            productId: targetItem.productId,
+            variantId: targetItem.variantId,
+            bundleId: targetItem.bundleId,
+            customization: targetItem.customization,
+            currentQuantity: targetItem.quantity,
+            quantity: targetItem.quantity + incomingItem.quantity
+          });
+        } else if (conflict.resolution === 'guest') {
+          itemsToUpdate.push({
+            itemId: targetItem.id,
+            productId: targetItem.productId,
+            variantId: targetItem.variantId,
+            bundleId: targetItem.bundleId,
+            customization: targetItem.customization,
+            currentQuantity: targetItem.quantity,
+            quantity: incomingItem.quantity
+          });
+        }
+        // If resolution is 'user', keep the target line as is
+      } else {
+        // No conflict, add the incoming item to the target cart
+        itemsToAdd.push({
+          productId: incomingItem.productId,
+          variantId: incomingItem.variantId,
+          bundleId: incomingItem.bundleId,
+          customization: incomingItem.customization,
+          customizationFingerprint: incomingItem.customizationFingerprint,
+          quantity: incomingItem.quantity
+        });
+      }
+    }
+
+    const quantityAdjustments = await this.fitQuantityRules(targetItems, itemsToAdd, itemsToUpdate, customer);
+
+    // Price every merged line at the current product price in the target
+    // cart's currency rather than carrying over whatever either cart had
+    // stored. A target line whose price lock is still running keeps its price.
+    for (const item of [...itemsToAdd, ...itemsToUpdate]) {
+      if (item.bundleId) {
+        item.bundlePricing = await this.pricingService.resolveBundlePrice(item.bundleId, currency, channel);
+        continue;
+      }
+
+      const targetItem = item.itemId ? targetItems.find(line => line.id === item.itemId) : undefined;
+      if (targetItem?.priceLockedUntil && targetItem.priceLockedUntil > new Date()) {
+        item.price = Number(targetItem.price);
+        item.originalPrice = targetItem.originalPrice ?? null;
+        item.surcharge = Number(targetItem.surcharge || 0);
+        continue;
+      }
+
+      const pricing = await this.customizationService.repriceLine(
+        {
+          productId: item.productId,
+          variantId: item.variantId || undefined,
+          customization: item.customization
+        },
+        currency,
+        channel
+      );
+      item.price = pricing.price;
+      item.originalPrice = pricing.originalPrice ?? null;
+      item.surcharge = pricing.surcharge ?? 0;
+    }
+
+    return { conflicts, itemsToAdd, itemsToUpdate, quantityAdjustments };
+  }
+
+  /**
+   * Bring planned standalone lines to the nearest quantity their product's
+   * rules allow, counting the product's other lines in the merged cart and
+   * what the customer holds elsewhere towards its maximum. Lines left with
+   * no allowed quantity are dropped from the plan, so an existing target
+   * line keeps its quantity.
+   */
+  private async fitQuantityRules(
+    targetItems: any[],
+    itemsToAdd: any[],
+    itemsToUpdate: any[],
+    customer?: QuantityCustomer
+  ): Promise<QuantityAdjustment[]> {
+    const adjustments: QuantityAdjustment[] = [];
+    const rulesByProduct = new Map<string, EffectiveQuantityRules>();
+    const heldByProduct = new Map<string, number>();
+
+    // Quantities of the merged cart's standalone lines, keyed by target line
+    // id or by the planned line for new lines
+    const merged = new Map<any, { productId: string; quantity: number }>();
+    for (const item of targetItems.filter(item => !item.bundleId && !item.parentItemId)) {
+      merged.set(item.id, { productId: item.productId, quantity: item.quantity });
+    }
+
+    for (const [planned, list] of [
+      ...itemsToUpdate.map(item => [item, itemsToUpdate] as const),
+      ...itemsToAdd.map(item => [item, itemsToAdd] as const)
+    ]) {
+      if (planned.bundleId) {
+        continue;
+      }
+
+      const key = planned.itemId ?? planned;
+      merged.delete(key);
+
+      if (!rulesByProduct.has(planned.productId)) {
+        rulesByProduct.set(planned.productId, await this.quantityRulesService.getRules(planned.productId));
+        heldByProduct.set(planned.productId, await this.quantityRulesService.customerQuantity(planned.productId, customer));
+      }
+      const otherQuantity = Array.from(merged.values())
+        .filter(line => line.productId === planned.productId)
+        .reduce((sum, line) => sum + line.quantity, heldByProduct.get(planned.productId)!);
+      const result = this.quantityRulesService.check(rulesByProduct.get(planned.productId)!, planned.quantity, otherQuantity);
+
+      if (!result.valid) {
+        adjustments.push({
+          productId: planned.productId,
+          variantId: planned.variantId || undefined,
+          requestedQuantity: planned.quantity,
+          quantity: result.suggestedQuantity ?? 0,
+          reason: result.reason!
+        });
+
+        if (result.suggestedQuantity === undefined) {
+          list.splice(list.indexOf(planned), 1);
+          if (planned.itemId) {
+            merged.set(key, { productId: planned.productId, quantity: planned.currentQuantity });
+          }
+          continue;
+        }
+        planned.quantity = result.suggestedQuantity;
+      }
+
+      merged.set(key, { productId: planned.productId, quantity: planned.quantity });
+    }
+
+    return adjustments;
+  }
+
+  /**
+   * Write a planned transfer into the target cart
+   */
+  private async applyItemTransfer(tx: any, targetCartId: string, plan: ItemTransferPlan): Promise<void> {
+    // Bundles are written with their components at the planned number of kits
+    const cartItemModel = new CartItemModel(tx);
+    for (const item of [...plan.itemsToAdd, ...plan.itemsToUpdate].filter(item => item.bundlePricing)) {
+      await cartItemModel.setBundle(targetCartId, item.bundlePricing, item.quantity);
+    }
+
+    // Add new items
+    for (const item of plan.itemsToAdd.filter(item => !item.bundlePricing)) {
+      await tx.cartItem.create({
+        data: {
+          cartId: targetCartId,
+          productId: item.productId,
+          variantId: item.variantId,
+          quantity: item.quantity,
+          price: item.price,
+          originalPrice: item.originalPrice,
+          surcharge: item.surcharge,
+          customization: item.customization ? JSON.stringify(item.customization) : null,
+          customizationFingerprint: item.customizationFingerprint || ''
+        }
+      });
+    }
+
+    // Update existing items
+    for (const update of plan.itemsToUpdate.filter(item => !item.bundlePricing)) {
+      await tx.cartItem.update({
+        where: { id: update.itemId },
+        data: {
+          quantity: update.quantity,
+          price: update.price,
+          originalPrice: update.originalPrice,
+          surcharge: update.surcharge
+        }
+      });
+    }
+  }
+
   /**
    * Resolve conflicts between guest and user cart items
    */
@@ -206,6 +468,11 @@ export class CartMergerService {
       resolution: 'user' // default
     };
 
+    // A line converted from a quote keeps its quoted quantity and price
+    if (userItem.quoteId) {
+      return conflict;
+    }
+
     // Price conflict resolution
     if (guestItem.price !== userItem.price) {
       if (mergeOptions.preferGuestPrice) {
@@ -263,10 +530,13 @@ export class CartMergerService {
       // Calculate user cart total
       estimatedTotal = userCart.items.reduce((sum, item) => sum + (Number(item.price) * item.quantity), 0);
 
-      for (const guestItem of guestCart.items) {
+      for (const guestItem of guestCart.items.filter(item => !item.parentItemId)) {
         const userItem = userCart.items.find(item => 
+          !item.parentItemId &&
+          (item.bundleId || null) === (guestItem.bundleId || null) &&
           item.productId === guestItem.productId && 
-          item.variantId === guestItem.variantId
+          item.variantId === guestItem.variantId &&
+          (item.customizationFingerprint || '') === (guestItem.customizationFingerprint || '')
         );
 
         if (userItem) {
@@ -0,0 +1,321 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { DatabaseService } from '../../database/database.service';
+import { CurrencyService } from '../../currency/currency.service';
+import { NamedCartsService } from './named-carts.service';
+import { CartModel } from '../../models/cart.model';
+import { CartItemModel } from '../../models/cart-item.model';
+import { CartEventModel } from '../../models/cart-event.model';
+import { QuoteModel } from '../../models/quote.model';
+import { CartEventType } from '../../types/cart-event.types';
+import { Quote, QuoteLine, QuoteStatus } from '../../types/quote.types';
+import { QuoteOfferDto, QuoteResponseDto, RequestQuoteDto } from '../dto/cart-quote.dto';
+import { Cart, CartStatus, SessionContext, CartServiceError } from '../../types/cart.types';
+
+const REVIEW_LIMIT = 100;
+
+@Injectable()
+export class CartQuotesService {
+  private readonly logger = new Logger(CartQuotesService.name);
+  private readonly validityHours: number;
+
+  constructor(
+    private databaseService: DatabaseService,
+    private currencyService: CurrencyService,
+    private namedCartsService: NamedCartsService,
+    private configService: ConfigService
+  ) {
+    this.validityHours = Math.max(1, Number(this.configService.get('QUOTE_VALIDITY_HOURS', 168)) || 168);
+  }
+
+  /**
+   * Submit a snapshot of one of the caller's carts (the active cart by
+   * default) for sales to quote on. The cart itself is left as it is.
+   */
+  async requestQuote(sessionContext: SessionContext, dto: RequestQuoteDto): Promise<QuoteResponseDto> {
+    const session = await this.databaseService.findOrCreateSession(sessionContext);
+    const cart = dto.cartId
+      ? (await this.namedCartsService.findOwnedCart(sessionContext, dto.cartId)).cart
+      : await this.databaseService.getOrCreateCart(sessionContext);
+
+    if (cart.status !== CartStatus.ACTIVE) {
+      throw new CartServiceError('CART_NOT_ACTIVE', `Cart ${cart.id} is ${cart.status.toLowerCase()} and cannot be quoted`, {
+        cartId: cart.id,
+        status: cart.status
+      });
+    }
+
+    const lines = this.toQuoteLines(cart);
+    if (lines.length === 0) {
+      throw new CartServiceError('VALIDATION_ERROR', 'A quote cannot be requested for an empty cart', { cartId: cart.id });
+    }
+
+    const quote = await this.databaseService.quote.create({
+      cartId: cart.id,
+      sessionId: session.id,
+      userId: sessionContext.userId,
+      currency: cart.currency,
+      lines,
+      customerNote: dto.note
+    });
+
+    this.logger.log(`Quote ${quote.id} requested for cart ${cart.id}`);
+    return this.toResponse(quote);
+  }
+
+  /**
+   * List the caller's quotes, newest first
+   */
+  async listQuotes(sessionContext: SessionContext): Promise<QuoteResponseDto[]> {
+    const session = await this.databaseService.findOrCreateSession(sessionContext);
+    const quotes = await this.databaseService.quote.findByOwner(session.id, sessionContext.userId);
+
+    return Promise.all(quotes.map(async quote => this.toResponse(await this.expireIfDue(quote))));
+  }
+
+  async getQuote(sessionContext: SessionContext, quoteId: string): Promise<QuoteResponseDto> {
+    const { quote } = await this.findOwnedQuote(sessionContext, quoteId);
+    return this.toResponse(quote);
+  }
+
+  /**
+   * Accept a quoted offer. The quote is converted into a new cart, made the
+   * current cart, whose lines carry the quoted prices locked to the quote.
+   */
+  async acceptQuote(sessionContext: SessionContext, quoteId: string): Promise<{ quote: QuoteResponseDto; cart: Cart }> {
+    const { quote, sessionId } = await this.findOwnedQuote(sessionContext, quoteId);
+    this.assertStatus(quote, [QuoteStatus.QUOTED], 'accepted');
+
+    const cart = await this.databaseService.transaction(async (tx) => {
+      const cartModel = new CartModel(tx);
+      await cartModel.setCurrent(sessionId, null);
+
+      const convertedCart = await cartModel.create({
+        sessionId,
+        userId: sessionContext.userId,
+        name: `Quote ${quote.id}`,
+        isCurrent: true,
+        currency: quote.currency
+      });
+
+      const cartItemModel = new CartItemModel(tx);
+      await new CartEventModel(tx).track(convertedCart.id, CartEventType.QUOTE_CONVERTED, async () => {
+        for (const line of quote.lines) {
+          await cartItemModel.createQuotedLine(convertedCart.id, quote.id, line);
+        }
+      }, { quoteId: quote.id });
+
+      // Fails when the quote was answered or expired in the meantime
+      const accepted = await new QuoteModel(tx).changeStatus(
+        quote.id,
+        QuoteStatus.QUOTED,
+        QuoteStatus.ACCEPTED,
+        convertedCart.id
+      );
+      if (!accepted) {
+        throw new CartServiceError('INVALID_QUOTE_STATE', `Quote ${quote.id} can no longer be accepted`, { quoteId: quote.id });
+      }
+
+      return cartModel.findById(convertedCart.id);
+    });
+
+    this.logger.log(`Quote ${quote.id} accepted into cart ${cart!.id}`);
+    return {
+      quote: this.toResponse((await this.databaseService.quote.findById(quote.id))!),
+      cart: cart!
+    };
+  }
+
+  /**
+   * Reject a quoted offer, or withdraw a request sales has not answered yet
+   */
+  async rejectQuote(sessionContext: SessionContext, quoteId: string): Promise<QuoteResponseDto> {
+    const { quote } = await this.findOwnedQuote(sessionContext, quoteId);
+    this.assertStatus(quote, [QuoteStatus.REQUESTED, QuoteStatus.QUOTED], 'rejected');
+
+    const rejected = await this.databaseService.quote.changeStatus(quote.id, quote.status, QuoteStatus.REJECTED);
+    if (!rejected) {
+      throw new CartServiceError('INVALID_QUOTE_STATE', `Quote ${quote.id} can no longer be rejected`, { quoteId: quote.id });
+    }
+
+    this.logger.log(`Quote ${quote.id} rejected`);
+    return this.toResponse((await this.databaseService.quote.findById(quote.id))!);
+  }
+
+  /**
+   * Quotes waiting on sales (requested ones by default), oldest first
+   */
+  async listForReview(status: QuoteStatus = QuoteStatus.REQUESTED): Promise<QuoteResponseDto[]> {
+    const quotes = await this.databaseService.quote.findByStatus([status], REVIEW_LIMIT);
+    return quotes.map(quote => this.toResponse(quote));
+  }
+
+  /**
+   * Price a quote for the customer: adjust line prices, add a discount off
+   * the subtotal and start the validity period. A quote that is already
+   * quoted or has expired can be quoted again.
+   */
+  async makeOffer(quoteId: string, dto: QuoteOfferDto, quotedBy?: string): Promise<QuoteResponseDto> {
+    const quote = await this.databaseService.quote.findById(quoteId);
+    if (!quote) {
+      throw new CartServiceError('QUOTE_NOT_FOUND', `Quote ${quoteId} not found`, { quoteId });
+    }
+
+    const offerable = [QuoteStatus.REQUESTED, QuoteStatus.QUOTED, QuoteStatus.EXPIRED];
+    if (!offerable.includes(quote.status)) {
+      throw new CartServiceError('INVALID_QUOTE_STATE', `Quote ${quote.id} is ${quote.status.toLowerCase()} and cannot be quoted`, {
+        quoteId: quote.id,
+        status: quote.status
+      });
+    }
+
+    const prices = new Map((dto.lines ?? []).map(line => [line.lineId, line.price]));
+    const unknown = [...prices.keys()].filter(lineId => !quote.lines.some(line => line.lineId === lineId));
+    if (unknown.length > 0) {
+      throw new CartServiceError('INVALID_QUOTE_OFFER', `Quote ${quote.id} has no line ${unknown.join(', ')}`, {
+        quoteId: quote.id,
+        lineIds: unknown
+      });
+    }
+
+    const lines = quote.lines.map(line => ({
+      ...line,
+      price: this.currencyService.round(prices.get(line.lineId) ?? line.price, quote.currency)
+    }));
+    const subtotal = lines.reduce((sum, line) => sum + line.price * line.quantity, 0);
+    const discount = this.currencyService.round(dto.discount ?? quote.discount, quote.currency);
+
+    if (discount > subtotal) {
+      throw new CartServiceError('INVALID_QUOTE_OFFER', 'The discount cannot exceed the quoted subtotal', {
+        quoteId: quote.id,
+        discount,
+        subtotal
+      });
+    }
+
+    const offered = await this.databaseService.quote.offer(quote.id, offerable, {
+      lines,
+      discount,
+      salesNote: dto.note ?? quote.salesNote,
+      quotedBy,
+      expiresAt: new Date(Date.now() + (dto.validForHours ?? this.validityHours) * 60 * 60 * 1000)
+    });
+    if (!offered) {
+      throw new CartServiceError('INVALID_QUOTE_STATE', `Quote ${quote.id} was answered in the meantime`, { quoteId: quote.id });
+    }
+
+    this.logger.log(`Quote ${quote.id} quoted by ${quotedBy ?? 'sales'}`);
+    return this.toResponse((await this.databaseService.quote.findById(quote.id))!);
+  }
+
+  /**
+   * Look up one of the caller's quotes, expiring it first if its offer ran out
+   */
+  private async findOwnedQuote(
+    sessionContext: SessionContext,
+    quoteId: string
+  ): Promise<{ quote: Quote; sessionId: string }> {
+    const session = await this.databaseService.findOrCreateSession(sessionContext);
+    const quote = await this.databaseService.quote.findById(quoteId);
+
+    const owned = quote && (quote.sessionId === session.id
+      || (!!sessionContext.userId && quote.userId === sessionContext.userId));
+    if (!owned) {
+      throw new CartServiceError('QUOTE_NOT_FOUND', `Quote ${quoteId} not found`, { quoteId });
+    }
+
+    return { quote: await this.expireIfDue(quote), sessionId: session.id };
+  }
+
+  private async expireIfDue(quote: Quote): Promise<Quote> {
+    if (quote.status !== QuoteStatus.QUOTED || !quote.expiresAt || quote.expiresAt > new Date()) {
+      return quote;
+    }
+
+    await this.databaseService.quote.changeStatus(quote.id, QuoteStatus.QUOTED, QuoteStatus.EXPIRED);
+    return { ...quote, status: QuoteStatus.EXPIRED };
+  }
+
+  private assertStatus(quote: Quote, allowed: QuoteStatus[], action: string): void {
+    if (quote.status === QuoteStatus.EXPIRED) {
+      throw new CartServiceError('QUOTE_EXPIRED', `Quote ${quote.id} expired and can no longer be ${action}`, {
+        quoteId: quote.id,
+        expiresAt: quote.expiresAt
+      });
+    }
+
+    if (!allowed.includes(quote.status)) {
+      throw new CartServiceError('INVALID_QUOTE_STATE', `Quote ${quote.id} is ${quote.status.toLowerCase()} and cannot be ${action}`, {
+        quoteId: quote.id,
+        status: quote.status
+      });
+    }
+  }
+
+  /**
+   * Snapshot a cart's top-level lines, bundle components nested under their
+   * bundle line. Every line starts out quoted at its cart price.
+   */
+  private toQuoteLines(cart: Cart): QuoteLine[] {
+    return cart.items
+      .filter(item => !item.parentItemId)
+      .map(item => ({
+        lineId: item.id,
+        productId: item.productId,
+        variantId: item.variantId,
+        bundleId: item.bundleId,
+        quantity: item.quantity,
+        listPrice: item.price,
+        price: item.price,
+        originalPrice: item.originalPrice,
+        surcharge: item.surcharge,
+        customization: item.customization,
+        customizationFingerprint: item.customizationFingerprint,
+        components: item.bundleId
+          ? cart.items
+              .filter(component => component.parentItemId === item.id)
+              .map(component => ({
+                productId: component.productId,
+                variantId: component.variantId,
+                unitQuantity: component.unitQuantity || 1,
+                originalPrice: component.originalPrice
+              }))
+          : undefined
+      }));
+  }
+
+  private toResponse(quote: Quote): QuoteResponseDto {
+    const round = (amount: number) => this.currencyService.round(amount, quote.currency);
+    const lines = quote.lines.map(line => ({
+      lineId: line.lineId,
+      productId: line.productId,
+      variantId: line.variantId,
+      bundleId: line.bundleId,
+      quantity: line.quantity,
+      listPrice: line.listPrice,
+      price: line.price,
+      total: round(line.price * line.quantity),
+      customization: line.customization
+    }));
+    const subtotal = round(lines.reduce((sum, line) => sum + line.total, 0));
+
+    return {
+      id: quote.id,
+      cartId: quote.cartId,
+      status: quote.status,
+      currency: quote.currency,
+      lines,
+      listSubtotal: round(quote.lines.reduce((sum, line) => sum + line.listPrice * line.quantity, 0)),
+      subtotal,
+      discount: quote.discount,
+      total: round(subtotal - quote.discount),
+      customerNote: quote.customerNote,
+      salesNote: quote.salesNote,
+      quotedAt: quote.quotedAt,
+      expiresAt: quote.expiresAt,
+      respondedAt: quote.respondedAt,
+      convertedCartId: quote.convertedCartId,
+      createdAt: quote.createdAt
+    };
+  }
+}
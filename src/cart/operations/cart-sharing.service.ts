@@ -0,0 +1,280 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { randomBytes } from 'crypto';
+import { DatabaseService } from '../../database/database.service';
+import { PricingService } from '../../services/pricing.service';
+import { CustomizationService } from '../../services/customization.service';
+import { InventoryService } from '../../services/inventory.service';
+import { CurrencyService } from '../../currency/currency.service';
+import { CartMergerService } from './cart-merger.service';
+import { NamedCartsService } from './named-carts.service';
+import { CartMergeDto } from '../dto/cart-merge.dto';
+import {
+  CartShareResponseDto,
+  CloneSharedCartResponseDto,
+  CreateCartShareDto,
+  SharedCartItemDto,
+  SharedCartViewDto
+} from '../dto/cart-share.dto';
+import { CartShare } from '../../types/cart-share.types';
+import { CartItem, CartStatus, ItemPriceDto, SessionContext, CartServiceError } from '../../types/cart.types';
+import { SalesChannel } from '../../types/channel.types';
+
+@Injectable()
+export class CartSharingService {
+  private readonly logger = new Logger(CartSharingService.name);
+
+  constructor(
+    private databaseService: DatabaseService,
+    private pricingService: PricingService,
+    private customizationService: CustomizationService,
+    private inventoryService: InventoryService,
+    private currencyService: CurrencyService,
+    private cartMergerService: CartMergerService,
+    private namedCartsService: NamedCartsService
+  ) {}
+
+  /**
+   * Mint a share token for one of the caller's carts (the active cart by default)
+   */
+  async createShare(sessionContext: SessionContext, dto: CreateCartShareDto): Promise<CartShareResponseDto> {
+    const cart = dto.cartId
+      ? (await this.namedCartsService.findOwnedCart(sessionContext, dto.cartId)).cart
+      : await this.databaseService.getOrCreateCart(sessionContext);
+
+    const share = await this.databaseService.cartShare.create({
+      cartId: cart.id,
+      token: randomBytes(24).toString('base64url'),
+      createdBy: sessionContext.userId,
+      expiresAt: dto.expiresInHours
+        ? new Date(Date.now() + dto.expiresInHours * 60 * 60 * 1000)
+        : undefined
+    });
+
+    this.logger.log(`Share ${share.id} created for cart ${cart.id}`);
+    return this.toResponse(share);
+  }
+
+  /**
+   * List the shares minted for the caller's carts, optionally for one cart only
+   */
+  async listShares(sessionContext: SessionContext, cartId?: string): Promise<CartShareResponseDto[]> {
+    let cartIds: string[];
+
+    if (cartId) {
+      const { cart } = await this.namedCartsService.findOwnedCart(sessionContext, cartId);
+      cartIds = [cart.id];
+    } else {
+      const session = await this.databaseService.findOrCreateSession(sessionContext);
+      const carts = await this.databaseService.cart.findBySessionId(session.id, Object.values(CartStatus));
+      cartIds = carts.map(cart => cart.id);
+    }
+
+    const shares = await this.databaseService.cartShare.findByCartIds(cartIds);
+    return shares.map(share => this.toResponse(share));
+  }
+
+  /**
+   * Revoke a share so its token stops working
+   */
+  async revokeShare(sessionContext: SessionContext, shareId: string): Promise<CartShareResponseDto> {
+    const share = await this.databaseService.cartShare.findById(shareId);
+    const session = await this.databaseService.findOrCreateSession(sessionContext);
+    const cart = share ? await this.databaseService.cart.findById(share.cartId) : null;
+
+    if (!share || !cart || cart.sessionId !== session.id) {
+      throw new CartServiceError('SHARE_NOT_FOUND', `Share ${shareId} not found`, { shareId });
+    }
+
+    const revoked = await this.databaseService.cartShare.revoke(share.id);
+    this.logger.log(`Share ${share.id} revoked for cart ${share.cartId}`);
+    return this.toResponse(revoked);
+  }
+
+  /**
+   * Read-only view of a shared cart, priced and stocked as of now rather than
+   * as stored on the cart
+   */
+  async getSharedCart(token: string): Promise<SharedCartViewDto> {
+    const share = await this.findUsableShare(token);
+    const cart = await this.databaseService.cart.findById(share.cartId);
+
+    if (!cart) {
+      throw new CartServiceError('SHARE_NOT_FOUND', 'Shared cart not found', { token });
+    }
+
+    const items = await Promise.all(
+      cart.items
+        .filter(item => !item.parentItemId)
+        .map(item => item.bundleId
+          ? this.toSharedBundle(item, cart.items.filter(component => component.parentItemId === item.id), cart.currency, cart.channel)
+          : this.toSharedItem(item, cart.currency, cart.channel))
+    );
+    await this.databaseService.cartShare.recordView(share.id);
+
+    return {
+      name: cart.name,
+      currency: cart.currency,
+      items,
+      itemCount: items.reduce((sum, item) => sum + item.quantity, 0),
+      subtotal: this.currencyService.round(
+        items.reduce((sum, item) => sum + (item.total ?? 0), 0),
+        cart.currency
+      ),
+      sharedAt: share.createdAt,
+      expiresAt: share.expiresAt
+    };
+  }
+
+  /**
+   * Copy the shared lines into the caller's active cart. Lines already in the
+   * target cart are resolved the same way as a guest cart merge.
+   */
+  async cloneSharedCart(
+    token: string,
+    targetCartId: string,
+    mergeOptions: CartMergeDto,
+    expectedVersion?: number
+  ): Promise<CloneSharedCartResponseDto> {
+    const share = await this.findUsableShare(token);
+
+    if (share.cartId === targetCartId) {
+      throw new CartServiceError('VALIDATION_ERROR', 'A cart cannot be cloned into itself', { cartId: targetCartId });
+    }
+
+    const sourceCart = await this.databaseService.cart.findById(share.cartId);
+    if (!sourceCart) {
+      throw new CartServiceError('SHARE_NOT_FOUND', 'Shared cart not found', { token });
+    }
+
+    if (sourceCart.items.length === 0) {
+      throw new CartServiceError('VALIDATION_ERROR', 'The shared cart has no items to clone');
+    }
+
+    const result = await this.cartMergerService.cloneItemsIntoCart(
+      sourceCart.id,
+      targetCartId,
+      mergeOptions,
+      expectedVersion
+    );
+    await this.databaseService.cartShare.recordClone(share.id);
+
+    this.logger.log(`Share ${share.id} cloned into cart ${targetCartId}`);
+
+    return {
+      targetCartId: result.targetCartId,
+      itemsAdded: result.itemsAdded,
+      itemsUpdated: result.itemsUpdated,
+      conflicts: result.conflicts,
+      quantityAdjustments: result.quantityAdjustments
+    };
+  }
+
+  /**
+   * Look up a share by token, rejecting revoked and expired ones
+   */
+  private async findUsableShare(token: string): Promise<CartShare> {
+    const share = await this.databaseService.cartShare.findByToken(token);
+
+    if (!share) {
+      throw new CartServiceError('SHARE_NOT_FOUND', 'Share link not found', { token });
+    }
+
+    if (share.revokedAt) {
+      throw new CartServiceError('SHARE_REVOKED', 'This share link has been revoked', { revokedAt: share.revokedAt });
+    }
+
+    if (share.expiresAt && share.expiresAt <= new Date()) {
+      throw new CartServiceError('SHARE_EXPIRED', 'This share link has expired', { expiresAt: share.expiresAt });
+    }
+
+    return share;
+  }
+
+  /**
+   * Price and stock a line for the public view. A product that can no longer
+   * be priced or stocked is shown with a null price or as out of stock
+   * instead of failing the whole view.
+   */
+  private async toSharedItem(item: CartItem, currency: string, channel?: SalesChannel): Promise<SharedCartItemDto> {
+    const [pricing, inventory] = await Promise.all([
+      this.customizationService.repriceLine(item, currency, channel)
+        .catch((error): ItemPriceDto | null => {
+          this.logger.warn(`No current price for shared item ${item.productId}: ${error.message}`);
+          return null;
+        }),
+      this.inventoryService.getInventoryStatus(item.productId, item.variantId)
+        .catch(error => {
+          this.logger.warn(`No stock level for shared item ${item.productId}: ${error.message}`);
+          return null;
+        })
+    ]);
+
+    return {
+      productId: item.productId,
+      variantId: item.variantId,
+      quantity: item.quantity,
+      price: pricing ? pricing.price : null,
+      originalPrice: pricing?.originalPrice,
+      total: pricing ? this.currencyService.round(pricing.price * item.quantity, currency) : null,
+      available: inventory ? inventory.available : 0,
+      isInStock: inventory ? inventory.isInStock : false,
+      customization: item.customization
+    };
+  }
+
+  /**
+   * Price a bundle line at the current bundle price. It is in stock for as
+   * many kits as its scarcest component allows.
+   */
+  private async toSharedBundle(
+    item: CartItem,
+    components: CartItem[],
+    currency: string,
+    channel?: SalesChannel
+  ): Promise<SharedCartItemDto> {
+    const pricing = await this.pricingService.resolveBundlePrice(item.bundleId!, currency, channel)
+      .catch((error): ItemPriceDto | null => {
+        this.logger.warn(`No current price for shared bundle ${item.bundleId}: ${error.message}`);
+        return null;
+      });
+
+    const sharedComponents = await Promise.all(components.map(async component => {
+      const sharedComponent = await this.toSharedItem(component, currency, channel);
+      return { ...sharedComponent, price: 0, originalPrice: sharedComponent.price ?? undefined, total: 0 };
+    }));
+
+    const available = components.length
+      ? Math.min(...components.map((component, index) =>
+          Math.floor(sharedComponents[index].available / (component.unitQuantity || 1))
+        ))
+      : 0;
+
+    return {
+      productId: item.productId,
+      quantity: item.quantity,
+      price: pricing ? pricing.price : null,
+      originalPrice: pricing?.originalPrice,
+      total: pricing ? this.currencyService.round(pricing.price * item.quantity, currency) : null,
+      available,
+      isInStock: sharedComponents.every(component => component.isInStock) && available > 0,
+      bundleId: item.bundleId,
+      components: sharedComponents
+    };
+  }
+
+  private toResponse(share: CartShare): CartShareResponseDto {
+    return {
+      id: share.id,
+      cartId: share.cartId,
+      token: share.token,
+      expiresAt: share.expiresAt,
+      revokedAt: share.revokedAt,
+      isActive: !share.revokedAt && (!share.expiresAt || share.expiresAt > new Date()),
+      viewCount: share.viewCount,
+      cloneCount: share.cloneCount,
+      lastViewedAt: share.lastViewedAt,
+      lastClonedAt: share.lastClonedAt,
+      createdAt: share.createdAt
+    };
+  }
+}
@@ -0,0 +1,251 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { DatabaseService } from '../../database/database.service';
+import { PricingService } from '../../services/pricing.service';
+import { CustomizationService } from '../../services/customization.service';
+import { InventoryService } from '../../services/inventory.service';
+import { CartUndoResponseDto, UndoRepricedLineDto, UndoSkippedLineDto } from '../dto/cart-undo.dto';
+import { CartEventType, CartLineState } from '../../types/cart-event.types';
+import { CartLineRestore, CartUndoAction, CartUndoStep } from '../../types/cart-undo.types';
+import { BundlePriceDto, Cart, CartItem, CartServiceError } from '../../types/cart.types';
+
+type CartUndoResult = Omit<CartUndoResponseDto, 'cart'>;
+
+@Injectable()
+export class CartUndoService {
+  private readonly logger = new Logger(CartUndoService.name);
+  private readonly depth: number;
+
+  constructor(
+    private databaseService: DatabaseService,
+    private pricingService: PricingService,
+    private customizationService: CustomizationService,
+    private inventoryService: InventoryService,
+    private configService: ConfigService
+  ) {
+    this.depth = Math.max(1, Number(this.configService.get('CART_UNDO_DEPTH', 20)) || 20);
+  }
+
+  /**
+   * Run a customer action against a cart and push the lines it changed onto
+   * the cart's undo stack. Actions that change nothing are not recorded.
+   */
+  async record<T>(cartId: string, action: CartUndoAction, write: () => Promise<T>): Promise<T> {
+    const before = await this.databaseService.cartEvent.loadLines(cartId);
+    const result = await write();
+    const after = await this.databaseService.cartEvent.loadLines(cartId);
+
+    const changes = this.databaseService.cartEvent.diffLines(before, after);
+    if (changes.length > 0) {
+      await this.databaseService.cartUndoStep.push(cartId, action, changes, this.depth);
+    }
+
+    return result;
+  }
+
+  /**
+   * Undo the most recent action on a cart. Lines it removed or reduced are
+   * brought back at today's price and only if they are still in stock.
+   */
+  async undo(cartId: string, expectedVersion?: number): Promise<CartUndoResult> {
+    const step = await this.databaseService.cartUndoStep.findNextUndo(cartId);
+    if (!step) {
+      throw new CartServiceError('NOTHING_TO_UNDO', 'There is no cart change to undo', { cartId });
+    }
+
+    const result = await this.applyStep(cartId, step, 'undo', expectedVersion);
+    return this.withStackState(cartId, step, result);
+  }
+
+  /**
+   * Redo the most recently undone action on a cart, re-validated the same
+   * way as an undo
+   */
+  async redo(cartId: string, expectedVersion?: number): Promise<CartUndoResult> {
+    const step = await this.databaseService.cartUndoStep.findNextRedo(cartId);
+    if (!step) {
+      throw new CartServiceError('NOTHING_TO_REDO', 'There is no undone cart change to redo', { cartId });
+    }
+
+    const result = await this.applyStep(cartId, step, 'redo', expectedVersion);
+    return this.withStackState(cartId, step, result);
+  }
+
+  /**
+   * Bring every top-level line the step changed to its state before (undo)
+   * or after (redo) the step. Bundle components follow their bundle line.
+   * The step is marked undone (or done again) only when a line came back or
+   * the cart already held every line as the step left it.
+   */
+  private async applyStep(
+    cartId: string,
+    step: CartUndoStep,
+    direction: 'undo' | 'redo',
+    expectedVersion?: number
+  ): Promise<Pick<CartUndoResult, 'skipped' | 'repriced'>> {
+    const cart = await this.databaseService.cart.findById(cartId);
+    if (!cart) {
+      throw new CartServiceError('CART_NOT_FOUND', `Cart ${cartId} not found`, { cartId });
+    }
+
+    const restores: CartLineRestore[] = [];
+    const skipped: UndoSkippedLineDto[] = [];
+    const repriced: UndoRepricedLineDto[] = [];
+
+    for (const change of step.changes) {
+      const recorded = change.before || change.after;
+      if (!recorded || recorded.parentItemId) {
+        continue;
+      }
+
+      const target = direction === 'undo' ? change.before : change.after;
+      const current = this.findCurrentLine(cart, recorded);
+
+      if (!target) {
+        if (current) {
+          restores.push({ itemId: current.id, exists: true, state: null });
+        }
+        continue;
+      }
+
+      if (current
+        && current.quantity === target.quantity
+        && (current.customizationFingerprint || '') === this.customizationService.fingerprint(target.customization)) {
+        continue;
+      }
+
+      try {
+        const restore = await this.prepareRestore(cart, target, current);
+        restores.push(restore);
+
+        if (restore.pricing && restore.pricing.price !== target.price) {
+          repriced.push({
+            productId: target.productId,
+            variantId: target.variantId,
+            bundleId: target.bundleId,
+            previousPrice: target.price,
+            price: restore.pricing.price
+          });
+        }
+      } catch (error) {
+        this.logger.warn(`Cannot restore ${target.productId} on cart ${cartId}: ${error.message}`);
+        skipped.push({
+          productId: target.productId,
+          variantId: target.variantId,
+          bundleId: target.bundleId,
+          quantity: target.quantity,
+          reason: error.message
+        });
+      }
+    }
+
+    const undone = direction === 'undo';
+    if (restores.length > 0) {
+      await this.databaseService.restoreCartLines(
+        cartId,
+        restores,
+        undone ? CartEventType.CHANGE_UNDONE : CartEventType.CHANGE_REDONE,
+        { action: step.action, stepId: step.id },
+        { id: step.id, undone },
+        expectedVersion
+      );
+    } else if (skipped.length > 0) {
+      this.logger.warn(`Nothing of ${step.action} could be ${undone ? 'undone' : 'redone'} on cart ${cartId}`);
+      return { skipped, repriced };
+    } else {
+      await this.databaseService.cartUndoStep.setUndone(step.id, undone);
+    }
+
+    this.logger.log(`${undone ? 'Undid' : 'Redid'} ${step.action} on cart ${cartId}`);
+    return { skipped, repriced };
+  }
+
+  /**
+   * Price a line at today's price in the cart currency and check that the
+   * stock covers the quantity it is brought back to
+   */
+  private async prepareRestore(cart: Cart, target: CartLineState, current?: CartItem): Promise<CartLineRestore> {
+    if (target.bundleId) {
+      const pricing: BundlePriceDto = await this.pricingService.resolveBundlePrice(target.bundleId, cart.currency, cart.channel);
+      if (!current || target.quantity > current.quantity) {
+        await this.assertInStock(pricing.components.map(component => ({
+          productId: component.productId,
+          variantId: component.variantId,
+          quantity: component.unitQuantity * target.quantity
+        })));
+      }
+
+      return { itemId: current?.id ?? target.itemId, exists: !!current, state: target, pricing };
+    }
+
+    const { pricing, customization } = await this.customizationService.priceLine(
+      target.productId,
+      target.variantId,
+      target.customization,
+      cart.currency,
+      cart.channel
+    );
+
+    if (!current || target.quantity > current.quantity) {
+      await this.assertInStock([{ productId: target.productId, variantId: target.variantId, quantity: target.quantity }]);
+    }
+
+    return { itemId: current?.id ?? target.itemId, exists: !!current, state: target, pricing, customization };
+  }
+
+  private async assertInStock(items: Array<{ productId: string; variantId?: string; quantity: number }>): Promise<void> {
+    const results = await this.inventoryService.checkInventoryAvailability(items);
+    const shortfall = results.find(result => !result.canFulfill);
+
+    if (shortfall) {
+      throw new CartServiceError(
+        'INSUFFICIENT_STOCK',
+        `${shortfall.productId} does not have ${shortfall.requestedQuantity} in stock`,
+        { productId: shortfall.productId, variantId: shortfall.variantId, warnings: shortfall.warnings }
+      );
+    }
+  }
+
+  /**
+   * The line a recorded line corresponds to now: the same line if it is
+   * still there, otherwise the line for the same product (or bundle) and
+   * customization that replaced it
+   */
+  private findCurrentLine(cart: Cart, line: CartLineState): CartItem | undefined {
+    const sameLine = cart.items.find(item => item.id === line.itemId);
+    if (sameLine) {
+      return sameLine;
+    }
+
+    if (line.bundleId) {
+      return cart.items.find(item => item.bundleId === line.bundleId && !item.parentItemId);
+    }
+
+    const fingerprint = this.customizationService.fingerprint(line.customization);
+    return cart.items.find(item =>
+      !item.bundleId
+      && !item.parentItemId
+      && item.productId === line.productId
+      && (item.variantId || undefined) === (line.variantId || undefined)
+      && (item.customizationFingerprint || '') === fingerprint
+    );
+  }
+
+  private async withStackState(
+    cartId: string,
+    step: CartUndoStep,
+    result: Pick<CartUndoResult, 'skipped' | 'repriced'>
+  ): Promise<CartUndoResult> {
+    const [nextUndo, nextRedo] = await Promise.all([
+      this.databaseService.cartUndoStep.findNextUndo(cartId),
+      this.databaseService.cartUndoStep.findNextRedo(cartId)
+    ]);
+
+    return {
+      action: step.action,
+      ...result,
+      canUndo: !!nextUndo,
+      canRedo: !!nextRedo
+    };
+  }
+}
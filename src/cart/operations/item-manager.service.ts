@@ -1,28 +1,29 @@
 import { Injectable, Logger, BadRequestException, NotFoundException } from '@nestjs/common';
 import { DatabaseService } from '../../database/database.service';
-import { SessionContext } from '../../types/cart.types';
-
-export interface SavedItem {
-  id: string;
-  productId: string;
-  variantId?: string;
-  quantity: number;
-  price: number;
-  savedAt: Date;
-  notes?: string;
-}
+import { CartService } from '../cart.service';
+import { CustomizationService } from '../../services/customization.service';
+import { SubscriptionPolicyService } from '../../services/subscription-policy.service';
+import { CartEventType } from '../../types/cart-event.types';
+import { CartItem, CustomizationValues, SessionContext, CartServiceError } from '../../types/cart.types';
+import { SubscriptionFrequency } from '../../types/subscription.types';
+import { SavedItem, SavedItemOwner, SavedItemPage } from '../../types/saved-item.types';
 
 export interface ItemCustomization {
   itemId: string;
-  customizations: Record<string, any>;
-  notes?: string;
+  customizations: CustomizationValues;
+  surcharge?: number;
 }
 
 @Injectable()
 export class ItemManagerService {
   private readonly logger = new Logger(ItemManagerService.name);
 
-  constructor(private databaseService: DatabaseService) {}
+  constructor(
+    private databaseService: DatabaseService,
+    private cartService: CartService,
+    private customizationService: CustomizationService,
+    private subscriptionPolicyService: SubscriptionPolicyService
+  ) {}
 
   /**
    * Move item to "Saved for Later"
@@ -31,14 +32,12 @@ export class ItemManagerService {
     itemId: string,
     cartId: string,
     sessionContext: SessionContext,
-    notes?: string
+    notes?: string,
+    expectedVersion?: number
   ): Promise<SavedItem> {
     try {
       // Validate cart access
-      const cart = await this.databaseService.prisma.cart.findUnique({
-        where: { id: cartId },
-        include: { session: true }
-      });
+      const cart = await this.databaseService.cart.findById(cartId);
 
       if (!cart) {
         throw new NotFoundException('Cart not found');
@@ -57,100 +56,70 @@ export class ItemManagerService {
         throw new NotFoundException('Item not found in cart');
       }
 
-      // Create saved item
-      const savedItem = await this.databaseService.prisma.cartMetadata.create({
-        data: {
-          cartId,
-          key: 'saved_item',
-          value: JSON.stringify({
-            productId: item.productId,
-            variantId: item.variantId,
-            quantity: item.quantity,
-            price: Number(item.price),
-            originalPrice: item.originalPrice,
-            savedAt: new Date().toISOString(),
-            notes
-          })
-        }
-      });
+      if (item.bundleId) {
+        throw new BadRequestException('Bundle lines cannot be saved for later');
+      }
 
-      // Remove from cart
-      await this.databaseService.removeItemFromCart(itemId);
+      // Remove from cart and save for the customer in one go
+      const savedItem = await this.databaseService.saveItemForLater(
+        itemId,
+        this.toOwner(sessionContext),
+        notes,
+        expectedVersion
+      );
 
-      this.logger.log(`Item ${itemId} moved to saved for later`);
+      this.logger.log(`Item ${itemId} moved to saved for later as ${savedItem.id}`);
 
-      return {
-        id: savedItem.id,
-        productId: item.productId,
-        variantId: item.variantId,
-        quantity: item.quantity,
-        price: Number(item.price),
-        savedAt: new Date(),
-        notes
-      };
+      return savedItem;
 
     } catch (error) {
+      if (error instanceof CartServiceError && error.code === 'CART_VERSION_CONFLICT') {
+        throw error;
+      }
       this.logger.error('Failed to move item to saved for later:', error.message);
       throw new BadRequestException(`Failed to move item: ${error.message}`);
     }
   }
 
   /**
-   * Restore item from "Saved for Later"
+   * Restore item from "Saved for Later" into a cart, at its current price in
+   * the cart's currency and subject to the same quantity rules and stock
+   * checks as any other addition
    */
   async restoreFromSavedForLater(
     savedItemId: string,
     cartId: string,
-    sessionContext: SessionContext
-  ): Promise<any> {
+    sessionContext: SessionContext,
+    expectedVersion?: number
+  ): Promise<CartItem> {
     try {
       // Validate cart access
-      const cart = await this.databaseService.prisma.cart.findUnique({
-        where: { id: cartId },
-        include: { session: true }
-      });
-
-      if (!cart) {
-        throw new NotFoundException('Cart not found');
-      }
+      const cart = await this.cartService.getCartById(cartId);
 
       if (cart.sessionId !== sessionContext.sessionId) {
         throw new BadRequestException('Unauthorized access to cart');
       }
 
-      // Get saved item metadata
-      const savedItemMetadata = await this.databaseService.prisma.cartMetadata.findUnique({
-        where: { id: savedItemId }
-      });
-
-      if (!savedItemMetadata || savedItemMetadata.cartId !== cartId) {
-        throw new NotFoundException('Saved item not found');
-      }
-
-      const savedItemData = JSON.parse(savedItemMetadata.value);
-
-      // Add item back to cart
-      const restoredItem = await this.databaseService.prisma.cartItem.create({
-        data: {
-          cartId,
-          productId: savedItemData.productId,
-          variantId: savedItemData.variantId,
-          quantity: savedItemData.quantity,
-          price: savedItemData.price,
-          originalPrice: savedItemData.originalPrice
-        }
+      const savedItem = await this.findOwnSavedItem(savedItemId, sessionContext);
+      const line = await this.cartService.prepareLine(cart, {
+        productId: savedItem.productId,
+        variantId: savedItem.variantId,
+        quantity: savedItem.quantity,
+        customization: savedItem.customization
       });
 
-      // Remove from saved items
-      await this.databaseService.prisma.cartMetadata.delete({
-        where: { id: savedItemId }
-      });
+      // Add item back to cart, merging with a matching line, and remove it
+      // from saved items in one go
+      const restoredItem = await this.databaseService.restoreSavedItem(savedItem.id, cartId, line, expectedVersion);
 
-      this.logger.log(`Item restored from saved for later: ${restoredItem.id}`);
+      this.logger.log(`Saved item ${savedItem.id} restored to cart ${cartId} as ${restoredItem.id}`);
 
       return restoredItem;
 
     } catch (error) {
+      if (error instanceof CartServiceError || error instanceof NotFoundException) {
+        throw error;
+      }
       this.logger.error('Failed to restore item from saved for later:', error.message);
       throw new BadRequestException(`Failed to restore item: ${error.message}`);
     }
@@ -167,10 +136,7 @@ export class ItemManagerService {
   ): Promise<any> {
     try {
       // Validate cart access
-      const cart = await this.databaseService.prisma.cart.findUnique({
-        where: { id: cartId },
-        include: { session: true }
-      });
+      const cart = await this.databaseService.cart.findById(cartId);
 
       if (!cart) {
         throw new NotFoundException('Cart not found');
@@ -189,17 +155,27 @@ export class ItemManagerService {
         throw new NotFoundException('Item not found in cart');
       }
 
+      if (originalItem.bundleId) {
+        throw new BadRequestException('Bundle lines cannot be duplicated; add the bundle again instead');
+      }
+
       // Create duplicate
-      const duplicatedItem = await this.databaseService.prisma.cartItem.create({
-        data: {
-          cartId,
-          productId: originalItem.productId,
-          variantId: originalItem.variantId,
-          quantity: quantity || originalItem.quantity,
-          price: originalItem.price,
-          originalPrice: originalItem.originalPrice
-        }
-      });
+      const duplicatedItem = await this.databaseService.cartEvent.track(cartId, CartEventType.ITEM_ADDED, async () =>
+        this.databaseService.prisma.cartItem.create({
+          data: {
+            cartId,
+            productId: originalItem.productId,
+            variantId: originalItem.variantId,
+            quantity: quantity || originalItem.quantity,
+            price: originalItem.price,
+            originalPrice: originalItem.originalPrice,
+            surcharge: originalItem.surcharge,
+            customization: originalItem.customization,
+            customizationFingerprint: originalItem.customizationFingerprint
+          }
+        }), { duplicatedFrom: itemId });
+
+      await this.databaseService.cart.incrementVersion(cartId);
 
       this.logger.log(`Item ${itemId} duplicated as ${duplicatedItem.id}`);
 
@@ -212,20 +188,21 @@ export class ItemManagerService {
   }
 
   /**
-   * Add item customization
+   * Set the customization of a cart line. The values are validated against
+   * the product's rules and the line is repriced with its surcharge; if
+   * another line already has the same customization the two are merged.
+   * Empty values remove the customization.
    */
   async addItemCustomization(
     itemId: string,
     cartId: string,
     customization: ItemCustomization,
-    sessionContext: SessionContext
-  ): Promise<any> {
+    sessionContext: SessionContext,
+    expectedVersion?: number
+  ): Promise<CartItem> {
     try {
       // Validate cart access
-      const cart = await this.databaseService.prisma.cart.findUnique({
-        where: { id: cartId },
-        include: { session: true }
-      });
+      const cart = await this.databaseService.cart.findById(cartId);
 
       if (!cart) {
         throw new NotFoundException('Cart not found');
@@ -236,97 +213,96 @@ export class ItemManagerService {
       }
 
       // Get the item
-      const item = await this.databaseService.prisma.cartItem.findUnique({
-        where: { id: itemId }
-      });
+      const item = await this.databaseService.cartItem.findById(itemId);
 
       if (!item || item.cartId !== cartId) {
         throw new NotFoundException('Item not found in cart');
       }
 
-      // Store customization as metadata
-      const customizationMetadata = await this.databaseService.prisma.cartMetadata.upsert({
-        where: {
-          cartId_key: {
-            cartId,
-            key: `customization_${itemId}`
-          }
-        },
-        update: {
-          value: JSON.stringify({
-            customizations: customization.customizations,
-            notes: customization.notes,
-            updatedAt: new Date().toISOString()
-          })
-        },
-        create: {
-          cartId,
-          key: `customization_${itemId}`,
-          value: JSON.stringify({
-            customizations: customization.customizations,
-            notes: customization.notes,
-            createdAt: new Date().toISOString()
-          })
-        }
-      });
+      if (item.bundleId) {
+        throw new BadRequestException('Bundle lines cannot be customized');
+      }
 
-      this.logger.log(`Customization added for item ${itemId}`);
+      const priced = await this.customizationService.priceLine(
+        item.productId,
+        item.variantId,
+        customization.customizations,
+        cart.currency,
+        cart.channel
+      );
 
-      return {
+      const customizedItem = await this.databaseService.customizeCartItem(
         itemId,
-        customization: JSON.parse(customizationMetadata.value)
-      };
+        priced.pricing,
+        priced.customization,
+        expectedVersion
+      );
+
+      this.logger.log(`Customization set for item ${itemId} (line ${customizedItem.id})`);
+
+      return customizedItem;
 
     } catch (error) {
+      if (error instanceof CartServiceError) {
+        throw error;
+      }
       this.logger.error('Failed to add item customization:', error.message);
       throw new BadRequestException(`Failed to add customization: ${error.message}`);
     }
   }
 
   /**
-   * Get saved items for a cart
+   * Make a cart line a subscribe-and-save line at the given frequency, or a
+   * one-time purchase again when no frequency is given
    */
-  async getSavedItems(cartId: string, sessionContext: SessionContext): Promise<SavedItem[]> {
-    try {
-      // Validate cart access
-      const cart = await this.databaseService.prisma.cart.findUnique({
-        where: { id: cartId },
-        include: { session: true }
-      });
+  async setItemSubscription(
+    itemId: string,
+    cartId: string,
+    frequency: SubscriptionFrequency | undefined,
+    expectedVersion?: number
+  ): Promise<CartItem> {
+    const item = await this.databaseService.cartItem.findById(itemId);
+    if (!item || item.cartId !== cartId) {
+      throw new CartServiceError('ITEM_NOT_FOUND', 'Cart item not found');
+    }
 
-      if (!cart) {
-        throw new NotFoundException('Cart not found');
-      }
+    const updatedItem = await this.databaseService.setItemSubscription(
+      itemId,
+      frequency && this.subscriptionPolicyService.validateFrequency(frequency),
+      expectedVersion
+    );
 
-      if (cart.sessionId !== sessionContext.sessionId) {
-        throw new BadRequestException('Unauthorized access to cart');
-      }
+    this.logger.log(frequency
+      ? `Item ${itemId} subscribed every ${frequency.every} ${frequency.unit.toLowerCase()}(s)`
+      : `Item ${itemId} is a one-time purchase again`);
 
-      // Get saved items metadata
-      const savedItemsMetadata = await this.databaseService.prisma.cartMetadata.findMany({
-        where: {
-          cartId,
-          key: 'saved_item'
-        }
-      });
+    return updatedItem;
+  }
 
-      return savedItemsMetadata.map(metadata => {
-        const data = JSON.parse(metadata.value);
-        return {
-          id: metadata.id,
-          productId: data.productId,
-          variantId: data.variantId,
-          quantity: data.quantity,
-          price: data.price,
-          savedAt: new Date(data.savedAt),
-          notes: data.notes
-        };
-      });
+  /**
+   * Get a page of the caller's saved items, most recently saved first. A
+   * signed-in customer sees what they saved from any cart or device.
+   */
+  async getSavedItems(sessionContext: SessionContext, limit: number = 20, offset: number = 0): Promise<SavedItemPage> {
+    const pageLimit = Math.min(100, Math.max(1, limit));
+    const pageOffset = Math.max(0, offset);
+    const { items, total } = await this.databaseService.savedItem.findByOwner(
+      this.toOwner(sessionContext),
+      pageLimit,
+      pageOffset
+    );
+
+    return { items, total, limit: pageLimit, offset: pageOffset };
+  }
 
-    } catch (error) {
-      this.logger.error('Failed to get saved items:', error.message);
-      throw new BadRequestException(`Failed to get saved items: ${error.message}`);
-    }
+  /**
+   * Delete one of the caller's saved items
+   */
+  async removeSavedItem(savedItemId: string, sessionContext: SessionContext): Promise<void> {
+    const savedItem = await this.findOwnSavedItem(savedItemId, sessionContext);
+    await this.databaseService.savedItem.delete(savedItem.id);
+
+    this.logger.log(`Saved item ${savedItem.id} removed`);
   }
 
   /**
@@ -335,10 +311,7 @@ export class ItemManagerService {
   async getItemCustomizations(cartId: string, sessionContext: SessionContext): Promise<ItemCustomization[]> {
     try {
       // Validate cart access
-      const cart = await this.databaseService.prisma.cart.findUnique({
-        where: { id: cartId },
-        include: { session: true }
-      });
+      const cart = await this.databaseService.cart.findById(cartId);
 
       if (!cart) {
         throw new NotFoundException('Cart not found');
@@ -348,23 +321,15 @@ export class ItemManagerService {
         throw new BadRequestException('Unauthorized access to cart');
       }
 
-      // Get customization metadata
-      const customizationsMetadata = await this.databaseService.prisma.cartMetadata.findMany({
-        where: {
-          cartId,
-          key: { startsWith: 'customization_' }
-        }
-      });
+      const items = await this.databaseService.cartItem.findByCartId(cartId);
 
-      return customizationsMetadata.map(metadata => {
-        const data = JSON.parse(metadata.value);
-        const itemId = metadata.key.replace('customization_', '');
-        return {
-          itemId,
-          customizations: data.customizations,
-          notes: data.notes
-        };
-      });
+      return items
+        .filter(item => item.customization)
+        .map(item => ({
+          itemId: item.id,
+          customizations: item.customization!,
+          surcharge: item.surcharge
+        }));
 
     } catch (error) {
       this.logger.error('Failed to get item customizations:', error.message);
@@ -381,10 +346,7 @@ export class ItemManagerService {
   }> {
     try {
       // Validate cart access
-      const cart = await this.databaseService.prisma.cart.findUnique({
-        where: { id: cartId },
-        include: { session: true }
-      });
+      const cart = await this.databaseService.cart.findById(cartId);
 
       if (!cart) {
         throw new NotFoundException('Cart not found');
@@ -409,11 +371,13 @@ export class ItemManagerService {
 
       // Remove expired items
       if (expiredItemIds.length > 0) {
-        await this.databaseService.prisma.cartItem.deleteMany({
-          where: {
-            id: { in: expiredItemIds }
-          }
-        });
+        await this.databaseService.cartEvent.track(cartId, CartEventType.ITEM_REMOVED, () =>
+          this.databaseService.prisma.cartItem.deleteMany({
+            where: {
+              id: { in: expiredItemIds }
+            }
+          }), { reason: 'expired' });
+        await this.databaseService.cart.incrementVersion(cartId);
       }
 
       this.logger.log(`Removed ${expiredItemIds.length} expired items from cart ${cartId}`);
@@ -428,4 +392,25 @@ export class ItemManagerService {
       throw new BadRequestException(`Failed to handle expiration: ${error.message}`);
     }
   }
+
+  /**
+   * A saved item of the caller's; someone else's is reported as not found
+   */
+  private async findOwnSavedItem(savedItemId: string, sessionContext: SessionContext): Promise<SavedItem> {
+    const savedItem = await this.databaseService.savedItem.findById(savedItemId);
+    const owner = this.toOwner(sessionContext);
+    const isOwn = savedItem && (owner.userId
+      ? savedItem.userId === owner.userId
+      : !savedItem.userId && savedItem.sessionId === owner.sessionId);
+
+    if (!savedItem || !isOwn) {
+      throw new NotFoundException('Saved item not found');
+    }
+
+    return savedItem;
+  }
+
+  private toOwner(sessionContext: SessionContext): SavedItemOwner {
+    return { userId: sessionContext.userId, sessionId: sessionContext.sessionId };
+  }
 }
@@ -0,0 +1,316 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { DatabaseService } from '../../database/database.service';
+import { PricingService } from '../../services/pricing.service';
+import { CurrencyService } from '../../currency/currency.service';
+import { CartService } from '../cart.service';
+import { CartLifecycleService } from './cart-lifecycle.service';
+import { CartModel } from '../../models/cart.model';
+import { CartEventModel } from '../../models/cart-event.model';
+import { CartEventType } from '../../types/cart-event.types';
+import { CartActor } from '../../types/cart-lifecycle.types';
+import {
+  CartSummaryDto,
+  CreateNamedCartDto,
+  TransferItemsDto,
+  TransferItemsResponseDto,
+  TransferMode
+} from '../dto/named-cart.dto';
+import { Cart, CartStatus, SessionContext, TransferLineDto, CartServiceError } from '../../types/cart.types';
+
+@Injectable()
+export class NamedCartsService {
+  private readonly logger = new Logger(NamedCartsService.name);
+
+  constructor(
+    private databaseService: DatabaseService,
+    private pricingService: PricingService,
+    private cartService: CartService,
+    private currencyService: CurrencyService,
+    private cartLifecycleService: CartLifecycleService
+  ) {}
+
+  /**
+   * List the session's carts, current cart first
+   */
+  async listCarts(sessionContext: SessionContext, includeArchived = false): Promise<CartSummaryDto[]> {
+    const session = await this.databaseService.findOrCreateSession(sessionContext);
+    const statuses = includeArchived ? [CartStatus.ACTIVE, CartStatus.ARCHIVED] : [CartStatus.ACTIVE];
+
+    const carts = await this.databaseService.cart.findBySessionId(session.id, statuses);
+    return carts.map(cart => this.toSummary(cart));
+  }
+
+  /**
+   * Create a named cart, making it the current cart unless told otherwise
+   */
+  async createCart(sessionContext: SessionContext, dto: CreateNamedCartDto): Promise<CartSummaryDto> {
+    const session = await this.databaseService.findOrCreateSession(sessionContext);
+    const name = dto.name.trim();
+    await this.assertNameAvailable(session.id, name);
+
+    const currency = dto.currency
+      ? this.currencyService.assertSupported(dto.currency)
+      : this.currencyService.getStoreCurrency();
+    const activate = dto.activate !== false;
+
+    const cart = await this.databaseService.transaction(async (tx) => {
+      const cartModel = new CartModel(tx);
+      if (activate) {
+        await cartModel.setCurrent(session.id, null);
+      }
+
+      return cartModel.create({
+        sessionId: session.id,
+        userId: sessionContext.userId,
+        name,
+        isCurrent: activate,
+        currency,
+        channel: sessionContext.channel
+      });
+    });
+
+    this.logger.log(`Named cart created: ${cart.id} (${name})`);
+    return this.toSummary(cart);
+  }
+
+  /**
+   * Rename a cart
+   */
+  async renameCart(sessionContext: SessionContext, cartId: string, name: string): Promise<CartSummaryDto> {
+    const { cart, sessionId } = await this.findOwnedCart(sessionContext, cartId);
+    const trimmedName = name.trim();
+    await this.assertNameAvailable(sessionId, trimmedName, cart.id);
+
+    const updatedCart = await this.databaseService.transaction(async (tx) => {
+      const cartModel = new CartModel(tx);
+      await cartModel.incrementVersion(cart.id);
+      return cartModel.update(cart.id, { name: trimmedName });
+    });
+
+    return this.toSummary(updatedCart);
+  }
+
+  /**
+   * Make a cart the one all /cart routes operate on
+   */
+  async activateCart(sessionContext: SessionContext, cartId: string): Promise<CartSummaryDto> {
+    const { cart, sessionId } = await this.findOwnedCart(sessionContext, cartId);
+
+    if (cart.status !== CartStatus.ACTIVE) {
+      throw new CartServiceError('CART_NOT_ACTIVE', `Cart ${cart.id} is ${cart.status.toLowerCase()} and cannot be activated`, {
+        cartId: cart.id,
+        status: cart.status
+      });
+    }
+
+    await this.databaseService.transaction(async (tx) => {
+      await new CartModel(tx).setCurrent(sessionId, cart.id);
+    });
+
+    this.logger.log(`Active cart switched to ${cart.id} for session ${sessionId}`);
+    return this.toSummary({ ...cart, isCurrent: true });
+  }
+
+  /**
+   * Archive a cart, handing the current-cart role to the newest remaining cart
+   */
+  async archiveCart(sessionContext: SessionContext, cartId: string): Promise<CartSummaryDto> {
+    const { cart, sessionId } = await this.findOwnedCart(sessionContext, cartId);
+
+    this.cartLifecycleService.assertTransition(cart.status, CartStatus.ARCHIVED, CartActor.CUSTOMER);
+
+    const archivedCart = await this.databaseService.transaction(async (tx) => {
+      const cartModel = new CartModel(tx);
+      await cartModel.incrementVersion(cart.id);
+      await tx.cart.update({
+        where: { id: cart.id },
+        data: { status: CartStatus.ARCHIVED, isCurrent: false }
+      });
+      await new CartEventModel(tx).append({
+        cartId: cart.id,
+        type: CartEventType.STATUS_CHANGED,
+        details: { from: cart.status, to: CartStatus.ARCHIVED }
+      });
+
+      if (cart.isCurrent) {
+        await this.promoteNextCart(tx, sessionId);
+      }
+
+      return cartModel.findById(cart.id);
+    });
+
+    this.logger.log(`Cart archived: ${cart.id}`);
+    return this.toSummary(archivedCart!);
+  }
+
+  /**
+   * Delete a cart and its items. Only a cart the customer could archive, or
+   * one already archived, may be deleted.
+   */
+  async deleteCart(sessionContext: SessionContext, cartId: string): Promise<void> {
+    const { cart, sessionId } = await this.findOwnedCart(sessionContext, cartId);
+
+    if (cart.status !== CartStatus.ARCHIVED) {
+      this.cartLifecycleService.assertTransition(cart.status, CartStatus.ARCHIVED, CartActor.CUSTOMER);
+    }
+
+    await this.databaseService.transaction(async (tx) => {
+      await new CartModel(tx).delete(cart.id);
+
+      if (cart.isCurrent) {
+        await this.promoteNextCart(tx, sessionId);
+      }
+    });
+
+    this.logger.log(`Cart deleted: ${cart.id}`);
+  }
+
+  /**
+   * Move or copy items from one of the session's carts into another. Lines
+   * are checked and priced the way any add to the target cart is and merge
+   * with matching lines. If-Match applies to the target cart.
+   */
+  async transferItems(
+    sessionContext: SessionContext,
+    sourceCartId: string,
+    dto: TransferItemsDto,
+    ifMatch?: string
+  ): Promise<TransferItemsResponseDto> {
+    if (sourceCartId === dto.targetCartId) {
+      throw new CartServiceError('VALIDATION_ERROR', 'Source and target cart must be different');
+    }
+
+    const { cart: sourceCart } = await this.findOwnedCart(sessionContext, sourceCartId);
+    const { cart: targetCart } = await this.findOwnedCart(sessionContext, dto.targetCartId);
+
+    if (targetCart.status !== CartStatus.ACTIVE) {
+      throw new CartServiceError('CART_NOT_ACTIVE', `Cart ${targetCart.id} is ${targetCart.status.toLowerCase()} and cannot receive items`, {
+        cartId: targetCart.id,
+        status: targetCart.status
+      });
+    }
+
+    const items = dto.itemIds
+      ? dto.itemIds.map(itemId => {
+          const item = sourceCart.items.find(sourceItem => sourceItem.id === itemId);
+          if (!item) {
+            throw new CartServiceError('ITEM_NOT_FOUND', `Item ${itemId} not found in cart ${sourceCart.id}`, { itemId });
+          }
+          if (item.parentItemId) {
+            throw new CartServiceError('BUNDLE_ITEM_LOCKED', `Item ${itemId} is part of a bundle; transfer the bundle line instead`, {
+              itemId,
+              parentItemId: item.parentItemId
+            });
+          }
+          return item;
+        })
+      : sourceCart.items.filter(item => !item.parentItemId);
+
+    if (items.length === 0) {
+      throw new CartServiceError('VALIDATION_ERROR', 'There are no items to transfer');
+    }
+
+    const expectedVersion = await this.cartService.resolveExpectedVersion(targetCart, ifMatch);
+
+    // Check and price every line before writing so a line that cannot be
+    // added leaves both carts untouched. Each line counts the ones before it.
+    const lines: TransferLineDto[] = [];
+    let receivingCart = targetCart;
+    for (const item of items) {
+      if (item.bundleId) {
+        lines.push({
+          sourceItemId: item.id,
+          bundlePricing: await this.pricingService.resolveBundlePrice(item.bundleId, targetCart.currency, targetCart.channel),
+          quantity: item.quantity
+        });
+        continue;
+      }
+
+      const line = await this.cartService.prepareLine(receivingCart, {
+        productId: item.productId,
+        variantId: item.variantId,
+        quantity: item.quantity,
+        customization: item.customization
+      });
+      lines.push({ sourceItemId: item.id, line, gift: item.gift, subscription: item.subscription, quantity: item.quantity });
+      receivingCart = this.cartService.withLine(receivingCart, line);
+    }
+
+    await this.databaseService.transferItems(
+      sourceCart.id,
+      targetCart.id,
+      lines,
+      dto.mode === TransferMode.MOVE,
+      expectedVersion
+    );
+
+    this.logger.log(`${dto.mode === TransferMode.MOVE ? 'Moved' : 'Copied'} ${items.length} items from ${sourceCart.id} to ${targetCart.id}`);
+
+    return {
+      sourceCartId: sourceCart.id,
+      targetCartId: targetCart.id,
+      mode: dto.mode,
+      itemsTransferred: items.length
+    };
+  }
+
+  /**
+   * Load a cart that belongs to the caller's session. Carts owned by other
+   * sessions are reported as not found.
+   */
+  async findOwnedCart(
+    sessionContext: SessionContext,
+    cartId: string
+  ): Promise<{ cart: Cart; sessionId: string }> {
+    const session = await this.databaseService.findOrCreateSession(sessionContext);
+    const cart = await this.databaseService.cart.findById(cartId);
+
+    if (!cart || cart.sessionId !== session.id) {
+      throw new CartServiceError('CART_NOT_FOUND', `Cart ${cartId} not found`, { cartId });
+    }
+
+    return { cart, sessionId: session.id };
+  }
+
+  private async assertNameAvailable(sessionId: string, name: string, exceptCartId?: string): Promise<void> {
+    if (!name) {
+      throw new CartServiceError('VALIDATION_ERROR', 'Cart name must not be empty');
+    }
+
+    const carts = await this.databaseService.cart.findBySessionId(
+      sessionId,
+      [CartStatus.ACTIVE, CartStatus.ARCHIVED]
+    );
+    const taken = carts.some(cart =>
+      cart.id !== exceptCartId && cart.name?.toLowerCase() === name.toLowerCase()
+    );
+
+    if (taken) {
+      throw new CartServiceError('CART_NAME_TAKEN', `A cart named "${name}" already exists`, { name });
+    }
+  }
+
+  private async promoteNextCart(tx: any, sessionId: string): Promise<void> {
+    const nextCart = await tx.cart.findFirst({
+      where: { sessionId, status: CartStatus.ACTIVE },
+      orderBy: { updatedAt: 'desc' }
+    });
+
+    await new CartModel(tx).setCurrent(sessionId, nextCart ? nextCart.id : null);
+  }
+
+  toSummary(cart: Cart): CartSummaryDto {
+    return {
+      id: cart.id,
+      name: cart.name,
+      status: cart.status,
+      isCurrent: cart.isCurrent,
+      currency: cart.currency,
+      itemCount: cart.items.filter(item => !item.parentItemId).reduce((sum, item) => sum + item.quantity, 0),
+      subtotal: cart.items.reduce((sum, item) => sum + item.price * item.quantity, 0),
+      version: cart.version,
+      createdAt: cart.createdAt,
+      updatedAt: cart.updatedAt
+    };
+  }
+}
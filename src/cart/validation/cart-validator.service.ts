@@ -1,5 +1,8 @@
 import { Injectable, Logger, BadRequestException } from '@nestjs/common';
 import { DatabaseService } from '../../database/database.service';
+import { InventoryService } from '../../services/inventory.service';
+import { BusinessRulesService } from '../../rules/business-rules.service';
+import { RuleAction } from '../../types/business-rule.types';
 import { SessionContext } from '../../types/cart.types';
 
 export interface ValidationResult {
@@ -7,6 +10,9 @@ export interface ValidationResult {
   errors: string[];
   warnings: string[];
   suggestions: string[];
+  // Messages of REQUIRE_APPROVAL business rules the cart matches; these do
+  // not invalidate the cart but do hold it back from checkout
+  approvalsRequired?: string[];
 }
 
 export interface CartValidationOptions {
@@ -20,7 +26,11 @@ export interface CartValidationOptions {
 export class CartValidatorService {
   private readonly logger = new Logger(CartValidatorService.name);
 
-  constructor(private databaseService: DatabaseService) {}
+  constructor(
+    private databaseService: DatabaseService,
+    private inventoryService: InventoryService,
+    private businessRulesService: BusinessRulesService
+  ) {}
 
   /**
    * Validate entire cart
@@ -38,6 +48,7 @@ export class CartValidatorService {
     const errors: string[] = [];
     const warnings: string[] = [];
     const suggestions: string[] = [];
+    const approvalsRequired: string[] = [];
 
     try {
       // Get cart with items
@@ -79,6 +90,15 @@ export class CartValidatorService {
         suggestions.push(...itemValidation.suggestions);
       }
 
+      // Validate stock for every bundle component
+      if (options.checkStock) {
+        const bundleValidation = await this.validateBundleStock(cart.items);
+        if (!bundleValidation.isValid) {
+          errors.push(...bundleValidation.errors);
+        }
+        warnings.push(...bundleValidation.warnings);
+      }
+
       // Validate cart totals
       const totalValidation = await this.validateCartTotals(cart);
       if (!totalValidation.isValid) {
@@ -91,11 +111,19 @@ export class CartValidatorService {
         warnings.push(...duplicateValidation.warnings);
       }
 
+      // Apply the merchandising business rules
+      const ruleValidation = await this.validateBusinessRules(cartId, sessionContext);
+      errors.push(...ruleValidation.errors);
+      warnings.push(...ruleValidation.warnings);
+      suggestions.push(...ruleValidation.suggestions);
+      approvalsRequired.push(...(ruleValidation.approvalsRequired ?? []));
+
       return {
         isValid: errors.length === 0,
         errors,
         warnings,
-        suggestions
+        suggestions,
+        approvalsRequired
       };
 
     } catch (error) {
@@ -130,8 +158,8 @@ export class CartValidatorService {
         warnings.push(`Item ${item.productId} has unusually high quantity: ${item.quantity}`);
       }
 
-      // Validate price
-      if (item.price <= 0) {
+      // Validate price (bundle components are zero-priced; the bundle line carries the price)
+      if (item.price <= 0 && !item.parentItemId) {
         errors.push(`Item ${item.productId} has invalid price: ${item.price}`);
       }
 
@@ -170,6 +198,61 @@ export class CartValidatorService {
     }
   }
 
+  /**
+   * Check that every component of every bundle can be fulfilled. Demand for
+   * a product is summed across bundles and standalone lines, since they
+   * draw on the same stock.
+   */
+  async validateBundleStock(items: any[]): Promise<ValidationResult> {
+    const errors: string[] = [];
+    const warnings: string[] = [];
+    const components = items.filter(item => item.parentItemId);
+
+    if (components.length === 0) {
+      return { isValid: true, errors, warnings, suggestions: [] };
+    }
+
+    try {
+      const demand = new Map<string, { productId: string; variantId?: string; quantity: number }>();
+      for (const item of items.filter(item => !(item.bundleId && !item.parentItemId))) {
+        const key = `${item.productId}_${item.variantId || 'no_variant'}`;
+        const entry = demand.get(key) || { productId: item.productId, variantId: item.variantId || undefined, quantity: 0 };
+        entry.quantity += item.quantity;
+        demand.set(key, entry);
+      }
+
+      const componentKeys = new Set(components.map(item => `${item.productId}_${item.variantId || 'no_variant'}`));
+      const checks = [...demand.entries()].filter(([key]) => componentKeys.has(key)).map(([, entry]) => entry);
+      const availability = await this.inventoryService.checkInventoryAvailability(checks);
+
+      availability.forEach((result, index) => {
+        const check = checks[index];
+        const bundleIds = [...new Set(components
+          .filter(item => item.productId === check.productId && (item.variantId || undefined) === check.variantId)
+          .map(item => item.bundleId))];
+
+        if (!result.available || !result.canFulfill) {
+          errors.push(
+            `Bundle ${bundleIds.join(', ')}: insufficient stock for component ${check.productId} ` +
+            `(requested ${check.quantity}, available ${Math.max(0, result.stock - result.reserved)})`
+          );
+        }
+        warnings.push(...result.warnings.map(warning => `Bundle component ${check.productId}: ${warning}`));
+      });
+
+      return { isValid: errors.length === 0, errors, warnings, suggestions: [] };
+
+    } catch (error) {
+      this.logger.error('Bundle stock validation failed:', error.message);
+      return {
+        isValid: false,
+        errors: [`Bundle stock validation failed: ${error.message}`],
+        warnings: [],
+        suggestions: []
+      };
+    }
+  }
+
   /**
    * Validate cart totals
    */
@@ -193,7 +276,7 @@ export class CartValidatorService {
       }
 
       // Check for free items
-      const freeItems = cart.items.filter((item: any) => item.price === 0);
+      const freeItems = cart.items.filter((item: any) => Number(item.price) === 0 && !item.parentItemId);
       if (freeItems.length > 0) {
         warnings.push(`${freeItems.length} free items in cart`);
       }
@@ -217,15 +300,16 @@ export class CartValidatorService {
   }
 
   /**
-   * Check for duplicate items
+   * Check for duplicate items. Differently customized lines of a product are
+   * not duplicates.
    */
   async checkDuplicateItems(items: any[]): Promise<ValidationResult> {
     const warnings: string[] = [];
     const itemMap = new Map<string, number>();
 
     try {
-      for (const item of items) {
-        const key = `${item.productId}_${item.variantId || 'no_variant'}`;
+      for (const item of items.filter(item => !item.parentItemId)) {
+        const key = `${item.productId}_${item.variantId || 'no_variant'}_${item.customizationFingerprint || ''}`;
         const count = itemMap.get(key) || 0;
         itemMap.set(key, count + 1);
       }
@@ -254,6 +338,65 @@ export class CartValidatorService {
     }
   }
 
+  /**
+   * Evaluate the active business rules against a cart. Blocking and
+   * quantity-cap rules are errors, warning rules are warnings and approval
+   * rules are collected separately.
+   */
+  async validateBusinessRules(cartId: string, sessionContext: SessionContext): Promise<ValidationResult> {
+    const errors: string[] = [];
+    const warnings: string[] = [];
+    const suggestions: string[] = [];
+    const approvalsRequired: string[] = [];
+
+    try {
+      const cart = await this.databaseService.cart.findById(cartId);
+      if (!cart) {
+        throw new BadRequestException('Cart not found');
+      }
+
+      const evaluation = await this.businessRulesService.evaluate(cart, {
+        id: cart.userId ?? sessionContext.userId,
+        isGuest: sessionContext.isGuest
+      });
+
+      for (const outcome of evaluation.outcomes) {
+        switch (outcome.action) {
+          case RuleAction.BLOCK:
+            errors.push(outcome.message);
+            break;
+          case RuleAction.CAP_QUANTITY:
+            errors.push(outcome.message);
+            suggestions.push(`Reduce ${outcome.productId} to ${outcome.capQuantity}`);
+            break;
+          case RuleAction.WARN:
+            warnings.push(outcome.message);
+            break;
+          case RuleAction.REQUIRE_APPROVAL:
+            approvalsRequired.push(outcome.message);
+            break;
+        }
+      }
+
+      return {
+        isValid: errors.length === 0,
+        errors,
+        warnings,
+        suggestions,
+        approvalsRequired
+      };
+
+    } catch (error) {
+      this.logger.error('Business rule validation failed:', error.message);
+      return {
+        isValid: false,
+        errors: [`Business rule validation failed: ${error.message}`],
+        warnings: [],
+        suggestions: []
+      };
+    }
+  }
+
   /**
    * Validate cart before checkout
    */
@@ -297,6 +440,11 @@ export class CartValidatorService {
       warnings.push(...validation.warnings);
       suggestions.push(...validation.suggestions);
 
+      // A cart awaiting approval cannot be checked out yet
+      for (const approval of validation.approvalsRequired ?? []) {
+        errors.push(`Approval required: ${approval}`);
+      }
+
       // Additional checkout-specific validations
       const total = cart.items.reduce((sum, item) => sum + (Number(item.price) * item.quantity), 0);
       
@@ -1,5 +1,15 @@
 import { Injectable, Logger, BadRequestException } from '@nestjs/common';
 import { DatabaseService } from '../../database/database.service';
+import { QuantityRulesService } from '../../services/quantity-rules.service';
+import { PricingService } from '../../services/pricing.service';
+import { CurrencyService } from '../../currency/currency.service';
+import { BusinessRulesService } from '../../rules/business-rules.service';
+import { RuleAction, RuleCart } from '../../types/business-rule.types';
+import { CartItem, CartStatus } from '../../types/cart.types';
+
+// Id of the line under validation in the cart the business rules are
+// evaluated against
+const PROPOSED_LINE_ID = 'proposed';
 
 export interface ItemValidationResult {
     isValid: boolean;
@@ -22,7 +32,13 @@ export interface ProductValidationData {
 export class ItemValidatorService {
     private readonly logger = new Logger(ItemValidatorService.name);
 
-    constructor(private databaseService: DatabaseService) { }
+    constructor(
+        private databaseService: DatabaseService,
+        private quantityRulesService: QuantityRulesService,
+        private businessRulesService: BusinessRulesService,
+        private pricingService: PricingService,
+        private currencyService: CurrencyService
+    ) { }
 
     /**
      * Validate individual cart item against product service
@@ -304,28 +320,38 @@ export class ItemValidatorService {
         const suggestions: string[] = [];
 
         try {
-            // Check quantity limits
-            if (quantity > 10) {
-                violations.push('Maximum quantity per item is 10');
-                suggestions.push('Consider splitting large orders');
+            // The cart as it would be with this quantity of the product
+            const cart = await this.withLine(productId, variantId, quantity, userId);
+
+            // Check the product's quantity rules, counting what the customer
+            // already holds outside the line
+            const [rules, customerQuantity] = await Promise.all([
+                this.quantityRulesService.getRules(productId),
+                this.quantityRulesService.customerQuantity(productId, { userId, cartId: cart.id })
+            ]);
+            const otherQuantity = this.quantityRulesService.otherLinesQuantity(productId, cart.items, PROPOSED_LINE_ID)
+                + customerQuantity;
+            const quantityCheck = this.quantityRulesService.check(rules, quantity, otherQuantity);
+            if (!quantityCheck.valid) {
+                violations.push(quantityCheck.reason!);
+                if (quantityCheck.suggestedQuantity !== undefined) {
+                    suggestions.push(`Change the quantity to ${quantityCheck.suggestedQuantity}`);
+                }
             }
 
-            // Check user-specific limits
-            if (userId) {
-                // TODO: Check user's purchase history and limits
-                const userCartTotal = await this.getUserCartTotal(userId);
-                if (userCartTotal > 1000) {
-                    violations.push('Cart total exceeds user limit');
-                    suggestions.push('Contact support for large orders');
+            // Check the merchandising business rules against that cart
+            const evaluation = await this.businessRulesService.evaluate(cart, { id: userId, isGuest: !userId });
+            // Other lines' outcomes are theirs to report
+            for (const outcome of evaluation.outcomes) {
+                if (outcome.itemId && outcome.itemId !== PROPOSED_LINE_ID) {
+                    continue;
                 }
-            }
 
-            // Check product-specific rules
-            if (productId.startsWith('LIMITED_')) {
-                const userPurchaseCount = await this.getUserPurchaseCount(userId, productId);
-                if (userPurchaseCount > 0) {
-                    violations.push('Limited item already purchased');
-                    suggestions.push('One per customer limit applies');
+                if (outcome.action === RuleAction.BLOCK) {
+                    violations.push(outcome.message);
+                } else if (outcome.action === RuleAction.CAP_QUANTITY) {
+                    violations.push(outcome.message);
+                    suggestions.push(`Change the quantity to ${outcome.capQuantity}`);
                 }
             }
 
@@ -346,34 +372,50 @@ export class ItemValidatorService {
     }
 
     /**
-     * Get user cart total (helper method)
+     * The user's active cart (an empty one in the store currency for guests)
+     * with the product's standalone line set to the given quantity, or added
+     * at the product's current price if the cart does not hold it yet
      */
-    private async getUserCartTotal(userId: string): Promise<number> {
-        try {
-            const cart = await this.databaseService.prisma.cart.findFirst({
-                where: { userId },
-                include: { items: true }
-            });
-
-            if (!cart) return 0;
-
-            return cart.items.reduce((sum, item) => sum + (Number(item.price) * item.quantity), 0);
-        } catch (error) {
-            this.logger.error('Failed to get user cart total:', error.message);
-            return 0;
+    private async withLine(
+        productId: string,
+        variantId: string | undefined,
+        quantity: number,
+        userId?: string
+    ): Promise<RuleCart> {
+        const cart = userId ? await this.databaseService.cart.findActiveByUserId(userId) : null;
+        const currency = cart?.currency ?? this.currencyService.getStoreCurrency();
+        const items = (cart?.items ?? []).filter(item => !item.parentItemId);
+        const existing = items.find(item =>
+            item.productId === productId
+            && !item.bundleId
+            && (item.variantId || undefined) === (variantId || undefined)
+        );
+        const now = new Date();
+
+        let line: CartItem;
+        if (existing) {
+            line = { ...existing, id: PROPOSED_LINE_ID, quantity };
+        } else {
+            const pricing = await this.pricingService.resolveItemPrice(productId, variantId, currency, cart?.channel);
+            line = {
+                id: PROPOSED_LINE_ID,
+                cartId: cart?.id ?? '',
+                productId,
+                variantId,
+                quantity,
+                price: pricing.price,
+                originalPrice: pricing.originalPrice,
+                addedAt: now,
+                updatedAt: now
+            };
         }
-    }
 
-    /**
-     * Get user purchase count for a product (helper method)
-     */
-    private async getUserPurchaseCount(userId: string, productId: string): Promise<number> {
-        try {
-            // TODO: Implement actual purchase history check
-            return 0;
-        } catch (error) {
-            this.logger.error('Failed to get user purchase count:', error.message);
-            return 0;
-        }
+        return {
+            id: cart?.id ?? '',
+            name: cart?.name,
+            status: cart?.status ?? CartStatus.ACTIVE,
+            currency,
+            items: [...items.filter(item => item !== existing), line]
+        };
     }
 }
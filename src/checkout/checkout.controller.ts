@@ -13,9 +13,11 @@ import {
   Request
 } from '@nestjs/common';
 import { CheckoutService } from '../services/checkout.service';
+import { ChannelPolicyService } from '../services/channel-policy.service';
 import { JwtAuthGuard } from '../common/guards/jwt-auth.guard';
 import { CurrentUser } from '../common/decorators/current-user.decorator';
 import { Public } from '../common/decorators/public.decorator';
+import { Idempotent } from '../common/decorators/idempotent.decorator';
 import {
   CheckoutRequest,
   CheckoutValidationResult,
@@ -32,7 +34,10 @@ import {
 export class CheckoutController {
   private readonly logger = new Logger(CheckoutController.name);
 
-  constructor(private readonly checkoutService: CheckoutService) {}
+  constructor(
+    private readonly checkoutService: CheckoutService,
+    private readonly channelPolicyService: ChannelPolicyService
+  ) {}
 
   /**
    * Initialize checkout process
@@ -139,6 +144,7 @@ export class CheckoutController {
    */
   @Post(':checkoutSessionId/complete')
   @UseGuards(JwtAuthGuard)
+  @Idempotent('checkout.complete')
   @HttpCode(HttpStatus.OK)
   async completeCheckout(
     @Param('checkoutSessionId') checkoutSessionId: string,
@@ -188,18 +194,21 @@ export class CheckoutController {
   }
 
   /**
-   * Get available shipping options
+   * Get available shipping options, limited to those the sales channel offers
    */
   @Get('shipping/options')
   @Public()
   async getShippingOptions(
     @Query('address') address?: string,
-    @Query('items') items?: string
+    @Query('items') items?: string,
+    @Query('channel') channel?: string
   ): Promise<ShippingOption[]> {
     try {
+      const salesChannel = this.channelPolicyService.resolve(channel);
+
       // This would typically integrate with a shipping service
       // For now, return mock shipping options
-      return [
+      const options: ShippingOption[] = [
         {
           id: 'standard',
           name: 'Standard Shipping',
@@ -237,6 +246,8 @@ export class CheckoutController {
           signatureRequired: true
         }
       ];
+
+      return options.filter(option => this.channelPolicyService.isShippingMethodAllowed(salesChannel, option.id));
     } catch (error) {
       this.logger.error('Failed to get shipping options:', error.message);
       throw new BadRequestException(`Failed to get shipping options: ${error.message}`);
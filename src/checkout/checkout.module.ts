@@ -9,10 +9,16 @@ import { CartValidatorService } from '../cart/validation/cart-validator.service'
 import { InventoryService } from '../services/inventory.service';
 import { PricingService } from '../services/pricing.service';
 import { ProductApiService } from '../services/product-api.service';
+import { GiftOptionsService } from '../services/gift-options.service';
+import { ShipmentAllocationService } from '../services/shipment-allocation.service';
+import { SubscriptionPolicyService } from '../services/subscription-policy.service';
+import { SubscriptionService } from '../services/subscription.service';
 import { ProductIntegrationModule } from '../product-integration/product-integration.module';
+import { CurrencyModule } from '../currency/currency.module';
+import { RulesModule } from '../rules/rules.module';
 
 @Module({
-  imports: [HttpModule, ProductIntegrationModule],
+  imports: [HttpModule, ProductIntegrationModule, CurrencyModule, RulesModule],
   controllers: [CheckoutController],
   providers: [
     CheckoutService,
@@ -23,6 +29,10 @@ import { ProductIntegrationModule } from '../product-integration/product-integra
     InventoryService,
     PricingService,
     ProductApiService,
+    GiftOptionsService,
+    ShipmentAllocationService,
+    SubscriptionPolicyService,
+    SubscriptionService,
   ],
   exports: [
     CheckoutService,
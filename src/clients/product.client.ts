@@ -6,6 +6,9 @@ import {
     Product,
     ProductVariant,
     ProductPricing,
+    ProductBundle,
+    ProductCustomizationSchema,
+    QuantityRules,
     InventoryStatus,
     ProductSearchParams,
     ProductSearchResult,
@@ -89,9 +92,9 @@ export class ProductClient {
     }
 
     /**
-     * Get product pricing
+     * Get product pricing, from the given price list when there is one
      */
-    async getProductPricing(productId: string, variantId?: string): Promise<ProductPricing> {
+    async getProductPricing(productId: string, variantId?: string, priceList?: string): Promise<ProductPricing> {
         try {
             const url = variantId
                 ? `${this.config.baseUrl}/api/v1/products/${productId}/variants/${variantId}/pricing`
@@ -99,6 +102,7 @@ export class ProductClient {
 
             const response = await firstValueFrom(
                 this.httpService.get(url, {
+                    params: priceList ? { priceList } : undefined,
                     headers: {
                         'Authorization': `Bearer ${this.config.apiKey}`,
                         'Content-Type': 'application/json'
@@ -120,6 +124,70 @@ export class ProductClient {
         }
     }
 
+    /**
+     * Get bundle definition
+     */
+    async getBundle(bundleId: string): Promise<ProductBundle> {
+        try {
+            const response = await firstValueFrom(
+                this.httpService.get(`${this.config.baseUrl}/api/v1/bundles/${bundleId}`, {
+                    headers: {
+                        'Authorization': `Bearer ${this.config.apiKey}`,
+                        'Content-Type': 'application/json'
+                    }
+                }).pipe(
+                    timeout(this.config.timeout),
+                    retry(this.config.retryAttempts),
+                    catchError(this.handleError)
+                )
+            );
+
+            return response.data;
+        } catch (error) {
+            this.logger.error(`Failed to get bundle ${bundleId}:`, error.message);
+            throw new HttpException(
+                `Product service error: ${error.message}`,
+                HttpStatus.SERVICE_UNAVAILABLE
+            );
+        }
+    }
+
+    /**
+     * Get the customization rules for a product
+     */
+    async getCustomizationSchema(productId: string): Promise<ProductCustomizationSchema> {
+        try {
+            const response = await firstValueFrom(
+                this.httpService.get(`${this.config.baseUrl}/api/v1/products/${productId}/customizations`, {
+                    headers: {
+                        'Authorization': `Bearer ${this.config.apiKey}`,
+                        'Content-Type': 'application/json'
+                    }
+                }).pipe(
+                    timeout(this.config.timeout),
+                    retry(this.config.retryAttempts),
+                    catchError(this.handleError)
+                )
+            );
+
+            return response.data;
+        } catch (error) {
+            this.logger.error(`Failed to get customization schema for ${productId}:`, error.message);
+            throw new HttpException(
+                `Product service error: ${error.message}`,
+                HttpStatus.SERVICE_UNAVAILABLE
+            );
+        }
+    }
+
+    /**
+     * Get the quantity rules from a product's metadata
+     */
+    async getQuantityRules(productId: string): Promise<QuantityRules> {
+        const product = await this.getProduct(productId);
+        return product.quantityRules || {};
+    }
+
     /**
      * Get inventory status
      */
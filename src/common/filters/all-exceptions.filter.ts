@@ -21,6 +21,7 @@ export class AllExceptionsFilter implements ExceptionFilter {
     let status: number;
     let message: string;
     let errorCode: string;
+    let data: unknown;
 
     if (exception instanceof HttpException) {
       status = exception.getStatus();
@@ -32,6 +33,7 @@ export class AllExceptionsFilter implements ExceptionFilter {
       } else {
         message = (exceptionResponse as any).message || exception.message;
         errorCode = (exceptionResponse as any).errorCode || 'HTTP_EXCEPTION';
+        data = (exceptionResponse as any).data;
       }
     } else if (exception instanceof CartServiceError) {
       status = this.getHttpStatusFromCartError(exception.code);
@@ -65,6 +67,11 @@ export class AllExceptionsFilter implements ExceptionFilter {
       },
     };
 
+    // Attach any payload the client needs to recover (e.g. current cart on 412)
+    if (data !== undefined) {
+      (errorResponse as any).data = data;
+    }
+
     // Add request ID if available
     if (request.headers['x-request-id']) {
       (errorResponse as any).requestId = request.headers['x-request-id'];
@@ -78,7 +85,40 @@ export class AllExceptionsFilter implements ExceptionFilter {
       'CART_NOT_FOUND': HttpStatus.NOT_FOUND,
       'ITEM_NOT_FOUND': HttpStatus.NOT_FOUND,
       'INVALID_QUANTITY': HttpStatus.BAD_REQUEST,
+      'INVALID_IMPORT': HttpStatus.BAD_REQUEST,
+      'QUANTITY_RULE_VIOLATION': HttpStatus.BAD_REQUEST,
       'INSUFFICIENT_STOCK': HttpStatus.BAD_REQUEST,
+      'PRICE_UNAVAILABLE': HttpStatus.UNPROCESSABLE_ENTITY,
+      'UNSUPPORTED_CURRENCY': HttpStatus.BAD_REQUEST,
+      'EXCHANGE_RATE_UNAVAILABLE': HttpStatus.SERVICE_UNAVAILABLE,
+      'CART_VERSION_CONFLICT': HttpStatus.PRECONDITION_FAILED,
+      'CART_NAME_TAKEN': HttpStatus.CONFLICT,
+      'CART_NOT_ACTIVE': HttpStatus.CONFLICT,
+      'CART_HAS_NO_CUSTOMER': HttpStatus.CONFLICT,
+      'CART_TRANSITION_NOT_ALLOWED': HttpStatus.CONFLICT,
+      'BUNDLE_NOT_FOUND': HttpStatus.NOT_FOUND,
+      'BUNDLE_UNAVAILABLE': HttpStatus.UNPROCESSABLE_ENTITY,
+      'BUNDLE_ITEM_LOCKED': HttpStatus.CONFLICT,
+      'INVALID_CUSTOMIZATION': HttpStatus.BAD_REQUEST,
+      'CUSTOMIZATION_UNAVAILABLE': HttpStatus.UNPROCESSABLE_ENTITY,
+      'SHARE_NOT_FOUND': HttpStatus.NOT_FOUND,
+      'SHARE_EXPIRED': HttpStatus.GONE,
+      'SHARE_REVOKED': HttpStatus.GONE,
+      'QUOTE_NOT_FOUND': HttpStatus.NOT_FOUND,
+      'QUOTE_EXPIRED': HttpStatus.GONE,
+      'INVALID_QUOTE_STATE': HttpStatus.CONFLICT,
+      'INVALID_QUOTE_OFFER': HttpStatus.BAD_REQUEST,
+      'QUOTE_LINE_LOCKED': HttpStatus.CONFLICT,
+      'INVALID_GIFT_OPTIONS': HttpStatus.BAD_REQUEST,
+      'INVALID_SUBSCRIPTION_FREQUENCY': HttpStatus.BAD_REQUEST,
+      'INVALID_SALES_CHANNEL': HttpStatus.BAD_REQUEST,
+      'UNKNOWN_TENANT': HttpStatus.BAD_REQUEST,
+      'NOTHING_TO_UNDO': HttpStatus.CONFLICT,
+      'NOTHING_TO_REDO': HttpStatus.CONFLICT,
+      'RULE_NOT_FOUND': HttpStatus.NOT_FOUND,
+      'INVALID_BUSINESS_RULE': HttpStatus.BAD_REQUEST,
+      'IDEMPOTENCY_KEY_REUSED': HttpStatus.UNPROCESSABLE_ENTITY,
+      'IDEMPOTENCY_KEY_IN_PROGRESS': HttpStatus.CONFLICT,
       'DB_CONNECTION_FAILED': HttpStatus.SERVICE_UNAVAILABLE,
       'TRANSACTION_FAILED': HttpStatus.INTERNAL_SERVER_ERROR,
       'VALIDATION_ERROR': HttpStatus.BAD_REQUEST,
@@ -3,6 +3,7 @@ import { Reflector } from '@nestjs/core';
 import { JwtService } from '@nestjs/jwt';
 import { ConfigService } from '@nestjs/config';
 import { IS_PUBLIC_KEY } from '../decorators/public.decorator';
+import { TenantService } from '../../tenant/tenant.service';
 
 @Injectable()
 export class JwtAuthGuard implements CanActivate {
@@ -10,6 +11,7 @@ export class JwtAuthGuard implements CanActivate {
         private jwtService: JwtService,
         private configService: ConfigService,
         private reflector: Reflector,
+        private tenantService: TenantService,
     ) { }
 
     async canActivate(context: ExecutionContext): Promise<boolean> {
@@ -42,17 +44,23 @@ export class JwtAuthGuard implements CanActivate {
             throw new UnauthorizedException('Access token is required');
         }
 
+        let payload: any;
         try {
-            const payload = await this.jwtService.verifyAsync(token, {
+            payload = await this.jwtService.verifyAsync(token, {
                 secret: this.configService.get('JWT_SECRET'),
             });
-
-            // Attach user info to request
-            request['user'] = payload;
-            return true;
         } catch (error) {
             throw new UnauthorizedException('Invalid or expired token');
         }
+
+        // A token issued for a store only works in that store
+        if (payload.tenantId) {
+            this.tenantService.assumeTenant(payload.tenantId, request.headers['x-tenant-id']);
+        }
+
+        // Attach user info to request
+        request['user'] = payload;
+        return true;
     }
 
     private extractTokenFromHeader(request: any): string | undefined {
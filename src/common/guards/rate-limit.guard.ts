@@ -1,7 +1,7 @@
 import { Injectable, CanActivate, ExecutionContext, HttpException, HttpStatus } from '@nestjs/common';
 import { Reflector } from '@nestjs/core';
-import { ConfigService } from '@nestjs/config';
 import { IS_PUBLIC_KEY } from '../decorators/public.decorator';
+import { TenantService } from '../../tenant/tenant.service';
 
 interface RateLimitStore {
     [key: string]: {
@@ -13,16 +13,11 @@ interface RateLimitStore {
 @Injectable()
 export class RateLimitGuard implements CanActivate {
     private store: RateLimitStore = {};
-    private readonly windowMs: number;
-    private readonly maxRequests: number;
 
     constructor(
-        private configService: ConfigService,
-        private reflector: Reflector
-    ) {
-        this.windowMs = this.configService.get('RATE_LIMIT_WINDOW_MS', 15 * 60 * 1000); // 15 minutes
-        this.maxRequests = this.configService.get('RATE_LIMIT_MAX_REQUESTS', 100);
-    }
+        private reflector: Reflector,
+        private tenantService: TenantService
+    ) { }
 
     canActivate(context: ExecutionContext): boolean {
         const isPublic = this.reflector.getAllAndOverride<boolean>(IS_PUBLIC_KEY, [
@@ -35,19 +30,22 @@ export class RateLimitGuard implements CanActivate {
         }
 
         const request = context.switchToHttp().getRequest();
-        const clientId = this.getClientId(request);
+        // Each store has its own limits, counted separately from other stores
+        const tenant = this.tenantService.currentConfig();
+        const { windowMs, maxRequests } = tenant.rateLimit;
+        const clientId = `${tenant.id}:${this.getClientId(request)}`;
         const now = Date.now();
 
         // Clean up expired entries
         this.cleanupExpiredEntries(now);
 
         // Get or create rate limit entry
-        const entry = this.store[clientId] || { count: 0, resetTime: now + this.windowMs };
+        const entry = this.store[clientId] || { count: 0, resetTime: now + windowMs };
 
         // Check if window has expired
         if (now >= entry.resetTime) {
             entry.count = 0;
-            entry.resetTime = now + this.windowMs;
+            entry.resetTime = now + windowMs;
         }
 
         // Increment request count
@@ -55,7 +53,7 @@ export class RateLimitGuard implements CanActivate {
         this.store[clientId] = entry;
 
         // Check if limit exceeded
-        if (entry.count > this.maxRequests) {
+        if (entry.count > maxRequests) {
             const resetTime = Math.ceil((entry.resetTime - now) / 1000);
             throw new HttpException(
                 `Rate limit exceeded. Try again in ${resetTime} seconds.`,
@@ -0,0 +1,180 @@
+import {
+  Injectable,
+  NestInterceptor,
+  ExecutionContext,
+  CallHandler,
+  Logger,
+  BadRequestException,
+} from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { ConfigService } from '@nestjs/config';
+import { Observable, from, of, throwError } from 'rxjs';
+import { catchError, mergeMap } from 'rxjs/operators';
+import { Request, Response } from 'express';
+import { createHash } from 'crypto';
+import { DatabaseService } from '../../database/database.service';
+import { IDEMPOTENCY_SCOPE_KEY } from '../decorators/idempotent.decorator';
+import { CartServiceError } from '../../types/cart.types';
+import { IdempotencyStatus } from '../../types/idempotency.types';
+import { TenantService } from '../../tenant/tenant.service';
+
+const MAX_KEY_LENGTH = 255;
+
+// Response headers a replay has to send again, such as the cart version
+const REPLAYED_HEADERS = ['ETag'];
+
+@Injectable()
+export class IdempotencyInterceptor implements NestInterceptor {
+  private readonly logger = new Logger(IdempotencyInterceptor.name);
+
+  constructor(
+    private readonly reflector: Reflector,
+    private readonly databaseService: DatabaseService,
+    private readonly configService: ConfigService,
+    private readonly tenantService: TenantService,
+  ) {}
+
+  async intercept(context: ExecutionContext, next: CallHandler): Promise<Observable<any>> {
+    const scope = this.reflector.get<string>(IDEMPOTENCY_SCOPE_KEY, context.getHandler());
+    if (!scope) {
+      return next.handle();
+    }
+
+    const request = context.switchToHttp().getRequest<Request>();
+    const response = context.switchToHttp().getResponse<Response>();
+
+    const key = request.headers['idempotency-key'] as string | undefined;
+    if (!key) {
+      return next.handle();
+    }
+
+    if (key.length > MAX_KEY_LENGTH) {
+      throw new BadRequestException(`Idempotency-Key must be at most ${MAX_KEY_LENGTH} characters`);
+    }
+
+    // Keys are only unique per caller and store, so two clients can't replay each other's responses
+    const owner = this.resolveOwner(request);
+    if (!owner) {
+      throw new BadRequestException('Idempotency-Key requires a session token or authentication');
+    }
+
+    const ownerScope = `${scope}:tenant:${this.tenantService.currentTenantId()}:${owner}`;
+    const requestHash = this.hashRequest(request);
+    const ttlHours = Number(this.configService.get('IDEMPOTENCY_KEY_TTL_HOURS', 24));
+    // A request holds its key for a short lease only, so a key left in
+    // progress by a crash or a failed write is taken over by a later retry
+    const leaseSeconds = Number(this.configService.get('IDEMPOTENCY_KEY_LEASE_SECONDS', 60));
+
+    const { record, created } = await this.databaseService.idempotencyKey.acquire(
+      ownerScope,
+      key,
+      requestHash,
+      new Date(Date.now() + leaseSeconds * 1000),
+    );
+
+    if (!created) {
+      if (record.requestHash !== requestHash) {
+        throw new CartServiceError(
+          'IDEMPOTENCY_KEY_REUSED',
+          'Idempotency-Key has already been used with a different request',
+          { scope, key },
+        );
+      }
+
+      if (record.status !== IdempotencyStatus.COMPLETED) {
+        throw new CartServiceError(
+          'IDEMPOTENCY_KEY_IN_PROGRESS',
+          'A request with this Idempotency-Key is still being processed',
+          { scope, key },
+        );
+      }
+
+      this.logger.log(`Replaying stored response for ${scope} - Idempotency-Key: ${key}`);
+      response.status(record.responseStatus);
+      for (const [name, value] of Object.entries(record.responseHeaders ?? {})) {
+        response.setHeader(name, value);
+      }
+      response.setHeader('Idempotent-Replayed', 'true');
+      return of(record.responseBody);
+    }
+
+    return next.handle().pipe(
+      mergeMap(async (data) => {
+        try {
+          await this.databaseService.idempotencyKey.complete(
+            record.id,
+            response.statusCode,
+            data,
+            this.captureHeaders(response),
+            new Date(Date.now() + ttlHours * 60 * 60 * 1000),
+          );
+        } catch (error) {
+          // The key stays in progress until its lease runs out, so retries
+          // made in the meantime don't run the request again
+          this.logger.error(`Failed to store response for Idempotency-Key ${key}:`, error.message);
+        }
+        return data;
+      }),
+      catchError((error) =>
+        from(this.releaseKey(record.id, key)).pipe(mergeMap(() => throwError(() => error))),
+      ),
+    );
+  }
+
+  private async releaseKey(id: string, key: string): Promise<void> {
+    try {
+      await this.databaseService.idempotencyKey.release(id);
+    } catch (error) {
+      this.logger.error(`Failed to release Idempotency-Key ${key}:`, error.message);
+    }
+  }
+
+  private captureHeaders(response: Response): Record<string, string> {
+    return REPLAYED_HEADERS.reduce((headers, name) => {
+      const value = response.getHeader(name);
+      if (value !== undefined) {
+        headers[name] = String(value);
+      }
+      return headers;
+    }, {} as Record<string, string>);
+  }
+
+  /**
+   * The caller a key belongs to. Without a user or session there is no one
+   * to scope the key to, so such requests can't be made idempotent.
+   */
+  private resolveOwner(request: Request): string | undefined {
+    const user = (request as any).user;
+    if (user?.id) {
+      return `user:${user.id}`;
+    }
+
+    const sessionToken = request.headers['x-session-token'] as string | undefined;
+    return sessionToken ? `session:${sessionToken}` : undefined;
+  }
+
+  private hashRequest(request: Request): string {
+    const payload = JSON.stringify([request.method, request.originalUrl, this.canonicalize(request.body)]);
+    return createHash('sha256').update(payload).digest('hex');
+  }
+
+  /**
+   * Sort object keys so the same payload hashes the same regardless of key order
+   */
+  private canonicalize(value: any): any {
+    if (Array.isArray(value)) {
+      return value.map((entry) => this.canonicalize(entry));
+    }
+
+    if (value && typeof value === 'object' && !(value instanceof Date)) {
+      return Object.keys(value)
+        .sort()
+        .reduce((result, key) => {
+          result[key] = this.canonicalize(value[key]);
+          return result;
+        }, {} as Record<string, any>);
+    }
+
+    return value;
+  }
+}
@@ -35,6 +35,7 @@ export default () => ({
   // Session configuration
   session: {
     expiryHours: parseInt(process.env['SESSION_EXPIRY_HOURS'] || '24', 10),
+    cartAbandonHours: parseInt(process.env['CART_ABANDON_HOURS'] || '24', 10),
     cartExpiryHours: parseInt(process.env['CART_EXPIRY_HOURS'] || '72', 10),
   },
 
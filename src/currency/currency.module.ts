@@ -0,0 +1,16 @@
+import { Module } from '@nestjs/common';
+import { CurrencyService } from './currency.service';
+import { EXCHANGE_RATE_PROVIDER } from './exchange-rate.provider';
+import { FileExchangeRateProvider } from './file-exchange-rate.provider';
+
+@Module({
+    providers: [
+        CurrencyService,
+        {
+            provide: EXCHANGE_RATE_PROVIDER,
+            useClass: FileExchangeRateProvider,
+        },
+    ],
+    exports: [CurrencyService],
+})
+export class CurrencyModule { }
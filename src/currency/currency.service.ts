@@ -0,0 +1,106 @@
+import { Inject, Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { EXCHANGE_RATE_PROVIDER, ExchangeRateProvider } from './exchange-rate.provider';
+import { Currency } from '../types/pricing.types';
+import { CartServiceError } from '../types/cart.types';
+import { TenantService } from '../tenant/tenant.service';
+
+// Currencies without minor units; everything else is priced in hundredths
+const ZERO_DECIMAL_CURRENCIES: Currency[] = [Currency.JPY];
+
+@Injectable()
+export class CurrencyService {
+    private readonly logger = new Logger(CurrencyService.name);
+    private readonly baseCurrency: Currency;
+
+    constructor(
+        @Inject(EXCHANGE_RATE_PROVIDER) private readonly exchangeRateProvider: ExchangeRateProvider,
+        private readonly configService: ConfigService,
+        private readonly tenantService: TenantService
+    ) {
+        this.baseCurrency = this.assertSupported(this.configService.get('BASE_CURRENCY', Currency.USD));
+    }
+
+    /**
+     * Currency that catalogue prices and fixed amounts are defined in
+     */
+    getBaseCurrency(): Currency {
+        return this.baseCurrency;
+    }
+
+    /**
+     * Currency new carts and orders of the current store start in
+     */
+    getStoreCurrency(): Currency {
+        return this.assertSupported(this.tenantService.currentConfig().currency);
+    }
+
+    isSupported(currency: string): currency is Currency {
+        return Object.values(Currency).includes(currency as Currency);
+    }
+
+    assertSupported(currency: string): Currency {
+        if (!this.isSupported(currency)) {
+            throw new CartServiceError('UNSUPPORTED_CURRENCY', `Currency ${currency} is not supported`, {
+                currency,
+                supported: Object.values(Currency)
+            });
+        }
+        return currency;
+    }
+
+    /**
+     * Get the rate for converting one currency into another
+     */
+    async getRate(from: string, to: string): Promise<number> {
+        const source = this.assertSupported(from);
+        const target = this.assertSupported(to);
+
+        if (source === target) {
+            return 1;
+        }
+
+        const rate = await this.exchangeRateProvider.getRate(source, target);
+        if (!Number.isFinite(rate) || rate <= 0) {
+            this.logger.error(`Invalid exchange rate ${rate} for ${source} -> ${target}`);
+            throw new CartServiceError(
+                'EXCHANGE_RATE_UNAVAILABLE',
+                `No exchange rate available from ${source} to ${target}`,
+                { from: source, to: target }
+            );
+        }
+
+        return rate;
+    }
+
+    /**
+     * Convert an amount and round it to the target currency's precision
+     */
+    async convert(amount: number, from: string, to: string): Promise<number> {
+        const rate = await this.getRate(from, to);
+        return this.round(amount * rate, to);
+    }
+
+    /**
+     * Convert an amount defined in the base currency
+     */
+    async fromBase(amount: number, to: string): Promise<number> {
+        return this.convert(amount, this.baseCurrency, to);
+    }
+
+    round(amount: number, currency: string): number {
+        const factor = Math.pow(10, this.getMinorUnitDigits(currency));
+        return Math.round(amount * factor) / factor;
+    }
+
+    /**
+     * Express an amount in minor units (cents, paise...) for payment providers
+     */
+    toMinorUnits(amount: number, currency: string): number {
+        return Math.round(amount * Math.pow(10, this.getMinorUnitDigits(currency)));
+    }
+
+    getMinorUnitDigits(currency: string): number {
+        return ZERO_DECIMAL_CURRENCIES.includes(currency as Currency) ? 0 : 2;
+    }
+}
@@ -0,0 +1,14 @@
+import { Currency } from '../types/pricing.types';
+
+export const EXCHANGE_RATE_PROVIDER = 'EXCHANGE_RATE_PROVIDER';
+
+/**
+ * Source of exchange rates. Bind a different implementation to
+ * EXCHANGE_RATE_PROVIDER in CurrencyModule to switch rate sources.
+ */
+export interface ExchangeRateProvider {
+    /**
+     * Units of `to` for one unit of `from`
+     */
+    getRate(from: Currency, to: Currency): Promise<number>;
+}
@@ -0,0 +1,72 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import { ExchangeRateProvider } from './exchange-rate.provider';
+import { Currency, ExchangeRateTable } from '../types/pricing.types';
+import { CartServiceError } from '../types/cart.types';
+
+/**
+ * Reads rates from a local JSON file so carts can be priced without a
+ * network rate feed. The file is re-read whenever it changes on disk.
+ */
+@Injectable()
+export class FileExchangeRateProvider implements ExchangeRateProvider {
+    private readonly logger = new Logger(FileExchangeRateProvider.name);
+    private readonly filePath: string;
+    private table: ExchangeRateTable | null = null;
+    private loadedAt = 0;
+
+    constructor(private readonly configService: ConfigService) {
+        this.filePath = path.resolve(this.configService.get('FX_RATES_FILE', 'fx-rates.json'));
+    }
+
+    async getRate(from: Currency, to: Currency): Promise<number> {
+        const table = await this.loadTable();
+        const fromRate = from === table.base ? 1 : table.rates[from];
+        const toRate = to === table.base ? 1 : table.rates[to];
+
+        if (!fromRate || !toRate) {
+            throw new CartServiceError(
+                'EXCHANGE_RATE_UNAVAILABLE',
+                `No exchange rate available from ${from} to ${to}`,
+                { from, to }
+            );
+        }
+
+        return toRate / fromRate;
+    }
+
+    private async loadTable(): Promise<ExchangeRateTable> {
+        let modifiedAt: number;
+
+        try {
+            modifiedAt = (await fs.stat(this.filePath)).mtimeMs;
+            if (this.table && modifiedAt === this.loadedAt) {
+                return this.table;
+            }
+
+            const raw = JSON.parse(await fs.readFile(this.filePath, 'utf8'));
+            this.table = {
+                base: raw.base,
+                rates: raw.rates || {},
+                asOf: raw.asOf ? new Date(raw.asOf) : undefined
+            };
+            this.loadedAt = modifiedAt;
+            this.logger.log(`Loaded exchange rates from ${this.filePath} (base ${this.table.base})`);
+
+            return this.table;
+        } catch (error) {
+            // Keep serving the last good table if the file becomes unreadable
+            if (this.table) {
+                this.logger.warn(`Failed to reload exchange rates, using cached table: ${error.message}`);
+                return this.table;
+            }
+
+            this.logger.error(`Failed to load exchange rates from ${this.filePath}:`, error.message);
+            throw new CartServiceError('EXCHANGE_RATE_UNAVAILABLE', 'Exchange rates are not available', {
+                reason: error.message
+            });
+        }
+    }
+}
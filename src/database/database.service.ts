@@ -2,9 +2,26 @@
 // Main service layer for database operations with transaction support
 
 import { PrismaClient } from '../generated/prisma';
+import { withTenantScope } from './tenant-scope';
 import { CartModel } from '../models/cart.model';
 import { CartItemModel } from '../models/cart-item.model';
 import { CartSessionModel } from '../models/cart-session.model';
+import { IdempotencyKeyModel } from '../models/idempotency-key.model';
+import { CartShareModel } from '../models/cart-share.model';
+import { CartEventModel } from '../models/cart-event.model';
+import { CartUndoStepModel } from '../models/cart-undo-step.model';
+import { QuantityRuleOverrideModel } from '../models/quantity-rule-override.model';
+import { BusinessRuleModel } from '../models/business-rule.model';
+import { QuoteModel } from '../models/quote.model';
+import { SubscriptionModel } from '../models/subscription.model';
+import { ProductAffinityModel } from '../models/product-affinity.model';
+import { SavedItemModel } from '../models/saved-item.model';
+import { CartEventType } from '../types/cart-event.types';
+import { CartLineRestore } from '../types/cart-undo.types';
+import { GiftOptions } from '../types/gift.types';
+import { SubscriptionFrequency } from '../types/subscription.types';
+import { FulfillmentExpectation } from '../types/fulfillment.types';
+import { SavedItem, SavedItemOwner } from '../types/saved-item.types';
 import { 
   Cart, 
   CartItem, 
@@ -13,6 +30,11 @@ import {
   UpdateCartDto,
   AddItemDto,
   UpdateItemDto,
+  ItemPriceDto,
+  BundlePriceDto,
+  PricedLineDto,
+  TransferLineDto,
+  LineCustomization,
   CreateSessionDto,
   SessionContext,
   CartServiceError
@@ -23,6 +45,16 @@ export class DatabaseService {
   public cart: CartModel;
   public cartItem: CartItemModel;
   public cartSession: CartSessionModel;
+  public idempotencyKey: IdempotencyKeyModel;
+  public cartShare: CartShareModel;
+  public cartEvent: CartEventModel;
+  public cartUndoStep: CartUndoStepModel;
+  public quantityRuleOverride: QuantityRuleOverrideModel;
+  public businessRule: BusinessRuleModel;
+  public quote: QuoteModel;
+  public subscription: SubscriptionModel;
+  public productAffinity: ProductAffinityModel;
+  public savedItem: SavedItemModel;
 
   // Expose Prisma models directly for backward compatibility
   get session() { return (this.prisma as any).session; }
@@ -48,13 +80,24 @@ export class DatabaseService {
   get $queryRaw() { return this.prisma.$queryRaw.bind(this.prisma); }
 
   constructor() {
-    this.prisma = new PrismaClient({
+    // Every query through the client is kept to the current tenant's data
+    this.prisma = withTenantScope(new PrismaClient({
       log: process.env['NODE_ENV'] === 'development' ? ['query', 'info', 'warn', 'error'] : ['error'],
-    });
+    }));
     
     this.cart = new CartModel(this.prisma);
     this.cartItem = new CartItemModel(this.prisma);
     this.cartSession = new CartSessionModel(this.prisma);
+    this.idempotencyKey = new IdempotencyKeyModel(this.prisma);
+    this.cartShare = new CartShareModel(this.prisma);
+    this.cartEvent = new CartEventModel(this.prisma);
+    this.cartUndoStep = new CartUndoStepModel(this.prisma);
+    this.quantityRuleOverride = new QuantityRuleOverrideModel(this.prisma);
+    this.businessRule = new BusinessRuleModel(this.prisma);
+    this.quote = new QuoteModel(this.prisma);
+    this.subscription = new SubscriptionModel(this.prisma);
+    this.productAffinity = new ProductAffinityModel(this.prisma);
+    this.savedItem = new SavedItemModel(this.prisma);
   }
 
   /**
@@ -90,6 +133,10 @@ export class DatabaseService {
     try {
       return await this.prisma.$transaction(fn);
     } catch (error) {
+      // Domain errors raised inside the transaction keep their own code
+      if (error instanceof CartServiceError) {
+        throw error;
+      }
       console.error('Transaction failed:', error);
       throw new CartServiceError('TRANSACTION_FAILED', 'Database transaction failed', error);
     }
@@ -111,46 +158,33 @@ export class DatabaseService {
   }
 
   /**
-   * Get or create cart for session
+   * Get or create cart for session. With resumeAbandoned, a current cart
+   * the idle sweep abandoned is returned as it is instead of starting a
+   * new one, for the caller to recover.
    */
-  async getOrCreateCart(sessionContext: SessionContext): Promise<Cart> {
+  async getOrCreateCart(sessionContext: SessionContext, currency?: string, resumeAbandoned = false): Promise<Cart> {
     return this.transaction(async (tx) => {
       // First, ensure the session exists in the database
-      let session = await tx.cartSession.findFirst({
-        where: {
-          OR: [
-            { id: sessionContext.sessionId },
-            { userId: sessionContext.userId || '' }
-          ]
-        }
-      });
-
-      if (!session) {
-        // Create session if it doesn't exist
-        const sessionToken = `cart_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
-        session = await tx.cartSession.create({
-          data: {
-            userId: sessionContext.userId || null,
-            sessionToken: sessionToken,
-            expiresAt: sessionContext.expiresAt || new Date(Date.now() + 24 * 60 * 60 * 1000)
-          }
-        });
-      }
+      const session = await this.findOrCreateSession(sessionContext, tx);
 
-      // Try to find existing active cart
+      // Try to find the session's current cart, falling back to its newest active cart
       let cart = await tx.cart.findFirst({
         where: {
           sessionId: session.id,
-          status: 'ACTIVE'
+          OR: [
+            { status: 'ACTIVE' },
+            ...(resumeAbandoned ? [{ status: 'ABANDONED', isCurrent: true }] : [])
+          ]
         },
         include: {
           items: true,
           metadata: true,
           session: true
         },
-        orderBy: {
-          createdAt: 'desc'
-        }
+        orderBy: [
+          { isCurrent: 'desc' },
+          { createdAt: 'desc' }
+        ]
       });
 
       if (!cart) {
@@ -159,7 +193,9 @@ export class DatabaseService {
           data: {
             sessionId: session.id,
             userId: sessionContext.userId || null,
-            status: 'ACTIVE'
+            status: 'ACTIVE',
+            currency,
+            ...(sessionContext.channel && { channel: sessionContext.channel })
           },
           include: {
             items: true,
@@ -175,10 +211,47 @@ export class DatabaseService {
     });
   }
 
+  /**
+   * Resolve the database session behind a session context, creating it if
+   * this is the first time the session is seen
+   */
+  async findOrCreateSession(sessionContext: SessionContext, tx: any = this.prisma): Promise<{ id: string }> {
+    let session = await tx.cartSession.findFirst({
+      where: {
+        OR: [
+          { id: sessionContext.sessionId },
+          { userId: sessionContext.userId || '' }
+        ]
+      }
+    });
+
+    if (!session) {
+      // Create session if it doesn't exist
+      const sessionToken = `cart_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+      session = await tx.cartSession.create({
+        data: {
+          userId: sessionContext.userId || null,
+          sessionToken: sessionToken,
+          ...(sessionContext.channel && { channel: sessionContext.channel }),
+          expiresAt: sessionContext.expiresAt || new Date(Date.now() + 24 * 60 * 60 * 1000)
+        }
+      });
+    }
+
+    return session;
+  }
+
   /**
    * Add item to cart with transaction
    */
-  async addItemToCart(cartId: string, itemData: AddItemDto): Promise<CartItem> {
+  async addItemToCart(
+    cartId: string,
+    itemData: AddItemDto,
+    pricing: ItemPriceDto,
+    expectedVersion?: number,
+    customization?: LineCustomization,
+    fulfillment?: FulfillmentExpectation
+  ): Promise<CartItem> {
     return this.transaction(async (tx) => {
       // Check if cart exists and is active
       const cart = await tx.cart.findUnique({
@@ -189,42 +262,660 @@ export class DatabaseService {
         throw new CartServiceError('CART_NOT_FOUND', 'Cart not found or not active');
       }
 
+      await new CartModel(tx).incrementVersion(cartId, expectedVersion);
+
       // Add item to cart
       const cartItemModel = new CartItemModel(tx);
-      return await cartItemModel.addItem(cartId, itemData);
+      const matchingLine = await cartItemModel.findStandaloneLine(
+        cartId,
+        itemData.productId,
+        itemData.variantId,
+        customization?.fingerprint
+      );
+      if (matchingLine) {
+        this.assertNotQuotedLine(matchingLine);
+      }
+
+      return await new CartEventModel(tx).track(cartId, CartEventType.ITEM_ADDED, () =>
+        cartItemModel.addItem(
+          cartId,
+          itemData,
+          matchingLine ? this.holdLockedPrice(matchingLine, pricing) : pricing,
+          customization,
+          fulfillment
+        )
+      );
+    });
+  }
+
+  /**
+   * Add several lines to cart with one transaction, so either all of them
+   * are written or none is. The cart version moves once.
+   */
+  async addItemsToCart(cartId: string, lines: PricedLineDto[], expectedVersion?: number): Promise<CartItem[]> {
+    return this.transaction(async (tx) => {
+      const cart = await tx.cart.findUnique({
+        where: { id: cartId }
+      });
+
+      if (!cart || cart.status !== 'ACTIVE') {
+        throw new CartServiceError('CART_NOT_FOUND', 'Cart not found or not active');
+      }
+
+      await new CartModel(tx).incrementVersion(cartId, expectedVersion);
+
+      const cartItemModel = new CartItemModel(tx);
+      return await new CartEventModel(tx).track(cartId, CartEventType.ITEM_ADDED, async () => {
+        const items: CartItem[] = [];
+        for (const { item, pricing, customization, fulfillment } of lines) {
+          const matchingLine = await cartItemModel.findStandaloneLine(
+            cartId,
+            item.productId,
+            item.variantId,
+            customization?.fingerprint
+          );
+          if (matchingLine) {
+            this.assertNotQuotedLine(matchingLine);
+          }
+          items.push(await cartItemModel.addItem(
+            cartId,
+            item,
+            matchingLine ? this.holdLockedPrice(matchingLine, pricing) : pricing,
+            customization,
+            fulfillment
+          ));
+        }
+        return items;
+      });
+    });
+  }
+
+  /**
+   * Write lines taken from another cart into a cart with one transaction.
+   * Standalone lines are added the way any line is; bundle lines add their
+   * kits to the cart's bundle line. Moved lines leave their cart in the same
+   * transaction. The target cart version moves once.
+   */
+  async transferItems(
+    sourceCartId: string,
+    targetCartId: string,
+    lines: TransferLineDto[],
+    move: boolean,
+    expectedVersion?: number
+  ): Promise<void> {
+    return this.transaction(async (tx) => {
+      const cart = await tx.cart.findUnique({
+        where: { id: targetCartId }
+      });
+
+      if (!cart || cart.status !== 'ACTIVE') {
+        throw new CartServiceError('CART_NOT_FOUND', 'Cart not found or not active');
+      }
+
+      const cartModel = new CartModel(tx);
+      const cartItemModel = new CartItemModel(tx);
+      const cartEventModel = new CartEventModel(tx);
+      await cartModel.incrementVersion(targetCartId, expectedVersion);
+
+      await cartEventModel.track(targetCartId, CartEventType.ITEM_ADDED, async () => {
+        for (const { line, gift, subscription, bundlePricing, quantity } of lines) {
+          if (bundlePricing) {
+            const existingLine = await cartItemModel.findBundleLine(targetCartId, bundlePricing.bundleId);
+            if (existingLine) {
+              this.assertNotQuotedLine(existingLine);
+            }
+            await cartItemModel.setBundle(targetCartId, bundlePricing, (existingLine?.quantity || 0) + quantity);
+            continue;
+          }
+
+          const matchingLine = await cartItemModel.findStandaloneLine(
+            targetCartId,
+            line!.item.productId,
+            line!.item.variantId,
+            line!.customization?.fingerprint
+          );
+          if (matchingLine) {
+            this.assertNotQuotedLine(matchingLine);
+          }
+          const item = await cartItemModel.addItem(
+            targetCartId,
+            line!.item,
+            matchingLine ? this.holdLockedPrice(matchingLine, line!.pricing) : line!.pricing,
+            line!.customization,
+            line!.fulfillment
+          );
+          if (gift) {
+            await cartItemModel.setGiftOptions(item.id, gift);
+          }
+          if (subscription) {
+            await cartItemModel.setSubscription(item.id, subscription);
+          }
+        }
+      }, { sourceCartId, mode: move ? 'move' : 'copy' });
+
+      if (move) {
+        await cartModel.incrementVersion(sourceCartId);
+        await cartEventModel.track(sourceCartId, CartEventType.ITEM_REMOVED, async () => {
+          for (const { sourceItemId } of lines) {
+            await cartItemModel.removeItem(sourceItemId);
+          }
+        }, { targetCartId, mode: 'move' });
+      }
+    });
+  }
+
+  /**
+   * Add kits of a bundle to cart with transaction, merging with the bundle
+   * line already in the cart
+   */
+  async addBundleToCart(
+    cartId: string,
+    pricing: BundlePriceDto,
+    quantity: number,
+    expectedVersion?: number
+  ): Promise<CartItem> {
+    return this.transaction(async (tx) => {
+      const cart = await tx.cart.findUnique({
+        where: { id: cartId }
+      });
+
+      if (!cart || cart.status !== 'ACTIVE') {
+        throw new CartServiceError('CART_NOT_FOUND', 'Cart not found or not active');
+      }
+
+      await new CartModel(tx).incrementVersion(cartId, expectedVersion);
+
+      const cartItemModel = new CartItemModel(tx);
+      const existingLine = await cartItemModel.findBundleLine(cartId, pricing.bundleId);
+      if (existingLine) {
+        this.assertNotQuotedLine(existingLine);
+      }
+      return await new CartEventModel(tx).track(cartId, CartEventType.ITEM_ADDED, () =>
+        cartItemModel.setBundle(cartId, pricing, (existingLine?.quantity || 0) + quantity)
+      );
+    });
+  }
+
+  /**
+   * Change the number of kits on a bundle line with transaction
+   */
+  async updateBundleQuantity(
+    itemId: string,
+    pricing: BundlePriceDto,
+    quantity: number,
+    expectedVersion?: number
+  ): Promise<CartItem> {
+    return this.transaction(async (tx) => {
+      const cartItemModel = new CartItemModel(tx);
+      const item = await this.findItemForWrite(cartItemModel, itemId);
+      this.assertNotQuotedLine(item);
+
+      await new CartModel(tx).incrementVersion(item.cartId, expectedVersion);
+      return await new CartEventModel(tx).track(item.cartId, CartEventType.ITEM_UPDATED, () =>
+        cartItemModel.setBundle(item.cartId, pricing, quantity)
+      );
     });
   }
 
   /**
    * Update cart item with transaction
    */
-  async updateCartItem(itemId: string, itemData: UpdateItemDto): Promise<CartItem> {
+  async updateCartItem(
+    itemId: string,
+    itemData: UpdateItemDto,
+    pricing?: ItemPriceDto,
+    expectedVersion?: number,
+    fulfillment?: FulfillmentExpectation
+  ): Promise<CartItem> {
+    return this.transaction(async (tx) => {
+      const cartItemModel = new CartItemModel(tx);
+      const item = await this.findItemForWrite(cartItemModel, itemId);
+      this.assertNotBundleLine(item);
+      this.assertNotQuotedLine(item);
+
+      await new CartModel(tx).incrementVersion(item.cartId, expectedVersion);
+      return await new CartEventModel(tx).track(item.cartId, CartEventType.ITEM_UPDATED, () =>
+        cartItemModel.updateItem(itemId, itemData, pricing && this.holdLockedPrice(item, pricing), fulfillment)
+      );
+    });
+  }
+
+  /**
+   * Update several lines of a cart with one transaction, so either all of
+   * them are written or none is. The cart version moves once.
+   */
+  async updateCartItems(
+    cartId: string,
+    updates: Array<{ itemId: string; itemData: UpdateItemDto; pricing?: ItemPriceDto }>,
+    expectedVersion?: number
+  ): Promise<CartItem[]> {
     return this.transaction(async (tx) => {
       const cartItemModel = new CartItemModel(tx);
-      return await cartItemModel.updateItem(itemId, itemData);
+      const lines: Array<{ item: CartItem; itemData: UpdateItemDto; pricing?: ItemPriceDto }> = [];
+      for (const { itemId, itemData, pricing } of updates) {
+        const item = await this.findCartItemForWrite(cartItemModel, cartId, itemId);
+        this.assertNotBundleLine(item);
+        this.assertNotQuotedLine(item);
+        lines.push({ item, itemData, pricing });
+      }
+
+      await new CartModel(tx).incrementVersion(cartId, expectedVersion);
+      return await new CartEventModel(tx).track(cartId, CartEventType.ITEM_UPDATED, async () => {
+        const items: CartItem[] = [];
+        for (const { item, itemData, pricing } of lines) {
+          items.push(await cartItemModel.updateItem(item.id, itemData, pricing && this.holdLockedPrice(item, pricing)));
+        }
+        return items;
+      });
+    });
+  }
+
+  /**
+   * Change the customization of a line with transaction. When another line
+   * of the same product already has that customization the two are merged.
+   */
+  async customizeCartItem(
+    itemId: string,
+    pricing: ItemPriceDto,
+    customization: LineCustomization | undefined,
+    expectedVersion?: number
+  ): Promise<CartItem> {
+    return this.transaction(async (tx) => {
+      const cartItemModel = new CartItemModel(tx);
+      const item = await this.findItemForWrite(cartItemModel, itemId);
+      this.assertNotBundleLine(item);
+      this.assertNotQuotedLine(item);
+
+      await new CartModel(tx).incrementVersion(item.cartId, expectedVersion);
+
+      return await new CartEventModel(tx).track(item.cartId, CartEventType.ITEM_UPDATED, async () => {
+        const matchingLine = await cartItemModel.findStandaloneLine(
+          item.cartId,
+          item.productId,
+          item.variantId,
+          customization?.fingerprint
+        );
+
+        if (matchingLine && matchingLine.id !== item.id) {
+          this.assertNotQuotedLine(matchingLine);
+          await cartItemModel.removeItem(item.id);
+          return await cartItemModel.updateItem(
+            matchingLine.id,
+            { quantity: matchingLine.quantity + item.quantity },
+            this.holdLockedPrice(matchingLine, pricing)
+          );
+        }
+
+        return await cartItemModel.setCustomization(item.id, this.holdLockedPrice(item, pricing), customization);
+      });
+    });
+  }
+
+  /**
+   * Set the gift options of a line with transaction. Bundle components are
+   * gifted with their bundle line.
+   */
+  async setItemGiftOptions(itemId: string, gift: GiftOptions | undefined, expectedVersion?: number): Promise<CartItem> {
+    return this.transaction(async (tx) => {
+      const cartItemModel = new CartItemModel(tx);
+      const item = await this.findItemForWrite(cartItemModel, itemId);
+      if (item.parentItemId) {
+        this.assertNotBundleLine(item);
+      }
+
+      await new CartModel(tx).incrementVersion(item.cartId, expectedVersion);
+      const updatedItem = await cartItemModel.setGiftOptions(itemId, gift);
+      await new CartEventModel(tx).append({
+        cartId: item.cartId,
+        type: CartEventType.GIFT_OPTIONS_CHANGED,
+        details: { itemId, gift: gift ?? null }
+      });
+
+      return updatedItem;
+    });
+  }
+
+  /**
+   * Make a line a subscribe-and-save line, or a one-time purchase again,
+   * with transaction. Bundles and quoted lines cannot be subscribed to.
+   */
+  async setItemSubscription(
+    itemId: string,
+    frequency: SubscriptionFrequency | undefined,
+    expectedVersion?: number
+  ): Promise<CartItem> {
+    return this.transaction(async (tx) => {
+      const cartItemModel = new CartItemModel(tx);
+      const item = await this.findItemForWrite(cartItemModel, itemId);
+      this.assertNotBundleLine(item);
+      this.assertNotQuotedLine(item);
+
+      await new CartModel(tx).incrementVersion(item.cartId, expectedVersion);
+      return await new CartEventModel(tx).track(item.cartId, CartEventType.ITEM_UPDATED, () =>
+        cartItemModel.setSubscription(itemId, frequency),
+        { itemId, subscription: frequency ?? null }
+      );
+    });
+  }
+
+  /**
+   * Set the cart-level gift options with transaction
+   */
+  async setCartGiftOptions(cartId: string, gift: GiftOptions | undefined, expectedVersion?: number): Promise<void> {
+    return this.transaction(async (tx) => {
+      const cartModel = new CartModel(tx);
+      await cartModel.incrementVersion(cartId, expectedVersion);
+      await cartModel.setGiftOptions(cartId, gift);
+      await new CartEventModel(tx).append({
+        cartId,
+        type: CartEventType.GIFT_OPTIONS_CHANGED,
+        details: { gift: gift ?? null }
+      });
+    });
+  }
+
+  /**
+   * Set the price of a standalone line with transaction, recording who set
+   * it in the PRICE_CHANGED event
+   */
+  async setItemPrice(
+    itemId: string,
+    pricing: ItemPriceDto,
+    details: Record<string, any>,
+    expectedVersion?: number
+  ): Promise<CartItem> {
+    return this.transaction(async (tx) => {
+      const cartItemModel = new CartItemModel(tx);
+      const item = await this.findItemForWrite(cartItemModel, itemId);
+      this.assertNotBundleLine(item);
+      this.assertNotQuotedLine(item);
+
+      await new CartModel(tx).incrementVersion(item.cartId, expectedVersion);
+      return await new CartEventModel(tx).track(item.cartId, CartEventType.PRICE_CHANGED, () =>
+        cartItemModel.setPricing(itemId, pricing),
+        { itemId, ...details }
+      );
     });
   }
 
   /**
    * Remove item from cart with transaction
    */
-  async removeItemFromCart(itemId: string): Promise<void> {
+  async removeItemFromCart(itemId: string, expectedVersion?: number): Promise<void> {
+    return this.transaction(async (tx) => {
+      const cartItemModel = new CartItemModel(tx);
+      const item = await this.findItemForWrite(cartItemModel, itemId);
+      if (item.parentItemId) {
+        this.assertNotBundleLine(item);
+      }
+
+      await new CartModel(tx).incrementVersion(item.cartId, expectedVersion);
+      await new CartEventModel(tx).track(item.cartId, CartEventType.ITEM_REMOVED, () =>
+        cartItemModel.removeItem(itemId)
+      );
+    });
+  }
+
+  /**
+   * Remove several lines from a cart with one transaction, so either all of
+   * them are removed or none is. The cart version moves once.
+   */
+  async removeItemsFromCart(cartId: string, itemIds: string[], expectedVersion?: number): Promise<void> {
     return this.transaction(async (tx) => {
       const cartItemModel = new CartItemModel(tx);
-      await cartItemModel.removeItem(itemId);
+      for (const itemId of itemIds) {
+        const item = await this.findCartItemForWrite(cartItemModel, cartId, itemId);
+        if (item.parentItemId) {
+          this.assertNotBundleLine(item);
+        }
+      }
+
+      await new CartModel(tx).incrementVersion(cartId, expectedVersion);
+      await new CartEventModel(tx).track(cartId, CartEventType.ITEM_REMOVED, async () => {
+        for (const itemId of itemIds) {
+          await cartItemModel.removeItem(itemId);
+        }
+      });
+    });
+  }
+
+  /**
+   * Move a line out of its cart onto its owner's saved items, at the line's
+   * unit price in the cart's currency
+   */
+  async saveItemForLater(
+    itemId: string,
+    owner: SavedItemOwner,
+    notes?: string,
+    expectedVersion?: number
+  ): Promise<SavedItem> {
+    return this.transaction(async (tx) => {
+      const cartItemModel = new CartItemModel(tx);
+      const item = await this.findItemForWrite(cartItemModel, itemId);
+      this.assertNotBundleLine(item);
+
+      const cart = await tx.cart.findUnique({ where: { id: item.cartId } });
+      await new CartModel(tx).incrementVersion(item.cartId, expectedVersion);
+      await new CartEventModel(tx).track(item.cartId, CartEventType.ITEM_REMOVED, () =>
+        cartItemModel.removeItem(itemId), { savedForLater: true });
+
+      return new SavedItemModel(tx).create({
+        ...owner,
+        productId: item.productId,
+        variantId: item.variantId,
+        quantity: item.quantity,
+        customization: item.customization,
+        customizationFingerprint: item.customizationFingerprint,
+        currency: cart.currency,
+        price: item.price,
+        notes
+      });
+    });
+  }
+
+  /**
+   * Add a saved item back to cart and remove it from the saved items with
+   * transaction, so it is never in both places or in neither
+   */
+  async restoreSavedItem(
+    savedItemId: string,
+    cartId: string,
+    line: PricedLineDto,
+    expectedVersion?: number
+  ): Promise<CartItem> {
+    return this.transaction(async (tx) => {
+      const cart = await tx.cart.findUnique({
+        where: { id: cartId }
+      });
+
+      if (!cart || cart.status !== 'ACTIVE') {
+        throw new CartServiceError('CART_NOT_FOUND', 'Cart not found or not active');
+      }
+
+      await new CartModel(tx).incrementVersion(cartId, expectedVersion);
+
+      const cartItemModel = new CartItemModel(tx);
+      const matchingLine = await cartItemModel.findStandaloneLine(
+        cartId,
+        line.item.productId,
+        line.item.variantId,
+        line.customization?.fingerprint
+      );
+      if (matchingLine) {
+        this.assertNotQuotedLine(matchingLine);
+      }
+
+      const item = await new CartEventModel(tx).track(cartId, CartEventType.ITEM_ADDED, () =>
+        cartItemModel.addItem(
+          cartId,
+          line.item,
+          matchingLine ? this.holdLockedPrice(matchingLine, line.pricing) : line.pricing,
+          line.customization,
+          line.fulfillment
+        ), { savedItemId });
+
+      await new SavedItemModel(tx).delete(savedItemId);
+      return item;
     });
   }
 
   /**
    * Clear cart with transaction
    */
-  async clearCart(cartId: string): Promise<void> {
+  async clearCart(cartId: string, expectedVersion?: number): Promise<void> {
     return this.transaction(async (tx) => {
+      await new CartModel(tx).incrementVersion(cartId, expectedVersion);
+
       const cartItemModel = new CartItemModel(tx);
-      await cartItemModel.clearCart(cartId);
+      await new CartEventModel(tx).track(cartId, CartEventType.CART_CLEARED, () =>
+        cartItemModel.clearCart(cartId)
+      );
+    });
+  }
+
+  /**
+   * Bring cart lines back to recorded states with transaction, moving the
+   * undo step that recorded them in the same transaction. Bundle lines are
+   * rewritten with their components from the bundle pricing.
+   */
+  async restoreCartLines(
+    cartId: string,
+    restores: CartLineRestore[],
+    type: CartEventType,
+    details: Record<string, any>,
+    undoStep: { id: string; undone: boolean },
+    expectedVersion?: number
+  ): Promise<void> {
+    return this.transaction(async (tx) => {
+      await new CartModel(tx).incrementVersion(cartId, expectedVersion);
+      await new CartUndoStepModel(tx).setUndone(undoStep.id, undoStep.undone);
+
+      const cartItemModel = new CartItemModel(tx);
+      await new CartEventModel(tx).track(cartId, type, async () => {
+        for (const restore of restores) {
+          if (!restore.state) {
+            if (restore.exists) {
+              await cartItemModel.removeItem(restore.itemId);
+            }
+          } else if (restore.state.bundleId) {
+            await cartItemModel.setBundle(cartId, restore.pricing as BundlePriceDto, restore.state.quantity);
+          } else if (restore.exists) {
+            await cartItemModel.setCustomization(restore.itemId, restore.pricing!, restore.customization);
+            await cartItemModel.updateItem(restore.itemId, { quantity: restore.state.quantity }, restore.pricing);
+          } else {
+            await cartItemModel.restoreLine(cartId, restore.state, restore.pricing!, restore.customization);
+          }
+        }
+      }, details);
+    });
+  }
+
+  /**
+   * Switch cart currency and rewrite line prices with transaction
+   */
+  async repriceCart(
+    cartId: string,
+    currency: string,
+    prices: Map<string, ItemPriceDto>,
+    expectedVersion?: number
+  ): Promise<void> {
+    return this.transaction(async (tx) => {
+      await new CartModel(tx).incrementVersion(cartId, expectedVersion);
+
+      const previous = await tx.cart.findUnique({
+        where: { id: cartId },
+        select: { currency: true }
+      });
+
+      await tx.cart.update({
+        where: { id: cartId },
+        data: { currency }
+      });
+
+      await new CartEventModel(tx).track(cartId, CartEventType.PRICE_CHANGED, async () => {
+        for (const [itemId, pricing] of prices) {
+          await tx.cartItem.update({
+            where: { id: itemId },
+            data: {
+              price: pricing.price,
+              originalPrice: pricing.originalPrice ?? null,
+              surcharge: pricing.surcharge ?? 0,
+              // Locked prices were guaranteed in the previous currency
+              priceLockedUntil: null
+            }
+          });
+        }
+      }, { fromCurrency: previous?.currency, toCurrency: currency });
     });
   }
 
+  /**
+   * Load an item that is about to be written, failing with ITEM_NOT_FOUND
+   */
+  private async findItemForWrite(cartItemModel: CartItemModel, itemId: string): Promise<CartItem> {
+    const item = await cartItemModel.findById(itemId);
+    if (!item) {
+      throw new CartServiceError('ITEM_NOT_FOUND', 'Cart item not found');
+    }
+    return item;
+  }
+
+  private async findCartItemForWrite(cartItemModel: CartItemModel, cartId: string, itemId: string): Promise<CartItem> {
+    const item = await this.findItemForWrite(cartItemModel, itemId);
+    if (item.cartId !== cartId) {
+      throw new CartServiceError('ITEM_NOT_FOUND', 'Cart item not found');
+    }
+    return item;
+  }
+
+  /**
+   * Bundle lines only change as a whole bundle: components never on their
+   * own, and the bundle line only through the bundle paths
+   */
+  assertNotBundleLine(item: CartItem): void {
+    if (item.bundleId) {
+      throw new CartServiceError(
+        'BUNDLE_ITEM_LOCKED',
+        item.parentItemId
+          ? `Item ${item.id} is part of bundle ${item.bundleId} and can only change with the bundle`
+          : `Bundle line ${item.id} must be changed as a bundle`,
+        { itemId: item.id, bundleId: item.bundleId, parentItemId: item.parentItemId }
+      );
+    }
+  }
+
+  /**
+   * Keep the price of a line whose price lock is still running, taking only
+   * a changed customization surcharge from the new pricing
+   */
+  private holdLockedPrice(item: CartItem, pricing: ItemPriceDto): ItemPriceDto {
+    if (!item.priceLockedUntil || item.priceLockedUntil <= new Date()) {
+      return pricing;
+    }
+
+    const surcharge = pricing.surcharge ?? 0;
+    return {
+      price: item.price - (item.surcharge ?? 0) + surcharge,
+      originalPrice: item.originalPrice,
+      surcharge,
+      lockedUntil: item.priceLockedUntil
+    };
+  }
+
+  /**
+   * Lines converted from a quote keep their quoted price and quantity; they
+   * can only be removed
+   */
+  assertNotQuotedLine(item: CartItem): void {
+    if (item.quoteId) {
+      throw new CartServiceError(
+        'QUOTE_LINE_LOCKED',
+        `Item ${item.id} is priced by quote ${item.quoteId} and can only be removed`,
+        { itemId: item.id, quoteId: item.quoteId }
+      );
+    }
+  }
+
   /**
    * Create session with transaction
    */
@@ -16,6 +16,7 @@ async function main() {
   await prisma.cartMetadata.deleteMany({});
   await prisma.cart.deleteMany({});
   await prisma.cartSession.deleteMany({});
+  await prisma.businessRule.deleteMany({});
   console.log('✅ Existing data cleared');
   console.log('');
 
@@ -390,6 +391,45 @@ async function main() {
   console.log('✅ Created 21 cart items across all carts');
   console.log('');
 
+  // Create business rules
+  console.log('📏 Creating business rules...');
+
+  await prisma.businessRule.createMany({
+    data: [
+      {
+        name: 'User cart limit',
+        description: 'Signed-in users need support for orders over 1,000 in the cart currency',
+        scope: 'CART',
+        match: 'ALL',
+        conditions: JSON.stringify([
+          { field: 'user.isGuest', operator: 'EQ', value: false },
+          { field: 'cart.subtotal', operator: 'GT', value: 1000 }
+        ]),
+        action: 'BLOCK',
+        message: 'Cart total exceeds user limit',
+        priority: 10,
+        // Most seeded ₹ carts are over the limit, so it starts switched off
+        isActive: false
+      },
+      {
+        name: 'Limited items',
+        description: 'Limited edition products are one per customer',
+        scope: 'LINE',
+        match: 'ALL',
+        conditions: JSON.stringify([
+          { field: 'line.productId', operator: 'STARTS_WITH', value: 'LIMITED_' }
+        ]),
+        action: 'CAP_QUANTITY',
+        capQuantity: 1,
+        message: 'One per customer limit applies',
+        priority: 10
+      }
+    ]
+  });
+
+  console.log('✅ Created 2 business rules');
+  console.log('');
+
   // Summary
   console.log('═══════════════════════════════════════════════════════');
   console.log('✅ DATABASE SEED COMPLETED SUCCESSFULLY!');
@@ -399,6 +439,7 @@ async function main() {
   console.log('   - 8 sessions (7 active, 1 expired)');
   console.log('   - 7 carts (6 ACTIVE, 1 CHECKOUT)');
   console.log('   - 21 cart items with Indian products (₹ prices)');
+  console.log('   - 2 business rules (limited items; user cart limit inactive)');
   console.log('   - Multiple users: rajesh_kumar_123, priya_sharma_456, amit_patel_789, kavita_singh_101, rahul_gupta_202');
   console.log('');
   console.log('🔑 Session Tokens for Testing:');
@@ -0,0 +1,184 @@
+// Tenant Scope
+// Prisma client extension that keeps every query to the current tenant's data
+
+import { PrismaClient } from '../generated/prisma';
+import { getCurrentTenantId } from '../tenant/tenant-context';
+import { CartServiceError } from '../types/cart.types';
+
+// Models that carry a tenantId column
+const TENANT_MODELS = new Set([
+  'CartSession',
+  'Cart',
+  'Quote',
+  'BusinessRule',
+  'Subscription',
+  'ProductAffinity',
+  'SavedItem',
+  'Discount',
+  'Promotion',
+  'TaxRate',
+  'Order',
+  'Notification'
+]);
+
+interface ParentRelation {
+  relation: string;
+  foreignKey: string;
+}
+
+// Models that belong to a tenant through their parent
+const PARENT_RELATIONS: Record<string, ParentRelation> = {
+  CartItem: { relation: 'cart', foreignKey: 'cartId' },
+  CartMetadata: { relation: 'cart', foreignKey: 'cartId' },
+  CartShare: { relation: 'cart', foreignKey: 'cartId' },
+  CartEvent: { relation: 'cart', foreignKey: 'cartId' },
+  CartUndoStep: { relation: 'cart', foreignKey: 'cartId' },
+  OrderItem: { relation: 'order', foreignKey: 'orderId' },
+  OrderEvent: { relation: 'order', foreignKey: 'orderId' },
+  OrderAddress: { relation: 'order', foreignKey: 'orderId' },
+  Payment: { relation: 'order', foreignKey: 'orderId' },
+  Shipping: { relation: 'order', foreignKey: 'orderId' },
+  DiscountUsage: { relation: 'discount', foreignKey: 'discountId' },
+  PromotionUsage: { relation: 'promotion', foreignKey: 'promotionId' }
+};
+
+// Other relations set by foreign key on models created through their parent.
+// Prisma rejects a create that mixes a relation with foreign keys, so these
+// are connected too once the parent is.
+const OTHER_RELATIONS: Record<string, Record<string, string>> = {
+  CartItem: { parentItemId: 'parent' }
+};
+
+const FILTERED_OPERATIONS = new Set([
+  'findUnique',
+  'findUniqueOrThrow',
+  'findFirst',
+  'findFirstOrThrow',
+  'findMany',
+  'count',
+  'aggregate',
+  'groupBy',
+  'update',
+  'updateMany',
+  'updateManyAndReturn',
+  'upsert',
+  'delete',
+  'deleteMany'
+]);
+
+const CREATE_OPERATIONS = new Set(['create', 'createMany', 'createManyAndReturn']);
+
+/**
+ * Scope a Prisma client to the tenant of the request being handled: reads,
+ * updates and deletes only see the tenant's rows, rows created get its
+ * tenantId, and rows created under a parent fail unless the parent is the
+ * tenant's. Outside a request, e.g. in scheduled jobs, queries see every
+ * tenant.
+ */
+export function withTenantScope(prisma: PrismaClient): PrismaClient {
+  return prisma.$extends({
+    query: {
+      $allModels: {
+        async $allOperations({ model, operation, args, query }: any) {
+          const tenantId = getCurrentTenantId();
+          const filter = tenantId ? tenantFilter(model, tenantId) : undefined;
+          if (!filter) {
+            return query(args);
+          }
+
+          const scoped = { ...args };
+          if (FILTERED_OPERATIONS.has(operation)) {
+            scoped.where = scoped.where ? { ...scoped.where, AND: [filter, ...asArray(scoped.where.AND)] } : filter;
+          }
+          if (TENANT_MODELS.has(model)) {
+            if (CREATE_OPERATIONS.has(operation)) {
+              scoped.data = Array.isArray(scoped.data)
+                ? scoped.data.map((row: any) => ({ ...row, tenantId }))
+                : { ...scoped.data, tenantId };
+            } else if (operation === 'upsert') {
+              scoped.create = { ...scoped.create, tenantId };
+            }
+          } else if (operation === 'create') {
+            scoped.data = connectToParent(model, scoped.data, tenantId);
+          } else if (operation === 'upsert') {
+            scoped.create = connectToParent(model, scoped.create, tenantId);
+          } else if (CREATE_OPERATIONS.has(operation)) {
+            await assertParentsInTenant(prisma, model, asArray(scoped.data), tenantId);
+          }
+
+          return query(scoped);
+        }
+      }
+    }
+  }) as unknown as PrismaClient;
+}
+
+function tenantFilter(model: string, tenantId: string): Record<string, any> | undefined {
+  if (TENANT_MODELS.has(model)) {
+    return { tenantId };
+  }
+
+  const parent = PARENT_RELATIONS[model];
+  return parent ? { [parent.relation]: { tenantId } } : undefined;
+}
+
+/**
+ * Create a child row through its parent's relation, limited to the tenant's
+ * parents, so the create fails when the parent is another tenant's. This runs
+ * in the same query, so it also sees a parent created earlier in the same
+ * transaction.
+ */
+function connectToParent(model: string, data: Record<string, any>, tenantId: string): Record<string, any> {
+  const { relation, foreignKey } = PARENT_RELATIONS[model];
+  const parentId = data[foreignKey];
+  if (parentId === undefined) {
+    return data;
+  }
+
+  const connected: Record<string, any> = { ...data, [relation]: { connect: { id: parentId, tenantId } } };
+  delete connected[foreignKey];
+
+  for (const [key, otherRelation] of Object.entries(OTHER_RELATIONS[model] ?? {})) {
+    if (key in connected) {
+      if (connected[key] !== null && connected[key] !== undefined) {
+        connected[otherRelation] = { connect: { id: connected[key] } };
+      }
+      delete connected[key];
+    }
+  }
+
+  return connected;
+}
+
+/**
+ * Check that child rows created in bulk all belong to parents of the tenant.
+ * Bulk creates cannot connect relations, so the parents are looked up first,
+ * outside any transaction the create runs in.
+ */
+async function assertParentsInTenant(
+  prisma: PrismaClient,
+  model: string,
+  rows: Record<string, any>[],
+  tenantId: string
+): Promise<void> {
+  const { relation, foreignKey } = PARENT_RELATIONS[model];
+  const parentIds = [...new Set(rows.map(row => row[foreignKey]).filter(Boolean))];
+  if (parentIds.length === 0) {
+    return;
+  }
+
+  const found = await (prisma as any)[relation].count({ where: { id: { in: parentIds }, tenantId } });
+  if (found !== parentIds.length) {
+    throw new CartServiceError('TENANT_MISMATCH', `${model} rows must belong to the current tenant's ${relation}`, {
+      model,
+      tenantId
+    });
+  }
+}
+
+function asArray(value: any): any[] {
+  if (value === undefined) {
+    return [];
+  }
+  return Array.isArray(value) ? value : [value];
+}
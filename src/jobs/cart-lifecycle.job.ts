@@ -0,0 +1,32 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { Cron, CronExpression } from '@nestjs/schedule';
+import { CartLifecycleService } from '../cart/operations/cart-lifecycle.service';
+
+@Injectable()
+export class CartLifecycleJob {
+    private readonly logger = new Logger(CartLifecycleJob.name);
+    private running = false;
+
+    constructor(private readonly cartLifecycleService: CartLifecycleService) { }
+
+    /**
+     * Move idle carts to ABANDONED and long-abandoned carts to EXPIRED every
+     * hour. A sweep still running when the next one is due is not overlapped.
+     */
+    @Cron(CronExpression.EVERY_HOUR)
+    async runIdleCartSweep(): Promise<void> {
+        if (this.running) {
+            this.logger.warn('Previous idle cart sweep is still running; skipping');
+            return;
+        }
+
+        this.running = true;
+        try {
+            await this.cartLifecycleService.sweepIdleCarts();
+        } catch (error) {
+            this.logger.error('Idle cart sweep failed:', error.message);
+        } finally {
+            this.running = false;
+        }
+    }
+}
@@ -0,0 +1,35 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { Cron, CronExpression } from '@nestjs/schedule';
+import { RecommendationService } from '../services/recommendation.service';
+
+@Injectable()
+export class RecommendationsJob {
+    private readonly logger = new Logger(RecommendationsJob.name);
+    private running = false;
+
+    constructor(private readonly recommendationService: RecommendationService) { }
+
+    /**
+     * Rebuild the frequently-bought-together affinities every night, without
+     * overlapping a run that is still going
+     */
+    @Cron(CronExpression.EVERY_DAY_AT_3AM)
+    async refreshRecommendations(): Promise<void> {
+        if (this.running) {
+            this.logger.warn('Previous recommendations refresh is still running; skipping');
+            return;
+        }
+
+        this.running = true;
+        try {
+            const result = await this.recommendationService.refresh();
+            this.logger.log(
+                `Recommendations refresh: ${result.affinities} affinities from ${result.baskets} baskets in ${result.tenants} store(s)`
+            );
+        } catch (error) {
+            this.logger.error('Recommendations refresh failed:', error.message);
+        } finally {
+            this.running = false;
+        }
+    }
+}
@@ -0,0 +1,38 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { Cron, CronExpression } from '@nestjs/schedule';
+import { SavedItemAlertsService } from '../services/saved-item-alerts.service';
+
+@Injectable()
+export class SavedItemAlertsJob {
+    private readonly logger = new Logger(SavedItemAlertsJob.name);
+    private running = false;
+
+    constructor(private readonly savedItemAlertsService: SavedItemAlertsService) { }
+
+    /**
+     * Reprice and restock saved items every hour, alerting customers about
+     * price drops and restocks; a run still going is not overlapped
+     */
+    @Cron(CronExpression.EVERY_HOUR)
+    async checkSavedItems(): Promise<void> {
+        if (this.running) {
+            this.logger.warn('Previous saved item check is still running; skipping');
+            return;
+        }
+
+        this.running = true;
+        try {
+            const result = await this.savedItemAlertsService.checkSavedItems();
+            if (result.checked > 0 || result.failed > 0) {
+                this.logger.log(
+                    `Saved item check: ${result.checked} checked, ${result.priceDrops} price drops, ` +
+                    `${result.backInStock} back in stock, ${result.failed} failed`
+                );
+            }
+        } catch (error) {
+            this.logger.error('Saved item check failed:', error.message);
+        } finally {
+            this.running = false;
+        }
+    }
+}
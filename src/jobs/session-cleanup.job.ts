@@ -59,6 +59,10 @@ export class SessionCleanupJob {
                 const orphanedCarts = await this.cleanupOrphanedCarts();
                 processedCount += orphanedCarts;
 
+                // Clean up expired idempotency keys
+                const expiredIdempotencyKeys = await this.databaseService.idempotencyKey.deleteExpired();
+                processedCount += expiredIdempotencyKeys;
+
                 // Update job status
                 job.status = 'completed';
                 job.completedAt = new Date();
@@ -69,6 +73,7 @@ export class SessionCleanupJob {
                     expiredSessions,
                     oldSyncs,
                     orphanedCarts,
+                    expiredIdempotencyKeys,
                     completedAt: new Date()
                 };
 
@@ -0,0 +1,35 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { Cron, CronExpression } from '@nestjs/schedule';
+import { SubscriptionService } from '../services/subscription.service';
+
+@Injectable()
+export class SubscriptionOrdersJob {
+    private readonly logger = new Logger(SubscriptionOrdersJob.name);
+    private running = false;
+
+    constructor(private readonly subscriptionService: SubscriptionService) { }
+
+    /**
+     * Place the orders of due subscriptions every hour, without overlapping
+     * a run that is still going
+     */
+    @Cron(CronExpression.EVERY_HOUR)
+    async runDueSubscriptions(): Promise<void> {
+        if (this.running) {
+            this.logger.warn('Previous subscription run is still running; skipping');
+            return;
+        }
+
+        this.running = true;
+        try {
+            const result = await this.subscriptionService.runDueSubscriptions();
+            if (result.ordered > 0 || result.failed > 0) {
+                this.logger.log(`Subscription run: ${result.ordered} ordered, ${result.failed} failed, ${result.paused} paused`);
+            }
+        } catch (error) {
+            this.logger.error('Subscription run failed:', error.message);
+        } finally {
+            this.running = false;
+        }
+    }
+}
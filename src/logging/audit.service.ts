@@ -1,5 +1,6 @@
 import { Injectable, Logger } from '@nestjs/common';
 import { AuditEntry } from '../types/monitoring.types';
+import { AssistedCartAction } from '../types/assisted-cart.types';
 import { v4 as uuidv4 } from 'uuid';
 
 @Injectable()
@@ -207,6 +208,38 @@ export class AuditService {
         );
     }
 
+    /**
+     * Log a support agent's action on a customer's cart. Listing a
+     * customer's carts is recorded against the customer, everything else
+     * against the cart.
+     */
+    logAssistedCartAction(
+        action: AssistedCartAction,
+        agentId: string,
+        reason: string,
+        resourceId: string,
+        customerId?: string,
+        changes?: Record<string, any>,
+        ipAddress?: string,
+        userAgent?: string
+    ): void {
+        this.logAuditEntry(
+            `assisted_cart_${action}`,
+            action === 'list_carts' ? 'user' : 'cart',
+            resourceId,
+            agentId,
+            undefined,
+            changes,
+            {
+                customerId,
+                reason,
+                assistedCart: true
+            },
+            ipAddress,
+            userAgent
+        );
+    }
+
     /**
      * Log data access
      */
@@ -43,10 +43,14 @@ async function bootstrap() {
       'Authorization', 
       'x-user-id', 
       'x-session-token',
+      'If-Match',
+      'Idempotency-Key',
+      'x-tenant-id',
+      'x-sales-channel',
       'x-test-user-id',  // For development testing
       'x-test-session-id' // For development testing
     ],
-    exposedHeaders: ['x-request-id'],
+    exposedHeaders: ['x-request-id', 'ETag', 'Idempotent-Replayed'],
     credentials: true,
   });
 
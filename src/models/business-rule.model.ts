@@ -0,0 +1,100 @@
+// Business Rule Model
+// Database model definitions for merchandising rules applied during cart validation
+
+import { PrismaClient } from '../generated/prisma';
+import { BusinessRule, BusinessRuleData, RuleAction, RuleMatch, RuleScope } from '../types/business-rule.types';
+
+export class BusinessRuleModel {
+  constructor(private prisma: PrismaClient) {}
+
+  /**
+   * Create a rule
+   */
+  async create(data: BusinessRuleData): Promise<BusinessRule> {
+    const rule = await this.prisma.businessRule.create({
+      data: this.toPrismaData(data)
+    });
+
+    return this.mapPrismaRuleToBusinessRule(rule);
+  }
+
+  /**
+   * Find rule by ID
+   */
+  async findById(id: string): Promise<BusinessRule | null> {
+    const rule = await this.prisma.businessRule.findUnique({
+      where: { id }
+    });
+
+    return rule ? this.mapPrismaRuleToBusinessRule(rule) : null;
+  }
+
+  /**
+   * List rules in evaluation order: highest priority first, then oldest
+   */
+  async findAll(activeOnly = false): Promise<BusinessRule[]> {
+    const rules = await this.prisma.businessRule.findMany({
+      where: activeOnly ? { isActive: true } : {},
+      orderBy: [{ priority: 'desc' }, { createdAt: 'asc' }]
+    });
+
+    return rules.map(rule => this.mapPrismaRuleToBusinessRule(rule));
+  }
+
+  /**
+   * Replace a rule's definition
+   */
+  async update(id: string, data: BusinessRuleData): Promise<BusinessRule> {
+    const rule = await this.prisma.businessRule.update({
+      where: { id },
+      data: this.toPrismaData(data)
+    });
+
+    return this.mapPrismaRuleToBusinessRule(rule);
+  }
+
+  /**
+   * Delete a rule
+   */
+  async delete(id: string): Promise<void> {
+    await this.prisma.businessRule.delete({
+      where: { id }
+    });
+  }
+
+  private toPrismaData(data: BusinessRuleData) {
+    return {
+      name: data.name,
+      description: data.description ?? null,
+      scope: data.scope,
+      match: data.match,
+      conditions: JSON.stringify(data.conditions),
+      action: data.action,
+      capQuantity: data.capQuantity ?? null,
+      message: data.message,
+      priority: data.priority,
+      isActive: data.isActive
+    };
+  }
+
+  /**
+   * Map Prisma BusinessRule to our BusinessRule type
+   */
+  private mapPrismaRuleToBusinessRule(prismaRule: any): BusinessRule {
+    return {
+      id: prismaRule.id,
+      name: prismaRule.name,
+      description: prismaRule.description || undefined,
+      scope: prismaRule.scope as RuleScope,
+      match: prismaRule.match as RuleMatch,
+      conditions: JSON.parse(prismaRule.conditions),
+      action: prismaRule.action as RuleAction,
+      capQuantity: prismaRule.capQuantity ?? undefined,
+      message: prismaRule.message,
+      priority: prismaRule.priority,
+      isActive: prismaRule.isActive,
+      createdAt: prismaRule.createdAt,
+      updatedAt: prismaRule.updatedAt
+    };
+  }
+}
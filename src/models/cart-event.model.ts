@@ -0,0 +1,147 @@
+// Cart Event Model
+// Append-only log of cart mutations, used to rebuild a cart as of any point in time
+
+import { PrismaClient } from '../generated/prisma';
+import {
+  AppendCartEventData,
+  CartEvent,
+  CartEventType,
+  CartLineChange,
+  CartLineState
+} from '../types/cart-event.types';
+
+export class CartEventModel {
+  constructor(private prisma: PrismaClient) {}
+
+  /**
+   * Run a write against a cart and append an event holding every line it
+   * changed. Pass a transaction client so the event commits with the write.
+   */
+  async track<T>(
+    cartId: string,
+    type: CartEventType,
+    write: () => Promise<T>,
+    details?: Record<string, any>
+  ): Promise<T> {
+    const before = await this.loadLines(cartId);
+    const result = await write();
+    const after = await this.loadLines(cartId);
+
+    await this.append({ cartId, type, changes: this.diffLines(before, after), details });
+    return result;
+  }
+
+  /**
+   * Append an event to a cart's log
+   */
+  async append(data: AppendCartEventData): Promise<CartEvent> {
+    const event = await this.prisma.cartEvent.create({
+      data: {
+        cartId: data.cartId,
+        type: data.type,
+        changes: JSON.stringify(data.changes || []),
+        details: data.details ? JSON.stringify(data.details) : null
+      }
+    });
+
+    return this.mapPrismaEventToCartEvent(event);
+  }
+
+  /**
+   * List a cart's events in the order they happened, optionally limited to
+   * those after one point in time and up to (and including) another
+   */
+  async findByCartId(cartId: string, range: { after?: Date; until?: Date } = {}): Promise<CartEvent[]> {
+    const events = await this.prisma.cartEvent.findMany({
+      where: {
+        cartId,
+        ...((range.after || range.until) && {
+          createdAt: {
+            ...(range.after && { gt: range.after }),
+            ...(range.until && { lte: range.until })
+          }
+        })
+      },
+      orderBy: { sequence: 'asc' }
+    });
+
+    return events.map(event => this.mapPrismaEventToCartEvent(event));
+  }
+
+  /**
+   * Current lines of a cart in the form they are recorded in
+   */
+  async loadLines(cartId: string): Promise<CartLineState[]> {
+    const items = await this.prisma.cartItem.findMany({
+      where: { cartId },
+      orderBy: { addedAt: 'asc' }
+    });
+
+    return items.map(item => ({
+      itemId: item.id,
+      productId: item.productId,
+      variantId: item.variantId || undefined,
+      quantity: item.quantity,
+      price: Number(item.price),
+      originalPrice: item.originalPrice ? Number(item.originalPrice) : undefined,
+      bundleId: item.bundleId || undefined,
+      parentItemId: item.parentItemId || undefined,
+      unitQuantity: item.unitQuantity ?? undefined,
+      customization: item.customization ? JSON.parse(item.customization) : undefined,
+      surcharge: Number(item.surcharge) || undefined,
+      addedAt: item.addedAt
+    }));
+  }
+
+  /**
+   * Lines that were added, removed or changed between two reads of a cart
+   */
+  diffLines(before: CartLineState[], after: CartLineState[]): CartLineChange[] {
+    const changes: CartLineChange[] = [];
+    const beforeById = new Map(before.map(line => [line.itemId, line]));
+    const afterById = new Map(after.map(line => [line.itemId, line]));
+
+    for (const line of before) {
+      const next = afterById.get(line.itemId);
+      if (!next) {
+        changes.push({ itemId: line.itemId, before: line, after: null });
+      } else if (this.lineKey(line) !== this.lineKey(next)) {
+        changes.push({ itemId: line.itemId, before: line, after: next });
+      }
+    }
+
+    for (const line of after) {
+      if (!beforeById.has(line.itemId)) {
+        changes.push({ itemId: line.itemId, before: null, after: line });
+      }
+    }
+
+    return changes;
+  }
+
+  private lineKey(line: CartLineState): string {
+    return JSON.stringify([
+      line.quantity,
+      line.price,
+      line.originalPrice ?? null,
+      line.surcharge ?? null,
+      line.unitQuantity ?? null,
+      line.customization ?? null
+    ]);
+  }
+
+  /**
+   * Map Prisma CartEvent to our CartEvent type
+   */
+  private mapPrismaEventToCartEvent(prismaEvent: any): CartEvent {
+    return {
+      id: prismaEvent.id,
+      cartId: prismaEvent.cartId,
+      sequence: prismaEvent.sequence,
+      type: prismaEvent.type as CartEventType,
+      changes: JSON.parse(prismaEvent.changes),
+      details: prismaEvent.details ? JSON.parse(prismaEvent.details) : undefined,
+      createdAt: prismaEvent.createdAt
+    };
+  }
+}
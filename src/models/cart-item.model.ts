@@ -2,28 +2,30 @@
 // Database model definitions and business logic for CartItem entity
 
 import { PrismaClient } from '../generated/prisma';
-import { CartItem, AddItemDto, UpdateItemDto } from '../types/cart.types';
+import { CartItem, AddItemDto, UpdateItemDto, ItemPriceDto, BundlePriceDto, LineCustomization } from '../types/cart.types';
+import { CartLineState } from '../types/cart-event.types';
+import { QuoteLine } from '../types/quote.types';
+import { GiftOptions } from '../types/gift.types';
+import { SubscriptionFrequency, SubscriptionUnit } from '../types/subscription.types';
+import { AvailabilityStatus, FulfillmentExpectation } from '../types/fulfillment.types';
 
 export class CartItemModel {
   constructor(private prisma: PrismaClient) {}
 
   /**
-   * Add item to cart
+   * Add item to cart at the given resolved price. The quantity is merged into
+   * an existing standalone line only when the customization matches too.
    */
-  async addItem(cartId: string, data: AddItemDto): Promise<CartItem> {
+  async addItem(
+    cartId: string,
+    data: AddItemDto,
+    pricing: ItemPriceDto,
+    customization?: LineCustomization,
+    fulfillment?: FulfillmentExpectation
+  ): Promise<CartItem> {
     // Normalize variantId: convert undefined to null for database
     const variantId = data.variantId || null;
-    
-    // Check if item already exists in cart
-    const existingItem = await this.prisma.cartItem.findUnique({
-      where: {
-        cartId_productId_variantId: {
-          cartId,
-          productId: data.productId,
-          variantId: variantId
-        }
-      }
-    });
+    const existingItem = await this.findStandaloneLine(cartId, data.productId, data.variantId, customization?.fingerprint);
 
     if (existingItem) {
       // Update quantity if item exists
@@ -31,6 +33,11 @@ export class CartItemModel {
         where: { id: existingItem.id },
         data: {
           quantity: existingItem.quantity + (data.quantity || 1),
+          price: pricing.price,
+          originalPrice: pricing.originalPrice ?? null,
+          surcharge: pricing.surcharge ?? 0,
+          priceLockedUntil: pricing.lockedUntil ?? null,
+          ...(fulfillment && this.toFulfillmentData(fulfillment)),
           updatedAt: new Date()
         }
       });
@@ -44,8 +51,13 @@ export class CartItemModel {
           productId: data.productId,
           variantId: variantId,
           quantity: data.quantity || 1,
-          price: 0, // Will be updated by pricing service (Prisma converts number to Decimal)
-          originalPrice: null // Will be updated by pricing service
+          price: pricing.price, // Prisma converts number to Decimal
+          originalPrice: pricing.originalPrice ?? null,
+          surcharge: pricing.surcharge ?? 0,
+          customization: customization ? JSON.stringify(customization.values) : null,
+          customizationFingerprint: customization?.fingerprint ?? '',
+          priceLockedUntil: pricing.lockedUntil ?? null,
+          ...(fulfillment && this.toFulfillmentData(fulfillment))
         }
       });
 
@@ -54,13 +66,281 @@ export class CartItemModel {
   }
 
   /**
-   * Update item quantity
+   * Recreate a removed standalone line under its original id at the given
+   * price, so later undo and redo steps still find it
+   */
+  async restoreLine(
+    cartId: string,
+    line: CartLineState,
+    pricing: ItemPriceDto,
+    customization?: LineCustomization
+  ): Promise<CartItem> {
+    const restoredItem = await this.prisma.cartItem.create({
+      data: {
+        id: line.itemId,
+        cartId,
+        productId: line.productId,
+        variantId: line.variantId || null,
+        quantity: Math.max(1, line.quantity),
+        price: pricing.price,
+        originalPrice: pricing.originalPrice ?? null,
+        surcharge: pricing.surcharge ?? 0,
+        customization: customization ? JSON.stringify(customization.values) : null,
+        customizationFingerprint: customization?.fingerprint ?? ''
+      }
+    });
+
+    return this.mapPrismaItemToCartItem(restoredItem);
+  }
+
+  /**
+   * Write a line from an accepted quote at its quoted price, marked with the
+   * quote so the price stays locked. Bundle components are written with it.
+   */
+  async createQuotedLine(cartId: string, quoteId: string, line: QuoteLine): Promise<CartItem> {
+    const quotedItem = await this.prisma.cartItem.create({
+      data: {
+        cartId,
+        productId: line.productId,
+        variantId: line.variantId || null,
+        bundleId: line.bundleId || null,
+        quantity: line.quantity,
+        price: line.price,
+        originalPrice: line.price !== line.listPrice ? line.listPrice : line.originalPrice ?? null,
+        surcharge: line.surcharge ?? 0,
+        customization: line.customization ? JSON.stringify(line.customization) : null,
+        customizationFingerprint: line.customizationFingerprint ?? '',
+        quoteId
+      }
+    });
+
+    for (const component of line.components ?? []) {
+      await this.prisma.cartItem.create({
+        data: {
+          cartId,
+          productId: component.productId,
+          variantId: component.variantId || null,
+          bundleId: line.bundleId,
+          parentItemId: quotedItem.id,
+          quantity: component.unitQuantity * line.quantity,
+          unitQuantity: component.unitQuantity,
+          price: 0,
+          originalPrice: component.originalPrice ?? null,
+          quoteId
+        }
+      });
+    }
+
+    return this.mapPrismaItemToCartItem(quotedItem);
+  }
+
+  /**
+   * Find the standalone line for a product with the given customization
+   * fingerprint (bundle components of the same product are kept separate)
+   */
+  async findStandaloneLine(
+    cartId: string,
+    productId: string,
+    variantId?: string,
+    fingerprint?: string
+  ): Promise<CartItem | null> {
+    const item = await this.prisma.cartItem.findFirst({
+      where: {
+        cartId,
+        productId,
+        variantId: variantId || null,
+        bundleId: null,
+        parentItemId: null,
+        customizationFingerprint: fingerprint ?? ''
+      }
+    });
+
+    return item ? this.mapPrismaItemToCartItem(item) : null;
+  }
+
+  /**
+   * Replace the customization of a line, repricing it with the new surcharge
+   */
+  async setCustomization(itemId: string, pricing: ItemPriceDto, customization?: LineCustomization): Promise<CartItem> {
+    const updatedItem = await this.prisma.cartItem.update({
+      where: { id: itemId },
+      data: {
+        price: pricing.price,
+        originalPrice: pricing.originalPrice ?? null,
+        surcharge: pricing.surcharge ?? 0,
+        customization: customization ? JSON.stringify(customization.values) : null,
+        customizationFingerprint: customization?.fingerprint ?? '',
+        updatedAt: new Date()
+      }
+    });
+
+    return this.mapPrismaItemToCartItem(updatedItem);
+  }
+
+  /**
+   * Replace the gift options of a line; none clears them
+   */
+  async setGiftOptions(itemId: string, gift?: GiftOptions): Promise<CartItem> {
+    const updatedItem = await this.prisma.cartItem.update({
+      where: { id: itemId },
+      data: {
+        giftOptions: gift ? JSON.stringify(gift) : null,
+        updatedAt: new Date()
+      }
+    });
+
+    return this.mapPrismaItemToCartItem(updatedItem);
+  }
+
+  /**
+   * Make a line a subscribe-and-save line at the given frequency; none makes
+   * it a one-time purchase again
+   */
+  async setSubscription(itemId: string, frequency?: SubscriptionFrequency): Promise<CartItem> {
+    const updatedItem = await this.prisma.cartItem.update({
+      where: { id: itemId },
+      data: {
+        subscriptionEvery: frequency?.every ?? null,
+        subscriptionUnit: frequency?.unit ?? null,
+        updatedAt: new Date()
+      }
+    });
+
+    return this.mapPrismaItemToCartItem(updatedItem);
+  }
+
+  /**
+   * Write a bundle line and its component lines at the given number of kits.
+   * The bundle line carries the bundle price; components are priced at zero
+   * with their separate price kept as the original price.
+   */
+  async setBundle(cartId: string, pricing: BundlePriceDto, quantity: number): Promise<CartItem> {
+    const kits = Math.max(1, quantity);
+    const existingLine = await this.findBundleLine(cartId, pricing.bundleId);
+
+    const bundleLine = existingLine
+      ? await this.prisma.cartItem.update({
+          where: { id: existingLine.id },
+          data: {
+            quantity: kits,
+            price: pricing.price,
+            originalPrice: pricing.originalPrice ?? null,
+            updatedAt: new Date()
+          }
+        })
+      : await this.prisma.cartItem.create({
+          data: {
+            cartId,
+            productId: pricing.bundleId,
+            variantId: null,
+            bundleId: pricing.bundleId,
+            quantity: kits,
+            price: pricing.price,
+            originalPrice: pricing.originalPrice ?? null
+          }
+        });
+
+    // Drop components that are no longer part of the bundle definition
+    await this.prisma.cartItem.deleteMany({
+      where: {
+        parentItemId: bundleLine.id,
+        NOT: pricing.components.map(component => ({
+          productId: component.productId,
+          variantId: component.variantId || null
+        }))
+      }
+    });
+
+    for (const component of pricing.components) {
+      const data = {
+        quantity: component.unitQuantity * kits,
+        unitQuantity: component.unitQuantity,
+        price: 0,
+        originalPrice: component.pricing.price
+      };
+
+      const existingComponent = await this.prisma.cartItem.findFirst({
+        where: {
+          parentItemId: bundleLine.id,
+          productId: component.productId,
+          variantId: component.variantId || null
+        }
+      });
+
+      if (existingComponent) {
+        await this.prisma.cartItem.update({
+          where: { id: existingComponent.id },
+          data: { ...data, updatedAt: new Date() }
+        });
+      } else {
+        await this.prisma.cartItem.create({
+          data: {
+            ...data,
+            cartId,
+            productId: component.productId,
+            variantId: component.variantId || null,
+            bundleId: pricing.bundleId,
+            parentItemId: bundleLine.id
+          }
+        });
+      }
+    }
+
+    return this.mapPrismaItemToCartItem(bundleLine);
+  }
+
+  /**
+   * Quantity of a product on the standalone lines of a user's active carts,
+   * leaving out one cart
+   */
+  async sumUserQuantity(userId: string, productId: string, exceptCartId?: string): Promise<number> {
+    const result = await this.prisma.cartItem.aggregate({
+      _sum: { quantity: true },
+      where: {
+        productId,
+        bundleId: null,
+        parentItemId: null,
+        cart: {
+          userId,
+          status: 'ACTIVE',
+          ...(exceptCartId && { id: { not: exceptCartId } })
+        }
+      }
+    });
+
+    return result._sum.quantity ?? 0;
+  }
+
+  /**
+   * Find the bundle line for a bundle in a cart
    */
-  async updateItem(itemId: string, data: UpdateItemDto): Promise<CartItem> {
+  async findBundleLine(cartId: string, bundleId: string): Promise<CartItem | null> {
+    const item = await this.prisma.cartItem.findFirst({
+      where: { cartId, bundleId, parentItemId: null }
+    });
+
+    return item ? this.mapPrismaItemToCartItem(item) : null;
+  }
+
+  /**
+   * Update item quantity, refreshing its price when one is resolved
+   */
+  async updateItem(
+    itemId: string,
+    data: UpdateItemDto,
+    pricing?: ItemPriceDto,
+    fulfillment?: FulfillmentExpectation
+  ): Promise<CartItem> {
     const updatedItem = await this.prisma.cartItem.update({
       where: { id: itemId },
       data: {
         quantity: Math.max(1, data.quantity),
+        ...(pricing && {
+          price: pricing.price,
+          originalPrice: pricing.originalPrice ?? null,
+          surcharge: pricing.surcharge ?? 0
+        }),
+        ...(fulfillment && this.toFulfillmentData(fulfillment)),
         updatedAt: new Date()
       }
     });
@@ -69,9 +349,13 @@ export class CartItemModel {
   }
 
   /**
-   * Remove item from cart
+   * Remove item from cart, together with its components for a bundle line
    */
   async removeItem(itemId: string): Promise<void> {
+    await this.prisma.cartItem.deleteMany({
+      where: { parentItemId: itemId }
+    });
+
     await this.prisma.cartItem.delete({
       where: { id: itemId }
     });
@@ -113,6 +397,24 @@ export class CartItemModel {
     return items.map(item => this.mapPrismaItemToCartItem(item));
   }
 
+  /**
+   * Set the price of a line, holding it until lockedUntil when given
+   */
+  async setPricing(itemId: string, pricing: ItemPriceDto): Promise<CartItem> {
+    const updatedItem = await this.prisma.cartItem.update({
+      where: { id: itemId },
+      data: {
+        price: pricing.price,
+        originalPrice: pricing.originalPrice ?? null,
+        surcharge: pricing.surcharge ?? 0,
+        priceLockedUntil: pricing.lockedUntil ?? null,
+        updatedAt: new Date()
+      }
+    });
+
+    return this.mapPrismaItemToCartItem(updatedItem);
+  }
+
   /**
    * Update item price
    */
@@ -195,6 +497,13 @@ export class CartItemModel {
     return this.prisma.cartItem.create(args);
   }
 
+  private toFulfillmentData(fulfillment: FulfillmentExpectation) {
+    return {
+      availability: fulfillment.availability,
+      estimatedShipDate: fulfillment.estimatedShipDate ?? null
+    };
+  }
+
   /**
    * Map Prisma CartItem to our CartItem type
    */
@@ -207,6 +516,20 @@ export class CartItemModel {
       quantity: prismaItem.quantity,
       price: Number(prismaItem.price),
       originalPrice: prismaItem.originalPrice ? Number(prismaItem.originalPrice) : undefined,
+      bundleId: prismaItem.bundleId || undefined,
+      parentItemId: prismaItem.parentItemId || undefined,
+      unitQuantity: prismaItem.unitQuantity ?? undefined,
+      customization: prismaItem.customization ? JSON.parse(prismaItem.customization) : undefined,
+      customizationFingerprint: prismaItem.customizationFingerprint || undefined,
+      surcharge: Number(prismaItem.surcharge) || undefined,
+      quoteId: prismaItem.quoteId || undefined,
+      priceLockedUntil: prismaItem.priceLockedUntil || undefined,
+      gift: prismaItem.giftOptions ? JSON.parse(prismaItem.giftOptions) : undefined,
+      subscription: prismaItem.subscriptionEvery
+        ? { every: prismaItem.subscriptionEvery, unit: prismaItem.subscriptionUnit as SubscriptionUnit }
+        : undefined,
+      availability: prismaItem.availability as AvailabilityStatus,
+      estimatedShipDate: prismaItem.estimatedShipDate || undefined,
       addedAt: prismaItem.addedAt,
       updatedAt: prismaItem.updatedAt
     };
@@ -3,6 +3,7 @@
 
 import { PrismaClient } from '../generated/prisma';
 import { CartSession, CreateSessionDto, SessionContext } from '../types/cart.types';
+import { SalesChannel } from '../types/channel.types';
 
 export class CartSessionModel {
   constructor(private prisma: PrismaClient) {}
@@ -15,6 +16,7 @@ export class CartSessionModel {
       data: {
         userId: data.userId || null,
         sessionToken: data.sessionToken,
+        ...(data.channel && { channel: data.channel }),
         expiresAt: data.expiresAt
       }
     });
@@ -150,6 +152,7 @@ export class CartSessionModel {
       sessionId: session.id,
       userId: session.userId || undefined,
       isGuest: !session.userId,
+      channel: session.channel,
       expiresAt: session.expiresAt
     };
   }
@@ -191,6 +194,7 @@ export class CartSessionModel {
       id: prismaSession.id,
       userId: prismaSession.userId || undefined,
       sessionToken: prismaSession.sessionToken,
+      channel: prismaSession.channel as SalesChannel,
       expiresAt: prismaSession.expiresAt,
       createdAt: prismaSession.createdAt,
       updatedAt: prismaSession.updatedAt
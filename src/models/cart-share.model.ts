@@ -0,0 +1,116 @@
+// Cart Share Model
+// Database model definitions for share tokens that expose a cart read-only
+
+import { PrismaClient } from '../generated/prisma';
+import { CartShare, CreateCartShareData } from '../types/cart-share.types';
+
+export class CartShareModel {
+  constructor(private prisma: PrismaClient) {}
+
+  /**
+   * Create a share token for a cart
+   */
+  async create(data: CreateCartShareData): Promise<CartShare> {
+    const share = await this.prisma.cartShare.create({
+      data: {
+        cartId: data.cartId,
+        token: data.token,
+        createdBy: data.createdBy || null,
+        expiresAt: data.expiresAt || null
+      }
+    });
+
+    return this.mapPrismaShareToCartShare(share);
+  }
+
+  /**
+   * Find share by token
+   */
+  async findByToken(token: string): Promise<CartShare | null> {
+    const share = await this.prisma.cartShare.findUnique({
+      where: { token }
+    });
+
+    return share ? this.mapPrismaShareToCartShare(share) : null;
+  }
+
+  /**
+   * Find share by ID
+   */
+  async findById(id: string): Promise<CartShare | null> {
+    const share = await this.prisma.cartShare.findUnique({
+      where: { id }
+    });
+
+    return share ? this.mapPrismaShareToCartShare(share) : null;
+  }
+
+  /**
+   * List the shares minted for a set of carts, newest first
+   */
+  async findByCartIds(cartIds: string[]): Promise<CartShare[]> {
+    const shares = await this.prisma.cartShare.findMany({
+      where: { cartId: { in: cartIds } },
+      orderBy: { createdAt: 'desc' }
+    });
+
+    return shares.map(share => this.mapPrismaShareToCartShare(share));
+  }
+
+  /**
+   * Revoke a share; revoking twice keeps the original revocation time
+   */
+  async revoke(id: string): Promise<CartShare> {
+    await this.prisma.cartShare.updateMany({
+      where: { id, revokedAt: null },
+      data: { revokedAt: new Date() }
+    });
+
+    return (await this.findById(id))!;
+  }
+
+  /**
+   * Count a view of the shared cart
+   */
+  async recordView(id: string): Promise<void> {
+    await this.prisma.cartShare.update({
+      where: { id },
+      data: {
+        viewCount: { increment: 1 },
+        lastViewedAt: new Date()
+      }
+    });
+  }
+
+  /**
+   * Count a clone of the shared cart
+   */
+  async recordClone(id: string): Promise<void> {
+    await this.prisma.cartShare.update({
+      where: { id },
+      data: {
+        cloneCount: { increment: 1 },
+        lastClonedAt: new Date()
+      }
+    });
+  }
+
+  /**
+   * Map Prisma CartShare to our CartShare type
+   */
+  private mapPrismaShareToCartShare(prismaShare: any): CartShare {
+    return {
+      id: prismaShare.id,
+      cartId: prismaShare.cartId,
+      token: prismaShare.token,
+      createdBy: prismaShare.createdBy || undefined,
+      expiresAt: prismaShare.expiresAt || undefined,
+      revokedAt: prismaShare.revokedAt || undefined,
+      viewCount: prismaShare.viewCount,
+      cloneCount: prismaShare.cloneCount,
+      lastViewedAt: prismaShare.lastViewedAt || undefined,
+      lastClonedAt: prismaShare.lastClonedAt || undefined,
+      createdAt: prismaShare.createdAt
+    };
+  }
+}
@@ -0,0 +1,95 @@
+// Cart Undo Step Model
+// Bounded per-cart stack of customer actions that can be undone and redone
+
+import { PrismaClient } from '../generated/prisma';
+import { CartLineChange } from '../types/cart-event.types';
+import { CartUndoAction, CartUndoStep } from '../types/cart-undo.types';
+
+export class CartUndoStepModel {
+  constructor(private prisma: PrismaClient) {}
+
+  /**
+   * Record a new action on top of the stack. Any undone steps can no longer
+   * be redone, and only the most recent depth steps are kept.
+   */
+  async push(cartId: string, action: CartUndoAction, changes: CartLineChange[], depth: number): Promise<CartUndoStep> {
+    await this.prisma.cartUndoStep.deleteMany({
+      where: { cartId, undoneAt: { not: null } }
+    });
+
+    const step = await this.prisma.cartUndoStep.create({
+      data: {
+        cartId,
+        action,
+        changes: JSON.stringify(changes)
+      }
+    });
+
+    const overflow = await this.prisma.cartUndoStep.findMany({
+      where: { cartId },
+      orderBy: { sequence: 'desc' },
+      skip: Math.max(1, depth),
+      select: { id: true }
+    });
+
+    if (overflow.length > 0) {
+      await this.prisma.cartUndoStep.deleteMany({
+        where: { id: { in: overflow.map(entry => entry.id) } }
+      });
+    }
+
+    return this.mapPrismaStepToCartUndoStep(step);
+  }
+
+  /**
+   * The most recent step that has not been undone
+   */
+  async findNextUndo(cartId: string): Promise<CartUndoStep | null> {
+    const step = await this.prisma.cartUndoStep.findFirst({
+      where: { cartId, undoneAt: null },
+      orderBy: { sequence: 'desc' }
+    });
+
+    return step ? this.mapPrismaStepToCartUndoStep(step) : null;
+  }
+
+  /**
+   * The most recently undone step. Undone steps always sit on top of the
+   * stack, so this is the oldest of them.
+   */
+  async findNextRedo(cartId: string): Promise<CartUndoStep | null> {
+    const step = await this.prisma.cartUndoStep.findFirst({
+      where: { cartId, undoneAt: { not: null } },
+      orderBy: { sequence: 'asc' }
+    });
+
+    return step ? this.mapPrismaStepToCartUndoStep(step) : null;
+  }
+
+  /**
+   * Mark a step as undone, or as done again when undone is false
+   */
+  async setUndone(stepId: string, undone: boolean): Promise<CartUndoStep> {
+    const step = await this.prisma.cartUndoStep.update({
+      where: { id: stepId },
+      data: { undoneAt: undone ? new Date() : null }
+    });
+
+    return this.mapPrismaStepToCartUndoStep(step);
+  }
+
+  /**
+   * Map Prisma CartUndoStep to our CartUndoStep type
+   */
+  private mapPrismaStepToCartUndoStep(prismaStep: any): CartUndoStep {
+    return {
+      id: prismaStep.id,
+      cartId: prismaStep.cartId,
+      sequence: prismaStep.sequence,
+      action: prismaStep.action as CartUndoAction,
+      changes: JSON.parse(prismaStep.changes),
+      undoneAt: prismaStep.undoneAt || undefined,
+      createdAt: prismaStep.createdAt
+    };
+  }
+}
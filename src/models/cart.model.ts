@@ -1,8 +1,13 @@
 // Cart Model
 // Database model definitions and business logic for Cart entity
 
-import { PrismaClient, Cart as PrismaCart, CartStatus } from '../generated/prisma';
-import { Cart, CartItem, CartMetadata, CartSession, CreateCartDto, UpdateCartDto } from '../types/cart.types';
+import { PrismaClient, Cart as PrismaCart, CartStatus as PrismaCartStatus } from '../generated/prisma';
+import { Cart, CartItem, CartMetadata, CartSession, CartStatus, CreateCartDto, UpdateCartDto, CartServiceError } from '../types/cart.types';
+import { CartEventType } from '../types/cart-event.types';
+import { TERMINAL_CART_STATUSES } from '../types/cart-lifecycle.types';
+import { GiftOptions } from '../types/gift.types';
+import { SalesChannel } from '../types/channel.types';
+import { CartEventModel } from './cart-event.model';
 
 export class CartModel {
   constructor(private prisma: PrismaClient) {}
@@ -15,7 +20,11 @@ export class CartModel {
       data: {
         sessionId: data.sessionId,
         userId: data.userId,
+        name: data.name,
         status: 'ACTIVE',
+        isCurrent: data.isCurrent,
+        currency: data.currency,
+        channel: data.channel,
         metadata: data.metadata ? {
           create: Object.entries(data.metadata).map(([key, value]) => ({
             key,
@@ -50,7 +59,7 @@ export class CartModel {
   }
 
   /**
-   * Find active cart by session ID
+   * Find the session's current cart, falling back to its newest active cart
    */
   async findActiveBySessionId(sessionId: string): Promise<Cart | null> {
     const cart = await this.prisma.cart.findFirst({
@@ -63,16 +72,17 @@ export class CartModel {
         metadata: true,
         session: true
       },
-      orderBy: {
-        createdAt: 'desc'
-      }
+      orderBy: [
+        { isCurrent: 'desc' },
+        { createdAt: 'desc' }
+      ]
     });
 
     return cart ? this.mapPrismaCartToCart(cart) : null;
   }
 
   /**
-   * Find active cart by user ID
+   * Find the user's current cart, falling back to their newest active cart
    */
   async findActiveByUserId(userId: string): Promise<Cart | null> {
     const cart = await this.prisma.cart.findFirst({
@@ -85,14 +95,77 @@ export class CartModel {
         metadata: true,
         session: true
       },
-      orderBy: {
-        createdAt: 'desc'
-      }
+      orderBy: [
+        { isCurrent: 'desc' },
+        { createdAt: 'desc' }
+      ]
     });
 
     return cart ? this.mapPrismaCartToCart(cart) : null;
   }
 
+  /**
+   * List a session's carts in the given statuses, current cart first
+   */
+  async findBySessionId(sessionId: string, statuses: CartStatus[]): Promise<Cart[]> {
+    const carts = await this.prisma.cart.findMany({
+      where: {
+        sessionId,
+        status: { in: statuses }
+      },
+      include: {
+        items: true,
+        metadata: true,
+        session: true
+      },
+      orderBy: [
+        { isCurrent: 'desc' },
+        { updatedAt: 'desc' }
+      ]
+    });
+
+    return carts.map(cart => this.mapPrismaCartToCart(cart));
+  }
+
+  /**
+   * List a customer's carts across their sessions in the given statuses,
+   * most recently changed first
+   */
+  async findByUserId(userId: string, statuses: CartStatus[]): Promise<Cart[]> {
+    const carts = await this.prisma.cart.findMany({
+      where: {
+        userId,
+        status: { in: statuses }
+      },
+      include: {
+        items: true,
+        metadata: true,
+        session: true
+      },
+      orderBy: { updatedAt: 'desc' }
+    });
+
+    return carts.map(cart => this.mapPrismaCartToCart(cart));
+  }
+
+  /**
+   * Make one cart the session's current cart, or clear the current cart when
+   * cartId is null
+   */
+  async setCurrent(sessionId: string, cartId: string | null): Promise<void> {
+    await this.prisma.cart.updateMany({
+      where: { sessionId, isCurrent: true },
+      data: { isCurrent: false }
+    });
+
+    if (cartId) {
+      await this.prisma.cart.update({
+        where: { id: cartId },
+        data: { isCurrent: true }
+      });
+    }
+  }
+
   /**
    * Update cart
    */
@@ -100,6 +173,7 @@ export class CartModel {
     const cart = await this.prisma.cart.update({
       where: { id },
       data: {
+        name: data.name,
         status: data.status,
         ...(data.metadata && {
           metadata: {
@@ -121,6 +195,108 @@ export class CartModel {
     return this.mapPrismaCartToCart(cart);
   }
 
+  /**
+   * Replace the cart-level gift options; none clears them
+   */
+  async setGiftOptions(id: string, gift?: GiftOptions): Promise<void> {
+    await this.prisma.cart.update({
+      where: { id },
+      data: { giftOptions: gift ? JSON.stringify(gift) : null }
+    });
+  }
+
+  /**
+   * Bump the cart version. When an expected version is given the bump only
+   * applies if the cart still has that version (optimistic concurrency).
+   * Carts in a terminal status cannot be changed, so they are never bumped.
+   */
+  async incrementVersion(id: string, expectedVersion?: number): Promise<void> {
+    const result = await this.prisma.cart.updateMany({
+      where: {
+        id,
+        status: { notIn: TERMINAL_CART_STATUSES },
+        ...(expectedVersion !== undefined && { version: expectedVersion })
+      },
+      data: {
+        version: { increment: 1 }
+      }
+    });
+
+    if (result.count === 0) {
+      const cart = await this.prisma.cart.findUnique({
+        where: { id },
+        select: { status: true }
+      });
+
+      if (!cart) {
+        throw new CartServiceError('CART_NOT_FOUND', 'Cart not found');
+      }
+      const status = this.toCartStatus(cart.status);
+      if (TERMINAL_CART_STATUSES.includes(status)) {
+        throw new CartServiceError(
+          'CART_NOT_ACTIVE',
+          `Cart ${id} is ${status.toLowerCase()} and can no longer be changed`,
+          { cartId: id, status }
+        );
+      }
+      throw new CartServiceError(
+        'CART_VERSION_CONFLICT',
+        'Cart has been modified since it was last read',
+        { cartId: id, expectedVersion }
+      );
+    }
+  }
+
+  /**
+   * Move a cart from one status to another and record the change. Returns
+   * false when the cart is no longer in the from status.
+   */
+  async changeStatus(
+    id: string,
+    from: CartStatus,
+    to: CartStatus,
+    details: Record<string, any> = {}
+  ): Promise<boolean> {
+    const result = await this.prisma.cart.updateMany({
+      where: { id, status: from },
+      data: {
+        status: to,
+        version: { increment: 1 }
+      }
+    });
+
+    if (result.count === 0) {
+      return false;
+    }
+
+    await new CartEventModel(this.prisma).append({
+      cartId: id,
+      type: CartEventType.STATUS_CHANGED,
+      details: { ...details, from, to }
+    });
+
+    return true;
+  }
+
+  /**
+   * Ids of carts in the given statuses that have not changed since before
+   * the cutoff, oldest first. Empty carts are skipped unless asked for.
+   */
+  async findIdle(statuses: CartStatus[], before: Date, limit: number, withItemsOnly = false): Promise<string[]> {
+    const carts = await this.prisma.cart.findMany({
+      where: {
+        status: { in: statuses },
+        updatedAt: { lt: before },
+        ...(withItemsOnly && { items: { some: {} } })
+      },
+      select: { id: true },
+      orderBy: { updatedAt: 'asc' },
+      take: limit
+    });
+
+    return carts.map(cart => cart.id);
+  }
+
   /**
    * Delete cart
    */
@@ -152,10 +328,10 @@ export class CartModel {
   }
 
   /**
-   * Clean up expired carts
+   * Clean up expired carts, recording the status change of each
    */
   async cleanupExpiredCarts(): Promise<number> {
-    const result = await this.prisma.cart.updateMany({
+    const expiredCarts = await this.prisma.cart.findMany({
       where: {
         status: 'ACTIVE',
         session: {
@@ -164,11 +340,30 @@ export class CartModel {
           }
         }
       },
+      select: { id: true }
+    });
+
+    if (expiredCarts.length === 0) {
+      return 0;
+    }
+
+    const cartIds = expiredCarts.map(cart => cart.id);
+    const result = await this.prisma.cart.updateMany({
+      where: { id: { in: cartIds }, status: 'ACTIVE' },
       data: {
         status: 'EXPIRED'
       }
     });
 
+    const cartEventModel = new CartEventModel(this.prisma);
+    for (const cartId of cartIds) {
+      await cartEventModel.append({
+        cartId,
+        type: CartEventType.STATUS_CHANGED,
+        details: { from: 'ACTIVE', to: 'EXPIRED' }
+      });
+    }
+
     return result.count;
   }
 
@@ -193,6 +388,13 @@ export class CartModel {
     return this.prisma.cart.count(args);
   }
 
+  /**
+   * Map a stored cart status to ours; both list the same statuses
+   */
+  private toCartStatus(status: PrismaCartStatus): CartStatus {
+    return status as string as CartStatus;
+  }
+
   /**
    * Map Prisma Cart to our Cart type
    */
@@ -205,7 +407,13 @@ export class CartModel {
       id: prismaCart.id,
       sessionId: prismaCart.sessionId,
       userId: prismaCart.userId || undefined,
-      status: prismaCart.status as any,
+      name: prismaCart.name || undefined,
+      status: this.toCartStatus(prismaCart.status),
+      isCurrent: prismaCart.isCurrent,
+      version: prismaCart.version,
+      currency: prismaCart.currency,
+      channel: prismaCart.channel as SalesChannel,
+      gift: prismaCart.giftOptions ? JSON.parse(prismaCart.giftOptions) : undefined,
       createdAt: prismaCart.createdAt,
       updatedAt: prismaCart.updatedAt,
       items: prismaCart.items.map(item => ({
@@ -216,6 +424,20 @@ export class CartModel {
         quantity: item.quantity,
         price: Number(item.price),
         originalPrice: item.originalPrice ? Number(item.originalPrice) : undefined,
+        bundleId: item.bundleId || undefined,
+        parentItemId: item.parentItemId || undefined,
+        unitQuantity: item.unitQuantity ?? undefined,
+        customization: item.customization ? JSON.parse(item.customization) : undefined,
+        customizationFingerprint: item.customizationFingerprint || undefined,
+        surcharge: Number(item.surcharge) || undefined,
+        quoteId: item.quoteId || undefined,
+        priceLockedUntil: item.priceLockedUntil || undefined,
+        gift: item.giftOptions ? JSON.parse(item.giftOptions) : undefined,
+        subscription: item.subscriptionEvery
+          ? { every: item.subscriptionEvery, unit: item.subscriptionUnit }
+          : undefined,
+        availability: item.availability,
+        estimatedShipDate: item.estimatedShipDate || undefined,
         addedAt: item.addedAt,
         updatedAt: item.updatedAt
       })),
@@ -230,6 +452,7 @@ export class CartModel {
         id: prismaCart.session.id,
         userId: prismaCart.session.userId || undefined,
         sessionToken: prismaCart.session.sessionToken,
+        channel: prismaCart.session.channel as SalesChannel,
         expiresAt: prismaCart.session.expiresAt,
         createdAt: prismaCart.session.createdAt,
         updatedAt: prismaCart.session.updatedAt
@@ -0,0 +1,137 @@
+// Idempotency Key Model
+// Persists the first response recorded for an Idempotency-Key so retries can be replayed
+
+import { PrismaClient } from '../generated/prisma';
+import {
+  IdempotencyAcquireResult,
+  IdempotencyRecord,
+  IdempotencyStatus
+} from '../types/idempotency.types';
+
+export class IdempotencyKeyModel {
+  constructor(private prisma: PrismaClient) {}
+
+  /**
+   * Claim a key for a new request until the given lease expiry, or return
+   * the record already holding it. A key whose lease or retention has run
+   * out is taken over.
+   */
+  async acquire(
+    scope: string,
+    key: string,
+    requestHash: string,
+    expiresAt: Date
+  ): Promise<IdempotencyAcquireResult> {
+    const existing = await this.findByScopeAndKey(scope, key);
+
+    if (existing && existing.expiresAt > new Date()) {
+      return { record: existing, created: false };
+    }
+
+    if (existing) {
+      await this.prisma.idempotencyKey.deleteMany({
+        where: { id: existing.id, expiresAt: { lte: new Date() } }
+      });
+    }
+
+    try {
+      const record = await this.prisma.idempotencyKey.create({
+        data: {
+          scope,
+          key,
+          requestHash,
+          status: IdempotencyStatus.IN_PROGRESS,
+          expiresAt
+        }
+      });
+
+      return { record: this.mapPrismaRecordToIdempotencyRecord(record), created: true };
+    } catch (error) {
+      // A concurrent request with the same key won the unique constraint
+      if (error.code === 'P2002') {
+        const winner = await this.findByScopeAndKey(scope, key);
+        if (winner) {
+          return { record: winner, created: false };
+        }
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Find a key within its scope
+   */
+  async findByScopeAndKey(scope: string, key: string): Promise<IdempotencyRecord | null> {
+    const record = await this.prisma.idempotencyKey.findUnique({
+      where: { scope_key: { scope, key } }
+    });
+
+    return record ? this.mapPrismaRecordToIdempotencyRecord(record) : null;
+  }
+
+  /**
+   * Record the response produced for a claimed key, keeping it until the
+   * given expiry
+   */
+  async complete(
+    id: string,
+    responseStatus: number,
+    responseBody: any,
+    responseHeaders: Record<string, string>,
+    expiresAt: Date
+  ): Promise<void> {
+    await this.prisma.idempotencyKey.update({
+      where: { id },
+      data: {
+        status: IdempotencyStatus.COMPLETED,
+        expiresAt,
+        responseStatus,
+        responseBody: responseBody === undefined ? null : JSON.stringify(responseBody),
+        responseHeaders: JSON.stringify(responseHeaders)
+      }
+    });
+  }
+
+  /**
+   * Release a claimed key so the request can be retried
+   */
+  async release(id: string): Promise<void> {
+    await this.prisma.idempotencyKey.deleteMany({
+      where: { id, status: IdempotencyStatus.IN_PROGRESS }
+    });
+  }
+
+  /**
+   * Clean up expired keys
+   */
+  async deleteExpired(): Promise<number> {
+    const result = await this.prisma.idempotencyKey.deleteMany({
+      where: {
+        expiresAt: {
+          lt: new Date()
+        }
+      }
+    });
+
+    return result.count;
+  }
+
+  /**
+   * Map Prisma IdempotencyKey to our IdempotencyRecord type
+   */
+  private mapPrismaRecordToIdempotencyRecord(prismaRecord: any): IdempotencyRecord {
+    return {
+      id: prismaRecord.id,
+      scope: prismaRecord.scope,
+      key: prismaRecord.key,
+      requestHash: prismaRecord.requestHash,
+      status: prismaRecord.status as IdempotencyStatus,
+      responseStatus: prismaRecord.responseStatus ?? undefined,
+      responseBody: prismaRecord.responseBody ? JSON.parse(prismaRecord.responseBody) : undefined,
+      responseHeaders: prismaRecord.responseHeaders ? JSON.parse(prismaRecord.responseHeaders) : undefined,
+      expiresAt: prismaRecord.expiresAt,
+      createdAt: prismaRecord.createdAt,
+      updatedAt: prismaRecord.updatedAt
+    };
+  }
+}
@@ -0,0 +1,52 @@
+// Product Affinity Model
+// Database model definitions for frequently-bought-together affinities
+
+import { PrismaClient } from '../generated/prisma';
+import { ProductAffinity } from '../types/product-integration.types';
+
+export class ProductAffinityModel {
+  constructor(private prisma: PrismaClient) {}
+
+  /**
+   * Replace every affinity the client can see with a freshly computed set;
+   * run it scoped to a store and inside a transaction
+   */
+  async replaceAll(affinities: Omit<ProductAffinity, 'computedAt'>[], computedAt: Date): Promise<void> {
+    await this.prisma.productAffinity.deleteMany({});
+
+    if (affinities.length > 0) {
+      await this.prisma.productAffinity.createMany({
+        data: affinities.map(affinity => ({ ...affinity, computedAt }))
+      });
+    }
+  }
+
+  /**
+   * Products most often bought with any of the given products, best first
+   */
+  async findRelated(productIds: string[], limit: number): Promise<ProductAffinity[]> {
+    const affinities = await this.prisma.productAffinity.findMany({
+      where: { productId: { in: productIds } },
+      orderBy: [
+        { score: 'desc' },
+        { baskets: 'desc' }
+      ],
+      take: limit
+    });
+
+    return affinities.map(affinity => this.mapPrismaAffinityToProductAffinity(affinity));
+  }
+
+  /**
+   * Map Prisma ProductAffinity to our ProductAffinity type
+   */
+  private mapPrismaAffinityToProductAffinity(prismaAffinity: any): ProductAffinity {
+    return {
+      productId: prismaAffinity.productId,
+      relatedProductId: prismaAffinity.relatedProductId,
+      baskets: prismaAffinity.baskets,
+      score: Number(prismaAffinity.score),
+      computedAt: prismaAffinity.computedAt
+    };
+  }
+}
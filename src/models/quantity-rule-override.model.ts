@@ -0,0 +1,66 @@
+// Quantity Rule Override Model
+// Local per-product quantity rules that take precedence over product metadata
+
+import { PrismaClient } from '../generated/prisma';
+import { QuantityRuleOverride, QuantityRules } from '../types/product-integration.types';
+
+export class QuantityRuleOverrideModel {
+  constructor(private prisma: PrismaClient) {}
+
+  /**
+   * Find the override for a product
+   */
+  async findByProductId(productId: string): Promise<QuantityRuleOverride | null> {
+    const override = await this.prisma.quantityRuleOverride.findUnique({
+      where: { productId }
+    });
+
+    return override ? this.mapPrismaOverrideToQuantityRuleOverride(override) : null;
+  }
+
+  /**
+   * Create or replace the override for a product. Fields left out fall back
+   * to the product metadata.
+   */
+  async upsert(productId: string, rules: QuantityRules): Promise<QuantityRuleOverride> {
+    const data = {
+      minQuantity: rules.minQuantity ?? null,
+      maxQuantity: rules.maxQuantity ?? null,
+      step: rules.step ?? null,
+      casePack: rules.casePack ?? null
+    };
+
+    const override = await this.prisma.quantityRuleOverride.upsert({
+      where: { productId },
+      update: data,
+      create: { productId, ...data }
+    });
+
+    return this.mapPrismaOverrideToQuantityRuleOverride(override);
+  }
+
+  /**
+   * Remove the override for a product
+   */
+  async delete(productId: string): Promise<void> {
+    await this.prisma.quantityRuleOverride.deleteMany({
+      where: { productId }
+    });
+  }
+
+  /**
+   * Map Prisma QuantityRuleOverride to our QuantityRuleOverride type
+   */
+  private mapPrismaOverrideToQuantityRuleOverride(prismaOverride: any): QuantityRuleOverride {
+    return {
+      id: prismaOverride.id,
+      productId: prismaOverride.productId,
+      minQuantity: prismaOverride.minQuantity ?? undefined,
+      maxQuantity: prismaOverride.maxQuantity ?? undefined,
+      step: prismaOverride.step ?? undefined,
+      casePack: prismaOverride.casePack ?? undefined,
+      createdAt: prismaOverride.createdAt,
+      updatedAt: prismaOverride.updatedAt
+    };
+  }
+}
@@ -0,0 +1,144 @@
+// Quote Model
+// Database model definitions for quote requests and the offers made on them
+
+import { PrismaClient } from '../generated/prisma';
+import { CreateQuoteData, Quote, QuoteOfferData, QuoteStatus } from '../types/quote.types';
+
+export class QuoteModel {
+  constructor(private prisma: PrismaClient) {}
+
+  /**
+   * Record a quote request
+   */
+  async create(data: CreateQuoteData): Promise<Quote> {
+    const quote = await this.prisma.quote.create({
+      data: {
+        cartId: data.cartId,
+        sessionId: data.sessionId,
+        userId: data.userId || null,
+        status: QuoteStatus.REQUESTED,
+        currency: data.currency,
+        lines: JSON.stringify(data.lines),
+        customerNote: data.customerNote ?? null
+      }
+    });
+
+    return this.mapPrismaQuoteToQuote(quote);
+  }
+
+  /**
+   * Find quote by ID
+   */
+  async findById(id: string): Promise<Quote | null> {
+    const quote = await this.prisma.quote.findUnique({
+      where: { id }
+    });
+
+    return quote ? this.mapPrismaQuoteToQuote(quote) : null;
+  }
+
+  /**
+   * Find the quote a cart was converted from
+   */
+  async findByConvertedCartId(cartId: string): Promise<Quote | null> {
+    const quote = await this.prisma.quote.findUnique({
+      where: { convertedCartId: cartId }
+    });
+
+    return quote ? this.mapPrismaQuoteToQuote(quote) : null;
+  }
+
+  /**
+   * List a customer's quotes, newest first. Signed-in customers also see
+   * quotes requested from their other sessions.
+   */
+  async findByOwner(sessionId: string, userId?: string): Promise<Quote[]> {
+    const quotes = await this.prisma.quote.findMany({
+      where: userId ? { OR: [{ sessionId }, { userId }] } : { sessionId },
+      orderBy: { createdAt: 'desc' }
+    });
+
+    return quotes.map(quote => this.mapPrismaQuoteToQuote(quote));
+  }
+
+  /**
+   * List quotes in the given statuses, oldest first, for sales to work through
+   */
+  async findByStatus(statuses: QuoteStatus[], limit: number): Promise<Quote[]> {
+    const quotes = await this.prisma.quote.findMany({
+      where: { status: { in: statuses } },
+      orderBy: { createdAt: 'asc' },
+      take: limit
+    });
+
+    return quotes.map(quote => this.mapPrismaQuoteToQuote(quote));
+  }
+
+  /**
+   * Store an offer on a quote that is still in one of the given statuses.
+   * Returns false when the quote has moved on in the meantime.
+   */
+  async offer(id: string, from: QuoteStatus[], data: QuoteOfferData): Promise<boolean> {
+    const result = await this.prisma.quote.updateMany({
+      where: { id, status: { in: from } },
+      data: {
+        status: QuoteStatus.QUOTED,
+        lines: JSON.stringify(data.lines),
+        discount: data.discount,
+        salesNote: data.salesNote ?? null,
+        quotedBy: data.quotedBy ?? null,
+        quotedAt: new Date(),
+        expiresAt: data.expiresAt
+      }
+    });
+
+    return result.count > 0;
+  }
+
+  /**
+   * Move a quote from one status to another. Returns false when the quote
+   * is no longer in the expected status.
+   */
+  async changeStatus(
+    id: string,
+    from: QuoteStatus,
+    to: QuoteStatus,
+    convertedCartId?: string
+  ): Promise<boolean> {
+    const result = await this.prisma.quote.updateMany({
+      where: { id, status: from },
+      data: {
+        status: to,
+        ...(to !== QuoteStatus.EXPIRED && { respondedAt: new Date() }),
+        ...(convertedCartId && { convertedCartId })
+      }
+    });
+
+    return result.count > 0;
+  }
+
+  /**
+   * Map Prisma Quote to our Quote type
+   */
+  private mapPrismaQuoteToQuote(prismaQuote: any): Quote {
+    return {
+      id: prismaQuote.id,
+      cartId: prismaQuote.cartId,
+      sessionId: prismaQuote.sessionId,
+      userId: prismaQuote.userId || undefined,
+      status: prismaQuote.status as QuoteStatus,
+      currency: prismaQuote.currency,
+      lines: JSON.parse(prismaQuote.lines),
+      discount: Number(prismaQuote.discount),
+      customerNote: prismaQuote.customerNote || undefined,
+      salesNote: prismaQuote.salesNote || undefined,
+      quotedBy: prismaQuote.quotedBy || undefined,
+      quotedAt: prismaQuote.quotedAt || undefined,
+      expiresAt: prismaQuote.expiresAt || undefined,
+      respondedAt: prismaQuote.respondedAt || undefined,
+      convertedCartId: prismaQuote.convertedCartId || undefined,
+      createdAt: prismaQuote.createdAt,
+      updatedAt: prismaQuote.updatedAt
+    };
+  }
+}
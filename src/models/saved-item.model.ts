@@ -0,0 +1,161 @@
+// Saved Item Model
+// Database model definitions for items saved for later
+
+import { PrismaClient } from '../generated/prisma';
+import { CreateSavedItemData, SavedItem, SavedItemOwner } from '../types/saved-item.types';
+
+export class SavedItemModel {
+  constructor(private prisma: PrismaClient) {}
+
+  /**
+   * Save an item for later at its current price
+   */
+  async create(data: CreateSavedItemData): Promise<SavedItem> {
+    const savedItem = await this.prisma.savedItem.create({
+      data: {
+        userId: data.userId || null,
+        sessionId: data.sessionId,
+        productId: data.productId,
+        variantId: data.variantId || null,
+        quantity: data.quantity,
+        customization: data.customization ? JSON.stringify(data.customization) : null,
+        customizationFingerprint: data.customizationFingerprint ?? '',
+        currency: data.currency,
+        savedPrice: data.price,
+        currentPrice: data.price,
+        notes: data.notes || null
+      }
+    });
+
+    return this.mapPrismaSavedItemToSavedItem(savedItem);
+  }
+
+  /**
+   * Find saved item by ID
+   */
+  async findById(id: string): Promise<SavedItem | null> {
+    const savedItem = await this.prisma.savedItem.findUnique({
+      where: { id }
+    });
+
+    return savedItem ? this.mapPrismaSavedItemToSavedItem(savedItem) : null;
+  }
+
+  /**
+   * A page of an owner's saved items, most recently saved first
+   */
+  async findByOwner(owner: SavedItemOwner, limit: number, offset: number): Promise<{ items: SavedItem[]; total: number }> {
+    const where = this.ownerWhere(owner);
+    const [savedItems, total] = await Promise.all([
+      this.prisma.savedItem.findMany({
+        where,
+        orderBy: [{ savedAt: 'desc' }, { id: 'asc' }],
+        take: limit,
+        skip: offset
+      }),
+      this.prisma.savedItem.count({ where })
+    ]);
+
+    return {
+      items: savedItems.map(savedItem => this.mapPrismaSavedItemToSavedItem(savedItem)),
+      total
+    };
+  }
+
+  /**
+   * Saved items that have not been checked since the given date, never
+   * checked ones first
+   */
+  async findDueForCheck(checkedBefore: Date, limit: number): Promise<SavedItem[]> {
+    const savedItems = await this.prisma.savedItem.findMany({
+      where: {
+        OR: [
+          { checkedAt: null },
+          { checkedAt: { lt: checkedBefore } }
+        ]
+      },
+      orderBy: { checkedAt: { sort: 'asc', nulls: 'first' } },
+      take: limit
+    });
+
+    return savedItems.map(savedItem => this.mapPrismaSavedItemToSavedItem(savedItem));
+  }
+
+  /**
+   * Record the price and stock a saved item was found at
+   */
+  async recordCheck(
+    id: string,
+    check: { currentPrice?: number; inStock?: boolean; alertedPrice?: number },
+    checkedAt: Date = new Date()
+  ): Promise<void> {
+    await this.prisma.savedItem.update({
+      where: { id },
+      data: {
+        checkedAt,
+        ...(check.currentPrice !== undefined && { currentPrice: check.currentPrice }),
+        ...(check.inStock !== undefined && { inStock: check.inStock }),
+        ...(check.alertedPrice !== undefined && { alertedPrice: check.alertedPrice })
+      }
+    });
+  }
+
+  /**
+   * Hand the items a guest session saved to the customer who signed in
+   */
+  async assignToUser(sessionId: string, userId: string): Promise<number> {
+    const result = await this.prisma.savedItem.updateMany({
+      where: { sessionId, userId: null },
+      data: { userId }
+    });
+
+    return result.count;
+  }
+
+  /**
+   * Delete a saved item
+   */
+  async delete(id: string): Promise<void> {
+    await this.prisma.savedItem.delete({
+      where: { id }
+    });
+  }
+
+  /**
+   * A signed-in customer sees every item they saved; a guest only what
+   * their session saved
+   */
+  private ownerWhere(owner: SavedItemOwner): Record<string, any> {
+    return owner.userId
+      ? { userId: owner.userId }
+      : { sessionId: owner.sessionId, userId: null };
+  }
+
+  /**
+   * Map Prisma SavedItem to our SavedItem type
+   */
+  private mapPrismaSavedItemToSavedItem(prismaSavedItem: any): SavedItem {
+    return {
+      id: prismaSavedItem.id,
+      tenantId: prismaSavedItem.tenantId,
+      userId: prismaSavedItem.userId || undefined,
+      sessionId: prismaSavedItem.sessionId,
+      productId: prismaSavedItem.productId,
+      variantId: prismaSavedItem.variantId || undefined,
+      quantity: prismaSavedItem.quantity,
+      customization: prismaSavedItem.customization ? JSON.parse(prismaSavedItem.customization) : undefined,
+      customizationFingerprint: prismaSavedItem.customizationFingerprint,
+      currency: prismaSavedItem.currency,
+      savedPrice: Number(prismaSavedItem.savedPrice),
+      currentPrice: Number(prismaSavedItem.currentPrice),
+      alertedPrice: prismaSavedItem.alertedPrice !== null && prismaSavedItem.alertedPrice !== undefined
+        ? Number(prismaSavedItem.alertedPrice)
+        : undefined,
+      inStock: prismaSavedItem.inStock,
+      notes: prismaSavedItem.notes || undefined,
+      checkedAt: prismaSavedItem.checkedAt || undefined,
+      savedAt: prismaSavedItem.savedAt,
+      updatedAt: prismaSavedItem.updatedAt
+    };
+  }
+}
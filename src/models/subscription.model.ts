@@ -0,0 +1,207 @@
+// Subscription Model
+// Database model definitions for subscribe-and-save subscriptions
+
+import { PrismaClient } from '../generated/prisma';
+import {
+  CreateSubscriptionData,
+  Subscription,
+  SubscriptionFrequency,
+  SubscriptionStatus,
+  SubscriptionUnit
+} from '../types/subscription.types';
+
+export class SubscriptionModel {
+  constructor(private prisma: PrismaClient) {}
+
+  /**
+   * Record a subscription signed up for with its first order
+   */
+  async create(data: CreateSubscriptionData): Promise<Subscription> {
+    const subscription = await this.prisma.subscription.create({
+      data: {
+        userId: data.userId,
+        status: SubscriptionStatus.ACTIVE,
+        productId: data.productId,
+        variantId: data.variantId || null,
+        quantity: data.quantity,
+        unitPrice: data.unitPrice,
+        discountPercent: data.discountPercent,
+        currency: data.currency,
+        every: data.frequency.every,
+        unit: data.frequency.unit,
+        nextOrderAt: data.nextOrderAt,
+        shippingAddress: JSON.stringify(data.shippingAddress),
+        billingAddress: JSON.stringify(data.billingAddress),
+        shippingMethod: data.shippingMethod,
+        paymentMethod: data.paymentMethod,
+        paymentProvider: data.paymentProvider,
+        firstOrderId: data.firstOrderId
+      }
+    });
+
+    return this.mapPrismaSubscriptionToSubscription(subscription);
+  }
+
+  /**
+   * Find subscription by ID
+   */
+  async findById(id: string): Promise<Subscription | null> {
+    const subscription = await this.prisma.subscription.findUnique({
+      where: { id }
+    });
+
+    return subscription ? this.mapPrismaSubscriptionToSubscription(subscription) : null;
+  }
+
+  /**
+   * List a customer's subscriptions, newest first
+   */
+  async findByUserId(userId: string): Promise<Subscription[]> {
+    const subscriptions = await this.prisma.subscription.findMany({
+      where: { userId },
+      orderBy: { createdAt: 'desc' }
+    });
+
+    return subscriptions.map(subscription => this.mapPrismaSubscriptionToSubscription(subscription));
+  }
+
+  /**
+   * Active subscriptions whose next order is due, longest overdue first
+   */
+  async findDue(now: Date, limit: number): Promise<Subscription[]> {
+    const subscriptions = await this.prisma.subscription.findMany({
+      where: { status: SubscriptionStatus.ACTIVE, nextOrderAt: { lte: now } },
+      orderBy: { nextOrderAt: 'asc' },
+      take: limit
+    });
+
+    return subscriptions.map(subscription => this.mapPrismaSubscriptionToSubscription(subscription));
+  }
+
+  /**
+   * Move the next order of an active subscription on, provided it is still
+   * due at the date it was read with. Returns false when another run or the
+   * customer changed the subscription in the meantime.
+   */
+  async reschedule(id: string, expectedNextOrderAt: Date, nextOrderAt: Date): Promise<boolean> {
+    const result = await this.prisma.subscription.updateMany({
+      where: { id, status: SubscriptionStatus.ACTIVE, nextOrderAt: expectedNextOrderAt },
+      data: { nextOrderAt }
+    });
+
+    return result.count > 0;
+  }
+
+  /**
+   * Change how often an active or paused subscription reorders
+   */
+  async changeFrequency(id: string, frequency: SubscriptionFrequency, nextOrderAt: Date): Promise<boolean> {
+    const result = await this.prisma.subscription.updateMany({
+      where: { id, status: { in: [SubscriptionStatus.ACTIVE, SubscriptionStatus.PAUSED] } },
+      data: { every: frequency.every, unit: frequency.unit, nextOrderAt }
+    });
+
+    return result.count > 0;
+  }
+
+  /**
+   * Move a subscription from one status to another. Returns false when the
+   * subscription is no longer in the expected status.
+   */
+  async changeStatus(
+    id: string,
+    from: SubscriptionStatus,
+    to: SubscriptionStatus,
+    nextOrderAt?: Date
+  ): Promise<boolean> {
+    const result = await this.prisma.subscription.updateMany({
+      where: { id, status: from },
+      data: {
+        status: to,
+        pausedAt: to === SubscriptionStatus.PAUSED ? new Date() : null,
+        ...(to === SubscriptionStatus.CANCELLED && { cancelledAt: new Date() }),
+        ...(to === SubscriptionStatus.ACTIVE && { failureCount: 0, lastError: null }),
+        ...(nextOrderAt && { nextOrderAt })
+      }
+    });
+
+    return result.count > 0;
+  }
+
+  /**
+   * Record an order placed for a subscription
+   */
+  async recordOrder(id: string, orderId: string): Promise<void> {
+    await this.prisma.subscription.update({
+      where: { id },
+      data: {
+        lastOrderId: orderId,
+        orderCount: { increment: 1 },
+        failureCount: 0,
+        lastError: null
+      }
+    });
+  }
+
+  /**
+   * Record an order that could not be placed, pausing the subscription when
+   * it has failed too often in a row
+   */
+  async recordFailure(id: string, error: string, nextOrderAt: Date, maxFailures: number): Promise<Subscription> {
+    const subscription = await this.prisma.subscription.update({
+      where: { id },
+      data: {
+        nextOrderAt,
+        failureCount: { increment: 1 },
+        lastError: error
+      }
+    });
+
+    if (subscription.failureCount >= maxFailures && subscription.status === SubscriptionStatus.ACTIVE) {
+      const paused = await this.prisma.subscription.update({
+        where: { id },
+        data: { status: SubscriptionStatus.PAUSED, pausedAt: new Date() }
+      });
+      return this.mapPrismaSubscriptionToSubscription(paused);
+    }
+
+    return this.mapPrismaSubscriptionToSubscription(subscription);
+  }
+
+  /**
+   * Map Prisma Subscription to our Subscription type
+   */
+  private mapPrismaSubscriptionToSubscription(prismaSubscription: any): Subscription {
+    return {
+      id: prismaSubscription.id,
+      tenantId: prismaSubscription.tenantId,
+      userId: prismaSubscription.userId,
+      status: prismaSubscription.status as SubscriptionStatus,
+      productId: prismaSubscription.productId,
+      variantId: prismaSubscription.variantId || undefined,
+      quantity: prismaSubscription.quantity,
+      unitPrice: Number(prismaSubscription.unitPrice),
+      discountPercent: Number(prismaSubscription.discountPercent),
+      currency: prismaSubscription.currency,
+      frequency: {
+        every: prismaSubscription.every,
+        unit: prismaSubscription.unit as SubscriptionUnit
+      },
+      nextOrderAt: prismaSubscription.nextOrderAt,
+      shippingAddress: JSON.parse(prismaSubscription.shippingAddress),
+      billingAddress: JSON.parse(prismaSubscription.billingAddress),
+      shippingMethod: prismaSubscription.shippingMethod,
+      paymentMethod: prismaSubscription.paymentMethod,
+      paymentProvider: prismaSubscription.paymentProvider,
+      firstOrderId: prismaSubscription.firstOrderId,
+      lastOrderId: prismaSubscription.lastOrderId || undefined,
+      orderCount: prismaSubscription.orderCount,
+      failureCount: prismaSubscription.failureCount,
+      lastError: prismaSubscription.lastError || undefined,
+      pausedAt: prismaSubscription.pausedAt || undefined,
+      cancelledAt: prismaSubscription.cancelledAt || undefined,
+      createdAt: prismaSubscription.createdAt,
+      updatedAt: prismaSubscription.updatedAt
+    };
+  }
+}
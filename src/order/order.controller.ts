@@ -17,6 +17,8 @@ import {
 } from '@nestjs/common';
 import { OrderService } from '../services/order.service';
 import { JwtAuthGuard } from '../common/guards/jwt-auth.guard';
+import { Idempotent } from '../common/decorators/idempotent.decorator';
+import { SalesChannel } from '../types/channel.types';
 import {
     CreateOrderRequest,
     UpdateOrderRequest,
@@ -36,6 +38,7 @@ export class OrderController {
 
     @Post()
     @HttpCode(HttpStatus.CREATED)
+    @Idempotent('orders.create')
     async createOrder(
         @Body() createOrderRequest: CreateOrderRequest,
         @Request() req: any
@@ -147,13 +150,15 @@ export class OrderController {
         @Request() req: any,
         @Query('userId') userId?: string,
         @Query('dateFrom') dateFrom?: string,
-        @Query('dateTo') dateTo?: string
+        @Query('dateTo') dateTo?: string,
+        @Query('channel') channel?: SalesChannel
     ): Promise<OrderAnalytics> {
         // Only allow users to see their own analytics unless they're admin
         const targetUserId = req.user.roles?.includes('admin') ? userId : req.user.id;
 
         const filters: OrderSearchFilters = {
             userId: targetUserId,
+            channel,
             dateFrom: dateFrom ? new Date(dateFrom) : undefined,
             dateTo: dateTo ? new Date(dateTo) : undefined
         };
@@ -174,6 +179,7 @@ export class OrderController {
         @Query('orderNumber') orderNumber?: string,
         @Query('productId') productId?: string,
         @Query('userId') userId?: string,
+        @Query('channel') channel?: SalesChannel,
         @Query('sortBy') sortBy?: 'createdAt' | 'updatedAt' | 'total' | 'status',
         @Query('sortOrder') sortOrder?: 'asc' | 'desc'
     ): Promise<OrderListResponse> {
@@ -191,6 +197,7 @@ export class OrderController {
             orderNumber,
             productId,
             userId,
+            channel,
             sortBy,
             sortOrder,
             dateFrom: dateFrom ? new Date(dateFrom) : undefined,
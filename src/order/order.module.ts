@@ -1,16 +1,22 @@
 import { Module } from '@nestjs/common';
 import { OrderController } from './order.controller';
+import { SubscriptionController } from './subscription.controller';
 import { OrderService } from '../services/order.service';
+import { SubscriptionService } from '../services/subscription.service';
+import { SubscriptionPolicyService } from '../services/subscription-policy.service';
+import { SubscriptionOrdersJob } from '../jobs/subscription-orders.job';
 import { DatabaseModule } from '../database/database.module';
 import { AuthModule } from '../auth/auth.module';
+import { CurrencyModule } from '../currency/currency.module';
 
 @Module({
     imports: [
         DatabaseModule,
-        AuthModule
+        AuthModule,
+        CurrencyModule
     ],
-    controllers: [OrderController],
-    providers: [OrderService],
-    exports: [OrderService]
+    controllers: [OrderController, SubscriptionController],
+    providers: [OrderService, SubscriptionService, SubscriptionPolicyService, SubscriptionOrdersJob],
+    exports: [OrderService, SubscriptionService]
 })
 export class OrderModule { }
@@ -0,0 +1,79 @@
+import {
+    Controller,
+    Get,
+    Post,
+    Patch,
+    Body,
+    Param,
+    UseGuards,
+    Request,
+    HttpStatus,
+    HttpCode
+} from '@nestjs/common';
+import { SubscriptionService } from '../services/subscription.service';
+import { JwtAuthGuard } from '../common/guards/jwt-auth.guard';
+import { Subscription, SubscriptionFrequency } from '../types/subscription.types';
+
+@Controller('api/v1/subscriptions')
+@UseGuards(JwtAuthGuard)
+export class SubscriptionController {
+    constructor(private readonly subscriptionService: SubscriptionService) { }
+
+    @Get()
+    async listSubscriptions(@Request() req: any): Promise<Subscription[]> {
+        return await this.subscriptionService.listSubscriptions(req.user.id);
+    }
+
+    @Get(':id')
+    async getSubscription(
+        @Param('id') subscriptionId: string,
+        @Request() req: any
+    ): Promise<Subscription> {
+        return await this.subscriptionService.getSubscription(subscriptionId, req.user.id);
+    }
+
+    @Post(':id/skip')
+    @HttpCode(HttpStatus.OK)
+    async skipNextOrder(
+        @Param('id') subscriptionId: string,
+        @Request() req: any
+    ): Promise<Subscription> {
+        return await this.subscriptionService.skipNextOrder(subscriptionId, req.user.id);
+    }
+
+    @Post(':id/pause')
+    @HttpCode(HttpStatus.OK)
+    async pauseSubscription(
+        @Param('id') subscriptionId: string,
+        @Request() req: any
+    ): Promise<Subscription> {
+        return await this.subscriptionService.pauseSubscription(subscriptionId, req.user.id);
+    }
+
+    @Post(':id/resume')
+    @HttpCode(HttpStatus.OK)
+    async resumeSubscription(
+        @Param('id') subscriptionId: string,
+        @Request() req: any
+    ): Promise<Subscription> {
+        return await this.subscriptionService.resumeSubscription(subscriptionId, req.user.id);
+    }
+
+    @Patch(':id/frequency')
+    async changeFrequency(
+        @Param('id') subscriptionId: string,
+        @Body() frequency: SubscriptionFrequency,
+        @Request() req: any
+    ): Promise<Subscription> {
+        return await this.subscriptionService.changeFrequency(subscriptionId, req.user.id, frequency);
+    }
+
+    @Post(':id/cancel')
+    @HttpCode(HttpStatus.OK)
+    async cancelSubscription(
+        @Param('id') subscriptionId: string,
+        @Request() req: any
+    ): Promise<Subscription> {
+        return await this.subscriptionService.cancelSubscription(subscriptionId, req.user.id);
+    }
+}
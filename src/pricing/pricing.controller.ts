@@ -19,6 +19,7 @@ import { PricingEngineService } from '../services/pricing-engine.service';
 import { DiscountService } from '../services/discount.service';
 import { TaxService } from '../services/tax.service';
 import { PromotionService } from '../services/promotion.service';
+import { ChannelPolicyService } from '../services/channel-policy.service';
 import { JwtAuthGuard } from '../common/guards/jwt-auth.guard';
 import { 
   PricingRequest, 
@@ -44,7 +45,8 @@ export class PricingController {
     private readonly pricingEngineService: PricingEngineService,
     private readonly discountService: DiscountService,
     private readonly taxService: TaxService,
-    private readonly promotionService: PromotionService
+    private readonly promotionService: PromotionService,
+    private readonly channelPolicyService: ChannelPolicyService
   ) {}
 
   /**
@@ -58,6 +60,7 @@ export class PricingController {
   ): Promise<PricingResponse> {
     // Ensure the user ID is set
     pricingRequest.userId = req.user.id;
+    pricingRequest.channel = this.channelPolicyService.resolve(pricingRequest.channel ?? req.user.channel);
     
     return await this.pricingEngineService.calculatePricing(pricingRequest);
   }
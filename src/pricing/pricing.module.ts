@@ -4,20 +4,28 @@ import { PricingEngineService } from '../services/pricing-engine.service';
 import { DiscountService } from '../services/discount.service';
 import { TaxService } from '../services/tax.service';
 import { PromotionService } from '../services/promotion.service';
+import { GiftOptionsService } from '../services/gift-options.service';
+import { SubscriptionPolicyService } from '../services/subscription-policy.service';
+import { ChannelPolicyService } from '../services/channel-policy.service';
 import { DatabaseModule } from '../database/database.module';
 import { AuthModule } from '../auth/auth.module';
+import { CurrencyModule } from '../currency/currency.module';
 
 @Module({
   imports: [
     DatabaseModule,
-    AuthModule
+    AuthModule,
+    CurrencyModule
   ],
   controllers: [PricingController],
   providers: [
     PricingEngineService,
     DiscountService,
     TaxService,
-    PromotionService
+    PromotionService,
+    GiftOptionsService,
+    SubscriptionPolicyService,
+    ChannelPolicyService
   ],
   exports: [
     PricingEngineService,
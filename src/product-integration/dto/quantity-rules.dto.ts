@@ -0,0 +1,24 @@
+import { IsInt, IsOptional, Min } from 'class-validator';
+
+// Fields left out fall back to the product metadata
+export class SetQuantityRulesDto {
+    @IsInt()
+    @Min(1)
+    @IsOptional()
+    minQuantity?: number;
+
+    @IsInt()
+    @Min(1)
+    @IsOptional()
+    maxQuantity?: number;
+
+    @IsInt()
+    @Min(1)
+    @IsOptional()
+    step?: number;
+
+    @IsInt()
+    @Min(1)
+    @IsOptional()
+    casePack?: number;
+}
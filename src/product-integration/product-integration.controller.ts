@@ -2,6 +2,8 @@ import {
     Controller,
     Get,
     Post,
+    Put,
+    Delete,
     Body,
     Param,
     Query,
@@ -14,10 +16,16 @@ import {
 import { ProductApiService } from '../services/product-api.service';
 import { InventoryService } from '../services/inventory.service';
 import { PricingService } from '../services/pricing.service';
+import { QuantityRulesService } from '../services/quantity-rules.service';
+import { RecommendationService } from '../services/recommendation.service';
 import { JwtAuthGuard } from '../common/guards/jwt-auth.guard';
 import { CurrentUser } from '../common/decorators/current-user.decorator';
 import { Public } from '../common/decorators/public.decorator';
+import { Roles } from '../common/decorators/roles.decorator';
+import { SetQuantityRulesDto } from './dto/quantity-rules.dto';
 import {
+    EffectiveQuantityRules,
+    QuantityRuleOverride,
     ProductSearchParams,
     ProductValidationResult,
     BulkProductValidationResult
@@ -31,6 +39,8 @@ export class ProductIntegrationController {
         private readonly productApiService: ProductApiService,
         private readonly inventoryService: InventoryService,
         private readonly pricingService: PricingService,
+        private readonly quantityRulesService: QuantityRulesService,
+        private readonly recommendationService: RecommendationService,
     ) { }
 
     /**
@@ -97,15 +107,21 @@ export class ProductIntegrationController {
     }
 
     /**
-     * Get product recommendations
+     * Get product recommendations, from the product service or, with
+     * source=local, frequently bought together in this store
      */
     @Get(':productId/recommendations')
     async getProductRecommendations(
         @Param('productId') productId: string,
         @Query('variantId') variantId?: string,
-        @Query('type') type?: 'alternative' | 'upsell' | 'cross-sell'
+        @Query('type') type?: 'alternative' | 'upsell' | 'cross-sell',
+        @Query('source') source?: 'remote' | 'local',
+        @Query('limit') limit?: number
     ) {
         try {
+            if (source === 'local') {
+                return await this.recommendationService.getFrequentlyBoughtTogether(productId, limit);
+            }
             return await this.productApiService.getProductRecommendations(productId, variantId, type);
         } catch (error) {
             this.logger.error(`Failed to get recommendations for ${productId}:`, error.message);
@@ -237,6 +253,36 @@ export class ProductIntegrationController {
         }
     }
 
+    /**
+     * Get the quantity rules in force for a product
+     */
+    @Get(':productId/quantity-rules')
+    async getQuantityRules(@Param('productId') productId: string): Promise<EffectiveQuantityRules> {
+        return this.quantityRulesService.getRules(productId);
+    }
+
+    /**
+     * Override a product's quantity rules locally (admin)
+     */
+    @Put(':productId/quantity-rules')
+    @Roles('admin')
+    async setQuantityRules(
+        @Param('productId') productId: string,
+        @Body() dto: SetQuantityRulesDto
+    ): Promise<QuantityRuleOverride> {
+        return this.quantityRulesService.setOverride(productId, dto);
+    }
+
+    /**
+     * Remove a product's local quantity rule override (admin)
+     */
+    @Delete(':productId/quantity-rules')
+    @Roles('admin')
+    @HttpCode(HttpStatus.NO_CONTENT)
+    async removeQuantityRules(@Param('productId') productId: string): Promise<void> {
+        await this.quantityRulesService.removeOverride(productId);
+    }
+
     /**
      * Compare pricing
      */
@@ -4,22 +4,40 @@ import { ProductClient } from '../clients/product.client';
 import { ProductApiService } from '../services/product-api.service';
 import { InventoryService } from '../services/inventory.service';
 import { PricingService } from '../services/pricing.service';
+import { CustomizationService } from '../services/customization.service';
+import { QuantityRulesService } from '../services/quantity-rules.service';
+import { PriceLockService } from '../services/price-lock.service';
+import { ChannelPolicyService } from '../services/channel-policy.service';
+import { RecommendationService } from '../services/recommendation.service';
+import { RecommendationsJob } from '../jobs/recommendations.job';
 import { ProductIntegrationController } from './product-integration.controller';
+import { CurrencyModule } from '../currency/currency.module';
 
 @Module({
-    imports: [HttpModule],
+    imports: [HttpModule, CurrencyModule],
     controllers: [ProductIntegrationController],
     providers: [
         ProductClient,
         ProductApiService,
         InventoryService,
         PricingService,
+        CustomizationService,
+        QuantityRulesService,
+        PriceLockService,
+        ChannelPolicyService,
+        RecommendationService,
+        RecommendationsJob,
     ],
     exports: [
         ProductClient,
         ProductApiService,
         InventoryService,
         PricingService,
+        CustomizationService,
+        QuantityRulesService,
+        PriceLockService,
+        ChannelPolicyService,
+        RecommendationService,
     ],
 })
 export class ProductIntegrationModule { }
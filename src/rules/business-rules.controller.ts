@@ -0,0 +1,74 @@
+import {
+    Controller,
+    Get,
+    Post,
+    Put,
+    Delete,
+    Body,
+    Param,
+    HttpCode,
+    HttpStatus
+} from '@nestjs/common';
+import { BusinessRulesService } from './business-rules.service';
+import { Roles } from '../common/decorators/roles.decorator';
+import { BusinessRuleDto, EvaluateRulesDto } from './dto/business-rule.dto';
+import { BusinessRule, RuleEvaluationResult } from '../types/business-rule.types';
+
+@Controller('rules')
+@Roles('admin')
+export class BusinessRulesController {
+    constructor(private readonly businessRulesService: BusinessRulesService) { }
+
+    /**
+     * List all business rules, highest priority first
+     */
+    @Get()
+    async listRules(): Promise<BusinessRule[]> {
+        return this.businessRulesService.listRules();
+    }
+
+    /**
+     * Evaluate rules against a cart without saving or changing anything
+     */
+    @Post('evaluate')
+    @HttpCode(HttpStatus.OK)
+    async evaluateRules(@Body() dto: EvaluateRulesDto): Promise<RuleEvaluationResult> {
+        return this.businessRulesService.dryRun(dto);
+    }
+
+    /**
+     * Get a business rule
+     */
+    @Get(':ruleId')
+    async getRule(@Param('ruleId') ruleId: string): Promise<BusinessRule> {
+        return this.businessRulesService.getRule(ruleId);
+    }
+
+    /**
+     * Create a business rule
+     */
+    @Post()
+    async createRule(@Body() dto: BusinessRuleDto): Promise<BusinessRule> {
+        return this.businessRulesService.createRule(dto);
+    }
+
+    /**
+     * Replace a business rule's definition
+     */
+    @Put(':ruleId')
+    async updateRule(
+        @Param('ruleId') ruleId: string,
+        @Body() dto: BusinessRuleDto
+    ): Promise<BusinessRule> {
+        return this.businessRulesService.updateRule(ruleId, dto);
+    }
+
+    /**
+     * Delete a business rule
+     */
+    @Delete(':ruleId')
+    @HttpCode(HttpStatus.NO_CONTENT)
+    async deleteRule(@Param('ruleId') ruleId: string): Promise<void> {
+        await this.businessRulesService.deleteRule(ruleId);
+    }
+}
@@ -0,0 +1,307 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { DatabaseService } from '../database/database.service';
+import { ProductClient } from '../clients/product.client';
+import { BusinessRuleDto, EvaluateRulesDto } from './dto/business-rule.dto';
+import {
+    BusinessRule,
+    BusinessRuleData,
+    RuleAction,
+    RuleCart,
+    RuleCondition,
+    RuleContext,
+    RuleEvaluationResult,
+    RuleMatch,
+    RuleOperator,
+    RuleOutcome,
+    RuleScope
+} from '../types/business-rule.types';
+import { CartItem, CartServiceError } from '../types/cart.types';
+
+// Context roots each scope's conditions may refer to
+const SCOPE_ROOTS: Record<RuleScope, string[]> = {
+    [RuleScope.CART]: ['cart', 'user'],
+    [RuleScope.LINE]: ['cart', 'user', 'line', 'product']
+};
+
+@Injectable()
+export class BusinessRulesService {
+    private readonly logger = new Logger(BusinessRulesService.name);
+
+    constructor(
+        private readonly databaseService: DatabaseService,
+        private readonly productClient: ProductClient
+    ) { }
+
+    async listRules(): Promise<BusinessRule[]> {
+        return this.databaseService.businessRule.findAll();
+    }
+
+    async getRule(ruleId: string): Promise<BusinessRule> {
+        const rule = await this.databaseService.businessRule.findById(ruleId);
+        if (!rule) {
+            throw new CartServiceError('RULE_NOT_FOUND', `Business rule ${ruleId} not found`, { ruleId });
+        }
+        return rule;
+    }
+
+    async createRule(dto: BusinessRuleDto): Promise<BusinessRule> {
+        const rule = await this.databaseService.businessRule.create(this.toRuleData(dto));
+        this.logger.log(`Business rule ${rule.id} created: ${rule.name}`);
+        return rule;
+    }
+
+    async updateRule(ruleId: string, dto: BusinessRuleDto): Promise<BusinessRule> {
+        await this.getRule(ruleId);
+        const rule = await this.databaseService.businessRule.update(ruleId, this.toRuleData(dto));
+        this.logger.log(`Business rule ${rule.id} updated`);
+        return rule;
+    }
+
+    async deleteRule(ruleId: string): Promise<void> {
+        await this.getRule(ruleId);
+        await this.databaseService.businessRule.delete(ruleId);
+        this.logger.log(`Business rule ${ruleId} deleted`);
+    }
+
+    /**
+     * Evaluate rules against a stored cart without changing anything
+     */
+    async dryRun(dto: EvaluateRulesDto): Promise<RuleEvaluationResult> {
+        const cart = await this.databaseService.cart.findById(dto.cartId);
+        if (!cart) {
+            throw new CartServiceError('CART_NOT_FOUND', `Cart ${dto.cartId} not found`, { cartId: dto.cartId });
+        }
+
+        let rules: BusinessRule[] | undefined;
+        if (dto.rule) {
+            const now = new Date();
+            rules = [{ id: 'dry-run', ...this.toRuleData(dto.rule), createdAt: now, updatedAt: now }];
+        } else if (dto.ruleIds?.length) {
+            rules = await Promise.all(dto.ruleIds.map(ruleId => this.getRule(ruleId)));
+        }
+
+        return this.evaluate(cart, { id: cart.userId, isGuest: !cart.userId }, rules);
+    }
+
+    /**
+     * Evaluate rules (every active rule by default) against a cart. A rule
+     * that cannot be evaluated is logged and skipped rather than failing the
+     * whole validation.
+     */
+    async evaluate(
+        cart: RuleCart,
+        user: RuleContext['user'],
+        rules?: BusinessRule[]
+    ): Promise<RuleEvaluationResult> {
+        const applicable = rules ?? await this.databaseService.businessRule.findAll(true);
+        const outcomes: RuleOutcome[] = [];
+
+        const cartContext: RuleContext = { cart: this.toCartContext(cart), user };
+        const lines = cart.items.filter(item => !item.parentItemId);
+        const needsProducts = applicable.some(rule =>
+            rule.scope === RuleScope.LINE && rule.conditions.some(condition => condition.field.startsWith('product.'))
+        );
+        const products = needsProducts ? await this.loadProducts(lines) : new Map<string, Record<string, any>>();
+
+        for (const rule of applicable) {
+            try {
+                if (rule.scope === RuleScope.CART) {
+                    if (this.matches(rule, cartContext)) {
+                        outcomes.push(this.toOutcome(rule, cartContext));
+                    }
+                    continue;
+                }
+
+                for (const item of lines) {
+                    const context: RuleContext = {
+                        ...cartContext,
+                        line: this.toLineContext(item),
+                        product: products.get(item.productId)
+                    };
+
+                    if (!this.matches(rule, context)) {
+                        continue;
+                    }
+                    if (rule.action === RuleAction.CAP_QUANTITY && item.quantity <= (rule.capQuantity ?? 0)) {
+                        continue;
+                    }
+                    outcomes.push(this.toOutcome(rule, context));
+                }
+            } catch (error) {
+                this.logger.warn(`Business rule ${rule.id} could not be evaluated: ${error.message}`);
+            }
+        }
+
+        return {
+            outcomes,
+            blocked: outcomes.some(outcome =>
+                outcome.action === RuleAction.BLOCK || outcome.action === RuleAction.CAP_QUANTITY
+            ),
+            requiresApproval: outcomes.some(outcome => outcome.action === RuleAction.REQUIRE_APPROVAL),
+            rulesEvaluated: applicable.length
+        };
+    }
+
+    /**
+     * Whether a rule's conditions hold: all of them, or any of them for an
+     * ANY rule. A rule without conditions always applies.
+     */
+    private matches(rule: BusinessRule, context: RuleContext): boolean {
+        if (rule.conditions.length === 0) {
+            return true;
+        }
+
+        const test = (condition: RuleCondition) =>
+            this.testCondition(condition, this.resolve(context, condition.field));
+
+        return rule.match === RuleMatch.ANY
+            ? rule.conditions.some(test)
+            : rule.conditions.every(test);
+    }
+
+    private testCondition(condition: RuleCondition, actual: any): boolean {
+        const expected = condition.value;
+
+        switch (condition.operator) {
+            case RuleOperator.EXISTS:
+                return (actual !== undefined && actual !== null) === (expected ?? true);
+            case RuleOperator.EQ:
+                return actual === expected;
+            case RuleOperator.NEQ:
+                return actual !== expected;
+            case RuleOperator.GT:
+                return typeof actual === 'number' && actual > Number(expected);
+            case RuleOperator.GTE:
+                return typeof actual === 'number' && actual >= Number(expected);
+            case RuleOperator.LT:
+                return typeof actual === 'number' && actual < Number(expected);
+            case RuleOperator.LTE:
+                return typeof actual === 'number' && actual <= Number(expected);
+            case RuleOperator.IN:
+                return Array.isArray(expected) && expected.includes(actual);
+            case RuleOperator.NOT_IN:
+                return Array.isArray(expected) && !expected.includes(actual);
+            case RuleOperator.CONTAINS:
+                return Array.isArray(actual)
+                    ? actual.includes(expected)
+                    : typeof actual === 'string' && actual.includes(String(expected));
+            case RuleOperator.STARTS_WITH:
+                return typeof actual === 'string' && actual.startsWith(String(expected));
+            default:
+                return false;
+        }
+    }
+
+    private resolve(context: RuleContext, path: string): any {
+        return path.split('.').reduce<any>((value, key) => value?.[key], context);
+    }
+
+    private toOutcome(rule: BusinessRule, context: RuleContext): RuleOutcome {
+        return {
+            ruleId: rule.id,
+            ruleName: rule.name,
+            action: rule.action,
+            message: rule.message.replace(/\{([\w.]+)\}/g, (placeholder, path) => {
+                const value = this.resolve(context, path);
+                return value === undefined || value === null ? placeholder : String(value);
+            }),
+            itemId: context.line?.itemId,
+            productId: context.line?.productId,
+            capQuantity: rule.action === RuleAction.CAP_QUANTITY ? rule.capQuantity : undefined
+        };
+    }
+
+    private toCartContext(cart: RuleCart): RuleContext['cart'] {
+        const lines = cart.items.filter(item => !item.parentItemId);
+        return {
+            id: cart.id,
+            name: cart.name,
+            status: cart.status,
+            currency: cart.currency,
+            subtotal: lines.reduce((sum, item) => sum + item.price * item.quantity, 0),
+            itemCount: lines.reduce((sum, item) => sum + item.quantity, 0),
+            lineCount: lines.length
+        };
+    }
+
+    private toLineContext(item: CartItem): RuleContext['line'] {
+        return {
+            itemId: item.id,
+            productId: item.productId,
+            variantId: item.variantId,
+            quantity: item.quantity,
+            price: item.price,
+            total: item.price * item.quantity,
+            bundleId: item.bundleId,
+            isCustomized: !!item.customization
+        };
+    }
+
+    /**
+     * Product attributes for the lines' products. Bundle lines and products
+     * that cannot be loaded have none, so product conditions do not match.
+     */
+    private async loadProducts(lines: CartItem[]): Promise<Map<string, Record<string, any>>> {
+        const products = new Map<string, Record<string, any>>();
+        const productIds = [...new Set(lines.filter(item => !item.bundleId).map(item => item.productId))];
+
+        await Promise.all(productIds.map(async productId => {
+            try {
+                products.set(productId, await this.productClient.getProduct(productId));
+            } catch (error) {
+                this.logger.warn(`No product attributes for ${productId}: ${error.message}`);
+            }
+        }));
+
+        return products;
+    }
+
+    /**
+     * Check a rule definition and fill in its defaults
+     */
+    private toRuleData(dto: BusinessRuleDto): BusinessRuleData {
+        const errors: string[] = [];
+        const roots = SCOPE_ROOTS[dto.scope];
+
+        for (const condition of dto.conditions) {
+            const root = condition.field.split('.')[0];
+            if (!roots.includes(root)) {
+                errors.push(`${condition.field} cannot be used in a ${dto.scope} rule; use ${roots.join(', ')}`);
+            }
+            if ((condition.operator === RuleOperator.IN || condition.operator === RuleOperator.NOT_IN)
+                && !Array.isArray(condition.value)) {
+                errors.push(`${condition.field} ${condition.operator} needs a list of values`);
+            }
+        }
+
+        if (dto.action === RuleAction.CAP_QUANTITY) {
+            if (dto.scope !== RuleScope.LINE) {
+                errors.push('CAP_QUANTITY applies to LINE rules only');
+            }
+            if (dto.capQuantity === undefined) {
+                errors.push('CAP_QUANTITY needs capQuantity');
+            }
+        }
+
+        if (errors.length > 0) {
+            throw new CartServiceError('INVALID_BUSINESS_RULE', 'Business rule is not valid', { errors });
+        }
+
+        return {
+            name: dto.name,
+            description: dto.description,
+            scope: dto.scope,
+            match: dto.match ?? RuleMatch.ALL,
+            conditions: dto.conditions.map(condition => ({
+                field: condition.field,
+                operator: condition.operator,
+                value: condition.value
+            })),
+            action: dto.action,
+            capQuantity: dto.action === RuleAction.CAP_QUANTITY ? dto.capQuantity : undefined,
+            message: dto.message,
+            priority: dto.priority ?? 0,
+            isActive: dto.isActive ?? true
+        };
+    }
+}
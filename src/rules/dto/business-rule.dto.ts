@@ -0,0 +1,84 @@
+import {
+    IsArray,
+    IsBoolean,
+    IsEnum,
+    IsInt,
+    IsOptional,
+    IsString,
+    MaxLength,
+    Min,
+    ValidateNested
+} from 'class-validator';
+import { Type } from 'class-transformer';
+import { RuleAction, RuleMatch, RuleOperator, RuleScope } from '../../types/business-rule.types';
+
+export class RuleConditionDto {
+    @IsString()
+    field!: string;
+
+    @IsEnum(RuleOperator)
+    operator!: RuleOperator;
+
+    // Any JSON value; a list for IN and NOT_IN, ignored for EXISTS
+    @IsOptional()
+    value?: any;
+}
+
+export class BusinessRuleDto {
+    @IsString()
+    @MaxLength(100)
+    name!: string;
+
+    @IsString()
+    @IsOptional()
+    description?: string;
+
+    @IsEnum(RuleScope)
+    scope!: RuleScope;
+
+    @IsEnum(RuleMatch)
+    @IsOptional()
+    match?: RuleMatch;
+
+    @IsArray()
+    @ValidateNested({ each: true })
+    @Type(() => RuleConditionDto)
+    conditions!: RuleConditionDto[];
+
+    @IsEnum(RuleAction)
+    action!: RuleAction;
+
+    @IsInt()
+    @Min(0)
+    @IsOptional()
+    capQuantity?: number;
+
+    @IsString()
+    @MaxLength(500)
+    message!: string;
+
+    @IsInt()
+    @IsOptional()
+    priority?: number;
+
+    @IsBoolean()
+    @IsOptional()
+    isActive?: boolean;
+}
+
+// Evaluate rules against a cart without saving anything: an unsaved rule,
+// a set of saved rules (active or not), or by default every active rule
+export class EvaluateRulesDto {
+    @IsString()
+    cartId!: string;
+
+    @ValidateNested()
+    @Type(() => BusinessRuleDto)
+    @IsOptional()
+    rule?: BusinessRuleDto;
+
+    @IsArray()
+    @IsString({ each: true })
+    @IsOptional()
+    ruleIds?: string[];
+}
@@ -0,0 +1,12 @@
+import { Module } from '@nestjs/common';
+import { BusinessRulesService } from './business-rules.service';
+import { BusinessRulesController } from './business-rules.controller';
+import { ProductIntegrationModule } from '../product-integration/product-integration.module';
+
+@Module({
+    imports: [ProductIntegrationModule],
+    controllers: [BusinessRulesController],
+    providers: [BusinessRulesService],
+    exports: [BusinessRulesService],
+})
+export class RulesModule { }
@@ -0,0 +1,106 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { CartServiceError } from '../types/cart.types';
+import { ChannelPolicy, SalesChannel } from '../types/channel.types';
+import { Promotion } from '../types/pricing.types';
+
+/**
+ * Sales channel policy. SALES_CHANNEL_POLICIES holds a JSON object keyed by
+ * channel, e.g. {"MARKETPLACE": {"priceList": "marketplace",
+ * "paymentMethods": ["marketplace"]}}. A promotion limited to some channels
+ * lists them in metadata.channels.
+ */
+@Injectable()
+export class ChannelPolicyService {
+    private readonly logger = new Logger(ChannelPolicyService.name);
+    private readonly defaultChannel: SalesChannel;
+    private readonly policies: Map<SalesChannel, ChannelPolicy>;
+
+    constructor(private readonly configService: ConfigService) {
+        const defaultChannel = String(this.configService.get('DEFAULT_SALES_CHANNEL', SalesChannel.WEB)).toUpperCase();
+        this.defaultChannel = this.isChannel(defaultChannel) ? defaultChannel : SalesChannel.WEB;
+        this.policies = this.parsePolicies(String(this.configService.get('SALES_CHANNEL_POLICIES', '')));
+    }
+
+    /**
+     * The channel named by a request, or the default channel when it names
+     * none. Fails with INVALID_SALES_CHANNEL for an unknown channel.
+     */
+    resolve(value?: string | null): SalesChannel {
+        if (!value) {
+            return this.defaultChannel;
+        }
+
+        const channel = value.trim().toUpperCase();
+        if (!this.isChannel(channel)) {
+            throw new CartServiceError(
+                'INVALID_SALES_CHANNEL',
+                `Unknown sales channel ${value}; expected one of ${Object.values(SalesChannel).join(', ')}`,
+                { channel: value }
+            );
+        }
+
+        return channel;
+    }
+
+    policyFor(channel?: SalesChannel): ChannelPolicy {
+        return this.policies.get(channel ?? this.defaultChannel) ?? {};
+    }
+
+    priceListFor(channel?: SalesChannel): string | undefined {
+        return this.policyFor(channel).priceList;
+    }
+
+    /**
+     * Promotions requested for a cart together with the ones its channel
+     * applies to every cart, without duplicates
+     */
+    promotionIdsFor(channel: SalesChannel | undefined, requested: string[] = []): string[] {
+        return [...new Set([...requested, ...(this.policyFor(channel).promotionIds ?? [])])];
+    }
+
+    isPromotionAvailable(promotion: Promotion, channel?: SalesChannel): boolean {
+        const channels: string[] | undefined = promotion.metadata?.channels;
+        return !Array.isArray(channels) || channels.includes(channel ?? this.defaultChannel);
+    }
+
+    isShippingMethodAllowed(channel: SalesChannel | undefined, shippingMethodId: string): boolean {
+        const allowed = this.policyFor(channel).shippingMethods;
+        return !allowed || allowed.includes(shippingMethodId);
+    }
+
+    isPaymentMethodAllowed(channel: SalesChannel | undefined, paymentMethodType: string): boolean {
+        const allowed = this.policyFor(channel).paymentMethods;
+        return !allowed || allowed.includes(paymentMethodType);
+    }
+
+    private isChannel(value: string): value is SalesChannel {
+        return Object.values(SalesChannel).includes(value as SalesChannel);
+    }
+
+    private parsePolicies(value: string): Map<SalesChannel, ChannelPolicy> {
+        const policies = new Map<SalesChannel, ChannelPolicy>();
+        if (!value.trim()) {
+            return policies;
+        }
+
+        let parsed: Record<string, ChannelPolicy>;
+        try {
+            parsed = JSON.parse(value);
+        } catch (error) {
+            this.logger.warn(`Ignoring SALES_CHANNEL_POLICIES: ${error.message}`);
+            return policies;
+        }
+
+        for (const [key, policy] of Object.entries(parsed ?? {})) {
+            const channel = key.toUpperCase();
+            if (!this.isChannel(channel) || !policy || typeof policy !== 'object') {
+                this.logger.warn(`Ignoring sales channel policy "${key}"`);
+                continue;
+            }
+            policies.set(channel, policy);
+        }
+
+        return policies;
+    }
+}
@@ -12,6 +12,7 @@ import {
   ShippingMethod
 } from '../types/checkout.types';
 import { SessionContext } from '../types/cart.types';
+import { SalesChannel } from '../types/channel.types';
 
 export interface ValidationRule {
   name: string;
@@ -80,6 +81,14 @@ export class CheckoutValidationService {
       }
       warnings.push(...shippingMethodValidation.warnings);
 
+      // Validate further destinations of a split shipment
+      (checkoutRequest.shipments || []).forEach((shipment, index) => {
+        const addressValidation = this.validateShippingAddress(shipment.shippingAddress);
+        const methodValidation = this.validateShippingMethod(shipment.shippingMethod);
+        errors.push(...[...addressValidation.errors, ...methodValidation.errors].map(error => `Shipment ${index + 1}: ${error}`));
+        warnings.push(...[...addressValidation.warnings, ...methodValidation.warnings].map(warning => `Shipment ${index + 1}: ${warning}`));
+      });
+
       // Validate inventory
       const inventoryValidation = await this.validateInventory(checkoutRequest.cartId);
       if (!inventoryValidation.isValid) {
@@ -200,10 +209,10 @@ export class CheckoutValidationService {
         suggestions.push('Consider reviewing your cart items before checkout');
       }
 
-      // Check for duplicate items
+      // Check for duplicate items; differently customized lines are not duplicates
       const itemCounts = new Map<string, number>();
-      cart.items.forEach(item => {
-        const key = `${item.productId}_${item.variantId || 'default'}`;
+      cart.items.filter(item => !item.parentItemId).forEach(item => {
+        const key = `${item.productId}_${item.variantId || 'default'}_${item.customizationFingerprint || ''}`;
         itemCounts.set(key, (itemCounts.get(key) || 0) + 1);
       });
 
@@ -411,11 +420,13 @@ export class CheckoutValidationService {
         return { isValid: false, errors: ['Cart is empty'], warnings: [] };
       }
 
+      // Bundle lines have no stock of their own; their components do
       const inventoryValidation = await this.inventoryService.validateInventoryForCheckout(
-        cart.items.map(item => ({
+        cart.items.filter(item => !(item.bundleId && !item.parentItemId)).map(item => ({
           productId: item.productId,
           variantId: item.variantId,
-          quantity: item.quantity
+          quantity: item.quantity,
+          availability: item.availability
         }))
       );
 
@@ -449,12 +460,17 @@ export class CheckoutValidationService {
         return { isValid: false, errors: ['Cart is empty'], warnings: [] };
       }
 
+      // Bundle pricing differs from catalog prices by design, so only
+      // standalone lines are compared, without their customization surcharge.
+      // Quoted lines keep the price agreed on the quote.
       const pricingValidation = await this.pricingService.validateBulkPricing(
-        cart.items.map(item => ({
+        cart.items.filter(item => !item.bundleId && !item.quoteId).map(item => ({
           productId: item.productId,
           variantId: item.variantId,
-          cartPrice: Number(item.price)
-        }))
+          cartPrice: Number(item.price) - Number(item.surcharge || 0),
+          priceLockedUntil: item.priceLockedUntil ?? undefined
+        })),
+        cart.channel as SalesChannel
       );
 
       const errors: string[] = [];
@@ -6,6 +6,13 @@ import { InventoryService } from './inventory.service';
 import { PricingService } from './pricing.service';
 import { ProductApiService } from './product-api.service';
 import { OrderService } from './order.service';
+import { CurrencyService } from '../currency/currency.service';
+import { GiftOptionsService } from './gift-options.service';
+import { ShipmentAllocationService } from './shipment-allocation.service';
+import { SubscriptionPolicyService } from './subscription-policy.service';
+import { SubscribedLine, SubscriptionService } from './subscription.service';
+import { ChannelPolicyService } from './channel-policy.service';
+import { TenantService } from '../tenant/tenant.service';
 import {
   CheckoutRequest,
   CheckoutValidationResult,
@@ -15,6 +22,7 @@ import {
   PaymentIntent,
   OrderCreationRequest,
   OrderCreationResult,
+  ShipmentCalculation,
   CheckoutError,
   CheckoutServiceConfig,
   ShippingOption,
@@ -22,6 +30,11 @@ import {
   DiscountApplication
 } from '../types/checkout.types';
 import { SessionContext } from '../types/cart.types';
+import { CartEventType } from '../types/cart-event.types';
+import { GiftOptions } from '../types/gift.types';
+import { SubscriptionFrequency, SubscriptionUnit } from '../types/subscription.types';
+import { AvailabilityStatus, BackorderPolicy, FulfillmentExpectation } from '../types/fulfillment.types';
+import { SalesChannel } from '../types/channel.types';
 
 @Injectable()
 export class CheckoutService {
@@ -35,7 +48,14 @@ export class CheckoutService {
     private readonly pricingService: PricingService,
     private readonly productApiService: ProductApiService,
     private readonly orderService: OrderService,
-    private readonly configService: ConfigService
+    private readonly configService: ConfigService,
+    private readonly currencyService: CurrencyService,
+    private readonly giftOptionsService: GiftOptionsService,
+    private readonly shipmentAllocationService: ShipmentAllocationService,
+    private readonly subscriptionPolicyService: SubscriptionPolicyService,
+    private readonly subscriptionService: SubscriptionService,
+    private readonly channelPolicyService: ChannelPolicyService,
+    private readonly tenantService: TenantService
   ) {
     this.config = {
       orderServiceUrl: this.configService.get('ORDER_SERVICE_URL', 'http://localhost:3003'),
@@ -44,7 +64,8 @@ export class CheckoutService {
       taxServiceUrl: this.configService.get('TAX_SERVICE_URL', 'http://localhost:3006'),
       timeout: parseInt(this.configService.get('CHECKOUT_TIMEOUT', '30000'), 10),
       retryAttempts: parseInt(this.configService.get('CHECKOUT_RETRY_ATTEMPTS', '3'), 10),
-      sessionTimeout: parseInt(this.configService.get('CHECKOUT_SESSION_TIMEOUT', '1800000'), 10) // 30 minutes
+      sessionTimeout: parseInt(this.configService.get('CHECKOUT_SESSION_TIMEOUT', '1800000'), 10), // 30 minutes
+      backorderPolicy: this.parseBackorderPolicy(this.configService.get('BACKORDER_CHECKOUT_POLICY', BackorderPolicy.SPLIT_SHIPMENT))
     };
   }
 
@@ -151,11 +172,13 @@ export class CheckoutService {
       });
 
       if (cart && cart.items.length > 0) {
+        // Bundle lines have no stock of their own; their components do
         inventoryValidation = await this.inventoryService.validateInventoryForCheckout(
-          cart.items.map(item => ({
+          cart.items.filter(item => !(item.bundleId && !item.parentItemId)).map(item => ({
             productId: item.productId,
             variantId: item.variantId,
-            quantity: item.quantity
+            quantity: item.quantity,
+            availability: item.availability
           }))
         );
 
@@ -165,12 +188,17 @@ export class CheckoutService {
         warnings.push(...inventoryValidation.warnings);
 
         // Validate pricing
+        // Bundle pricing differs from catalog prices by design, so only
+        // standalone lines are compared, without their customization surcharge.
+        // Quoted lines keep the price agreed on the quote.
         pricingValidation = await this.pricingService.validateBulkPricing(
-          cart.items.map(item => ({
+          cart.items.filter(item => !item.bundleId && !item.quoteId).map(item => ({
             productId: item.productId,
             variantId: item.variantId,
-            cartPrice: Number(item.price)
-          }))
+            cartPrice: Number(item.price) - Number(item.surcharge || 0),
+            priceLockedUntil: item.priceLockedUntil ?? undefined
+          })),
+          cart.channel as SalesChannel
         );
 
         if (pricingValidation.summary.invalidPrices > 0) {
@@ -180,10 +208,44 @@ export class CheckoutService {
         if (pricingValidation.summary.itemsNeedingUpdate > 0) {
           warnings.push(`${pricingValidation.summary.itemsNeedingUpdate} items have outdated pricing`);
         }
+
+        // Renewal orders are placed for a customer account
+        if (!checkoutSession.userId && cart.items.some(item => this.subscriptionOf(item))) {
+          errors.push('Sign in to check out subscription items');
+        }
+
+        const delayedItems = cart.items.filter(item => this.isDelayed(item));
+        if (delayedItems.length > 0) {
+          if (
+            this.config.backorderPolicy === BackorderPolicy.REQUIRE_ACKNOWLEDGEMENT &&
+            !checkoutSession.checkoutData.acknowledgeBackorders
+          ) {
+            errors.push(
+              `${delayedItems.length} items are back-ordered or pre-ordered; acknowledge that they ship later to continue`
+            );
+          } else if (this.config.backorderPolicy === BackorderPolicy.HOLD_ORDER) {
+            warnings.push('The order ships once every back-ordered and pre-ordered item is available');
+          }
+        }
       }
 
       // Validate shipping address
       const shippingValidation = this.validateShippingAddress(checkoutSession.checkoutData.shippingAddress);
+
+      // Validate the split across further destinations, if any
+      (checkoutSession.checkoutData.shipments || []).forEach((shipment, index) => {
+        const shipmentValidation = this.validateShippingAddress(shipment.shippingAddress);
+        shippingValidation.errors.push(...shipmentValidation.errors.map(error => `Shipment ${index + 1}: ${error}`));
+        shippingValidation.warnings.push(...shipmentValidation.warnings.map(warning => `Shipment ${index + 1}: ${warning}`));
+      });
+      if (cart) {
+        shippingValidation.errors.push(
+          ...this.shipmentAllocationService.validate(checkoutSession.checkoutData, cart.items),
+          ...this.validateChannelShipping(checkoutSession.checkoutData, cart.channel as SalesChannel)
+        );
+      }
+      shippingValidation.isValid = shippingValidation.errors.length === 0;
+
       if (!shippingValidation.isValid) {
         errors.push(...shippingValidation.errors);
       }
@@ -191,6 +253,11 @@ export class CheckoutService {
 
       // Validate payment method
       const paymentValidation = this.validatePaymentMethod(checkoutSession.checkoutData.paymentMethod);
+      const paymentType = checkoutSession.checkoutData.paymentMethod?.type;
+      if (cart && paymentType && !this.channelPolicyService.isPaymentMethodAllowed(cart.channel as SalesChannel, paymentType)) {
+        paymentValidation.errors.push(`Payment method ${paymentType} is not available in the ${cart.channel} channel`);
+        paymentValidation.isValid = false;
+      }
       if (!paymentValidation.isValid) {
         errors.push(...paymentValidation.errors);
       }
@@ -257,39 +324,63 @@ export class CheckoutService {
         throw new BadRequestException('Cart is empty');
       }
 
+      // Everything is computed in the cart currency
+      const currency = cart.currency;
+
       // Calculate subtotal
       const subtotal = cart.items.reduce((sum, item) => sum + (Number(item.price) * item.quantity), 0);
 
-      // Calculate shipping
-      const shipping = await this.calculateShipping(
-        checkoutSession.checkoutData.shippingAddress,
-        checkoutSession.checkoutData.shippingMethod,
-        cart.items
-      );
-
-      // Calculate tax
-      const tax = await this.calculateTax(
-        checkoutSession.checkoutData.shippingAddress,
-        subtotal,
-        cart.items
-      );
+      // Shipping and tax are calculated per destination
+      const shipments = await this.calculateShipments(checkoutSession.checkoutData, cart.items, currency);
+      const shipping = shipments.reduce((sum, shipment) => sum + shipment.shipping, 0);
+      const tax = shipments.reduce((sum, shipment) => sum + shipment.tax, 0);
 
       // Calculate discount
       const discount = await this.calculateDiscount(
         checkoutSession.checkoutData.couponCode,
         subtotal,
+        cart.items,
+        currency
+      );
+
+      // A cart converted from a quote also gets the quote's discount
+      const quoteDiscount = await this.calculateQuoteDiscount(cart.id, cart.items, currency);
+
+      // Subscribed lines get the subscribe-and-save discount from the first order
+      const subscriptionDiscount = this.currencyService.round(
         cart.items
+          .filter(item => this.subscriptionOf(item))
+          .reduce((sum, item) => sum + this.subscriptionPolicyService.discountOn(Number(item.price) * item.quantity), 0),
+        currency
       );
 
-      const total = subtotal + shipping + tax - discount;
+      // Gift wrap and messages are charged on top of the discounted amount
+      const cartGift: GiftOptions | undefined = cart.giftOptions ? JSON.parse(cart.giftOptions) : undefined;
+      const itemGifts = new Map<string, GiftOptions>(cart.items
+        .filter(item => item.giftOptions && !item.parentItemId)
+        .map(item => [item.id, JSON.parse(item.giftOptions)]));
+      const giftCharges = new Map<string, number>();
+      for (const item of cart.items.filter(line => itemGifts.has(line.id))) {
+        giftCharges.set(item.id, await this.calculateGiftCharge(itemGifts.get(item.id), item.quantity, currency));
+      }
+      const cartGiftCharge = await this.calculateGiftCharge(cartGift, 1, currency);
+      const gift = Array.from(giftCharges.values()).reduce((sum, charge) => sum + charge, cartGiftCharge);
+
+      // A store whose prices include tax charges none on top
+      const addedTax = this.tenantService.pricesIncludeTax() ? 0 : tax;
+      const total = subtotal + shipping + addedTax + gift - discount - quoteDiscount.amount - subscriptionDiscount;
+
+      // When each line is expected to ship, under the configured back-order policy
+      const fulfillment = this.expectFulfillment(cart.items);
 
       const calculation: CheckoutCalculation = {
         subtotal,
         shipping,
         tax,
-        discount,
+        discount: discount + quoteDiscount.amount + subscriptionDiscount,
+        gift,
         total,
-        currency: 'USD', // This should come from configuration
+        currency,
         breakdown: {
           items: cart.items.map(item => ({
             productId: item.productId,
@@ -297,18 +388,38 @@ export class CheckoutService {
             name: `Product ${item.productId}`, // This should come from product service
             quantity: item.quantity,
             unitPrice: Number(item.price),
-            totalPrice: Number(item.price) * item.quantity
+            totalPrice: Number(item.price) * item.quantity,
+            gift: itemGifts.get(item.id),
+            giftCharge: giftCharges.get(item.id),
+            subscription: this.subscriptionOf(item),
+            fulfillment: fulfillment.get(item.id)
           })),
+          backorderPolicy: cart.items.some(item => this.isDelayed(item)) ? this.config.backorderPolicy : undefined,
+          channel: cart.channel as SalesChannel,
+          gift: cartGift && { options: cartGift, charge: cartGiftCharge },
+          shipments: checkoutSession.checkoutData.shipments?.length ? shipments : undefined,
           taxes: [{
             type: 'sales_tax',
             rate: 0.08, // This should be calculated based on location
             amount: tax
           }],
-          discounts: discount > 0 ? [{
-            code: checkoutSession.checkoutData.couponCode || 'discount',
-            type: 'fixed_amount',
-            amount: discount
-          }] : []
+          discounts: [
+            ...(discount > 0 ? [{
+              code: checkoutSession.checkoutData.couponCode || 'discount',
+              type: 'fixed_amount',
+              amount: discount
+            }] : []),
+            ...(quoteDiscount.amount > 0 ? [{
+              code: `quote_${quoteDiscount.quoteId}`,
+              type: 'fixed_amount',
+              amount: quoteDiscount.amount
+            }] : []),
+            ...(subscriptionDiscount > 0 ? [{
+              code: 'subscribe_and_save',
+              type: 'percentage',
+              amount: subscriptionDiscount
+            }] : [])
+          ]
         }
       };
 
@@ -347,7 +458,10 @@ export class CheckoutService {
       // Create payment intent
       const paymentIntent: PaymentIntent = {
         id: `pi_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
-        amount: Math.round(checkoutSession.calculation.total * 100), // Convert to cents
+        amount: this.currencyService.toMinorUnits(
+          checkoutSession.calculation.total,
+          checkoutSession.calculation.currency
+        ),
         currency: checkoutSession.calculation.currency,
         status: 'pending',
         metadata: {
@@ -414,8 +528,17 @@ export class CheckoutService {
           variantId: item.variantId,
           quantity: item.quantity,
           price: item.unitPrice,
-          name: item.name
+          name: item.name,
+          gift: item.gift,
+          giftCharge: item.giftCharge,
+          subscription: item.subscription,
+          fulfillment: item.fulfillment
         })) || [],
+        backorderPolicy: checkoutSession.calculation?.breakdown.backorderPolicy,
+        channel: checkoutSession.calculation?.breakdown.channel,
+        gift: checkoutSession.calculation?.breakdown.gift?.options,
+        giftCharge: checkoutSession.calculation?.breakdown.gift?.charge,
+        shipments: checkoutSession.calculation?.breakdown.shipments,
         totals: checkoutSession.calculation!,
         paymentIntentId: checkoutSession.paymentIntentId,
         metadata: checkoutSession.metadata
@@ -553,17 +676,63 @@ export class CheckoutService {
     };
   }
 
+  /**
+   * Shipping methods of a checkout request, including those of its further
+   * destinations, that the cart's sales channel does not offer
+   */
+  private validateChannelShipping(request: CheckoutRequest, channel: SalesChannel): string[] {
+    const methods = [request.shippingMethod, ...(request.shipments || []).map(shipment => shipment.shippingMethod)];
+
+    return [...new Set(methods.filter(method => method?.id).map(method => method.id))]
+      .filter(methodId => !this.channelPolicyService.isShippingMethodAllowed(channel, methodId))
+      .map(methodId => `Shipping method ${methodId} is not available in the ${channel} channel`);
+  }
+
   /**
    * Calculate shipping cost
    */
   private async calculateShipping(
     address: any,
     shippingMethod: any,
-    items: any[]
+    items: any[],
+    currency: string
   ): Promise<number> {
     // This would typically integrate with a shipping service
-    // For now, return a fixed shipping cost
-    return shippingMethod?.cost || 9.99;
+    // For now, return a fixed shipping cost (quoted in the base currency)
+    return this.currencyService.fromBase(shippingMethod?.cost || 9.99, currency);
+  }
+
+  /**
+   * Split the cart across the request's destinations and price shipping and
+   * tax for each
+   */
+  private async calculateShipments(
+    checkoutData: CheckoutRequest,
+    items: any[],
+    currency: string
+  ): Promise<ShipmentCalculation[]> {
+    const shipments: ShipmentCalculation[] = [];
+
+    for (const allocation of this.shipmentAllocationService.allocate(checkoutData, items)) {
+      const lines = allocation.lines.map(line => ({ ...line.item, quantity: line.quantity }));
+      const subtotal = lines.reduce((sum, line) => sum + Number(line.price) * line.quantity, 0);
+
+      shipments.push({
+        shippingAddress: allocation.shippingAddress,
+        shippingMethod: allocation.shippingMethod,
+        items: lines.map(line => ({
+          itemId: line.id,
+          productId: line.productId,
+          variantId: line.variantId ?? undefined,
+          quantity: line.quantity
+        })),
+        subtotal,
+        shipping: await this.calculateShipping(allocation.shippingAddress, allocation.shippingMethod, lines, currency),
+        tax: await this.calculateTax(allocation.shippingAddress, subtotal, lines)
+      });
+    }
+
+    return shipments;
   }
 
   /**
@@ -577,7 +746,9 @@ export class CheckoutService {
     // This would typically integrate with a tax service
     // For now, return a simple tax calculation
     const taxRate = 0.08; // 8% tax rate
-    return subtotal * taxRate;
+    return this.tenantService.pricesIncludeTax()
+      ? subtotal * taxRate / (1 + taxRate)
+      : subtotal * taxRate;
   }
 
   /**
@@ -586,19 +757,113 @@ export class CheckoutService {
   private async calculateDiscount(
     couponCode: string | undefined,
     subtotal: number,
-    items: any[]
+    items: any[],
+    currency: string
   ): Promise<number> {
     if (!couponCode) return 0;
 
     // This would typically integrate with a discount service
     // For now, return a simple discount
     if (couponCode === 'SAVE10') {
-      return Math.min(subtotal * 0.1, 10); // 10% discount, max $10
+      const maximumDiscount = await this.currencyService.fromBase(10, currency);
+      return Math.min(subtotal * 0.1, maximumDiscount); // 10% discount, max $10 equivalent
     }
 
     return 0;
   }
 
+  /**
+   * Discount agreed on the quote a cart was converted from. It shrinks in
+   * proportion to the quoted lines removed from the cart since.
+   */
+  private async calculateQuoteDiscount(
+    cartId: string,
+    items: any[],
+    currency: string
+  ): Promise<{ quoteId?: string; amount: number }> {
+    const quote = await this.databaseService.quote.findByConvertedCartId(cartId);
+    if (!quote || quote.discount <= 0) {
+      return { amount: 0 };
+    }
+
+    const quotedSubtotal = quote.lines.reduce((sum, line) => sum + line.price * line.quantity, 0);
+    const remainingSubtotal = items
+      .filter(item => item.quoteId === quote.id && !item.parentItemId)
+      .reduce((sum, item) => sum + Number(item.price) * item.quantity, 0);
+
+    if (quotedSubtotal <= 0) {
+      return { amount: 0 };
+    }
+
+    return {
+      quoteId: quote.id,
+      amount: this.currencyService.round(quote.discount * Math.min(1, remainingSubtotal / quotedSubtotal), currency)
+    };
+  }
+
+  /**
+   * Whether a cart line waits for a restock or a release
+   */
+  private isDelayed(item: any): boolean {
+    return !!item.availability && item.availability !== AvailabilityStatus.IN_STOCK;
+  }
+
+  /**
+   * Fulfillment expectation of every cart line. When the whole order is
+   * held, every line ships with the latest of the back-ordered and
+   * pre-ordered lines, or without a date while any of them has none.
+   */
+  private expectFulfillment(items: any[]): Map<string, FulfillmentExpectation> {
+    const expectations = new Map<string, FulfillmentExpectation>(items.map(item => [item.id, {
+      availability: (item.availability as AvailabilityStatus) || AvailabilityStatus.IN_STOCK,
+      ...(this.isDelayed(item) && item.estimatedShipDate && { estimatedShipDate: new Date(item.estimatedShipDate) })
+    }]));
+
+    const delayed = items.filter(item => this.isDelayed(item));
+    if (this.config.backorderPolicy !== BackorderPolicy.HOLD_ORDER || delayed.length === 0) {
+      return expectations;
+    }
+
+    const heldUntil = delayed.every(item => item.estimatedShipDate)
+      ? new Date(Math.max(...delayed.map(item => new Date(item.estimatedShipDate).getTime())))
+      : undefined;
+    for (const expectation of expectations.values()) {
+      if (heldUntil) {
+        expectation.estimatedShipDate = heldUntil;
+      } else {
+        delete expectation.estimatedShipDate;
+      }
+    }
+
+    return expectations;
+  }
+
+  private parseBackorderPolicy(value: string): BackorderPolicy {
+    if (Object.values(BackorderPolicy).includes(value as BackorderPolicy)) {
+      return value as BackorderPolicy;
+    }
+
+    this.logger.warn(`Unknown back-order policy "${value}", splitting shipments instead`);
+    return BackorderPolicy.SPLIT_SHIPMENT;
+  }
+
+  /**
+   * Subscription frequency of a cart line, if the customer subscribed to it
+   */
+  private subscriptionOf(item: any): SubscriptionFrequency | undefined {
+    return item.subscriptionEvery && item.subscriptionUnit
+      ? { every: item.subscriptionEvery, unit: item.subscriptionUnit as SubscriptionUnit }
+      : undefined;
+  }
+
+  /**
+   * Gift option charge in the checkout currency
+   */
+  private async calculateGiftCharge(gift: GiftOptions | undefined, units: number, currency: string): Promise<number> {
+    const charge = this.giftOptionsService.charge(gift, units);
+    return charge > 0 ? this.currencyService.fromBase(charge, currency) : 0;
+  }
+
   /**
    * Create order
    */
@@ -613,11 +878,18 @@ export class CheckoutService {
           variantId: item.variantId,
           quantity: item.quantity,
           unitPrice: item.price,
+          gift: item.gift,
+          giftCharge: item.giftCharge,
+          fulfillment: item.fulfillment,
           metadata: {
             productName: item.name,
             checkoutSessionId: orderRequest.checkoutSessionId
           }
         })),
+        backorderPolicy: orderRequest.backorderPolicy,
+        channel: orderRequest.channel,
+        gift: orderRequest.gift,
+        giftCharge: orderRequest.giftCharge,
         shippingAddress: {
           firstName: orderRequest.shippingAddress.firstName,
           lastName: orderRequest.shippingAddress.lastName,
@@ -649,6 +921,32 @@ export class CheckoutService {
         paymentMethod: 'credit_card', // Default payment method
         paymentProvider: 'stripe', // Default payment provider
         shippingMethod: 'standard',
+        tax: orderRequest.totals.tax,
+        shipments: orderRequest.shipments?.map(shipment => ({
+          shippingAddress: {
+            firstName: shipment.shippingAddress.firstName,
+            lastName: shipment.shippingAddress.lastName,
+            company: shipment.shippingAddress.company,
+            address1: shipment.shippingAddress.address1,
+            address2: shipment.shippingAddress.address2,
+            city: shipment.shippingAddress.city,
+            state: shipment.shippingAddress.state,
+            postalCode: shipment.shippingAddress.postalCode,
+            country: shipment.shippingAddress.country,
+            phone: shipment.shippingAddress.phone,
+            email: shipment.shippingAddress.email,
+            isDefault: false
+          },
+          shippingMethod: shipment.shippingMethod?.id || 'standard',
+          shippingCost: shipment.shipping,
+          tax: shipment.tax,
+          items: shipment.items.map(item => ({
+            productId: item.productId,
+            variantId: item.variantId,
+            quantity: item.quantity
+          }))
+        })),
+        currency: orderRequest.totals.currency,
         notes: `Checkout session: ${orderRequest.checkoutSessionId}`,
         metadata: {
           checkoutSessionId: orderRequest.checkoutSessionId,
@@ -661,6 +959,24 @@ export class CheckoutService {
       const order = await this.orderService.createOrder(createOrderRequest);
 
       this.logger.log(`Order created: ${order.id} (${order.orderNumber})`);
+
+      // The order stands even if its subscriptions cannot be started
+      const subscribedLines: SubscribedLine[] = orderRequest.items
+        .filter(item => item.subscription)
+        .map(item => ({
+          productId: item.productId,
+          variantId: item.variantId,
+          quantity: item.quantity,
+          unitPrice: item.price,
+          frequency: item.subscription!
+        }));
+      if (subscribedLines.length > 0) {
+        try {
+          await this.subscriptionService.createForOrder(order, createOrderRequest, subscribedLines);
+        } catch (error) {
+          this.logger.error(`Subscriptions for order ${order.id} could not be started:`, error.message);
+        }
+      }
       return {
         success: true,
         orderId: order.id,
@@ -687,9 +1003,11 @@ export class CheckoutService {
   private async clearCartAfterCheckout(cartId: string): Promise<void> {
     try {
       // Remove all items from cart
-      await this.databaseService.prisma.cartItem.deleteMany({
-        where: { cartId }
-      });
+      await this.databaseService.cartEvent.track(cartId, CartEventType.CART_CLEARED, () =>
+        this.databaseService.prisma.cartItem.deleteMany({
+          where: { cartId }
+        }), { reason: 'checkout' });
+      await this.databaseService.cart.incrementVersion(cartId);
 
       // Update cart metadata
       await this.databaseService.prisma.cartMetadata.create({
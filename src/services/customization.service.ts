@@ -0,0 +1,297 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { createHash } from 'crypto';
+import { ProductClient } from '../clients/product.client';
+import { CurrencyService } from '../currency/currency.service';
+import { PricingService } from './pricing.service';
+import { CustomizationField, ProductCustomizationSchema } from '../types/product-integration.types';
+import { CartItem, CartServiceError, CustomizationValues, ItemPriceDto, LineCustomization } from '../types/cart.types';
+import { SalesChannel } from '../types/channel.types';
+
+export interface ResolvedCustomization {
+    customization?: LineCustomization;
+    // Per-unit surcharge in the requested currency
+    surcharge: number;
+}
+
+export interface CustomizedItemPrice {
+    pricing: ItemPriceDto;
+    customization?: LineCustomization;
+}
+
+@Injectable()
+export class CustomizationService {
+    private readonly logger = new Logger(CustomizationService.name);
+
+    constructor(
+        private readonly productClient: ProductClient,
+        private readonly pricingService: PricingService,
+        private readonly currencyService: CurrencyService
+    ) { }
+
+    /**
+     * Resolve the price of a cart line including its customization surcharge.
+     * Lines without customization are priced exactly as resolveItemPrice does.
+     */
+    async priceLine(
+        productId: string,
+        variantId: string | undefined,
+        values: CustomizationValues | undefined,
+        currency?: string,
+        channel?: SalesChannel
+    ): Promise<CustomizedItemPrice> {
+        const [pricing, resolved] = await Promise.all([
+            this.pricingService.resolveItemPrice(productId, variantId, currency, channel),
+            this.resolveCustomization(productId, values, currency)
+        ]);
+
+        if (!resolved.customization) {
+            return { pricing };
+        }
+
+        const targetCurrency = currency || this.currencyService.getBaseCurrency();
+        return {
+            pricing: {
+                price: this.currencyService.round(pricing.price + resolved.surcharge, targetCurrency),
+                originalPrice: pricing.originalPrice !== undefined
+                    ? this.currencyService.round(pricing.originalPrice + resolved.surcharge, targetCurrency)
+                    : undefined,
+                surcharge: resolved.surcharge
+            },
+            customization: resolved.customization
+        };
+    }
+
+    /**
+     * Reprice an existing line, keeping its customization. Uncustomized lines
+     * skip the customization rules so that rules added later do not block
+     * quantity or currency changes on lines already in a cart.
+     */
+    async repriceLine(
+        item: Pick<CartItem, 'productId' | 'variantId' | 'customization'>,
+        currency?: string,
+        channel?: SalesChannel
+    ): Promise<ItemPriceDto> {
+        if (!item.customization) {
+            return this.pricingService.resolveItemPrice(item.productId, item.variantId, currency, channel);
+        }
+
+        const { pricing } = await this.priceLine(item.productId, item.variantId, item.customization, currency, channel);
+        return pricing;
+    }
+
+    /**
+     * Validate customization values against the product's rules, including
+     * required fields when no values are given, and work out the per-unit
+     * surcharge. Empty values resolve to no customization.
+     * Throws INVALID_CUSTOMIZATION listing every rule that was broken.
+     */
+    async resolveCustomization(
+        productId: string,
+        values: CustomizationValues | undefined,
+        currency?: string
+    ): Promise<ResolvedCustomization> {
+        const provided = this.stripEmpty(values);
+        const schema = await this.getSchema(productId, Object.keys(provided).length > 0);
+
+        if (!schema) {
+            return { surcharge: 0 };
+        }
+
+        const errors: string[] = [];
+        const normalized: CustomizationValues = {};
+        let surcharge = 0;
+
+        const fieldsByKey = new Map(schema.fields.map(field => [field.key, field]));
+        for (const key of Object.keys(provided)) {
+            if (!fieldsByKey.has(key)) {
+                errors.push(`${key} is not a customization option for this product`);
+            }
+        }
+
+        for (const field of schema.fields) {
+            const value = provided[field.key];
+
+            if (value === undefined) {
+                if (field.required) {
+                    errors.push(`${field.label} is required`);
+                }
+                continue;
+            }
+
+            // An unticked boolean option is the same as leaving it out
+            const normalizedValue = this.validateField(field, value, errors);
+            if (normalizedValue === undefined || normalizedValue === false) {
+                continue;
+            }
+
+            normalized[field.key] = normalizedValue;
+            surcharge += Number(field.surcharge) || 0;
+            surcharge += Number(field.optionSurcharges?.[String(normalizedValue)]) || 0;
+        }
+
+        if (errors.length > 0) {
+            throw new CartServiceError(
+                'INVALID_CUSTOMIZATION',
+                `Customization is not valid for product ${productId}`,
+                { productId, errors }
+            );
+        }
+
+        if (Object.keys(normalized).length === 0) {
+            return { surcharge: 0 };
+        }
+
+        const sourceCurrency = schema.currency || this.currencyService.getBaseCurrency();
+        const targetCurrency = currency || this.currencyService.getBaseCurrency();
+
+        return {
+            customization: { values: normalized, fingerprint: this.fingerprint(normalized) },
+            surcharge: surcharge > 0
+                ? await this.currencyService.convert(surcharge, sourceCurrency, targetCurrency)
+                : 0
+        };
+    }
+
+    /**
+     * Stable fingerprint of a set of customization values: the same values in
+     * any key order give the same fingerprint, and no values give ''
+     */
+    fingerprint(values: CustomizationValues | undefined): string {
+        const provided = this.stripEmpty(values);
+        const keys = Object.keys(provided).sort();
+
+        if (keys.length === 0) {
+            return '';
+        }
+
+        const canonical = JSON.stringify(keys.map(key => [key, provided[key]]));
+        return createHash('sha256').update(canonical).digest('hex');
+    }
+
+    /**
+     * Fetch the product's customization rules. A product without rules
+     * accepts no customization, so a failed lookup only matters when values
+     * were actually given.
+     */
+    private async getSchema(productId: string, hasValues: boolean): Promise<ProductCustomizationSchema | null> {
+        let schema: ProductCustomizationSchema | null;
+
+        try {
+            schema = await this.productClient.getCustomizationSchema(productId);
+        } catch (error) {
+            if (!hasValues) {
+                this.logger.warn(`No customization rules for ${productId}: ${error.message}`);
+                return null;
+            }
+            this.logger.error(`Failed to resolve customization rules for ${productId}:`, error.message);
+            throw new CartServiceError(
+                'CUSTOMIZATION_UNAVAILABLE',
+                `Customization rules could not be loaded for product ${productId}`,
+                { productId, reason: error.message }
+            );
+        }
+
+        if (!schema?.fields?.length) {
+            if (hasValues) {
+                throw new CartServiceError(
+                    'INVALID_CUSTOMIZATION',
+                    `Product ${productId} cannot be customized`,
+                    { productId }
+                );
+            }
+            return null;
+        }
+
+        return schema;
+    }
+
+    /**
+     * Check one value against its field rules, returning the normalized value
+     * or undefined (with the reason added to errors) when it is not valid
+     */
+    private validateField(
+        field: CustomizationField,
+        value: string | number | boolean,
+        errors: string[]
+    ): string | number | boolean | undefined {
+        switch (field.type) {
+            case 'text': {
+                if (typeof value !== 'string') {
+                    errors.push(`${field.label} must be text`);
+                    return undefined;
+                }
+                const text = value.trim();
+                if (field.minLength !== undefined && text.length < field.minLength) {
+                    errors.push(`${field.label} must be at least ${field.minLength} characters`);
+                    return undefined;
+                }
+                if (field.maxLength !== undefined && text.length > field.maxLength) {
+                    errors.push(`${field.label} must be at most ${field.maxLength} characters`);
+                    return undefined;
+                }
+                if (field.pattern && !new RegExp(field.pattern).test(text)) {
+                    errors.push(`${field.label} has an invalid format`);
+                    return undefined;
+                }
+                return text;
+            }
+
+            case 'number': {
+                const number = typeof value === 'number' ? value : Number(value);
+                if (typeof value === 'boolean' || !Number.isFinite(number)) {
+                    errors.push(`${field.label} must be a number`);
+                    return undefined;
+                }
+                if (field.min !== undefined && number < field.min) {
+                    errors.push(`${field.label} must be at least ${field.min}`);
+                    return undefined;
+                }
+                if (field.max !== undefined && number > field.max) {
+                    errors.push(`${field.label} must be at most ${field.max}`);
+                    return undefined;
+                }
+                return number;
+            }
+
+            case 'select': {
+                const option = String(value);
+                if (!field.options?.includes(option)) {
+                    errors.push(`${field.label} must be one of: ${(field.options || []).join(', ')}`);
+                    return undefined;
+                }
+                return option;
+            }
+
+            case 'boolean': {
+                if (typeof value !== 'boolean') {
+                    errors.push(`${field.label} must be true or false`);
+                    return undefined;
+                }
+                return value;
+            }
+
+            default:
+                errors.push(`${field.label} has an unsupported type`);
+                return undefined;
+        }
+    }
+
+    /**
+     * Drop blank values so that an empty engraving is the same as none
+     */
+    private stripEmpty(values: CustomizationValues | undefined): CustomizationValues {
+        const provided: CustomizationValues = {};
+
+        for (const [key, value] of Object.entries(values || {})) {
+            if (value === null || value === undefined) {
+                continue;
+            }
+            if (typeof value === 'string' && value.trim() === '') {
+                continue;
+            }
+            provided[key] = value;
+        }
+
+        return provided;
+    }
+}
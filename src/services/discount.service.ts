@@ -1,5 +1,7 @@
 import { Injectable, Logger, NotFoundException, BadRequestException } from '@nestjs/common';
 import { DatabaseService } from '../database/database.service';
+import { CurrencyService } from '../currency/currency.service';
+import { TenantService } from '../tenant/tenant.service';
 import { 
   Discount, 
   DiscountType, 
@@ -14,7 +16,11 @@ import { v4 as uuidv4 } from 'uuid';
 export class DiscountService {
   private readonly logger = new Logger(DiscountService.name);
 
-  constructor(private readonly databaseService: DatabaseService) {}
+  constructor(
+    private readonly databaseService: DatabaseService,
+    private readonly currencyService: CurrencyService,
+    private readonly tenantService: TenantService
+  ) {}
 
   /**
    * Create a new discount
@@ -101,12 +107,12 @@ export class DiscountService {
   }
 
   /**
-   * Get discount by code
+   * Get discount by code; codes are unique per store
    */
   async getDiscountByCode(code: string): Promise<Discount | null> {
     try {
       const discount = await this.databaseService.discount.findUnique({
-        where: { code }
+        where: { tenantId_code: { tenantId: this.tenantService.currentTenantId(), code } }
       });
 
       return discount as Discount;
@@ -144,10 +150,15 @@ export class DiscountService {
         return null;
       }
 
-      // Check minimum order amount
+      // Check minimum order amount (defined in the base currency)
       const subtotal = this.calculateSubtotal(request.items);
-      if (discount.minimumOrderAmount && subtotal < discount.minimumOrderAmount) {
-        return null;
+      if (discount.minimumOrderAmount) {
+        const minimumOrderAmount = request.currency
+          ? await this.currencyService.fromBase(discount.minimumOrderAmount, request.currency)
+          : discount.minimumOrderAmount;
+        if (subtotal < minimumOrderAmount) {
+          return null;
+        }
       }
 
       // Check applicable products
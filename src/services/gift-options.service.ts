@@ -0,0 +1,98 @@
+import { Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { CartServiceError } from '../types/cart.types';
+import { GiftOptions } from '../types/gift.types';
+
+const RECIPIENT_NAME_MAX_LENGTH = 100;
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+// Control characters other than line breaks never belong in a printed message
+const CONTROL_CHARACTERS = /[\u0000-\u0009\u000B\u000C\u000E-\u001F\u007F]/;
+
+/**
+ * Gift options policy: validates gift messages and recipients, and prices
+ * the add-ons. Prices are in the base currency: GIFT_WRAP_PRICE is charged
+ * per wrapped unit on a line and once for a wrapped cart, GIFT_MESSAGE_PRICE
+ * once per message.
+ */
+@Injectable()
+export class GiftOptionsService {
+    private readonly wrapPrice: number;
+    private readonly messagePrice: number;
+    private readonly messageMaxLength: number;
+    private readonly bannedCharacters: string[];
+
+    constructor(private readonly configService: ConfigService) {
+        this.wrapPrice = Math.max(0, Number(this.configService.get('GIFT_WRAP_PRICE', 4.99)) || 0);
+        this.messagePrice = Math.max(0, Number(this.configService.get('GIFT_MESSAGE_PRICE', 0)) || 0);
+        this.messageMaxLength = Math.max(1, Number(this.configService.get('GIFT_MESSAGE_MAX_LENGTH', 250)) || 250);
+        this.bannedCharacters = Array.from(String(this.configService.get('GIFT_MESSAGE_BANNED_CHARACTERS', '<>{}[]\\|^~`')));
+    }
+
+    /**
+     * Validate gift options and return them trimmed, dropping the ones that
+     * are switched off. Returns undefined when nothing is left, which clears
+     * the gift options.
+     */
+    normalize(options: GiftOptions | undefined): GiftOptions | undefined {
+        if (!options) {
+            return undefined;
+        }
+
+        const errors: string[] = [];
+        const normalized: GiftOptions = {};
+
+        if (options.wrap) {
+            normalized.wrap = true;
+        }
+        if (options.giftReceipt) {
+            normalized.giftReceipt = true;
+        }
+
+        const message = options.message?.trim();
+        if (message) {
+            if (message.length > this.messageMaxLength) {
+                errors.push(`message must be at most ${this.messageMaxLength} characters`);
+            }
+            const banned = this.bannedCharacters.filter(character => message.includes(character));
+            if (banned.length > 0) {
+                errors.push(`message must not contain ${banned.join(' ')}`);
+            }
+            if (CONTROL_CHARACTERS.test(message)) {
+                errors.push('message must not contain control characters');
+            }
+            normalized.message = message;
+        }
+
+        if (options.recipient) {
+            const name = options.recipient.name?.trim();
+            const email = options.recipient.email?.trim();
+            if (!name) {
+                errors.push('recipient.name is required');
+            } else if (name.length > RECIPIENT_NAME_MAX_LENGTH || CONTROL_CHARACTERS.test(name)) {
+                errors.push(`recipient.name must be at most ${RECIPIENT_NAME_MAX_LENGTH} printable characters`);
+            }
+            if (email && !EMAIL_PATTERN.test(email)) {
+                errors.push('recipient.email is not a valid email address');
+            }
+            normalized.recipient = { name: name ?? '', ...(email && { email }) };
+        }
+
+        if (errors.length > 0) {
+            throw new CartServiceError('INVALID_GIFT_OPTIONS', 'Gift options are not valid', { errors });
+        }
+
+        return Object.keys(normalized).length > 0 ? normalized : undefined;
+    }
+
+    /**
+     * Charge in the base currency for gift options covering the given number
+     * of units (1 for the cart as a whole)
+     */
+    charge(options: GiftOptions | undefined, units: number = 1): number {
+        if (!options) {
+            return 0;
+        }
+
+        return (options.wrap ? this.wrapPrice * units : 0) + (options.message ? this.messagePrice : 0);
+    }
+}
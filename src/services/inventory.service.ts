@@ -2,6 +2,8 @@ import { Injectable, Logger, BadRequestException } from '@nestjs/common';
 import { ProductClient } from '../clients/product.client';
 import { DatabaseService } from '../database/database.service';
 import { InventoryStatus } from '../types/product-integration.types';
+import { CartServiceError } from '../types/cart.types';
+import { AvailabilityStatus, FulfillmentExpectation } from '../types/fulfillment.types';
 
 export interface InventoryReservation {
     id: string;
@@ -94,6 +96,50 @@ export class InventoryService {
         return results;
     }
 
+    /**
+     * How a quantity of a product can be fulfilled. A quantity the stock
+     * cannot cover is accepted for pre-order or back-order products, with
+     * the restock (or, for a pre-order, the release) date as the estimated
+     * ship date; for other products it fails with INSUFFICIENT_STOCK.
+     */
+    async resolveAvailability(
+        productId: string,
+        variantId: string | undefined,
+        quantity: number
+    ): Promise<FulfillmentExpectation> {
+        const [result] = await this.checkInventoryAvailability([{ productId, variantId, quantity }]);
+        if (result.canFulfill) {
+            return { availability: AvailabilityStatus.IN_STOCK };
+        }
+
+        let product;
+        try {
+            product = await this.productClient.getProduct(productId);
+        } catch (error) {
+            this.logger.warn(`No back-order flags for ${productId}: ${error.message}`);
+        }
+
+        if (product?.preorder) {
+            const shipDate = result.estimatedRestock ?? product.releaseDate;
+            return {
+                availability: AvailabilityStatus.PREORDER,
+                ...(shipDate && { estimatedShipDate: new Date(shipDate) })
+            };
+        }
+        if (product?.backorderable) {
+            return {
+                availability: AvailabilityStatus.BACKORDER,
+                ...(result.estimatedRestock && { estimatedShipDate: new Date(result.estimatedRestock) })
+            };
+        }
+
+        throw new CartServiceError(
+            'INSUFFICIENT_STOCK',
+            `${productId} does not have ${quantity} in stock`,
+            { productId, variantId, warnings: result.warnings }
+        );
+    }
+
     /**
      * Reserve inventory for cart items
      */
@@ -299,10 +345,11 @@ export class InventoryService {
     }
 
     /**
-     * Validate inventory before checkout
+     * Validate inventory before checkout. Lines accepted as back-orders or
+     * pre-orders are expected to be short of stock and only warn.
      */
     async validateInventoryForCheckout(
-        items: Array<{ productId: string; variantId?: string; quantity: number }>
+        items: Array<{ productId: string; variantId?: string; quantity: number; availability?: string }>
     ): Promise<{
         isValid: boolean;
         errors: string[];
@@ -320,6 +367,14 @@ export class InventoryService {
                 const item = items[i];
                 const availabilityResult = availability[i];
 
+                if (item.availability && item.availability !== AvailabilityStatus.IN_STOCK) {
+                    if (!availabilityResult.canFulfill) {
+                        const kind = item.availability === AvailabilityStatus.PREORDER ? 'pre-ordered' : 'back-ordered';
+                        warnings.push(`${item.productId}: ${kind}, ships when available`);
+                    }
+                    continue;
+                }
+
                 if (!availabilityResult.available) {
                     errors.push(`Product ${item.productId} is not available`);
                     unavailableItems.push(item.productId);
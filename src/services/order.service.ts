@@ -1,8 +1,12 @@
 import { Injectable, NotFoundException, BadRequestException, ConflictException } from '@nestjs/common';
 import { DatabaseService } from '../database/database.service';
+import { CurrencyService } from '../currency/currency.service';
+import { TenantService } from '../tenant/tenant.service';
 import {
   Order,
   OrderStatus,
+  OrderShipping,
+  OrderShipmentItem,
   PaymentStatus,
   ShippingStatus,
   CreateOrderRequest,
@@ -18,10 +22,17 @@ import { v4 as uuidv4 } from 'uuid';
 
 @Injectable()
 export class OrderService {
-  constructor(private readonly databaseService: DatabaseService) { }
+  constructor(
+    private readonly databaseService: DatabaseService,
+    private readonly currencyService: CurrencyService,
+    private readonly tenantService: TenantService
+  ) { }
 
   async createOrder(createOrderRequest: CreateOrderRequest): Promise<OrderResponse> {
-    const { userId, sessionId, items, shippingAddress, billingAddress, paymentMethod, paymentProvider, shippingMethod, notes, metadata } = createOrderRequest;
+    const { userId, sessionId, items, gift, backorderPolicy, channel, shippingAddress, billingAddress, paymentMethod, paymentProvider, shippingMethod, shipments, notes, metadata } = createOrderRequest;
+    const currency = createOrderRequest.currency
+      ? this.currencyService.assertSupported(createOrderRequest.currency)
+      : this.currencyService.getStoreCurrency();
 
     // Validate items
     if (!items || items.length === 0) {
@@ -30,10 +41,25 @@ export class OrderService {
 
     // Calculate totals
     const subtotal = items.reduce((sum, item) => sum + (item.unitPrice * item.quantity), 0);
-    const tax = subtotal * 0.1; // 10% tax - should be calculated based on location
-    const shipping = 10; // Fixed shipping cost - should be calculated based on method and location
+    // A split order carries the shipping cost of each destination
+    const shipping = shipments?.length
+      ? shipments.reduce((sum, shipment) => sum + shipment.shippingCost, 0)
+      : await this.currencyService.fromBase(10, currency); // Fixed shipping cost - should be calculated based on method and location
+    const destinations = shipments?.length
+      ? shipments
+      : [{ shippingAddress, shippingMethod, shippingCost: shipping, tax: createOrderRequest.tax, items: undefined }];
+    // Each destination is taxed as worked out at checkout; one without a
+    // worked-out tax is estimated at 10% of its goods. A store whose prices
+    // include tax charges none on top.
+    const pricesIncludeTax = this.tenantService.pricesIncludeTax();
+    const destinationTaxes = destinations.map(destination => destination.tax ?? this.estimateTax(
+      destination.items ? this.shipmentSubtotal(items, destination.items) : subtotal,
+      pricesIncludeTax
+    ));
+    const tax = destinationTaxes.reduce((sum, amount) => sum + amount, 0);
     const discount = 0; // No discount for now
-    const total = subtotal + tax + shipping - discount;
+    const giftCharges = items.reduce((sum, item) => sum + (item.giftCharge || 0), createOrderRequest.giftCharge || 0);
+    const total = subtotal + (pricesIncludeTax ? 0 : tax) + shipping + giftCharges - discount;
 
     // Generate order number
     const orderNumber = this.generateOrderNumber();
@@ -49,11 +75,30 @@ export class OrderService {
       quantity: item.quantity,
       unitPrice: item.unitPrice,
       totalPrice: item.unitPrice * item.quantity,
+      gift: item.gift,
+      giftCharge: item.giftCharge,
+      fulfillment: item.fulfillment,
       metadata: item.metadata,
       createdAt: new Date(),
       updatedAt: new Date()
     }));
 
+    const [primaryShipping, ...additionalShipments] = destinations.map((destination, index) => ({
+      id: uuidv4(),
+      orderId: '', // Will be set after order creation
+      carrier: 'Standard',
+      trackingNumber: undefined,
+      status: ShippingStatus.PENDING,
+      shippingAddress: { ...destination.shippingAddress, id: uuidv4() },
+      shippingMethod: destination.shippingMethod,
+      shippingCost: destination.shippingCost,
+      tax: destinationTaxes[index],
+      items: destination.items,
+      metadata: {},
+      createdAt: new Date(),
+      updatedAt: new Date()
+    }));
+
     // Create order
     const order: Order = {
       id: uuidv4(),
@@ -67,8 +112,9 @@ export class OrderService {
         tax,
         shipping,
         discount,
+        gift: giftCharges,
         total,
-        currency: 'USD'
+        currency
       },
       payment: {
         id: uuidv4(),
@@ -77,26 +123,18 @@ export class OrderService {
         paymentProvider,
         transactionId: undefined,
         amount: total,
-        currency: 'USD',
+        currency,
         status: PaymentStatus.PENDING,
         metadata: {},
         createdAt: new Date(),
         updatedAt: new Date()
       },
-      shipping: {
-        id: uuidv4(),
-        orderId: '', // Will be set after order creation
-        carrier: 'Standard',
-        trackingNumber: undefined,
-        status: ShippingStatus.PENDING,
-        shippingAddress: { ...shippingAddress, id: uuidv4() },
-        shippingMethod,
-        shippingCost: shipping,
-        metadata: {},
-        createdAt: new Date(),
-        updatedAt: new Date()
-      },
+      shipping: primaryShipping,
+      additionalShipments: additionalShipments.length > 0 ? additionalShipments : undefined,
       billingAddress: { ...billingAddress, id: uuidv4() },
+      backorderPolicy,
+      channel,
+      gift,
       notes,
       metadata: metadata || {},
       createdAt: new Date(),
@@ -107,6 +145,7 @@ export class OrderService {
     order.items.forEach(item => item.orderId = order.id);
     order.payment.orderId = order.id;
     order.shipping.orderId = order.id;
+    order.additionalShipments?.forEach(shipment => shipment.orderId = order.id);
 
     // Save to database
     await this.databaseService.order.create({
@@ -116,6 +155,16 @@ export class OrderService {
         userId: order.userId,
         sessionId: order.sessionId,
         status: order.status,
+        backorderPolicy: order.backorderPolicy,
+        channel: order.channel,
+        gift: order.gift,
+        subtotal: order.totals.subtotal,
+        tax: order.totals.tax,
+        shippingCost: order.totals.shipping,
+        discount: order.totals.discount,
+        giftCharge: order.totals.gift,
+        total: order.totals.total,
+        currency: order.totals.currency,
         notes: order.notes,
         metadata: order.metadata,
         createdAt: order.createdAt,
@@ -132,6 +181,9 @@ export class OrderService {
             totalPrice: item.totalPrice,
             productImage: item.productImage,
             productUrl: item.productUrl,
+            gift: item.gift,
+            giftCharge: item.giftCharge,
+            fulfillment: item.fulfillment,
             metadata: item.metadata,
             createdAt: item.createdAt,
             updatedAt: item.updatedAt
@@ -152,21 +204,13 @@ export class OrderService {
           }
         },
         shipping: {
-          create: {
-            id: order.shipping.id,
-            carrier: order.shipping.carrier,
-            trackingNumber: order.shipping.trackingNumber,
-            status: order.shipping.status,
-            estimatedDelivery: order.shipping.estimatedDelivery,
-            actualDelivery: order.shipping.actualDelivery,
-            shippingAddress: order.shipping.shippingAddress,
-            shippingMethod: order.shipping.shippingMethod,
-            shippingCost: order.shipping.shippingCost,
-            metadata: order.shipping.metadata,
-            createdAt: order.shipping.createdAt,
-            updatedAt: order.shipping.updatedAt
-          }
+          create: this.toShippingData(order.shipping)
         },
+        ...(order.additionalShipments && {
+          additionalShipments: {
+            create: order.additionalShipments.map(shipment => this.toShippingData(shipment))
+          }
+        }),
         billingAddress: {
           create: {
             id: uuidv4(),
@@ -200,6 +244,7 @@ export class OrderService {
         items: true,
         payment: true,
         shipping: true,
+        additionalShipments: true,
         billingAddress: true
       }
     });
@@ -208,7 +253,7 @@ export class OrderService {
       throw new NotFoundException(`Order with ID ${orderId} not found`);
     }
 
-    return this.mapOrderToResponse(order as Order);
+    return this.mapOrderToResponse(this.toOrder(order));
   }
 
   async getOrderByNumber(orderNumber: string): Promise<OrderResponse> {
@@ -218,6 +263,7 @@ export class OrderService {
         items: true,
         payment: true,
         shipping: true,
+        additionalShipments: true,
         billingAddress: true
       }
     });
@@ -226,7 +272,7 @@ export class OrderService {
       throw new NotFoundException(`Order with number ${orderNumber} not found`);
     }
 
-    return this.mapOrderToResponse(order as Order);
+    return this.mapOrderToResponse(this.toOrder(order));
   }
 
   async getUserOrders(userId: string, filters: OrderSearchFilters = {}): Promise<OrderListResponse> {
@@ -256,6 +302,7 @@ export class OrderService {
           items: true,
           payment: true,
           shipping: true,
+          additionalShipments: true,
           billingAddress: true
         },
         orderBy: { [sortBy]: sortOrder },
@@ -266,7 +313,7 @@ export class OrderService {
     ]);
 
     return {
-      orders: orders.map(order => this.mapOrderToResponse(order as Order)),
+      orders: orders.map(order => this.mapOrderToResponse(this.toOrder(order))),
       pagination: {
         page,
         limit,
@@ -283,6 +330,7 @@ export class OrderService {
         items: true,
         payment: true,
         shipping: true,
+        additionalShipments: true,
         billingAddress: true
       }
     });
@@ -348,6 +396,7 @@ export class OrderService {
         items: true,
         payment: true,
         shipping: true,
+        additionalShipments: true,
         billingAddress: true
       }
     });
@@ -355,7 +404,7 @@ export class OrderService {
     // Log order update event
     await this.logOrderEvent(orderId, 'updated', updateOrderRequest, order.userId);
 
-    return this.mapOrderToResponse(updatedOrder as Order);
+    return this.mapOrderToResponse(this.toOrder(updatedOrder));
   }
 
   async cancelOrder(orderId: string, reason?: string): Promise<OrderResponse> {
@@ -385,6 +434,7 @@ export class OrderService {
         items: true,
         payment: true,
         shipping: true,
+        additionalShipments: true,
         billingAddress: true
       }
     });
@@ -392,7 +442,7 @@ export class OrderService {
     // Log cancellation event
     await this.logOrderEvent(orderId, 'cancelled', { reason }, order.userId);
 
-    return this.mapOrderToResponse(updatedOrder as Order);
+    return this.mapOrderToResponse(this.toOrder(updatedOrder));
   }
 
   async getOrderAnalytics(filters: OrderSearchFilters = {}): Promise<OrderAnalytics> {
@@ -402,6 +452,10 @@ export class OrderService {
       where.userId = filters.userId;
     }
 
+    if (filters.channel) {
+      where.channel = filters.channel;
+    }
+
     if (filters.dateFrom || filters.dateTo) {
       where.createdAt = {};
       if (filters.dateFrom) where.createdAt.gte = filters.dateFrom;
@@ -412,6 +466,7 @@ export class OrderService {
       totalOrders,
       orders,
       ordersByStatus,
+      ordersByChannel,
       ordersByPaymentStatus,
       ordersByShippingStatus,
       topProducts
@@ -426,6 +481,11 @@ export class OrderService {
         where,
         _count: { status: true }
       }),
+      this.databaseService.order.groupBy({
+        by: ['channel'],
+        where,
+        _count: { channel: true }
+      }),
       this.databaseService.payment.groupBy({
         by: ['status'],
         where: { order: where },
@@ -444,7 +504,7 @@ export class OrderService {
       })
     ]);
 
-    const totalRevenue = orders.reduce((sum, order) => sum + order.totals.total, 0);
+    const totalRevenue = orders.reduce((sum, order) => sum + Number(order.total), 0);
     const averageOrderValue = totalOrders > 0 ? totalRevenue / totalOrders : 0;
 
     return {
@@ -452,6 +512,7 @@ export class OrderService {
       totalRevenue,
       averageOrderValue,
       ordersByStatus: this.mapGroupByToRecord(ordersByStatus, 'status'),
+      ordersByChannel: this.mapGroupByToRecord(ordersByChannel, 'channel'),
       ordersByPaymentStatus: this.mapGroupByToRecord(ordersByPaymentStatus, 'status'),
       ordersByShippingStatus: this.mapGroupByToRecord(ordersByShippingStatus, 'status'),
       topProducts: topProducts.map(product => ({
@@ -472,6 +533,7 @@ export class OrderService {
 
     if (filters.userId) where.userId = filters.userId;
     if (filters.status) where.status = filters.status;
+    if (filters.channel) where.channel = filters.channel;
     if (filters.orderNumber) where.orderNumber = { contains: filters.orderNumber, mode: 'insensitive' };
     if (filters.productId) {
       where.items = { some: { productId: filters.productId } };
@@ -490,6 +552,7 @@ export class OrderService {
           items: true,
           payment: true,
           shipping: true,
+          additionalShipments: true,
           billingAddress: true
         },
         orderBy: { [sortBy]: sortOrder },
@@ -500,7 +563,7 @@ export class OrderService {
     ]);
 
     return {
-      orders: orders.map(order => this.mapOrderToResponse(order as Order)),
+      orders: orders.map(order => this.mapOrderToResponse(this.toOrder(order))),
       pagination: {
         page,
         limit,
@@ -551,6 +614,64 @@ export class OrderService {
     });
   }
 
+  /**
+   * Flat tax estimate for goods worth the given amount
+   */
+  private estimateTax(amount: number, pricesIncludeTax: boolean): number {
+    return pricesIncludeTax ? amount * 0.1 / 1.1 : amount * 0.1;
+  }
+
+  /**
+   * Worth of the order's items that go to one destination
+   */
+  private shipmentSubtotal(items: CreateOrderRequest['items'], shipmentItems: OrderShipmentItem[]): number {
+    return shipmentItems.reduce((sum, shipmentItem) => {
+      const item = items.find(entry =>
+        entry.productId === shipmentItem.productId &&
+        (entry.variantId || undefined) === (shipmentItem.variantId || undefined)
+      );
+      return sum + (item ? item.unitPrice * shipmentItem.quantity : 0);
+    }, 0);
+  }
+
+  private toShippingData(shipping: OrderShipping) {
+    return {
+      id: shipping.id,
+      carrier: shipping.carrier,
+      trackingNumber: shipping.trackingNumber,
+      status: shipping.status,
+      estimatedDelivery: shipping.estimatedDelivery,
+      actualDelivery: shipping.actualDelivery,
+      shippingAddress: shipping.shippingAddress,
+      shippingMethod: shipping.shippingMethod,
+      shippingCost: shipping.shippingCost,
+      tax: shipping.tax,
+      items: shipping.items,
+      metadata: shipping.metadata,
+      createdAt: shipping.createdAt,
+      updatedAt: shipping.updatedAt
+    };
+  }
+
+  /**
+   * Map a stored order with its relations to an Order, reading its totals
+   * from their columns
+   */
+  private toOrder(row: any): Order {
+    return {
+      ...row,
+      totals: {
+        subtotal: Number(row.subtotal),
+        tax: Number(row.tax),
+        shipping: Number(row.shippingCost),
+        discount: Number(row.discount),
+        gift: Number(row.giftCharge),
+        total: Number(row.total),
+        currency: row.currency
+      }
+    };
+  }
+
   private mapOrderToResponse(order: Order): OrderResponse {
     return {
       id: order.id,
@@ -576,10 +697,26 @@ export class OrderService {
         estimatedDelivery: order.shipping.estimatedDelivery,
         actualDelivery: order.shipping.actualDelivery
       },
+      shipments: order.additionalShipments?.length
+        ? [order.shipping, ...order.additionalShipments].map(shipment => ({
+            id: shipment.id,
+            status: shipment.status,
+            carrier: shipment.carrier,
+            trackingNumber: shipment.trackingNumber,
+            shippingAddress: shipment.shippingAddress,
+            shippingMethod: shipment.shippingMethod,
+            shippingCost: shipment.shippingCost,
+            tax: shipment.tax,
+            items: shipment.items
+          }))
+        : undefined,
       addresses: {
         shipping: order.shipping.shippingAddress,
         billing: order.billingAddress
       },
+      backorderPolicy: order.backorderPolicy,
+      channel: order.channel,
+      gift: order.gift,
       notes: order.notes,
       metadata: order.metadata,
       createdAt: order.createdAt,
@@ -8,6 +8,7 @@ import {
   PaymentResult,
   PaymentServiceConfig
 } from '../types/checkout.types';
+import { Currency } from '../types/pricing.types';
 
 export interface PaymentProcessingRequest {
   amount: number;
@@ -39,7 +40,7 @@ export class PaymentService {
       timeout: parseInt(this.configService.get('PAYMENT_SERVICE_TIMEOUT', '30000'), 10),
       retryAttempts: parseInt(this.configService.get('PAYMENT_SERVICE_RETRY_ATTEMPTS', '3'), 10),
       webhookSecret: this.configService.get('PAYMENT_WEBHOOK_SECRET', ''),
-      supportedCurrencies: ['USD', 'EUR', 'GBP', 'CAD'],
+      supportedCurrencies: Object.values(Currency),
       supportedPaymentMethods: ['credit_card', 'debit_card', 'paypal', 'stripe', 'apple_pay', 'google_pay']
     };
   }
@@ -0,0 +1,69 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { ProductClient } from '../clients/product.client';
+
+/**
+ * Price lock policy: when enabled, the price a line is added at is
+ * guaranteed for a window, set globally (PRICE_LOCK_HOURS) or per product
+ * category (PRICE_LOCK_CATEGORY_HOURS, e.g. "electronics=48,grocery=0").
+ * A window of zero hours means no lock.
+ */
+@Injectable()
+export class PriceLockService {
+    private readonly logger = new Logger(PriceLockService.name);
+    private readonly enabled: boolean;
+    private readonly defaultHours: number;
+    private readonly categoryHours: Map<string, number>;
+
+    constructor(
+        private readonly configService: ConfigService,
+        private readonly productClient: ProductClient
+    ) {
+        this.enabled = String(this.configService.get('PRICE_LOCK_ENABLED', 'false')) === 'true';
+        this.defaultHours = Math.max(0, Number(this.configService.get('PRICE_LOCK_HOURS', 24)) || 0);
+        this.categoryHours = this.parseCategoryHours(String(this.configService.get('PRICE_LOCK_CATEGORY_HOURS', '')));
+    }
+
+    /**
+     * When a price resolved now for the product stops being guaranteed, or
+     * undefined when the product's price is not locked. A product whose
+     * category cannot be loaded gets the global window.
+     */
+    async lockUntil(productId: string, now: Date = new Date()): Promise<Date | undefined> {
+        if (!this.enabled) {
+            return undefined;
+        }
+
+        let hours = this.defaultHours;
+        if (this.categoryHours.size > 0) {
+            try {
+                const product = await this.productClient.getProduct(productId);
+                hours = this.categoryHours.get(product.category?.toLowerCase()) ?? hours;
+            } catch (error) {
+                this.logger.warn(`No category for ${productId}, using the global price lock: ${error.message}`);
+            }
+        }
+
+        return hours > 0 ? new Date(now.getTime() + hours * 60 * 60 * 1000) : undefined;
+    }
+
+    isActive(lockedUntil?: Date | null, now: Date = new Date()): boolean {
+        return !!lockedUntil && lockedUntil > now;
+    }
+
+    private parseCategoryHours(value: string): Map<string, number> {
+        const categoryHours = new Map<string, number>();
+
+        for (const entry of value.split(',').map(part => part.trim()).filter(Boolean)) {
+            const [category, hours] = entry.split('=').map(part => part.trim());
+            const parsed = Number(hours);
+            if (!category || hours === undefined || !Number.isFinite(parsed) || parsed < 0) {
+                this.logger.warn(`Ignoring price lock window "${entry}"`);
+                continue;
+            }
+            categoryHours.set(category.toLowerCase(), parsed);
+        }
+
+        return categoryHours;
+    }
+}
@@ -11,11 +11,16 @@ import {
     TaxType,
     PricingItem,
     PricingValidationResult,
-    PricingError
+    PricingError,
+    Promotion
 } from '../types/pricing.types';
 import { DiscountService } from './discount.service';
 import { TaxService } from './tax.service';
 import { PromotionService } from './promotion.service';
+import { CurrencyService } from '../currency/currency.service';
+import { GiftOptionsService } from './gift-options.service';
+import { SubscriptionPolicyService } from './subscription-policy.service';
+import { ChannelPolicyService } from './channel-policy.service';
 
 @Injectable()
 export class PricingEngineService {
@@ -25,7 +30,11 @@ export class PricingEngineService {
         private readonly databaseService: DatabaseService,
         private readonly discountService: DiscountService,
         private readonly taxService: TaxService,
-        private readonly promotionService: PromotionService
+        private readonly promotionService: PromotionService,
+        private readonly currencyService: CurrencyService,
+        private readonly giftOptionsService: GiftOptionsService,
+        private readonly subscriptionPolicyService: SubscriptionPolicyService,
+        private readonly channelPolicyService: ChannelPolicyService
     ) { }
 
     /**
@@ -41,11 +50,22 @@ export class PricingEngineService {
                 throw new BadRequestException(`Invalid pricing request: ${validation.errors.map(e => e.message).join(', ')}`);
             }
 
+            // Item prices are already in the request currency; fixed amounts
+            // (fixed discounts, caps, shipping) are defined in the base currency
+            const currency = request.currency && Object.values(Currency).includes(request.currency)
+                ? request.currency
+                : this.currencyService.getStoreCurrency();
+            const fxRate = await this.currencyService.getRate(this.currencyService.getBaseCurrency(), currency);
+
             // Calculate subtotal
             const subtotal = this.calculateSubtotal(request.items);
 
+            // Discounts and taxes look at what is sold: standalone lines and
+            // bundle lines, not the components inside a bundle
+            const sellableRequest = { ...request, items: this.getSellableItems(request.items) };
+
             // Apply discounts
-            const discountApplications = await this.applyDiscounts(request, subtotal);
+            const discountApplications = await this.applyDiscounts(sellableRequest, subtotal, fxRate);
 
             // Calculate discount total
             const discountTotal = discountApplications.reduce((sum, discount) => sum + discount.appliedAmount, 0);
@@ -54,16 +74,22 @@ export class PricingEngineService {
             const afterDiscountAmount = Math.max(0, subtotal - discountTotal);
 
             // Calculate taxes
-            const taxApplications = await this.calculateTaxes(request, afterDiscountAmount);
+            const taxApplications = await this.calculateTaxes({ ...sellableRequest, currency }, afterDiscountAmount);
 
             // Calculate tax total
             const taxTotal = taxApplications.reduce((sum, tax) => sum + tax.appliedAmount, 0);
 
             // Calculate shipping (simplified for now)
-            const shipping = await this.calculateShipping(request);
+            const shipping = this.currencyService.round(await this.calculateShipping(request, fxRate), currency);
+
+            // Gift add-ons are charged on top and are not discounted
+            const giftTotal = this.currencyService.round(this.calculateGiftCharges(sellableRequest) * fxRate, currency);
 
-            // Calculate final total
-            const total = afterDiscountAmount + taxTotal + shipping;
+            // Calculate final total; inclusive taxes are already in the prices
+            const addedTax = taxApplications
+                .filter(tax => !tax.isInclusive)
+                .reduce((sum, tax) => sum + tax.appliedAmount, 0);
+            const total = afterDiscountAmount + addedTax + shipping + giftTotal;
 
             // Create price breakdown
             const breakdown: PriceBreakdown = {
@@ -73,26 +99,30 @@ export class PricingEngineService {
                 taxes: taxApplications,
                 taxTotal,
                 shipping,
+                giftTotal,
                 total,
-                currency: request.currency || Currency.USD
+                currency
             };
 
             // Get applied promotions
             const appliedPromotions = await this.getAppliedPromotions(request);
 
-            this.logger.log(`Pricing calculated: Subtotal: ${subtotal}, Discounts: ${discountTotal}, Tax: ${taxTotal}, Total: ${total}`);
+            this.logger.log(`Pricing calculated: Subtotal: ${subtotal}, Discounts: ${discountTotal}, Tax: ${taxTotal}, Gift: ${giftTotal}, Total: ${total}`);
 
             return {
                 breakdown,
                 appliedDiscounts: discountApplications,
                 appliedTaxes: taxApplications,
                 appliedPromotions,
-                currency: request.currency || Currency.USD,
+                currency,
                 metadata: {
                     calculatedAt: new Date(),
                     itemCount: request.items.length,
                     hasDiscounts: discountApplications.length > 0,
-                    hasTaxes: taxApplications.length > 0
+                    hasTaxes: taxApplications.length > 0,
+                    bundleSavings: this.currencyService.round(this.calculateBundleSavings(request.items), currency),
+                    channel: request.channel,
+                    priceList: this.channelPolicyService.priceListFor(request.channel)
                 }
             };
 
@@ -111,10 +141,37 @@ export class PricingEngineService {
         }, 0);
     }
 
+    /**
+     * Items that are sold as a line of their own (bundle components are not)
+     */
+    private getSellableItems(items: PricingItem[]): PricingItem[] {
+        return items.filter(item => !item.isBundleComponent);
+    }
+
+    /**
+     * Amount saved by buying bundles instead of their components separately
+     */
+    private calculateBundleSavings(items: PricingItem[]): number {
+        return items
+            .filter(item => item.bundleId && !item.isBundleComponent && item.listPrice)
+            .reduce((sum, item) => sum + Math.max(0, item.listPrice! - item.unitPrice) * item.quantity, 0);
+    }
+
+    /**
+     * Gift wrap and message charges in the base currency, for each gifted
+     * line and for the order as a whole
+     */
+    private calculateGiftCharges(request: PricingRequest): number {
+        return request.items.reduce(
+            (sum, item) => sum + this.giftOptionsService.charge(item.gift, item.quantity),
+            this.giftOptionsService.charge(request.gift)
+        );
+    }
+
     /**
      * Apply discounts to pricing
      */
-    private async applyDiscounts(request: PricingRequest, subtotal: number): Promise<DiscountApplication[]> {
+    private async applyDiscounts(request: PricingRequest, subtotal: number, fxRate: number): Promise<DiscountApplication[]> {
         const discountApplications: DiscountApplication[] = [];
 
         try {
@@ -123,7 +180,7 @@ export class PricingEngineService {
                 for (const couponCode of request.couponCodes) {
                     const discount = await this.discountService.validateCoupon(couponCode, request);
                     if (discount) {
-                        const appliedAmount = this.calculateDiscountAmount(discount, subtotal);
+                        const appliedAmount = this.calculateDiscountAmount(discount, subtotal, fxRate);
                         if (appliedAmount > 0) {
                             discountApplications.push({
                                 id: discount.id,
@@ -145,31 +202,28 @@ export class PricingEngineService {
             }
 
             // Apply promotions
-            if (request.promotionIds && request.promotionIds.length > 0) {
-                for (const promotionId of request.promotionIds) {
-                    const promotion = await this.promotionService.getPromotionById(promotionId);
-                    if (promotion && await this.promotionService.isPromotionApplicable(promotion, request)) {
-                        const rewards = await this.promotionService.applyPromotion(promotion, request);
-                        for (const reward of rewards) {
-                            if (reward.type === 'discount') {
-                                const appliedAmount = this.calculatePromotionDiscount(reward, subtotal);
-                                if (appliedAmount > 0) {
-                                    discountApplications.push({
-                                        id: `promo_${promotion.id}`,
-                                        type: DiscountType.PERCENTAGE,
-                                        name: promotion.name,
-                                        description: promotion.description,
-                                        value: reward.value,
-                                        appliedAmount,
-                                        isStackable: true,
+            for (const promotion of await this.getChannelPromotions(request)) {
+                if (await this.promotionService.isPromotionApplicable(promotion, request)) {
+                    const rewards = await this.promotionService.applyPromotion(promotion, request);
+                    for (const reward of rewards) {
+                        if (reward.type === 'discount') {
+                            const appliedAmount = this.calculatePromotionDiscount(reward, subtotal);
+                            if (appliedAmount > 0) {
+                                discountApplications.push({
+                                    id: `promo_${promotion.id}`,
+                                    type: DiscountType.PERCENTAGE,
+                                    name: promotion.name,
+                                    description: promotion.description,
+                                    value: reward.value,
+                                    appliedAmount,
+                                    isStackable: true,
+                                    promotionId: promotion.id,
+                                    metadata: {
                                         promotionId: promotion.id,
-                                        metadata: {
-                                            promotionId: promotion.id,
-                                            rewardType: reward.type,
-                                            appliedAt: new Date()
-                                        }
-                                    });
-                                }
+                                        rewardType: reward.type,
+                                        appliedAt: new Date()
+                                    }
+                                });
                             }
                         }
                     }
@@ -177,9 +231,15 @@ export class PricingEngineService {
             }
 
             // Apply automatic discounts (bulk, seasonal, etc.)
-            const automaticDiscounts = await this.getAutomaticDiscounts(request, subtotal);
+            const automaticDiscounts = await this.getAutomaticDiscounts(request, subtotal, fxRate);
             discountApplications.push(...automaticDiscounts);
 
+            // Subscribe-and-save lines earn the subscription discount
+            const subscriptionDiscount = this.getSubscriptionDiscount(request);
+            if (subscriptionDiscount) {
+                discountApplications.push(subscriptionDiscount);
+            }
+
             return discountApplications;
 
         } catch (error) {
@@ -189,18 +249,19 @@ export class PricingEngineService {
     }
 
     /**
-     * Calculate discount amount based on discount type
+     * Calculate discount amount based on discount type. Fixed values and caps
+     * are in the base currency and are scaled by fxRate.
      */
-    private calculateDiscountAmount(discount: any, amount: number): number {
+    private calculateDiscountAmount(discount: any, amount: number, fxRate: number = 1): number {
         switch (discount.type) {
             case DiscountType.PERCENTAGE:
                 const percentageAmount = (amount * discount.value) / 100;
                 return discount.maximumDiscountAmount
-                    ? Math.min(percentageAmount, discount.maximumDiscountAmount)
+                    ? Math.min(percentageAmount, discount.maximumDiscountAmount * fxRate)
                     : percentageAmount;
 
             case DiscountType.FIXED_AMOUNT:
-                return Math.min(discount.value, amount);
+                return Math.min(discount.value * fxRate, amount);
 
             case DiscountType.FREE_SHIPPING:
                 return 0; // Shipping discount handled separately
@@ -223,14 +284,14 @@ export class PricingEngineService {
     /**
      * Get automatic discounts (bulk, seasonal, etc.)
      */
-    private async getAutomaticDiscounts(request: PricingRequest, subtotal: number): Promise<DiscountApplication[]> {
+    private async getAutomaticDiscounts(request: PricingRequest, subtotal: number, fxRate: number): Promise<DiscountApplication[]> {
         const automaticDiscounts: DiscountApplication[] = [];
 
         try {
             // Bulk quantity discounts
             const bulkDiscounts = await this.discountService.getBulkDiscounts(request.items);
             for (const discount of bulkDiscounts) {
-                const appliedAmount = this.calculateDiscountAmount(discount, subtotal);
+                const appliedAmount = this.calculateDiscountAmount(discount, subtotal, fxRate);
                 if (appliedAmount > 0) {
                     automaticDiscounts.push({
                         id: `bulk_${discount.id}`,
@@ -252,7 +313,7 @@ export class PricingEngineService {
             // Seasonal discounts
             const seasonalDiscounts = await this.discountService.getSeasonalDiscounts(request);
             for (const discount of seasonalDiscounts) {
-                const appliedAmount = this.calculateDiscountAmount(discount, subtotal);
+                const appliedAmount = this.calculateDiscountAmount(discount, subtotal, fxRate);
                 if (appliedAmount > 0) {
                     automaticDiscounts.push({
                         id: `seasonal_${discount.id}`,
@@ -279,6 +340,34 @@ export class PricingEngineService {
         }
     }
 
+    /**
+     * Subscription discount on the subscribe-and-save lines, if there are any
+     */
+    private getSubscriptionDiscount(request: PricingRequest): DiscountApplication | null {
+        const subscribedAmount = request.items
+            .filter(item => item.subscription)
+            .reduce((sum, item) => sum + item.unitPrice * item.quantity, 0);
+        const appliedAmount = this.subscriptionPolicyService.discountOn(subscribedAmount);
+
+        if (appliedAmount <= 0) {
+            return null;
+        }
+
+        return {
+            id: 'subscribe_and_save',
+            type: DiscountType.PERCENTAGE,
+            name: 'Subscribe & Save',
+            description: `${this.subscriptionPolicyService.discountPercent}% off subscription items`,
+            value: this.subscriptionPolicyService.discountPercent,
+            appliedAmount,
+            isStackable: true,
+            metadata: {
+                type: 'subscription',
+                appliedAt: new Date()
+            }
+        };
+    }
+
     /**
      * Calculate taxes
      */
@@ -292,7 +381,8 @@ export class PricingEngineService {
                 items: request.items,
                 shippingAddress: request.shippingAddress,
                 billingAddress: request.billingAddress,
-                userId: request.userId
+                userId: request.userId,
+                currency: request.currency
             });
 
             return taxApplications.taxes;
@@ -306,12 +396,12 @@ export class PricingEngineService {
     /**
      * Calculate shipping cost
      */
-    private async calculateShipping(request: PricingRequest): Promise<number> {
+    private async calculateShipping(request: PricingRequest, fxRate: number = 1): Promise<number> {
         try {
             // Simplified shipping calculation
             // In a real implementation, this would integrate with shipping services
-            const baseShipping = 9.99;
-            const freeShippingThreshold = 50.00;
+            const baseShipping = 9.99 * fxRate;
+            const freeShippingThreshold = 50.00 * fxRate;
 
             const subtotal = this.calculateSubtotal(request.items);
 
@@ -326,7 +416,7 @@ export class PricingEngineService {
 
         } catch (error) {
             this.logger.error('Shipping calculation failed:', error.message);
-            return 9.99; // Default shipping cost
+            return 9.99 * fxRate; // Default shipping cost
         }
     }
 
@@ -344,16 +434,11 @@ export class PricingEngineService {
                 }
             }
 
-            if (request.promotionIds) {
-                for (const promotionId of request.promotionIds) {
-                    const promotion = await this.promotionService.getPromotionById(promotionId);
-                    if (promotion) {
-                        const rewards = await this.promotionService.applyPromotion(promotion, request);
-                        const hasFreeShipping = rewards.some(reward => reward.type === 'free_shipping');
-                        if (hasFreeShipping) {
-                            return true;
-                        }
-                    }
+            for (const promotion of await this.getChannelPromotions(request)) {
+                const rewards = await this.promotionService.applyPromotion(promotion, request);
+                const hasFreeShipping = rewards.some(reward => reward.type === 'free_shipping');
+                if (hasFreeShipping) {
+                    return true;
                 }
             }
 
@@ -365,6 +450,23 @@ export class PricingEngineService {
         }
     }
 
+    /**
+     * The requested promotions plus those the sales channel applies to every
+     * cart, leaving out promotions limited to other channels
+     */
+    private async getChannelPromotions(request: PricingRequest): Promise<Promotion[]> {
+        const promotions: Promotion[] = [];
+
+        for (const promotionId of this.channelPolicyService.promotionIdsFor(request.channel, request.promotionIds)) {
+            const promotion = await this.promotionService.getPromotionById(promotionId);
+            if (promotion && this.channelPolicyService.isPromotionAvailable(promotion, request.channel)) {
+                promotions.push(promotion);
+            }
+        }
+
+        return promotions;
+    }
+
     /**
      * Get applied promotions
      */
@@ -372,14 +474,7 @@ export class PricingEngineService {
         const appliedPromotions = [];
 
         try {
-            if (request.promotionIds) {
-                for (const promotionId of request.promotionIds) {
-                    const promotion = await this.promotionService.getPromotionById(promotionId);
-                    if (promotion) {
-                        appliedPromotions.push(promotion);
-                    }
-                }
-            }
+            appliedPromotions.push(...await this.getChannelPromotions(request));
 
             return appliedPromotions;
 
@@ -425,7 +520,7 @@ export class PricingEngineService {
                     });
                 }
 
-                if (!item.unitPrice || item.unitPrice < 0) {
+                if ((!item.unitPrice && !item.isBundleComponent) || item.unitPrice < 0) {
                     errors.push({
                         code: 'INVALID_UNIT_PRICE',
                         message: 'Unit price must be greater than or equal to 0',
@@ -436,9 +531,22 @@ export class PricingEngineService {
             });
         }
 
+        // Validate gift options
+        [request.gift, ...(request.items || []).map(item => item.gift)].forEach((gift, index) => {
+            try {
+                this.giftOptionsService.normalize(gift);
+            } catch (error) {
+                errors.push({
+                    code: 'INVALID_GIFT_OPTIONS',
+                    message: (error.details?.errors || [error.message]).join(', '),
+                    field: index === 0 ? 'gift' : `items[${index - 1}].gift`
+                });
+            }
+        });
+
         // Validate currency
         if (request.currency && !Object.values(Currency).includes(request.currency)) {
-            warnings.push(`Unsupported currency: ${request.currency}. Using USD as default.`);
+            warnings.push(`Unsupported currency: ${request.currency}. Using ${this.currencyService.getStoreCurrency()} as default.`);
         }
 
         return {
@@ -1,6 +1,10 @@
 import { Injectable, Logger, BadRequestException } from '@nestjs/common';
 import { ProductClient } from '../clients/product.client';
-import { ProductPricing } from '../types/product-integration.types';
+import { CurrencyService } from '../currency/currency.service';
+import { ProductBundle, ProductPricing } from '../types/product-integration.types';
+import { BundlePriceDto, CartServiceError, ItemPriceDto } from '../types/cart.types';
+import { SalesChannel } from '../types/channel.types';
+import { ChannelPolicyService } from './channel-policy.service';
 
 export interface PriceComparison {
     productId: string;
@@ -22,6 +26,8 @@ export interface PricingValidationResult {
     priceDifference: number;
     isDiscounted: boolean;
     discountPercentage?: number;
+    // Set while the cart price is guaranteed by a price lock
+    priceLockedUntil?: Date;
     warnings: string[];
     errors: string[];
 }
@@ -34,6 +40,7 @@ export interface BulkPricingResult {
         invalidPrices: number;
         discountedItems: number;
         itemsNeedingUpdate: number;
+        lockedItems: number;
     };
 }
 
@@ -41,30 +48,156 @@ export interface BulkPricingResult {
 export class PricingService {
     private readonly logger = new Logger(PricingService.name);
 
-    constructor(private readonly productClient: ProductClient) { }
+    constructor(
+        private readonly productClient: ProductClient,
+        private readonly currencyService: CurrencyService,
+        private readonly channelPolicyService: ChannelPolicyService
+    ) { }
 
     /**
-     * Get current pricing for a product
+     * Get current pricing for a product, from the sales channel's price list
+     * when it has one
      */
-    async getCurrentPricing(productId: string, variantId?: string): Promise<ProductPricing> {
+    async getCurrentPricing(productId: string, variantId?: string, channel?: SalesChannel): Promise<ProductPricing> {
         try {
-            return await this.productClient.getProductPricing(productId, variantId);
+            return await this.productClient.getProductPricing(
+                productId,
+                variantId,
+                this.channelPolicyService.priceListFor(channel)
+            );
         } catch (error) {
             this.logger.error(`Failed to get pricing for ${productId}:`, error.message);
             throw new BadRequestException(`Failed to get product pricing: ${error.message}`);
         }
     }
 
+    /**
+     * Resolve the authoritative unit and compare-at price for a cart line,
+     * converted into the cart currency when one is given and taken from the
+     * price list of the cart's sales channel when it has one.
+     * Throws PRICE_UNAVAILABLE when the product service has no usable price.
+     */
+    async resolveItemPrice(
+        productId: string,
+        variantId?: string,
+        currency?: string,
+        channel?: SalesChannel
+    ): Promise<ItemPriceDto> {
+        const label = variantId ? `${productId} (variant ${variantId})` : productId;
+        let pricing: ProductPricing;
+
+        try {
+            pricing = await this.productClient.getProductPricing(
+                productId,
+                variantId,
+                this.channelPolicyService.priceListFor(channel)
+            );
+        } catch (error) {
+            this.logger.error(`Failed to resolve price for ${label}:`, error.message);
+            throw new CartServiceError(
+                'PRICE_UNAVAILABLE',
+                `No price could be resolved for product ${label}`,
+                { productId, variantId, reason: error.message }
+            );
+        }
+
+        const price = Number(pricing?.price);
+        if (!pricing || pricing.isActive === false || !Number.isFinite(price) || price <= 0) {
+            throw new CartServiceError(
+                'PRICE_UNAVAILABLE',
+                `No active price is available for product ${label}`,
+                { productId, variantId }
+            );
+        }
+
+        const originalPrice = Number(pricing.originalPrice);
+        const hasOriginalPrice = Number.isFinite(originalPrice) && originalPrice > 0;
+
+        const sourceCurrency = pricing.currency || this.currencyService.getBaseCurrency();
+        const targetCurrency = currency || sourceCurrency;
+
+        return {
+            price: await this.currencyService.convert(price, sourceCurrency, targetCurrency),
+            originalPrice: hasOriginalPrice
+                ? await this.currencyService.convert(originalPrice, sourceCurrency, targetCurrency)
+                : undefined
+        };
+    }
+
+    /**
+     * Resolve the price of one kit of a bundle and of each of its components
+     * in the cart currency. The bundle line carries the bundle price; the
+     * component prices are what the parts would cost separately.
+     * Throws BUNDLE_NOT_FOUND or BUNDLE_UNAVAILABLE when the bundle cannot be sold.
+     */
+    async resolveBundlePrice(bundleId: string, currency?: string, channel?: SalesChannel): Promise<BundlePriceDto> {
+        let bundle: ProductBundle;
+
+        try {
+            bundle = await this.productClient.getBundle(bundleId);
+        } catch (error) {
+            this.logger.error(`Failed to resolve bundle ${bundleId}:`, error.message);
+            throw new CartServiceError('BUNDLE_NOT_FOUND', `Bundle ${bundleId} not found`, { bundleId, reason: error.message });
+        }
+
+        if (!bundle || bundle.isActive === false || !bundle.components?.length) {
+            throw new CartServiceError('BUNDLE_UNAVAILABLE', `Bundle ${bundleId} is not available`, { bundleId });
+        }
+
+        const targetCurrency = currency || this.currencyService.getBaseCurrency();
+        const components = [];
+        let componentTotal = 0;
+
+        for (const component of bundle.components) {
+            const pricing = await this.resolveItemPrice(component.productId, component.variantId, targetCurrency, channel);
+            const unitQuantity = Math.max(1, component.quantity || 1);
+            components.push({
+                productId: component.productId,
+                variantId: component.variantId,
+                unitQuantity,
+                pricing
+            });
+            componentTotal += pricing.price * unitQuantity;
+        }
+
+        componentTotal = this.currencyService.round(componentTotal, targetCurrency);
+
+        let price: number;
+        if (bundle.price !== undefined && bundle.price !== null) {
+            price = await this.currencyService.convert(
+                Number(bundle.price),
+                bundle.currency || this.currencyService.getBaseCurrency(),
+                targetCurrency
+            );
+        } else {
+            const discountPercentage = Math.min(100, Math.max(0, Number(bundle.discountPercentage) || 0));
+            price = this.currencyService.round(componentTotal * (1 - discountPercentage / 100), targetCurrency);
+        }
+
+        if (!Number.isFinite(price) || price <= 0) {
+            throw new CartServiceError('BUNDLE_UNAVAILABLE', `No valid price is available for bundle ${bundleId}`, { bundleId });
+        }
+
+        return {
+            bundleId,
+            name: bundle.name,
+            price,
+            originalPrice: componentTotal > price ? componentTotal : undefined,
+            components
+        };
+    }
+
     /**
      * Compare cart price with current price
      */
     async comparePricing(
         productId: string,
         variantId: string | undefined,
-        cartPrice: number
+        cartPrice: number,
+        channel?: SalesChannel
     ): Promise<PriceComparison> {
         try {
-            const currentPricing = await this.getCurrentPricing(productId, variantId);
+            const currentPricing = await this.getCurrentPricing(productId, variantId, channel);
             const priceDifference = cartPrice - currentPricing.price;
             const isDiscounted = cartPrice < currentPricing.price;
             const discountPercentage = isDiscounted
@@ -97,21 +230,25 @@ export class PricingService {
     }
 
     /**
-     * Validate pricing for cart items
+     * Validate pricing for cart items. While a price lock runs, the cart
+     * price is not flagged for differing from the current price.
      */
     async validatePricing(
         productId: string,
         variantId: string | undefined,
-        cartPrice: number
+        cartPrice: number,
+        priceLockedUntil?: Date,
+        channel?: SalesChannel
     ): Promise<PricingValidationResult> {
         const warnings: string[] = [];
         const errors: string[] = [];
+        const isLocked = !!priceLockedUntil && priceLockedUntil > new Date();
 
         try {
-            const comparison = await this.comparePricing(productId, variantId, cartPrice);
+            const comparison = await this.comparePricing(productId, variantId, cartPrice, channel);
 
             // Check for significant price differences
-            if (comparison.needsUpdate) {
+            if (comparison.needsUpdate && !isLocked) {
                 if (comparison.priceDifference > 0) {
                     warnings.push(`Cart price is higher than current price (${comparison.priceDifference.toFixed(2)})`);
                 } else {
@@ -129,7 +266,7 @@ export class PricingService {
             }
 
             // Check for unusually high discounts
-            if (comparison.isDiscounted && comparison.discountPercentage && comparison.discountPercentage > 50) {
+            if (!isLocked && comparison.isDiscounted && comparison.discountPercentage && comparison.discountPercentage > 50) {
                 warnings.push(`Unusually high discount: ${comparison.discountPercentage}%`);
             }
 
@@ -142,6 +279,7 @@ export class PricingService {
                 priceDifference: comparison.priceDifference,
                 isDiscounted: comparison.isDiscounted,
                 discountPercentage: comparison.discountPercentage,
+                priceLockedUntil: isLocked ? priceLockedUntil : undefined,
                 warnings,
                 errors
             };
@@ -163,10 +301,11 @@ export class PricingService {
     }
 
     /**
-     * Validate pricing for multiple items
+     * Validate pricing for multiple items against the sales channel's prices
      */
     async validateBulkPricing(
-        items: Array<{ productId: string; variantId?: string; cartPrice: number }>
+        items: Array<{ productId: string; variantId?: string; cartPrice: number; priceLockedUntil?: Date }>,
+        channel?: SalesChannel
     ): Promise<BulkPricingResult> {
         const results: PricingValidationResult[] = [];
 
@@ -174,7 +313,9 @@ export class PricingService {
             const validation = await this.validatePricing(
                 item.productId,
                 item.variantId,
-                item.cartPrice
+                item.cartPrice,
+                item.priceLockedUntil,
+                channel
             );
             results.push(validation);
         }
@@ -186,7 +327,8 @@ export class PricingService {
                 validPrices: results.filter(r => r.isValid).length,
                 invalidPrices: results.filter(r => !r.isValid).length,
                 discountedItems: results.filter(r => r.isDiscounted).length,
-                itemsNeedingUpdate: results.filter(r => r.warnings.length > 0).length
+                itemsNeedingUpdate: results.filter(r => r.warnings.length > 0).length,
+                lockedItems: results.filter(r => r.priceLockedUntil).length
             }
         };
     }
@@ -362,10 +504,11 @@ export class PricingService {
     }
 
     /**
-     * Update cart prices to current pricing
+     * Update cart prices to current pricing. Lines converted from a quote
+     * keep their quoted price and are left out.
      */
     async updateCartPricesToCurrent(
-        items: Array<{ productId: string; variantId?: string; quantity: number }>
+        items: Array<{ productId: string; variantId?: string; quantity: number; price?: number; quoteId?: string }>
     ): Promise<Array<{
         productId: string;
         variantId?: string;
@@ -384,16 +527,21 @@ export class PricingService {
         }> = [];
 
         for (const item of items) {
+            if (item.quoteId) {
+                continue;
+            }
+
             try {
                 const currentPricing = await this.getCurrentPricing(item.productId, item.variantId);
+                const oldPrice = item.price ?? 0;
 
                 updatedItems.push({
                     productId: item.productId,
                     variantId: item.variantId,
                     quantity: item.quantity,
-                    oldPrice: 0, // Would need to be passed from cart
+                    oldPrice,
                     newPrice: currentPricing.price,
-                    difference: currentPricing.price - 0
+                    difference: currentPricing.price - oldPrice
                 });
 
             } catch (error) {
@@ -0,0 +1,228 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { ProductClient } from '../clients/product.client';
+import { DatabaseService } from '../database/database.service';
+import {
+    EffectiveQuantityRules,
+    QuantityCheck,
+    QuantityCustomer,
+    QuantityRuleOverride,
+    QuantityRules
+} from '../types/product-integration.types';
+import { CartItem, CartServiceError } from '../types/cart.types';
+import { OrderStatus } from '../types/order.types';
+
+// Orders whose items never reached the customer
+const UNCOUNTED_ORDER_STATUSES = [OrderStatus.CANCELLED, OrderStatus.REFUNDED, OrderStatus.FAILED];
+
+/**
+ * Quantity rules of products: minimum, maximum, step and case pack, from
+ * product metadata with local overrides. A signed-in customer's maximum also
+ * counts what they ordered over the last QUANTITY_LIMIT_WINDOW_DAYS.
+ */
+@Injectable()
+export class QuantityRulesService {
+    private readonly logger = new Logger(QuantityRulesService.name);
+    private readonly orderWindowDays: number;
+
+    constructor(
+        private readonly productClient: ProductClient,
+        private readonly databaseService: DatabaseService,
+        private readonly configService: ConfigService
+    ) {
+        this.orderWindowDays = Math.max(1, Number(this.configService.get('QUANTITY_LIMIT_WINDOW_DAYS', 30)) || 30);
+    }
+
+    /**
+     * Quantity rules in force for a product. A product whose metadata cannot
+     * be loaded is only held to its local override, if any.
+     */
+    async getRules(productId: string): Promise<EffectiveQuantityRules> {
+        const [metadata, override] = await Promise.all([
+            this.productClient.getQuantityRules(productId).catch((error): QuantityRules => {
+                this.logger.warn(`No quantity rules for ${productId}: ${error.message}`);
+                return {};
+            }),
+            this.databaseService.quantityRuleOverride.findByProductId(productId)
+        ]);
+
+        const casePack = this.positive(override?.casePack ?? metadata.casePack);
+        return {
+            productId,
+            minQuantity: this.positive(override?.minQuantity ?? metadata.minQuantity) ?? 1,
+            maxQuantity: this.positive(override?.maxQuantity ?? metadata.maxQuantity),
+            step: casePack ?? this.positive(override?.step ?? metadata.step) ?? 1,
+            casePack,
+            overridden: !!override
+        };
+    }
+
+    /**
+     * Check a line quantity against a product's rules. otherQuantity is what
+     * the customer already holds of the product outside this line, which
+     * counts towards the maximum.
+     */
+    check(rules: EffectiveQuantityRules, quantity: number, otherQuantity = 0): QuantityCheck {
+        const { lowest, base } = this.bounds(rules, otherQuantity);
+        let reason: string | undefined;
+
+        if (quantity < rules.minQuantity) {
+            reason = `Minimum quantity for ${rules.productId} is ${rules.minQuantity}`;
+        } else if (rules.casePack && quantity % rules.casePack !== 0) {
+            reason = `${rules.productId} is sold in cases of ${rules.casePack}`;
+        } else if (quantity < lowest) {
+            reason = `Minimum quantity for ${rules.productId} is ${lowest}`;
+        } else if ((quantity - base) % rules.step !== 0) {
+            reason = `${rules.productId} is sold in steps of ${rules.step} from ${rules.minQuantity}`;
+        } else if (rules.maxQuantity !== undefined && quantity + otherQuantity > rules.maxQuantity) {
+            reason = otherQuantity > 0
+                ? `Maximum quantity for ${rules.productId} is ${rules.maxQuantity} per customer and ${otherQuantity} is already in other cart lines or orders`
+                : `Maximum quantity for ${rules.productId} is ${rules.maxQuantity}`;
+        }
+
+        if (!reason) {
+            return { valid: true };
+        }
+
+        return {
+            valid: false,
+            reason,
+            suggestedQuantity: this.nearestValidQuantity(rules, quantity, otherQuantity)
+        };
+    }
+
+    /**
+     * The allowed quantity closest to the requested one, rounding up on a tie.
+     * Undefined when the maximum leaves no room for any allowed quantity.
+     */
+    nearestValidQuantity(rules: EffectiveQuantityRules, quantity: number, otherQuantity = 0): number | undefined {
+        const { lowest, highest, base } = this.bounds(rules, otherQuantity);
+
+        if (highest !== undefined && highest < lowest) {
+            return undefined;
+        }
+
+        const nearest = base + Math.round((quantity - base) / rules.step) * rules.step;
+        return Math.min(Math.max(nearest, lowest), highest ?? Number.MAX_SAFE_INTEGER);
+    }
+
+    /**
+     * Reject a line quantity the product's rules do not allow, suggesting the
+     * nearest one that is. The line's own current quantity is left out of the
+     * count of what the customer already holds.
+     */
+    async assertLineQuantity(
+        productId: string,
+        quantity: number,
+        cartItems: CartItem[],
+        lineId?: string,
+        customer?: QuantityCustomer
+    ): Promise<void> {
+        const [rules, customerQuantity] = await Promise.all([
+            this.getRules(productId),
+            this.customerQuantity(productId, customer)
+        ]);
+        const otherQuantity = this.otherLinesQuantity(productId, cartItems, lineId) + customerQuantity;
+        const result = this.check(rules, quantity, otherQuantity);
+
+        if (!result.valid) {
+            throw new CartServiceError(
+                'QUANTITY_RULE_VIOLATION',
+                result.suggestedQuantity !== undefined
+                    ? `${result.reason}. Nearest valid quantity is ${result.suggestedQuantity}`
+                    : `${result.reason}. No more can be added`,
+                { productId, quantity, rules, suggestedQuantity: result.suggestedQuantity }
+            );
+        }
+    }
+
+    /**
+     * How many of a product the cart holds on standalone lines other than
+     * the given one
+     */
+    otherLinesQuantity(productId: string, cartItems: CartItem[], lineId?: string): number {
+        return cartItems
+            .filter(item => item.productId === productId && !item.bundleId && !item.parentItemId && item.id !== lineId)
+            .reduce((sum, item) => sum + item.quantity, 0);
+    }
+
+    /**
+     * How many of a product a signed-in customer holds outside the given
+     * cart: on their other active carts and in their orders of the limit
+     * window. Guests are only held to the maximum per cart.
+     */
+    async customerQuantity(productId: string, customer?: QuantityCustomer): Promise<number> {
+        if (!customer?.userId) {
+            return 0;
+        }
+
+        const [inCarts, ordered] = await Promise.all([
+            this.databaseService.cartItem.sumUserQuantity(customer.userId, productId, customer.cartId),
+            this.orderedQuantity(customer.userId, productId)
+        ]);
+
+        return inCarts + ordered;
+    }
+
+    /**
+     * Set the local override for a product
+     */
+    async setOverride(productId: string, rules: QuantityRules): Promise<QuantityRuleOverride> {
+        const { minQuantity, maxQuantity } = rules;
+        if (minQuantity !== undefined && maxQuantity !== undefined && maxQuantity < minQuantity) {
+            throw new CartServiceError(
+                'VALIDATION_ERROR',
+                'maxQuantity must not be less than minQuantity',
+                { productId, minQuantity, maxQuantity }
+            );
+        }
+
+        const override = await this.databaseService.quantityRuleOverride.upsert(productId, rules);
+        this.logger.log(`Quantity rule override set for ${productId}`);
+        return override;
+    }
+
+    /**
+     * Remove the local override for a product so its metadata applies again
+     */
+    async removeOverride(productId: string): Promise<void> {
+        await this.databaseService.quantityRuleOverride.delete(productId);
+        this.logger.log(`Quantity rule override removed for ${productId}`);
+    }
+
+    /**
+     * Lowest and highest allowed line quantities and the quantity the steps
+     * count from: zero for case packs, otherwise the minimum
+     */
+    private bounds(
+        rules: EffectiveQuantityRules,
+        otherQuantity: number
+    ): { lowest: number; highest?: number; base: number } {
+        const base = rules.casePack ? 0 : rules.minQuantity;
+        const lowest = rules.casePack
+            ? Math.ceil(Math.max(rules.minQuantity, rules.casePack) / rules.casePack) * rules.casePack
+            : rules.minQuantity;
+        const highest = rules.maxQuantity !== undefined
+            ? base + Math.floor((rules.maxQuantity - otherQuantity - base) / rules.step) * rules.step
+            : undefined;
+
+        return { lowest, highest, base };
+    }
+
+    private async orderedQuantity(userId: string, productId: string): Promise<number> {
+        const since = new Date(Date.now() - this.orderWindowDays * 24 * 60 * 60 * 1000);
+        const result = await this.databaseService.orderItem.aggregate({
+            _sum: { quantity: true },
+            where: {
+                productId,
+                order: { userId, status: { notIn: UNCOUNTED_ORDER_STATUSES }, createdAt: { gte: since } }
+            }
+        });
+
+        return result._sum.quantity ?? 0;
+    }
+
+    private positive(value: number | undefined): number | undefined {
+        return value !== undefined && value !== null && value >= 1 ? Math.floor(value) : undefined;
+    }
+}
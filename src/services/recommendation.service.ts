@@ -0,0 +1,228 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { DatabaseService } from '../database/database.service';
+import { InventoryService } from './inventory.service';
+import { TenantService } from '../tenant/tenant.service';
+import { ProductAffinityModel } from '../models/product-affinity.model';
+import { Cart, CartStatus } from '../types/cart.types';
+import { OrderStatus } from '../types/order.types';
+import {
+    ProductAffinity,
+    ProductRecommendation,
+    RecommendationRefreshResult
+} from '../types/product-integration.types';
+
+// Orders that were placed and not cancelled, refunded or failed
+const PLACED_ORDER_STATUSES = [OrderStatus.CONFIRMED, OrderStatus.PROCESSING, OrderStatus.SHIPPED, OrderStatus.DELIVERED];
+
+// Completed carts are left out: they are counted through their orders
+const CART_STATUSES = [CartStatus.ACTIVE, CartStatus.CHECKOUT, CartStatus.ABANDONED, CartStatus.EXPIRED, CartStatus.ARCHIVED];
+
+const PAGE_SIZE = 500;
+
+/**
+ * "Frequently bought together" recommendations from our own data. Each
+ * store's placed orders and carts of the last RECOMMENDATION_WINDOW_DAYS are
+ * read as baskets. A pair of products is kept when RECOMMENDATION_MIN_BASKETS
+ * baskets had both. Its score is the share of the product's baskets that
+ * also had the related product. Each product keeps its best
+ * RECOMMENDATION_MAX_PER_PRODUCT related products. Out-of-stock products are
+ * never recommended.
+ */
+@Injectable()
+export class RecommendationService {
+    private readonly logger = new Logger(RecommendationService.name);
+    private readonly windowDays: number;
+    private readonly minBaskets: number;
+    private readonly maxPerProduct: number;
+
+    constructor(
+        private readonly databaseService: DatabaseService,
+        private readonly inventoryService: InventoryService,
+        private readonly tenantService: TenantService,
+        private readonly configService: ConfigService
+    ) {
+        this.windowDays = Math.max(1, Number(this.configService.get('RECOMMENDATION_WINDOW_DAYS', 180)) || 180);
+        this.minBaskets = Math.max(1, Number(this.configService.get('RECOMMENDATION_MIN_BASKETS', 2)) || 2);
+        this.maxPerProduct = Math.max(1, Number(this.configService.get('RECOMMENDATION_MAX_PER_PRODUCT', 20)) || 20);
+    }
+
+    /**
+     * Rebuild the affinities of every store from its own orders and carts
+     */
+    async refresh(now: Date = new Date()): Promise<RecommendationRefreshResult> {
+        const result: RecommendationRefreshResult = { tenants: 0, baskets: 0, affinities: 0 };
+
+        for (const tenantId of this.tenantService.tenantIds()) {
+            const refreshed = await this.tenantService.run(tenantId, () => this.refreshStore(now));
+            result.tenants++;
+            result.baskets += refreshed.baskets;
+            result.affinities += refreshed.affinities;
+        }
+
+        return result;
+    }
+
+    /**
+     * Products most often bought together with a product
+     */
+    async getFrequentlyBoughtTogether(productId: string, limit: number = 10): Promise<ProductRecommendation[]> {
+        const affinities = await this.databaseService.productAffinity.findRelated([productId], this.maxPerProduct);
+
+        return this.inStock(
+            affinities.map(affinity => this.toRecommendation(affinity.relatedProductId, affinity.score, affinity.baskets)),
+            limit
+        );
+    }
+
+    /**
+     * "Complete your cart": products bought together with what is in the
+     * cart and not in it yet. A product related to several cart lines
+     * scores the sum of its scores.
+     */
+    async completeCart(cart: Cart, limit: number = 10): Promise<ProductRecommendation[]> {
+        const inCart = new Set(cart.items.filter(item => !item.parentItemId).map(item => item.productId));
+        if (inCart.size === 0) {
+            return [];
+        }
+
+        const affinities = await this.databaseService.productAffinity.findRelated([...inCart], inCart.size * this.maxPerProduct);
+        const candidates = new Map<string, { score: number; baskets: number }>();
+        for (const affinity of affinities.filter(candidate => !inCart.has(candidate.relatedProductId))) {
+            const candidate = candidates.get(affinity.relatedProductId) ?? { score: 0, baskets: 0 };
+            candidate.score += affinity.score;
+            candidate.baskets += affinity.baskets;
+            candidates.set(affinity.relatedProductId, candidate);
+        }
+
+        const ranked = [...candidates.entries()]
+            .sort(([, a], [, b]) => b.score - a.score || b.baskets - a.baskets)
+            .map(([productId, candidate]) => this.toRecommendation(productId, candidate.score, candidate.baskets));
+
+        return this.inStock(ranked, limit);
+    }
+
+    /**
+     * Count the current store's baskets and replace its affinities
+     */
+    private async refreshStore(now: Date): Promise<{ baskets: number; affinities: number }> {
+        const since = new Date(now.getTime() - this.windowDays * 24 * 60 * 60 * 1000);
+        const baskets = [
+            ...await this.readOrderBaskets(since),
+            ...await this.readBaskets(cursor => this.databaseService.prisma.cart.findMany({
+                where: { status: { in: CART_STATUSES }, updatedAt: { gte: since } },
+                select: { id: true, items: { where: { parentItemId: null }, select: { productId: true } } },
+                ...this.page(cursor)
+            }))
+        ];
+
+        const productBaskets = new Map<string, number>();
+        const pairs = new Map<string, Map<string, number>>();
+        for (const basket of baskets) {
+            for (const productId of basket) {
+                productBaskets.set(productId, (productBaskets.get(productId) ?? 0) + 1);
+                const related = pairs.get(productId) ?? new Map<string, number>();
+                for (const relatedProductId of basket.filter(other => other !== productId)) {
+                    related.set(relatedProductId, (related.get(relatedProductId) ?? 0) + 1);
+                }
+                pairs.set(productId, related);
+            }
+        }
+
+        const affinities: Omit<ProductAffinity, 'computedAt'>[] = [];
+        for (const [productId, related] of pairs) {
+            const total = productBaskets.get(productId)!;
+            affinities.push(...[...related.entries()]
+                .filter(([, count]) => count >= this.minBaskets)
+                .map(([relatedProductId, count]) => ({
+                    productId,
+                    relatedProductId,
+                    baskets: count,
+                    score: Math.round(count / total * 10000) / 10000
+                }))
+                .sort((a, b) => b.score - a.score || b.baskets - a.baskets)
+                .slice(0, this.maxPerProduct));
+        }
+
+        await this.databaseService.transaction(tx => new ProductAffinityModel(tx).replaceAll(affinities, now));
+
+        this.logger.log(
+            `Tenant ${this.tenantService.currentTenantId()}: ${affinities.length} affinities from ${baskets.length} baskets`
+        );
+        return { baskets: baskets.length, affinities: affinities.length };
+    }
+
+    /**
+     * Placed orders as baskets. Carts still count when orders cannot be read,
+     * so a store's affinities are rebuilt from its carts alone then.
+     */
+    private async readOrderBaskets(since: Date): Promise<string[][]> {
+        try {
+            return await this.readBaskets(cursor => this.databaseService.order.findMany({
+                where: { status: { in: PLACED_ORDER_STATUSES }, createdAt: { gte: since } },
+                select: { id: true, items: { select: { productId: true } } },
+                ...this.page(cursor)
+            }));
+        } catch (error) {
+            this.logger.warn(`Tenant ${this.tenantService.currentTenantId()}: orders could not be read, counting carts only: ${error.message}`);
+            return [];
+        }
+    }
+
+    /**
+     * Read orders or carts page by page as lists of distinct product IDs
+     */
+    private async readBaskets(
+        fetchPage: (cursor?: string) => Promise<Array<{ id: string; items: Array<{ productId: string }> }>>
+    ): Promise<string[][]> {
+        const baskets: string[][] = [];
+        let cursor: string | undefined;
+
+        do {
+            const rows = await fetchPage(cursor);
+            for (const row of rows) {
+                const basket = [...new Set(row.items.map(item => item.productId))];
+                if (basket.length > 0) {
+                    baskets.push(basket);
+                }
+            }
+            cursor = rows.length === PAGE_SIZE ? rows[rows.length - 1].id : undefined;
+        } while (cursor);
+
+        return baskets;
+    }
+
+    private page(cursor?: string): Record<string, any> {
+        return {
+            orderBy: { id: 'asc' },
+            take: PAGE_SIZE,
+            ...(cursor && { cursor: { id: cursor }, skip: 1 })
+        };
+    }
+
+    /**
+     * The first recommendations, in order, whose product is in stock
+     */
+    private async inStock(candidates: ProductRecommendation[], limit: number): Promise<ProductRecommendation[]> {
+        const recommendations: ProductRecommendation[] = [];
+
+        for (let start = 0; start < candidates.length && recommendations.length < limit; start += limit) {
+            const batch = candidates.slice(start, start + limit);
+            const stock = await this.inventoryService.checkInventoryAvailability(
+                batch.map(candidate => ({ productId: candidate.productId, quantity: 1 }))
+            );
+            recommendations.push(...batch.filter((candidate, index) => stock[index].available));
+        }
+
+        return recommendations.slice(0, limit);
+    }
+
+    private toRecommendation(productId: string, score: number, baskets: number): ProductRecommendation {
+        return {
+            productId,
+            reason: `Bought together in ${baskets} orders and carts`,
+            score: Math.round(score * 10000) / 10000,
+            type: 'frequently-bought-together'
+        };
+    }
+}
@@ -0,0 +1,141 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { DatabaseService } from '../database/database.service';
+import { CustomizationService } from './customization.service';
+import { InventoryService } from './inventory.service';
+import { ProductClient } from '../clients/product.client';
+import { PushNotificationService } from '../notifications/push-notification.service';
+import { TenantService } from '../tenant/tenant.service';
+import { SavedItem, SavedItemCheckResult } from '../types/saved-item.types';
+
+/**
+ * Keeps saved-for-later items priced and stocked. Each run rechecks up to
+ * SAVED_ITEM_CHECK_BATCH_SIZE items not checked in the last
+ * SAVED_ITEM_CHECK_HOURS, in the store and currency they were saved in.
+ * The customer gets a push alert when an item drops below the lowest price
+ * they were already told about, and when it comes back in stock. Items a
+ * guest saved are kept up to date but nobody is alerted about them.
+ */
+@Injectable()
+export class SavedItemAlertsService {
+    private readonly logger = new Logger(SavedItemAlertsService.name);
+    private readonly batchSize: number;
+    private readonly checkHours: number;
+
+    constructor(
+        private readonly databaseService: DatabaseService,
+        private readonly customizationService: CustomizationService,
+        private readonly inventoryService: InventoryService,
+        private readonly productClient: ProductClient,
+        private readonly pushNotificationService: PushNotificationService,
+        private readonly tenantService: TenantService,
+        private readonly configService: ConfigService
+    ) {
+        this.batchSize = Math.max(1, Number(this.configService.get('SAVED_ITEM_CHECK_BATCH_SIZE', 200)) || 200);
+        this.checkHours = Math.max(1, Number(this.configService.get('SAVED_ITEM_CHECK_HOURS', 6)) || 6);
+    }
+
+    /**
+     * Recheck the saved items that are due, longest unchecked first. An item
+     * that cannot be priced or stocked keeps its last known state and waits
+     * for the next interval, so it does not hold up the others.
+     */
+    async checkSavedItems(now: Date = new Date()): Promise<SavedItemCheckResult> {
+        const result: SavedItemCheckResult = { checked: 0, priceDrops: 0, backInStock: 0, failed: 0 };
+        const checkedBefore = new Date(now.getTime() - this.checkHours * 60 * 60 * 1000);
+        const due = await this.databaseService.savedItem.findDueForCheck(checkedBefore, this.batchSize);
+
+        for (const savedItem of due) {
+            try {
+                const alerts = await this.tenantService.run(savedItem.tenantId, () => this.checkSavedItem(savedItem, now));
+                result.checked++;
+                if (alerts.priceDrop) {
+                    result.priceDrops++;
+                }
+                if (alerts.backInStock) {
+                    result.backInStock++;
+                }
+            } catch (error) {
+                result.failed++;
+                this.logger.warn(`Saved item ${savedItem.id} could not be checked: ${error.message}`);
+                await this.postponeCheck(savedItem, now);
+            }
+        }
+
+        return result;
+    }
+
+    /**
+     * Move a failed item to the back of the queue. If even that fails, it is
+     * picked up again on the next run.
+     */
+    private async postponeCheck(savedItem: SavedItem, now: Date): Promise<void> {
+        try {
+            await this.databaseService.savedItem.recordCheck(savedItem.id, {}, now);
+        } catch (error) {
+            this.logger.error(`Saved item ${savedItem.id} check could not be recorded: ${error.message}`);
+        }
+    }
+
+    private async checkSavedItem(savedItem: SavedItem, now: Date): Promise<{ priceDrop: boolean; backInStock: boolean }> {
+        const [priced, inventory] = await Promise.all([
+            this.customizationService.priceLine(
+                savedItem.productId,
+                savedItem.variantId,
+                savedItem.customization,
+                savedItem.currency
+            ),
+            this.inventoryService.getInventoryStatus(savedItem.productId, savedItem.variantId)
+        ]);
+
+        const currentPrice = priced.pricing.price;
+        const alertBelow = savedItem.alertedPrice ?? savedItem.savedPrice;
+        const priceDrop = !!savedItem.userId && currentPrice < alertBelow;
+        const backInStock = !!savedItem.userId && !savedItem.inStock && inventory.isInStock;
+
+        await this.databaseService.savedItem.recordCheck(savedItem.id, {
+            currentPrice,
+            inStock: inventory.isInStock,
+            ...(priceDrop && { alertedPrice: currentPrice })
+        }, now);
+
+        if (priceDrop || backInStock) {
+            const productName = await this.productName(savedItem.productId);
+            if (priceDrop) {
+                await this.pushNotificationService.sendPriceDropNotification(
+                    savedItem.userId!,
+                    savedItem.productId,
+                    productName,
+                    alertBelow,
+                    currentPrice,
+                    Math.round((1 - currentPrice / alertBelow) * 100)
+                );
+            }
+            if (backInStock) {
+                await this.pushNotificationService.sendStockAlertNotification(
+                    savedItem.userId!,
+                    savedItem.productId,
+                    productName,
+                    inventory.available,
+                    true
+                );
+            }
+        }
+
+        return { priceDrop, backInStock };
+    }
+
+    /**
+     * The product's name for an alert, or its ID when the product service
+     * cannot say
+     */
+    private async productName(productId: string): Promise<string> {
+        try {
+            const product = await this.productClient.getProduct(productId);
+            return product.name;
+        } catch (error) {
+            this.logger.warn(`No product name for ${productId}: ${error.message}`);
+            return productId;
+        }
+    }
+}
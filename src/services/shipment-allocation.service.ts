@@ -0,0 +1,111 @@
+import { BadRequestException, Injectable } from '@nestjs/common';
+import { CheckoutRequest, ShippingAddress, ShippingMethod } from '../types/checkout.types';
+
+export interface ShipmentLine {
+    item: any;
+    quantity: number;
+}
+
+// The cart lines, or parts of them, going to one destination. Bundle
+// components follow their bundle line.
+export interface ShipmentAllocation {
+    shippingAddress: ShippingAddress;
+    shippingMethod: ShippingMethod;
+    lines: ShipmentLine[];
+}
+
+/**
+ * Splits a cart across the destinations of a checkout request. Lines, or
+ * the part of their quantity, not assigned to a shipment go to the request's
+ * own shipping address.
+ */
+@Injectable()
+export class ShipmentAllocationService {
+    /**
+     * Problems with the shipments of a checkout request against the cart
+     * lines; empty when the cart can be split as requested
+     */
+    validate(request: CheckoutRequest, items: any[]): string[] {
+        const errors: string[] = [];
+        const assigned = new Map<string, number>();
+
+        (request.shipments || []).forEach((shipment, index) => {
+            if (!shipment.items || shipment.items.length === 0) {
+                errors.push(`Shipment ${index + 1} has no items`);
+                return;
+            }
+
+            for (const assignment of shipment.items) {
+                const item = items.find(candidate => candidate.id === assignment.itemId);
+                if (!item) {
+                    errors.push(`Shipment ${index + 1}: item ${assignment.itemId} is not in the cart`);
+                } else if (item.parentItemId) {
+                    errors.push(`Shipment ${index + 1}: item ${item.id} ships with its bundle; assign the bundle line instead`);
+                } else if (!Number.isInteger(assignment.quantity) || assignment.quantity <= 0) {
+                    errors.push(`Shipment ${index + 1}: quantity for item ${item.id} must be a positive whole number`);
+                } else {
+                    assigned.set(item.id, (assigned.get(item.id) || 0) + assignment.quantity);
+                }
+            }
+        });
+
+        for (const [itemId, quantity] of assigned) {
+            const item = items.find(candidate => candidate.id === itemId);
+            if (quantity > item.quantity) {
+                errors.push(`Item ${itemId} has ${item.quantity} in the cart but ${quantity} are assigned to shipments`);
+            }
+        }
+
+        return errors;
+    }
+
+    /**
+     * Split the cart lines into one allocation per destination, the request's
+     * own address first when anything is left for it
+     */
+    allocate(request: CheckoutRequest, items: any[]): ShipmentAllocation[] {
+        const errors = this.validate(request, items);
+        if (errors.length > 0) {
+            throw new BadRequestException(`Invalid shipments: ${errors.join(', ')}`);
+        }
+
+        const remaining = new Map<string, number>(
+            items.filter(item => !item.parentItemId).map(item => [item.id, item.quantity])
+        );
+
+        const shipments = (request.shipments || []).map(shipment => ({
+            shippingAddress: shipment.shippingAddress,
+            shippingMethod: shipment.shippingMethod,
+            lines: shipment.items.flatMap(assignment => {
+                const item = items.find(candidate => candidate.id === assignment.itemId);
+                remaining.set(item.id, remaining.get(item.id)! - assignment.quantity);
+                return this.withComponents(item, assignment.quantity, items);
+            })
+        }));
+
+        const primaryLines = items
+            .filter(item => !item.parentItemId && remaining.get(item.id)! > 0)
+            .flatMap(item => this.withComponents(item, remaining.get(item.id)!, items));
+
+        return primaryLines.length > 0
+            ? [{ shippingAddress: request.shippingAddress, shippingMethod: request.shippingMethod, lines: primaryLines }, ...shipments]
+            : shipments;
+    }
+
+    /**
+     * A line at the given quantity, followed by the components of that many
+     * kits when it is a bundle line
+     */
+    private withComponents(item: any, quantity: number, items: any[]): ShipmentLine[] {
+        const components = item.bundleId
+            ? items
+                .filter(component => component.parentItemId === item.id)
+                .map(component => ({
+                    item: component,
+                    quantity: (component.unitQuantity || component.quantity / item.quantity) * quantity
+                }))
+            : [];
+
+        return [{ item, quantity }, ...components];
+    }
+}
@@ -0,0 +1,68 @@
+import { Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { CartServiceError } from '../types/cart.types';
+import { SubscriptionFrequency, SubscriptionUnit } from '../types/subscription.types';
+
+// Longest allowed gap between subscription orders, per unit
+const MAX_EVERY: Record<SubscriptionUnit, number> = {
+    [SubscriptionUnit.WEEK]: 26,
+    [SubscriptionUnit.MONTH]: 12
+};
+
+/**
+ * Subscribe-and-save policy: which frequencies a line can be reordered at,
+ * the discount a subscription earns (SUBSCRIPTION_DISCOUNT_PERCENT) and when
+ * the next order is due.
+ */
+@Injectable()
+export class SubscriptionPolicyService {
+    readonly discountPercent: number;
+
+    constructor(private readonly configService: ConfigService) {
+        const percent = Number(this.configService.get('SUBSCRIPTION_DISCOUNT_PERCENT', 10));
+        this.discountPercent = Number.isFinite(percent) ? Math.min(100, Math.max(0, percent)) : 0;
+    }
+
+    /**
+     * Check a requested frequency, failing with INVALID_SUBSCRIPTION_FREQUENCY
+     */
+    validateFrequency(frequency: SubscriptionFrequency): SubscriptionFrequency {
+        const maxEvery = MAX_EVERY[frequency.unit];
+        if (!maxEvery || !Number.isInteger(frequency.every) || frequency.every < 1 || frequency.every > maxEvery) {
+            throw new CartServiceError(
+                'INVALID_SUBSCRIPTION_FREQUENCY',
+                'Subscriptions repeat every 1 to 26 weeks or every 1 to 12 months',
+                { frequency }
+            );
+        }
+
+        return { every: frequency.every, unit: frequency.unit };
+    }
+
+    /**
+     * Subscription discount on an amount, in the amount's currency
+     */
+    discountOn(amount: number, discountPercent: number = this.discountPercent): number {
+        return amount * discountPercent / 100;
+    }
+
+    /**
+     * When the order after one placed at the given date is due. Months keep
+     * the day of month where they can, ending on the last day otherwise.
+     */
+    nextOrderDate(from: Date, frequency: SubscriptionFrequency): Date {
+        const next = new Date(from);
+
+        if (frequency.unit === SubscriptionUnit.WEEK) {
+            next.setUTCDate(next.getUTCDate() + frequency.every * 7);
+            return next;
+        }
+
+        const day = next.getUTCDate();
+        next.setUTCDate(1);
+        next.setUTCMonth(next.getUTCMonth() + frequency.every);
+        const lastDay = new Date(Date.UTC(next.getUTCFullYear(), next.getUTCMonth() + 1, 0)).getUTCDate();
+        next.setUTCDate(Math.min(day, lastDay));
+        return next;
+    }
+}
@@ -0,0 +1,273 @@
+import { ConflictException, ForbiddenException, Injectable, Logger, NotFoundException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { DatabaseService } from '../database/database.service';
+import { CurrencyService } from '../currency/currency.service';
+import { OrderService } from './order.service';
+import { SubscriptionPolicyService } from './subscription-policy.service';
+import { TenantService } from '../tenant/tenant.service';
+import { CreateOrderRequest, OrderResponse } from '../types/order.types';
+import {
+    Subscription,
+    SubscriptionFrequency,
+    SubscriptionRunResult,
+    SubscriptionStatus
+} from '../types/subscription.types';
+
+// A line of a first order that the customer subscribed to
+export interface SubscribedLine {
+    productId: string;
+    variantId?: string;
+    quantity: number;
+    unitPrice: number;
+    frequency: SubscriptionFrequency;
+}
+
+/**
+ * Subscribe-and-save subscriptions: signed up for at checkout, reordered by
+ * the scheduled run through OrderService, and managed by the customer.
+ * A renewal that fails is retried after SUBSCRIPTION_RETRY_HOURS; after
+ * SUBSCRIPTION_MAX_FAILURES failures in a row the subscription is paused.
+ * Renewals are placed in the store the subscription was signed up in.
+ */
+@Injectable()
+export class SubscriptionService {
+    private readonly logger = new Logger(SubscriptionService.name);
+    private readonly batchSize: number;
+    private readonly retryHours: number;
+    private readonly maxFailures: number;
+
+    constructor(
+        private readonly databaseService: DatabaseService,
+        private readonly orderService: OrderService,
+        private readonly subscriptionPolicyService: SubscriptionPolicyService,
+        private readonly currencyService: CurrencyService,
+        private readonly tenantService: TenantService,
+        private readonly configService: ConfigService
+    ) {
+        this.batchSize = Math.max(1, Number(this.configService.get('SUBSCRIPTION_RUN_BATCH_SIZE', 100)) || 100);
+        this.retryHours = Math.max(1, Number(this.configService.get('SUBSCRIPTION_RETRY_HOURS', 24)) || 24);
+        this.maxFailures = Math.max(1, Number(this.configService.get('SUBSCRIPTION_MAX_FAILURES', 3)) || 3);
+    }
+
+    /**
+     * Start a subscription for each subscribed line of an order just placed.
+     * Renewals ship to the order's own shipping address.
+     */
+    async createForOrder(
+        order: OrderResponse,
+        request: CreateOrderRequest,
+        lines: SubscribedLine[]
+    ): Promise<Subscription[]> {
+        const subscriptions: Subscription[] = [];
+
+        for (const line of lines) {
+            const frequency = this.subscriptionPolicyService.validateFrequency(line.frequency);
+            const subscription = await this.databaseService.subscription.create({
+                userId: order.userId,
+                productId: line.productId,
+                variantId: line.variantId,
+                quantity: line.quantity,
+                unitPrice: line.unitPrice,
+                discountPercent: this.subscriptionPolicyService.discountPercent,
+                currency: order.totals.currency,
+                frequency,
+                nextOrderAt: this.subscriptionPolicyService.nextOrderDate(order.createdAt, frequency),
+                shippingAddress: request.shippingAddress,
+                billingAddress: request.billingAddress,
+                shippingMethod: request.shippingMethod,
+                paymentMethod: request.paymentMethod,
+                paymentProvider: request.paymentProvider,
+                firstOrderId: order.id
+            });
+            subscriptions.push(subscription);
+        }
+
+        this.logger.log(`Started ${subscriptions.length} subscription(s) with order ${order.id}`);
+        return subscriptions;
+    }
+
+    async listSubscriptions(userId: string): Promise<Subscription[]> {
+        return this.databaseService.subscription.findByUserId(userId);
+    }
+
+    async getSubscription(subscriptionId: string, userId: string): Promise<Subscription> {
+        const subscription = await this.databaseService.subscription.findById(subscriptionId);
+        if (!subscription) {
+            throw new NotFoundException('Subscription not found');
+        }
+        if (subscription.userId !== userId) {
+            throw new ForbiddenException('Subscription belongs to another customer');
+        }
+
+        return subscription;
+    }
+
+    /**
+     * Skip the next order; the one after it is placed on schedule
+     */
+    async skipNextOrder(subscriptionId: string, userId: string): Promise<Subscription> {
+        const subscription = await this.getSubscription(subscriptionId, userId);
+        this.assertStatus(subscription, [SubscriptionStatus.ACTIVE]);
+
+        const nextOrderAt = this.subscriptionPolicyService.nextOrderDate(subscription.nextOrderAt, subscription.frequency);
+        const skipped = await this.databaseService.subscription.reschedule(
+            subscription.id,
+            subscription.nextOrderAt,
+            nextOrderAt
+        );
+        if (!skipped) {
+            throw new ConflictException('Subscription changed while skipping; please retry');
+        }
+
+        this.logger.log(`Subscription ${subscription.id} skipped to ${nextOrderAt.toISOString()}`);
+        return this.getSubscription(subscriptionId, userId);
+    }
+
+    async pauseSubscription(subscriptionId: string, userId: string): Promise<Subscription> {
+        const subscription = await this.getSubscription(subscriptionId, userId);
+        this.assertStatus(subscription, [SubscriptionStatus.ACTIVE]);
+
+        await this.changeStatus(subscription, SubscriptionStatus.PAUSED);
+        return this.getSubscription(subscriptionId, userId);
+    }
+
+    /**
+     * Resume a paused subscription. An order that fell due while paused is
+     * not made up for; the next one is a full interval from now.
+     */
+    async resumeSubscription(subscriptionId: string, userId: string, now: Date = new Date()): Promise<Subscription> {
+        const subscription = await this.getSubscription(subscriptionId, userId);
+        this.assertStatus(subscription, [SubscriptionStatus.PAUSED]);
+
+        const nextOrderAt = subscription.nextOrderAt > now
+            ? subscription.nextOrderAt
+            : this.subscriptionPolicyService.nextOrderDate(now, subscription.frequency);
+        await this.changeStatus(subscription, SubscriptionStatus.ACTIVE, nextOrderAt);
+        return this.getSubscription(subscriptionId, userId);
+    }
+
+    /**
+     * Change how often the subscription reorders. The next order moves to
+     * one new interval from now, unless it was already due sooner.
+     */
+    async changeFrequency(
+        subscriptionId: string,
+        userId: string,
+        frequency: SubscriptionFrequency,
+        now: Date = new Date()
+    ): Promise<Subscription> {
+        const validated = this.subscriptionPolicyService.validateFrequency(frequency);
+        const subscription = await this.getSubscription(subscriptionId, userId);
+        this.assertStatus(subscription, [SubscriptionStatus.ACTIVE, SubscriptionStatus.PAUSED]);
+
+        const candidate = this.subscriptionPolicyService.nextOrderDate(now, validated);
+        const nextOrderAt = subscription.nextOrderAt < candidate ? subscription.nextOrderAt : candidate;
+        const changed = await this.databaseService.subscription.changeFrequency(subscription.id, validated, nextOrderAt);
+        if (!changed) {
+            throw new ConflictException('Subscription was cancelled in the meantime');
+        }
+
+        this.logger.log(`Subscription ${subscription.id} now repeats every ${validated.every} ${validated.unit.toLowerCase()}(s)`);
+        return this.getSubscription(subscriptionId, userId);
+    }
+
+    async cancelSubscription(subscriptionId: string, userId: string): Promise<Subscription> {
+        const subscription = await this.getSubscription(subscriptionId, userId);
+        this.assertStatus(subscription, [SubscriptionStatus.ACTIVE, SubscriptionStatus.PAUSED]);
+
+        await this.changeStatus(subscription, SubscriptionStatus.CANCELLED);
+        return this.getSubscription(subscriptionId, userId);
+    }
+
+    /**
+     * Place the orders of every subscription that is due. Each subscription
+     * is moved to its next date before its order is placed, so overlapping
+     * runs never order it twice.
+     */
+    async runDueSubscriptions(now: Date = new Date()): Promise<SubscriptionRunResult> {
+        const result: SubscriptionRunResult = { ordered: 0, failed: 0, paused: 0 };
+        const due = await this.databaseService.subscription.findDue(now, this.batchSize);
+
+        for (const subscription of due) {
+            // A long-overdue subscription places one order, not one per missed interval
+            let nextOrderAt = this.subscriptionPolicyService.nextOrderDate(subscription.nextOrderAt, subscription.frequency);
+            while (nextOrderAt <= now) {
+                nextOrderAt = this.subscriptionPolicyService.nextOrderDate(nextOrderAt, subscription.frequency);
+            }
+
+            const claimed = await this.databaseService.subscription.reschedule(
+                subscription.id,
+                subscription.nextOrderAt,
+                nextOrderAt
+            );
+            if (!claimed) {
+                continue;
+            }
+
+            try {
+                const order = await this.tenantService.run(
+                    subscription.tenantId,
+                    () => this.orderService.createOrder(this.toOrderRequest(subscription))
+                );
+                await this.databaseService.subscription.recordOrder(subscription.id, order.id);
+                result.ordered++;
+                this.logger.log(`Subscription ${subscription.id} placed order ${order.id}`);
+            } catch (error) {
+                const retryAt = new Date(now.getTime() + this.retryHours * 60 * 60 * 1000);
+                const updated = await this.databaseService.subscription.recordFailure(
+                    subscription.id,
+                    error.message,
+                    retryAt < nextOrderAt ? retryAt : nextOrderAt,
+                    this.maxFailures
+                );
+                result.failed++;
+                if (updated.status === SubscriptionStatus.PAUSED) {
+                    result.paused++;
+                    this.logger.warn(`Subscription ${subscription.id} paused after ${updated.failureCount} failed orders`);
+                } else {
+                    this.logger.error(`Subscription ${subscription.id} order failed:`, error.message);
+                }
+            }
+        }
+
+        return result;
+    }
+
+    private toOrderRequest(subscription: Subscription): CreateOrderRequest {
+        const discount = this.subscriptionPolicyService.discountOn(subscription.unitPrice, subscription.discountPercent);
+
+        return {
+            userId: subscription.userId,
+            items: [{
+                productId: subscription.productId,
+                variantId: subscription.variantId,
+                quantity: subscription.quantity,
+                unitPrice: this.currencyService.round(subscription.unitPrice - discount, subscription.currency),
+                metadata: { subscriptionId: subscription.id }
+            }],
+            shippingAddress: subscription.shippingAddress,
+            billingAddress: subscription.billingAddress,
+            paymentMethod: subscription.paymentMethod,
+            paymentProvider: subscription.paymentProvider,
+            shippingMethod: subscription.shippingMethod,
+            currency: subscription.currency,
+            notes: `Subscription: ${subscription.id}`,
+            metadata: { subscriptionId: subscription.id }
+        };
+    }
+
+    private assertStatus(subscription: Subscription, allowed: SubscriptionStatus[]): void {
+        if (!allowed.includes(subscription.status)) {
+            throw new ConflictException(`Subscription is ${subscription.status.toLowerCase()}`);
+        }
+    }
+
+    private async changeStatus(subscription: Subscription, to: SubscriptionStatus, nextOrderAt?: Date): Promise<void> {
+        const changed = await this.databaseService.subscription.changeStatus(subscription.id, subscription.status, to, nextOrderAt);
+        if (!changed) {
+            throw new ConflictException('Subscription changed in the meantime; please retry');
+        }
+
+        this.logger.log(`Subscription ${subscription.id} is now ${to.toLowerCase()}`);
+    }
+}
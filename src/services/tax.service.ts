@@ -1,8 +1,10 @@
 import { Injectable, Logger, BadRequestException, NotFoundException } from '@nestjs/common';
 import { DatabaseService } from '../database/database.service';
+import { TenantService } from '../tenant/tenant.service';
 import { 
   TaxRate, 
   TaxType, 
+  Currency,
   TaxCalculationRequest, 
   TaxCalculationResponse, 
   TaxApplication,
@@ -16,7 +18,10 @@ import { v4 as uuidv4 } from 'uuid';
 export class TaxService {
   private readonly logger = new Logger(TaxService.name);
 
-  constructor(private readonly databaseService: DatabaseService) {}
+  constructor(
+    private readonly databaseService: DatabaseService,
+    private readonly tenantService: TenantService
+  ) {}
 
   /**
    * Calculate taxes for items and addresses
@@ -31,12 +36,16 @@ export class TaxService {
       // Get applicable tax rates for the shipping address
       const taxRates = await this.getApplicableTaxRates(request.shippingAddress);
 
+      // A store that quotes prices with tax included only reports the tax inside them
+      const pricesIncludeTax = this.tenantService.pricesIncludeTax();
+
       // Calculate tax for each applicable rate
       for (const taxRate of taxRates) {
         const taxableAmount = this.calculateTaxableAmount(request.items, taxRate);
         
         if (taxableAmount > 0) {
-          const appliedAmount = this.calculateTaxAmount(taxableAmount, taxRate);
+          const isInclusive = taxRate.isInclusive || pricesIncludeTax;
+          const appliedAmount = this.calculateTaxAmount(taxableAmount, taxRate, isInclusive);
           
           if (appliedAmount > 0) {
             taxApplications.push({
@@ -46,7 +55,7 @@ export class TaxService {
               rate: taxRate.rate,
               appliedAmount,
               region: taxRate.region,
-              isInclusive: taxRate.isInclusive,
+              isInclusive,
               metadata: {
                 taxRateId: taxRate.id,
                 country: taxRate.country,
@@ -67,7 +76,7 @@ export class TaxService {
       return {
         taxes: taxApplications,
         totalTax,
-        currency: 'USD' as any, // Default currency
+        currency: request.currency || Currency.USD,
         metadata: {
           calculatedAt: new Date(),
           shippingAddress: request.shippingAddress,
@@ -192,10 +201,13 @@ export class TaxService {
   }
 
   /**
-   * Calculate tax amount
+   * Calculate tax amount, either on top of the taxable amount or, for an
+   * inclusive tax, the part of it that is tax
    */
-  private calculateTaxAmount(taxableAmount: number, taxRate: TaxRate): number {
-    const taxAmount = (taxableAmount * taxRate.rate) / 100;
+  private calculateTaxAmount(taxableAmount: number, taxRate: TaxRate, isInclusive: boolean): number {
+    const taxAmount = isInclusive
+      ? (taxableAmount * taxRate.rate) / (100 + taxRate.rate)
+      : (taxableAmount * taxRate.rate) / 100;
     
     // Round to 2 decimal places
     return Math.round(taxAmount * 100) / 100;
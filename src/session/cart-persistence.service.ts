@@ -10,6 +10,7 @@ import {
     SessionContext
 } from '../types/session.types';
 import { Cart, CartItem } from '../types/cart.types';
+import { CartEventType } from '../types/cart-event.types';
 import { v4 as uuidv4 } from 'uuid';
 
 @Injectable()
@@ -299,26 +300,32 @@ export class CartPersistenceService {
      */
     private async restoreCartItems(cartId: string, cartData: CartData): Promise<void> {
         try {
-            // Clear existing cart items
-            await this.databaseService.cartItem.deleteMany({
-                where: { cartId }
-            });
-
-            // Add items from snapshot
-            for (const itemData of cartData.items) {
-                await this.databaseService.cartItem.create({
-                    data: {
-                        id: uuidv4(),
-                        cartId,
-                        productId: itemData.productId,
-                        variantId: itemData.variantId,
-                        quantity: itemData.quantity,
-                        price: itemData.price,
-                        originalPrice: itemData.originalPrice,
-                        addedAt: itemData.addedAt
-                    }
+            // Replace the cart items with the snapshot's, recorded as one event
+            await this.databaseService.cartEvent.track(cartId, CartEventType.CART_RESTORED, async () => {
+                // Clear existing cart items
+                await this.databaseService.cartItem.deleteMany({
+                    where: { cartId }
                 });
-            }
+
+                // Add items from snapshot
+                for (const itemData of cartData.items) {
+                    await this.databaseService.cartItem.create({
+                        data: {
+                            id: uuidv4(),
+                            cartId,
+                            productId: itemData.productId,
+                            variantId: itemData.variantId,
+                            quantity: itemData.quantity,
+                            price: itemData.price,
+                            originalPrice: itemData.originalPrice,
+                            customization: itemData.customization ? JSON.stringify(itemData.customization) : null,
+                            customizationFingerprint: itemData.customizationFingerprint || '',
+                            surcharge: itemData.surcharge ?? 0,
+                            addedAt: itemData.addedAt
+                        }
+                    });
+                }
+            });
 
         } catch (error) {
             this.logger.error('Cart items restoration failed:', error.message);
@@ -337,6 +344,9 @@ export class CartPersistenceService {
             quantity: item.quantity,
             price: item.price,
             originalPrice: item.originalPrice,
+            customization: item.customization,
+            customizationFingerprint: item.customizationFingerprint,
+            surcharge: item.surcharge,
             addedAt: item.addedAt,
             metadata: item.metadata
         };
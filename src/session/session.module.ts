@@ -6,6 +6,7 @@ import { CartPersistenceService } from './cart-persistence.service';
 import { DeviceSyncService } from './device-sync.service';
 import { CartBackupJob } from '../jobs/cart-backup.job';
 import { SessionCleanupJob } from '../jobs/session-cleanup.job';
+import { CartLifecycleJob } from '../jobs/cart-lifecycle.job';
 import { DatabaseModule } from '../database/database.module';
 import { AuthModule } from '../auth/auth.module';
 import { CartModule } from '../cart/cart.module';
@@ -23,7 +24,8 @@ import { CartModule } from '../cart/cart.module';
         CartPersistenceService,
         DeviceSyncService,
         CartBackupJob,
-        SessionCleanupJob
+        SessionCleanupJob,
+        CartLifecycleJob
     ],
     exports: [
         SessionService,
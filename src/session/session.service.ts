@@ -382,6 +382,7 @@ export class SessionService {
                 activeSessions,
                 sessionsByType,
                 sessionsByDevice,
+                cartSessionsByChannel,
                 averageDuration
             ] = await Promise.all([
                 this.databaseService.session.count({ where }),
@@ -398,6 +399,12 @@ export class SessionService {
                     where,
                     _count: { deviceInfo: true }
                 }),
+                // Sales channels are recorded on cart sessions
+                this.databaseService.prisma.cartSession.groupBy({
+                    by: ['channel'],
+                    where,
+                    _count: { channel: true }
+                }),
                 this.databaseService.session.aggregate({
                     where,
                     _avg: {
@@ -411,6 +418,7 @@ export class SessionService {
                 activeSessions,
                 sessionsByType: this.mapGroupByToRecord(sessionsByType, 'type'),
                 sessionsByDevice: this.mapGroupByToRecord(sessionsByDevice, 'deviceInfo'),
+                sessionsByChannel: this.mapGroupByToRecord(cartSessionsByChannel, 'channel'),
                 averageSessionDuration: averageDuration._avg.lastActivity || 0,
                 cartRecoveryRate: 0, // Would be calculated from cart recovery data
                 syncSuccessRate: 0, // Would be calculated from sync data
@@ -0,0 +1,33 @@
+import { AsyncLocalStorage } from 'async_hooks';
+
+interface TenantStore {
+    tenantId: string;
+}
+
+const storage = new AsyncLocalStorage<TenantStore>();
+
+/**
+ * Run a function, and everything it awaits, on behalf of a tenant
+ */
+export function runWithTenant<T>(tenantId: string, fn: () => T): T {
+    return storage.run({ tenantId }, fn);
+}
+
+/**
+ * Switch the tenant of the work already running, e.g. once a token names
+ * it. Does nothing outside runWithTenant.
+ */
+export function switchTenant(tenantId: string): void {
+    const store = storage.getStore();
+    if (store) {
+        store.tenantId = tenantId;
+    }
+}
+
+/**
+ * Tenant of the work running, or undefined outside a request such as in a
+ * scheduled job
+ */
+export function getCurrentTenantId(): string | undefined {
+    return storage.getStore()?.tenantId;
+}
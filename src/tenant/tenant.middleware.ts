@@ -0,0 +1,18 @@
+import { Injectable, NestMiddleware } from '@nestjs/common';
+import { NextFunction, Request, Response } from 'express';
+import { TenantService } from './tenant.service';
+
+/**
+ * Handles each request as the tenant named by its X-Tenant-Id header, or the
+ * default tenant. A signed-in customer's token can narrow this to the
+ * tenant it was issued for (see JwtAuthGuard).
+ */
+@Injectable()
+export class TenantMiddleware implements NestMiddleware {
+    constructor(private readonly tenantService: TenantService) { }
+
+    use(req: Request, res: Response, next: NextFunction): void {
+        const tenant = this.tenantService.resolve(req.headers['x-tenant-id'] as string | undefined);
+        this.tenantService.run(tenant.id, () => next());
+    }
+}
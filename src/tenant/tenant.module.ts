@@ -0,0 +1,14 @@
+import { Global, MiddlewareConsumer, Module, NestModule } from '@nestjs/common';
+import { TenantMiddleware } from './tenant.middleware';
+import { TenantService } from './tenant.service';
+
+@Global()
+@Module({
+    providers: [TenantService],
+    exports: [TenantService],
+})
+export class TenantModule implements NestModule {
+    configure(consumer: MiddlewareConsumer): void {
+        consumer.apply(TenantMiddleware).forRoutes('{*splat}');
+    }
+}
@@ -0,0 +1,146 @@
+import { ForbiddenException, Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { CartServiceError } from '../types/cart.types';
+import { Currency } from '../types/pricing.types';
+import { TaxMode, TenantConfig } from '../types/tenant.types';
+import { getCurrentTenantId, runWithTenant, switchTenant } from './tenant-context';
+
+/**
+ * Stores served from this deployment. TENANTS holds a JSON object keyed by
+ * tenant id, e.g. {"outlet": {"name": "Outlet", "currency": "EUR",
+ * "taxMode": "INCLUSIVE", "rateLimit": {"maxRequests": 500}}}. Settings a
+ * tenant leaves out, and the DEFAULT_TENANT_ID tenant that requests naming
+ * none belong to, use BASE_CURRENCY, TAX_MODE and the RATE_LIMIT_* settings.
+ */
+@Injectable()
+export class TenantService {
+    private readonly logger = new Logger(TenantService.name);
+    private readonly defaultTenant: TenantConfig;
+    private readonly tenants: Map<string, TenantConfig>;
+
+    constructor(private readonly configService: ConfigService) {
+        const taxMode = String(this.configService.get('TAX_MODE', TaxMode.EXCLUSIVE)).toUpperCase();
+        this.defaultTenant = {
+            id: String(this.configService.get('DEFAULT_TENANT_ID', 'default')),
+            currency: this.configService.get('BASE_CURRENCY', Currency.USD),
+            taxMode: this.isTaxMode(taxMode) ? taxMode : TaxMode.EXCLUSIVE,
+            rateLimit: {
+                windowMs: Number(this.configService.get('RATE_LIMIT_WINDOW_MS', 15 * 60 * 1000)), // 15 minutes
+                maxRequests: Number(this.configService.get('RATE_LIMIT_MAX_REQUESTS', 100))
+            }
+        };
+        this.tenants = this.parseTenants(String(this.configService.get('TENANTS', '')));
+    }
+
+    get defaultTenantId(): string {
+        return this.defaultTenant.id;
+    }
+
+    /**
+     * Every configured tenant, the default one included
+     */
+    tenantIds(): string[] {
+        return [...this.tenants.keys()];
+    }
+
+    /**
+     * The tenant named by a request, or the default tenant when it names
+     * none. Fails with UNKNOWN_TENANT for a tenant that is not configured.
+     */
+    resolve(tenantId?: string | null): TenantConfig {
+        const id = tenantId?.trim();
+        if (!id) {
+            return this.defaultTenant;
+        }
+
+        const tenant = this.tenants.get(id);
+        if (!tenant) {
+            throw new CartServiceError('UNKNOWN_TENANT', `Unknown tenant ${id}`, { tenantId: id });
+        }
+
+        return tenant;
+    }
+
+    /**
+     * Tenant of the request being handled; the default tenant outside one
+     */
+    currentTenantId(): string {
+        return getCurrentTenantId() ?? this.defaultTenant.id;
+    }
+
+    currentConfig(): TenantConfig {
+        return this.tenants.get(this.currentTenantId()) ?? this.defaultTenant;
+    }
+
+    /**
+     * Whether the current tenant's prices already include tax
+     */
+    pricesIncludeTax(): boolean {
+        return this.currentConfig().taxMode === TaxMode.INCLUSIVE;
+    }
+
+    /**
+     * Run work outside a request, e.g. a scheduled renewal, as a tenant so
+     * that its queries are scoped to the tenant's data
+     */
+    run<T>(tenantId: string, fn: () => T): T {
+        return runWithTenant(this.resolve(tenantId).id, fn);
+    }
+
+    /**
+     * Make the tenant claimed by a verified token the request's tenant. A
+     * token is only good for its own tenant, so a request naming another
+     * one in its header is refused.
+     */
+    assumeTenant(claimedTenantId: string, requestedTenantId?: string | null): TenantConfig {
+        const tenant = this.resolve(claimedTenantId);
+        if (requestedTenantId && requestedTenantId.trim() !== tenant.id) {
+            throw new ForbiddenException('Token was not issued for this tenant');
+        }
+
+        switchTenant(tenant.id);
+        return tenant;
+    }
+
+    private isTaxMode(value: string): value is TaxMode {
+        return Object.values(TaxMode).includes(value as TaxMode);
+    }
+
+    private parseTenants(value: string): Map<string, TenantConfig> {
+        const tenants = new Map<string, TenantConfig>([[this.defaultTenant.id, this.defaultTenant]]);
+        if (!value.trim()) {
+            return tenants;
+        }
+
+        let parsed: Record<string, Partial<TenantConfig>>;
+        try {
+            parsed = JSON.parse(value);
+        } catch (error) {
+            this.logger.warn(`Ignoring TENANTS: ${error.message}`);
+            return tenants;
+        }
+
+        for (const [id, tenant] of Object.entries(parsed ?? {})) {
+            const taxMode = String(tenant?.taxMode ?? this.defaultTenant.taxMode).toUpperCase();
+            const currency = String(tenant?.currency ?? this.defaultTenant.currency).toUpperCase();
+            if (!tenant || typeof tenant !== 'object' || !this.isTaxMode(taxMode)
+                || !Object.values(Currency).includes(currency as Currency)) {
+                this.logger.warn(`Ignoring tenant "${id}"`);
+                continue;
+            }
+
+            tenants.set(id, {
+                id,
+                name: tenant.name,
+                currency,
+                taxMode,
+                rateLimit: {
+                    windowMs: Number(tenant.rateLimit?.windowMs) || this.defaultTenant.rateLimit.windowMs,
+                    maxRequests: Number(tenant.rateLimit?.maxRequests) || this.defaultTenant.rateLimit.maxRequests
+                }
+            });
+        }
+
+        return tenants;
+    }
+}
@@ -0,0 +1,112 @@
+import { AssistedCartService } from '../../cart/operations/assisted-cart.service';
+import { CartStatus } from '../../types/cart.types';
+import { NotificationChannel } from '../../types/events.types';
+
+describe('AssistedCartService', () => {
+    const now = Date.UTC(2026, 9, 1, 12);
+    const agent = { agentId: 'agent-7', ipAddress: '10.0.0.1' };
+
+    const cart = (overrides: Record<string, any> = {}) => ({
+        id: 'cart-1',
+        userId: 'user-1',
+        status: CartStatus.ACTIVE,
+        currency: 'USD',
+        channel: 'WEB',
+        items: [
+            { id: 'line-1', productId: 'p-1', quantity: 2, price: 20, surcharge: 0 },
+            { id: 'line-2', productId: 'p-2', parentItemId: 'line-1', quantity: 2, price: 0, surcharge: 0 }
+        ],
+        ...overrides
+    });
+
+    let databaseService: any;
+    let cartService: any;
+    let notificationService: { createNotification: jest.Mock };
+    let auditService: { logAssistedCartAction: jest.Mock };
+    let service: AssistedCartService;
+
+    beforeEach(() => {
+        jest.spyOn(Date, 'now').mockReturnValue(now);
+        databaseService = {
+            cart: { findByUserId: jest.fn().mockResolvedValue([cart()]) },
+            setItemPrice: jest.fn().mockResolvedValue(undefined)
+        };
+        cartService = {
+            getCartById: jest.fn().mockResolvedValue(cart()),
+            getCartResponse: jest.fn(async (found: any) => ({ id: found.id })),
+            addItemToCart: jest.fn(async (_cartId: string, dto: any) => ({ id: 'line-3', ...dto })),
+            removeItemFromCart: jest.fn().mockResolvedValue(undefined)
+        };
+        notificationService = { createNotification: jest.fn().mockResolvedValue({ id: 'note-1' }) };
+        auditService = { logAssistedCartAction: jest.fn() };
+        const namedCartsService = { toSummary: jest.fn((found: any) => ({ id: found.id })) };
+        const currencyService = { round: (amount: number) => Math.round(amount * 100) / 100 };
+        const configService = { get: jest.fn((_key: string, fallback: unknown) => fallback) };
+
+        service = new AssistedCartService(
+            databaseService,
+            cartService,
+            namedCartsService as any,
+            {} as any,
+            currencyService as any,
+            notificationService as any,
+            auditService as any,
+            configService as any
+        );
+    });
+
+    afterEach(() => {
+        jest.restoreAllMocks();
+    });
+
+    it('lists the customer\'s open carts and records who looked and why', async () => {
+        await expect(service.listCustomerCarts(agent, 'user-1', 'ticket 42')).resolves.toEqual([{ id: 'cart-1' }]);
+
+        expect(databaseService.cart.findByUserId).toHaveBeenCalledWith('user-1', [CartStatus.ACTIVE, CartStatus.CHECKOUT, CartStatus.ABANDONED]);
+        expect(auditService.logAssistedCartAction).toHaveBeenCalledWith(
+            'list_carts', 'agent-7', 'ticket 42', 'user-1', 'user-1', { cartIds: ['cart-1'] }, '10.0.0.1', undefined
+        );
+    });
+
+    it('holds a price the agent sets, keeping the line\'s price as its original price', async () => {
+        await service.repriceItem(agent, 'cart-1', 'line-1', { price: 14.999, reason: 'price match' });
+
+        expect(databaseService.setItemPrice).toHaveBeenCalledWith('line-1', {
+            price: 15,
+            originalPrice: 20,
+            surcharge: 0,
+            lockedUntil: new Date(now + 72 * 60 * 60 * 1000)
+        }, { agentId: 'agent-7', reason: 'price match' });
+        expect(auditService.logAssistedCartAction.mock.calls[0][0]).toBe('reprice_item');
+    });
+
+    it('sends the cart to its customer, counting only top-level lines', async () => {
+        const result = await service.sendCart(agent, 'cart-1', { reason: 'ready' });
+
+        expect(notificationService.createNotification.mock.calls[0][0]).toMatchObject({
+            userId: 'user-1',
+            channel: NotificationChannel.EMAIL,
+            content: { message: 'We\'ve prepared your cart with 2 item(s). It\'s ready for you to check out.' }
+        });
+        expect(result).toEqual({ cartId: 'cart-1', sent: true, notificationId: 'note-1' });
+    });
+
+    it('fails with CART_HAS_NO_CUSTOMER for a guest cart and sends nothing', async () => {
+        cartService.getCartById.mockResolvedValue(cart({ userId: undefined }));
+
+        await expect(service.sendCart(agent, 'cart-1', { reason: 'ready' })).rejects.toMatchObject({ code: 'CART_HAS_NO_CUSTOMER' });
+        expect(notificationService.createNotification).not.toHaveBeenCalled();
+    });
+
+    it('fails with CART_NOT_ACTIVE or ITEM_NOT_FOUND before changing anything', async () => {
+        await expect(service.removeItem(agent, 'cart-1', 'line-9', 'mistake')).rejects.toMatchObject({ code: 'ITEM_NOT_FOUND' });
+
+        cartService.getCartById.mockResolvedValue(cart({ status: CartStatus.CHECKOUT }));
+        await expect(service.addItem(agent, 'cart-1', { productId: 'p-3', quantity: 1, reason: 'upsell' }))
+            .rejects.toMatchObject({ code: 'CART_NOT_ACTIVE' });
+
+        expect(cartService.removeItemFromCart).not.toHaveBeenCalled();
+        expect(cartService.addItemToCart).not.toHaveBeenCalled();
+        expect(auditService.logAssistedCartAction).not.toHaveBeenCalled();
+    });
+});
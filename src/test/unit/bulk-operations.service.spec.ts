@@ -0,0 +1,111 @@
+import { BulkOperationsService } from '../../cart/operations/bulk-operations.service';
+import { CartService } from '../../cart/cart.service';
+import { CartServiceError, CartStatus, SessionContext } from '../../types/cart.types';
+
+describe('BulkOperationsService', () => {
+    const sessionContext = { sessionId: 'session-1', isGuest: true } as SessionContext;
+
+    let databaseService: any;
+    let cartService: { prepareLine: jest.Mock; withLine: jest.Mock };
+    let quantityRulesService: { assertLineQuantity: jest.Mock };
+    let service: BulkOperationsService;
+
+    beforeEach(() => {
+        databaseService = {
+            cart: {
+                findById: jest.fn().mockResolvedValue({
+                    id: 'cart-1',
+                    sessionId: 'session-1',
+                    status: CartStatus.ACTIVE,
+                    currency: 'USD',
+                    version: 3,
+                    items: [
+                        { id: 'line-1', productId: 'mug', quantity: 1, customizationFingerprint: '' },
+                        { id: 'line-2', productId: 'kit', quantity: 1, bundleId: 'bundle-1' },
+                        { id: 'line-3', productId: 'tea', quantity: 1, bundleId: 'bundle-1', parentItemId: 'line-2' }
+                    ]
+                })
+            },
+            addItemsToCart: jest.fn(async (_cartId, lines) => lines.map((_line: any, index: number) => ({ id: `item-${index + 1}` }))),
+            updateCartItems: jest.fn(async (_cartId, updates) => updates.map((update: any) => ({ id: update.itemId }))),
+            removeItemsFromCart: jest.fn().mockResolvedValue(undefined),
+            assertNotBundleLine: jest.fn(item => {
+                if (item.bundleId) {
+                    throw new CartServiceError('BUNDLE_ITEM_LOCKED', `Item ${item.id} must be changed as a bundle`);
+                }
+            }),
+            assertNotQuotedLine: jest.fn()
+        };
+        cartService = {
+            prepareLine: jest.fn(async (_cart: any, item: any) => ({ item, pricing: { price: 5 } })),
+            withLine: jest.fn(CartService.prototype.withLine)
+        };
+        quantityRulesService = { assertLineQuantity: jest.fn().mockResolvedValue(undefined) };
+        const customizationService = { repriceLine: jest.fn().mockResolvedValue({ price: 5 }) };
+
+        service = new BulkOperationsService(
+            databaseService,
+            cartService as any,
+            customizationService as any,
+            quantityRulesService as any
+        );
+    });
+
+    it('checks each item against the earlier ones and adds those that pass with one write', async () => {
+        cartService.prepareLine
+            .mockImplementationOnce(async (_cart: any, item: any) => ({ item, pricing: { price: 5 } }))
+            .mockRejectedValueOnce(new CartServiceError('INSUFFICIENT_STOCK', 'tea does not have 9 in stock'));
+
+        const result = await service.addMultipleItems('cart-1', [
+            { productId: 'mug', quantity: 2 },
+            { productId: 'tea', quantity: 9 },
+            { productId: 'mug', quantity: 1 }
+        ], sessionContext, 3);
+
+        expect(cartService.prepareLine.mock.calls[2][0].items[0]).toMatchObject({ id: 'line-1', quantity: 3 });
+        expect(databaseService.addItemsToCart).toHaveBeenCalledTimes(1);
+        expect(databaseService.addItemsToCart.mock.calls[0][1]).toHaveLength(2);
+        expect(databaseService.addItemsToCart.mock.calls[0][2]).toBe(3);
+        expect(result).toMatchObject({ successfulItems: 2, failedItems: 1 });
+        expect(result.results.map(r => r.itemId)).toEqual(['item-1', undefined, 'item-2']);
+    });
+
+    it('fails the whole batch with CART_VERSION_CONFLICT when the cart changes before the write', async () => {
+        databaseService.addItemsToCart.mockRejectedValue(new CartServiceError('CART_VERSION_CONFLICT', 'Cart has been modified since it was last read'));
+
+        await expect(service.addMultipleItems('cart-1', [{ productId: 'mug', quantity: 1 }], sessionContext, 3))
+            .rejects.toMatchObject({ code: 'CART_VERSION_CONFLICT' });
+    });
+
+    it('fails with CART_VERSION_CONFLICT before checking any item when the If-Match version is stale', async () => {
+        await expect(service.removeMultipleItems('cart-1', ['line-1'], sessionContext, 2))
+            .rejects.toMatchObject({ code: 'CART_VERSION_CONFLICT' });
+
+        expect(databaseService.removeItemsFromCart).not.toHaveBeenCalled();
+    });
+
+    it('checks each update against the earlier ones and updates those that pass with one write', async () => {
+        const result = await service.updateMultipleItems('cart-1', [
+            { itemId: 'line-1', updateData: { quantity: 4 } },
+            { itemId: 'line-2', updateData: { quantity: 2 } },
+            { itemId: 'line-1', updateData: { quantity: 5 } }
+        ], sessionContext, 3);
+
+        expect(quantityRulesService.assertLineQuantity.mock.calls[1][2][0]).toMatchObject({ id: 'line-1', quantity: 4 });
+        expect(databaseService.updateCartItems).toHaveBeenCalledWith('cart-1', [
+            { itemId: 'line-1', itemData: { quantity: 4 }, pricing: { price: 5 } },
+            { itemId: 'line-1', itemData: { quantity: 5 }, pricing: { price: 5 } }
+        ], 3);
+        expect(result.errors).toEqual(['Item line-2: Item line-2 must be changed as a bundle']);
+    });
+
+    it('removes the lines of the cart with one write and reports the rest per item', async () => {
+        const result = await service.removeMultipleItems('cart-1', ['line-1', 'line-3', 'line-9', 'line-2'], sessionContext);
+
+        expect(databaseService.removeItemsFromCart).toHaveBeenCalledWith('cart-1', ['line-1', 'line-2'], undefined);
+        expect(result.errors).toEqual([
+            'Item line-3: Item line-3 must be changed as a bundle',
+            'Item line-9: Item not found in cart'
+        ]);
+    });
+});
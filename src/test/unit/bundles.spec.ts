@@ -0,0 +1,136 @@
+import { PricingService } from '../../services/pricing.service';
+import { CartItemModel } from '../../models/cart-item.model';
+import { BundlePriceDto } from '../../types/cart.types';
+
+describe('Product bundles', () => {
+    describe('PricingService.resolveBundlePrice', () => {
+        let productClient: { getBundle: jest.Mock; getProductPricing: jest.Mock };
+        let service: PricingService;
+
+        beforeEach(() => {
+            productClient = {
+                getBundle: jest.fn().mockResolvedValue({
+                    id: 'kit-1',
+                    name: 'Starter kit',
+                    isActive: true,
+                    discountPercentage: 10,
+                    components: [
+                        { productId: 'p-1', quantity: 2 },
+                        { productId: 'p-2' }
+                    ]
+                }),
+                getProductPricing: jest.fn(async (productId: string) => ({
+                    price: productId === 'p-1' ? 10 : 5,
+                    currency: 'USD',
+                    isActive: true
+                }))
+            };
+            const currencyService = {
+                getBaseCurrency: jest.fn().mockReturnValue('USD'),
+                convert: jest.fn(async (amount: number) => amount),
+                round: (amount: number) => Math.round(amount * 100) / 100
+            };
+            const channelPolicyService = { priceListFor: jest.fn().mockReturnValue(undefined) };
+
+            service = new PricingService(productClient as any, currencyService as any, channelPolicyService as any);
+        });
+
+        it('prices the kit at its discount off the component total', async () => {
+            const pricing = await service.resolveBundlePrice('kit-1', 'USD');
+
+            expect(pricing).toMatchObject({ bundleId: 'kit-1', name: 'Starter kit', price: 22.5, originalPrice: 25 });
+            expect(pricing.components).toEqual([
+                { productId: 'p-1', variantId: undefined, unitQuantity: 2, pricing: { price: 10, originalPrice: undefined } },
+                { productId: 'p-2', variantId: undefined, unitQuantity: 1, pricing: { price: 5, originalPrice: undefined } }
+            ]);
+        });
+
+        it('uses a fixed bundle price when the catalogue sets one', async () => {
+            productClient.getBundle.mockResolvedValue({
+                id: 'kit-1', isActive: true, price: 20, components: [{ productId: 'p-1', quantity: 2 }]
+            });
+
+            await expect(service.resolveBundlePrice('kit-1', 'USD')).resolves.toMatchObject({ price: 20, originalPrice: undefined });
+        });
+
+        it('fails with BUNDLE_NOT_FOUND when the catalogue cannot return the bundle', async () => {
+            productClient.getBundle.mockRejectedValue(new Error('404'));
+
+            await expect(service.resolveBundlePrice('kit-1')).rejects.toMatchObject({ code: 'BUNDLE_NOT_FOUND' });
+        });
+
+        it('fails with BUNDLE_UNAVAILABLE for an inactive or empty bundle', async () => {
+            productClient.getBundle.mockResolvedValue({ id: 'kit-1', isActive: false, components: [{ productId: 'p-1' }] });
+            await expect(service.resolveBundlePrice('kit-1')).rejects.toMatchObject({ code: 'BUNDLE_UNAVAILABLE' });
+
+            productClient.getBundle.mockResolvedValue({ id: 'kit-1', isActive: true, components: [] });
+            await expect(service.resolveBundlePrice('kit-1')).rejects.toMatchObject({ code: 'BUNDLE_UNAVAILABLE' });
+        });
+
+        it('fails the whole bundle when a component cannot be priced', async () => {
+            productClient.getProductPricing.mockResolvedValueOnce({ price: 0, isActive: true });
+
+            await expect(service.resolveBundlePrice('kit-1')).rejects.toMatchObject({ code: 'PRICE_UNAVAILABLE' });
+        });
+    });
+
+    describe('CartItemModel.setBundle', () => {
+        const pricing: BundlePriceDto = {
+            bundleId: 'kit-1',
+            price: 22.5,
+            originalPrice: 25,
+            components: [
+                { productId: 'p-1', unitQuantity: 2, pricing: { price: 10 } },
+                { productId: 'p-2', unitQuantity: 1, pricing: { price: 5 } }
+            ]
+        } as BundlePriceDto;
+
+        let prisma: { cartItem: Record<string, jest.Mock> };
+        let model: CartItemModel;
+
+        beforeEach(() => {
+            prisma = {
+                cartItem: {
+                    findFirst: jest.fn().mockResolvedValue(null),
+                    create: jest.fn(async ({ data }) => ({ id: data.parentItemId ? `${data.productId}-line` : 'bundle-line', ...data })),
+                    update: jest.fn(async ({ where, data }) => ({ id: where.id, ...data })),
+                    deleteMany: jest.fn().mockResolvedValue({ count: 0 })
+                }
+            };
+            model = new CartItemModel(prisma as any);
+        });
+
+        it('adds the bundle line with zero-priced components scaled to the number of kits', async () => {
+            const line = await model.setBundle('cart-1', pricing, 3);
+
+            expect(line).toMatchObject({ id: 'bundle-line', bundleId: 'kit-1', quantity: 3, price: 22.5 });
+            const components = prisma.cartItem.create.mock.calls.slice(1).map(([{ data }]) => data);
+            expect(components).toEqual([
+                expect.objectContaining({ productId: 'p-1', quantity: 6, unitQuantity: 2, price: 0, originalPrice: 10, parentItemId: 'bundle-line' }),
+                expect.objectContaining({ productId: 'p-2', quantity: 3, unitQuantity: 1, price: 0, originalPrice: 5, parentItemId: 'bundle-line' })
+            ]);
+        });
+
+        it('rescales an existing bundle line and drops components no longer in the bundle', async () => {
+            prisma.cartItem.findFirst.mockImplementation(async ({ where }) =>
+                where.parentItemId === null
+                    ? { id: 'bundle-line', cartId: 'cart-1', bundleId: 'kit-1', quantity: 1, price: 22.5 }
+                    : { id: `${where.productId}-line` }
+            );
+
+            await model.setBundle('cart-1', pricing, 2);
+
+            expect(prisma.cartItem.create).not.toHaveBeenCalled();
+            expect(prisma.cartItem.deleteMany).toHaveBeenCalledWith({
+                where: {
+                    parentItemId: 'bundle-line',
+                    NOT: [{ productId: 'p-1', variantId: null }, { productId: 'p-2', variantId: null }]
+                }
+            });
+            expect(prisma.cartItem.update).toHaveBeenCalledWith({
+                where: { id: 'p-1-line' },
+                data: expect.objectContaining({ quantity: 4 })
+            });
+        });
+    });
+});
@@ -0,0 +1,217 @@
+import { BusinessRulesService } from '../../rules/business-rules.service';
+import { ItemValidatorService } from '../../cart/validation/item-validator.service';
+import {
+    BusinessRule,
+    RuleAction,
+    RuleCart,
+    RuleMatch,
+    RuleOperator,
+    RuleScope
+} from '../../types/business-rule.types';
+import { CartItem, CartServiceError, CartStatus } from '../../types/cart.types';
+
+describe('Business rules', () => {
+    const rule = (overrides: Partial<BusinessRule> = {}): BusinessRule => ({
+        id: 'rule-1',
+        name: 'Rule',
+        scope: RuleScope.CART,
+        match: RuleMatch.ALL,
+        conditions: [],
+        action: RuleAction.BLOCK,
+        message: 'Blocked',
+        priority: 0,
+        isActive: true,
+        createdAt: new Date(),
+        updatedAt: new Date(),
+        ...overrides
+    });
+
+    const item = (overrides: Partial<CartItem> = {}): CartItem => ({
+        id: 'item-1',
+        cartId: 'cart-1',
+        productId: 'p-1',
+        quantity: 1,
+        price: 10,
+        addedAt: new Date(),
+        updatedAt: new Date(),
+        ...overrides
+    });
+
+    const cart = (items: CartItem[]): RuleCart => ({ id: 'cart-1', status: CartStatus.ACTIVE, currency: 'USD', items });
+
+    let databaseService: any;
+    let productClient: { getProduct: jest.Mock };
+    let service: BusinessRulesService;
+
+    beforeEach(() => {
+        databaseService = {
+            businessRule: {
+                findAll: jest.fn().mockResolvedValue([]),
+                findById: jest.fn().mockResolvedValue(null),
+                create: jest.fn(async data => ({ id: 'rule-9', ...data }))
+            }
+        };
+        productClient = { getProduct: jest.fn().mockResolvedValue({ attributes: { hazmat: true } }) };
+
+        service = new BusinessRulesService(databaseService, productClient as any);
+    });
+
+    describe('evaluate', () => {
+        it('blocks a cart whose attributes match a cart rule, filling in the message', async () => {
+            const minimum = rule({
+                conditions: [{ field: 'cart.subtotal', operator: RuleOperator.LT, value: 25 }],
+                message: 'Orders start at 25 {cart.currency}; this one is {cart.subtotal}'
+            });
+
+            const result = await service.evaluate(cart([item({ quantity: 2 })]), { isGuest: true }, [minimum]);
+
+            expect(result.blocked).toBe(true);
+            expect(result.outcomes).toEqual([expect.objectContaining({
+                ruleId: 'rule-1',
+                message: 'Orders start at 25 USD; this one is 20'
+            })]);
+        });
+
+        it('caps only the lines above the cap, with product attributes available', async () => {
+            const cap = rule({
+                scope: RuleScope.LINE,
+                conditions: [{ field: 'product.attributes.hazmat', operator: RuleOperator.EQ, value: true }],
+                action: RuleAction.CAP_QUANTITY,
+                capQuantity: 3,
+                message: 'At most 3 of {line.productId}'
+            });
+
+            const result = await service.evaluate(
+                cart([item({ id: 'item-1', quantity: 5 }), item({ id: 'item-2', productId: 'p-2', quantity: 2 })]),
+                { isGuest: false, id: 'user-1' },
+                [cap]
+            );
+
+            expect(result.outcomes).toEqual([
+                expect.objectContaining({ itemId: 'item-1', capQuantity: 3, message: 'At most 3 of p-1' })
+            ]);
+        });
+
+        it('matches an ANY rule on one condition and leaves the cart valid for a warning', async () => {
+            const warn = rule({
+                match: RuleMatch.ANY,
+                action: RuleAction.WARN,
+                conditions: [
+                    { field: 'user.isGuest', operator: RuleOperator.EQ, value: true },
+                    { field: 'cart.itemCount', operator: RuleOperator.GT, value: 100 }
+                ]
+            });
+
+            const result = await service.evaluate(cart([item()]), { isGuest: true }, [warn]);
+
+            expect(result).toMatchObject({ blocked: false, requiresApproval: false, rulesEvaluated: 1 });
+            expect(result.outcomes).toHaveLength(1);
+        });
+    });
+
+    describe('rule management', () => {
+        it('rejects a rule whose conditions do not fit its scope', async () => {
+            const error = await service.createRule({
+                name: 'Bad',
+                scope: RuleScope.CART,
+                conditions: [{ field: 'line.quantity', operator: RuleOperator.GT, value: 1 }],
+                action: RuleAction.CAP_QUANTITY,
+                message: 'Bad'
+            } as any).catch(caught => caught);
+
+            expect(error).toBeInstanceOf(CartServiceError);
+            expect(error.code).toBe('INVALID_BUSINESS_RULE');
+            expect(error.details.errors).toEqual([
+                'line.quantity cannot be used in a CART rule; use cart, user',
+                'CAP_QUANTITY applies to LINE rules only',
+                'CAP_QUANTITY needs capQuantity'
+            ]);
+            expect(databaseService.businessRule.create).not.toHaveBeenCalled();
+        });
+
+        it('fails with RULE_NOT_FOUND for an unknown rule', async () => {
+            await expect(service.getRule('rule-9')).rejects.toMatchObject({ code: 'RULE_NOT_FOUND' });
+        });
+    });
+
+    describe('ItemValidatorService.validateBusinessRules', () => {
+        let pricingService: { resolveItemPrice: jest.Mock };
+        let validator: ItemValidatorService;
+        let evaluate: jest.SpyInstance;
+
+        beforeEach(() => {
+            databaseService.cart = { findActiveByUserId: jest.fn().mockResolvedValue(null) };
+            databaseService.cartItem = { sumUserQuantity: jest.fn().mockResolvedValue(0) };
+            databaseService.orderItem = { aggregate: jest.fn().mockResolvedValue({ _sum: { quantity: 0 } }) };
+            pricingService = { resolveItemPrice: jest.fn().mockResolvedValue({ price: 40, originalPrice: 50 }) };
+            const quantityRulesService = {
+                getRules: jest.fn().mockResolvedValue({ productId: 'p-1', minQuantity: 1, step: 1, overridden: false }),
+                customerQuantity: jest.fn().mockResolvedValue(0),
+                otherLinesQuantity: jest.fn().mockReturnValue(0),
+                check: jest.fn().mockReturnValue({ valid: true })
+            };
+            const currencyService = { getStoreCurrency: jest.fn().mockReturnValue('EUR') };
+            evaluate = jest.spyOn(service, 'evaluate');
+
+            validator = new ItemValidatorService(
+                databaseService,
+                quantityRulesService as any,
+                service,
+                pricingService as any,
+                currencyService as any
+            );
+        });
+
+        it('prices a product the cart does not hold yet at its current price in the store currency', async () => {
+            databaseService.businessRule.findAll.mockResolvedValue([rule({
+                conditions: [{ field: 'cart.subtotal', operator: RuleOperator.GT, value: 100 }],
+                message: 'Over {cart.subtotal} {cart.currency}'
+            })]);
+
+            const result = await validator.validateBusinessRules('p-1', undefined, 3);
+
+            expect(pricingService.resolveItemPrice).toHaveBeenCalledWith('p-1', undefined, 'EUR', undefined);
+            expect(evaluate.mock.calls[0][0]).toEqual({
+                id: '',
+                name: undefined,
+                status: CartStatus.ACTIVE,
+                currency: 'EUR',
+                items: [expect.objectContaining({ id: 'proposed', productId: 'p-1', quantity: 3, price: 40 })]
+            });
+            expect(result).toEqual({ isValid: false, violations: ['Over 120 EUR'], suggestions: [] });
+        });
+
+        it('keeps the cart price and currency of a line the user\'s cart already holds', async () => {
+            databaseService.cart.findActiveByUserId.mockResolvedValue({
+                id: 'cart-1',
+                status: CartStatus.ACTIVE,
+                currency: 'GBP',
+                items: [item({ price: 9 })]
+            });
+
+            const result = await validator.validateBusinessRules('p-1', undefined, 4, 'user-1');
+
+            expect(pricingService.resolveItemPrice).not.toHaveBeenCalled();
+            expect(evaluate.mock.calls[0][0]).toMatchObject({
+                id: 'cart-1',
+                currency: 'GBP',
+                items: [expect.objectContaining({ id: 'proposed', quantity: 4, price: 9 })]
+            });
+            expect(result.isValid).toBe(true);
+        });
+
+        it('reports a product that cannot be priced as a violation', async () => {
+            pricingService.resolveItemPrice.mockRejectedValue(
+                new CartServiceError('PRICE_UNAVAILABLE', 'No valid price is available for product p-1')
+            );
+
+            const result = await validator.validateBusinessRules('p-1', undefined, 1);
+
+            expect(result).toEqual({
+                isValid: false,
+                violations: ['Validation failed: No valid price is available for product p-1'],
+                suggestions: []
+            });
+        });
+    });
+});
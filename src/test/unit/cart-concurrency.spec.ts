@@ -0,0 +1,83 @@
+import { HttpStatus, PreconditionFailedException } from '@nestjs/common';
+import { CartService } from '../../cart/cart.service';
+import { CartModel } from '../../models/cart.model';
+import { Cart, CartStatus } from '../../types/cart.types';
+
+describe('Cart optimistic concurrency', () => {
+    const cart = { id: 'cart-1', version: 3 } as Cart;
+
+    describe('CartService', () => {
+        let service: CartService;
+
+        beforeEach(() => {
+            service = new CartService(
+                {} as any, {} as any, {} as any, {} as any, {} as any, {} as any, {} as any, {} as any, {} as any
+            );
+            jest.spyOn(service, 'getCartById').mockResolvedValue({ ...cart, version: 4 });
+            jest.spyOn(service, 'getCartResponse').mockResolvedValue({ id: 'cart-1' } as any);
+        });
+
+        it('tags a cart with its id and version', () => {
+            expect(service.getCartEtag(cart)).toBe('"cart-1:3"');
+        });
+
+        it('makes a write conditional on the version an If-Match names', async () => {
+            await expect(service.resolveExpectedVersion(cart, '"cart-1:3"')).resolves.toBe(3);
+            await expect(service.resolveExpectedVersion(cart, 'W/"cart-1:2", W/"cart-1:3"')).resolves.toBe(3);
+        });
+
+        it('leaves writes without If-Match, or with *, unconditional', async () => {
+            await expect(service.resolveExpectedVersion(cart)).resolves.toBeUndefined();
+            await expect(service.resolveExpectedVersion(cart, '*')).resolves.toBeUndefined();
+        });
+
+        it('answers a stale If-Match with 412 carrying the current cart and ETag', async () => {
+            const conflict = await service.resolveExpectedVersion(cart, '"cart-1:2"').catch(error => error);
+
+            expect(conflict).toBeInstanceOf(PreconditionFailedException);
+            expect(conflict.getStatus()).toBe(HttpStatus.PRECONDITION_FAILED);
+            expect(conflict.getResponse()).toMatchObject({
+                errorCode: 'CART_VERSION_CONFLICT',
+                data: { etag: '"cart-1:4"', cart: { id: 'cart-1' } }
+            });
+        });
+    });
+
+    describe('CartModel.incrementVersion', () => {
+        let prisma: { cart: { updateMany: jest.Mock; findUnique: jest.Mock } };
+        let model: CartModel;
+
+        beforeEach(() => {
+            prisma = { cart: { updateMany: jest.fn(), findUnique: jest.fn() } };
+            model = new CartModel(prisma as any);
+        });
+
+        it('bumps the version only while it is still the expected one', async () => {
+            prisma.cart.updateMany.mockResolvedValue({ count: 1 });
+
+            await model.incrementVersion('cart-1', 3);
+
+            expect(prisma.cart.updateMany).toHaveBeenCalledWith({
+                where: expect.objectContaining({ id: 'cart-1', version: 3 }),
+                data: { version: { increment: 1 } }
+            });
+        });
+
+        it('fails with CART_VERSION_CONFLICT when another write got there first', async () => {
+            prisma.cart.updateMany.mockResolvedValue({ count: 0 });
+            prisma.cart.findUnique.mockResolvedValue({ status: CartStatus.ACTIVE });
+
+            await expect(model.incrementVersion('cart-1', 3)).rejects.toMatchObject({
+                code: 'CART_VERSION_CONFLICT',
+                details: { cartId: 'cart-1', expectedVersion: 3 }
+            });
+        });
+
+        it('fails with CART_NOT_FOUND for a cart that does not exist', async () => {
+            prisma.cart.updateMany.mockResolvedValue({ count: 0 });
+            prisma.cart.findUnique.mockResolvedValue(null);
+
+            await expect(model.incrementVersion('missing')).rejects.toMatchObject({ code: 'CART_NOT_FOUND' });
+        });
+    });
+});
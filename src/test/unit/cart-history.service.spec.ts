@@ -0,0 +1,114 @@
+import { CartHistoryService } from '../../cart/operations/cart-history.service';
+import { CartEventModel } from '../../models/cart-event.model';
+import { CartEvent, CartEventType, CartLineState } from '../../types/cart-event.types';
+import { CartStatus } from '../../types/cart.types';
+
+describe('Cart history', () => {
+    const time = (minute: number) => new Date(Date.UTC(2026, 9, 1, 12, minute));
+
+    const line = (itemId: string, quantity: number, price = 10, addedAt = time(1)): CartLineState => ({
+        itemId,
+        productId: `product-${itemId}`,
+        quantity,
+        price,
+        addedAt
+    });
+
+    const event = (sequence: number, minute: number, type: CartEventType, overrides: Partial<CartEvent> = {}): CartEvent => ({
+        id: `event-${sequence}`,
+        cartId: 'cart-1',
+        sequence,
+        type,
+        changes: [],
+        createdAt: time(minute),
+        ...overrides
+    });
+
+    describe('CartHistoryService', () => {
+        let events: CartEvent[];
+        let databaseService: any;
+        let service: CartHistoryService;
+
+        beforeEach(() => {
+            events = [
+                event(1, 1, CartEventType.ITEM_ADDED, { changes: [{ itemId: 'a', before: null, after: line('a', 1) }] }),
+                event(2, 2, CartEventType.ITEM_ADDED, { changes: [{ itemId: 'b', before: null, after: line('b', 2, 5, time(2)) }] }),
+                event(3, 3, CartEventType.ITEM_UPDATED, { changes: [{ itemId: 'a', before: line('a', 1), after: line('a', 3) }] }),
+                event(4, 4, CartEventType.ITEM_REMOVED, { changes: [{ itemId: 'b', before: line('b', 2, 5, time(2)), after: null }] }),
+                event(5, 5, CartEventType.PRICE_CHANGED, { details: { fromCurrency: 'USD', toCurrency: 'EUR' } })
+            ];
+            databaseService = {
+                cart: {
+                    findById: jest.fn().mockResolvedValue({
+                        id: 'cart-1',
+                        status: CartStatus.ACTIVE,
+                        currency: 'EUR',
+                        createdAt: time(0),
+                        items: []
+                    })
+                },
+                cartEvent: { findByCartId: jest.fn(async () => events) }
+            };
+            const currencyService = { round: (amount: number) => Math.round(amount * 100) / 100 };
+
+            service = new CartHistoryService(databaseService, currencyService as any);
+        });
+
+        it('replays the log up to the requested time', async () => {
+            const state = await service.getCartStateAt('cart-1', time(2));
+
+            expect(state.items.map(item => [item.itemId, item.quantity])).toEqual([['a', 1], ['b', 2]]);
+            expect(state).toMatchObject({ itemCount: 3, subtotal: 20, currency: 'USD', eventsApplied: 2, lastEventAt: time(2) });
+        });
+
+        it('applies later updates, removals and currency changes', async () => {
+            const state = await service.getCartStateAt('cart-1', time(5));
+
+            expect(state.items.map(item => [item.itemId, item.quantity])).toEqual([['a', 3]]);
+            expect(state).toMatchObject({ currency: 'EUR', eventsApplied: 5 });
+        });
+
+        it('seeds lines that were in the cart before recording started', async () => {
+            events = [event(1, 3, CartEventType.ITEM_UPDATED, { changes: [{ itemId: 'a', before: line('a', 1), after: line('a', 4) }] })];
+
+            const state = await service.getCartStateAt('cart-1', time(2));
+
+            expect(state.items).toEqual([line('a', 1)]);
+            expect(state.eventsApplied).toBe(0);
+        });
+
+        it('shows an empty cart before the cart existed', async () => {
+            const state = await service.getCartStateAt('cart-1', new Date(Date.UTC(2026, 8, 1)));
+
+            expect(state.items).toEqual([]);
+        });
+
+        it('fails with CART_NOT_FOUND for an unknown cart', async () => {
+            databaseService.cart.findById.mockResolvedValue(null);
+
+            await expect(service.getCartStateAt('cart-9', time(1))).rejects.toMatchObject({ code: 'CART_NOT_FOUND' });
+        });
+
+        it('rejects a change range that ends before it starts', async () => {
+            await expect(service.listChanges('cart-1', time(3), time(2))).rejects.toMatchObject({ code: 'VALIDATION_ERROR' });
+            expect(databaseService.cartEvent.findByCartId).not.toHaveBeenCalled();
+        });
+    });
+
+    describe('CartEventModel.diffLines', () => {
+        const model = new CartEventModel({} as any);
+
+        it('records added, removed and changed lines but not untouched ones', () => {
+            const changes = model.diffLines(
+                [line('a', 1), line('b', 2), line('c', 1)],
+                [line('a', 1), line('b', 5), line('d', 1)]
+            );
+
+            expect(changes).toEqual([
+                { itemId: 'b', before: line('b', 2), after: line('b', 5) },
+                { itemId: 'c', before: line('c', 1), after: null },
+                { itemId: 'd', before: null, after: line('d', 1) }
+            ]);
+        });
+    });
+});
@@ -0,0 +1,189 @@
+import { CartImportService } from '../../cart/operations/cart-import.service';
+import { ImportRowStatus } from '../../cart/dto/cart-import.dto';
+import { CartItem, CartServiceError, CartStatus } from '../../types/cart.types';
+import { AvailabilityStatus } from '../../types/fulfillment.types';
+import { RuleAction } from '../../types/business-rule.types';
+
+describe('CartImportService', () => {
+    const lockedUntil = new Date(Date.UTC(2026, 9, 20));
+
+    let cartItems: CartItem[];
+    let databaseService: any;
+    let pricingService: { resolveItemPrice: jest.Mock };
+    let quantityRulesService: any;
+    let inventoryService: { resolveAvailability: jest.Mock };
+    let productClient: { getProduct: jest.Mock };
+    let itemValidatorService: { validateMultipleItems: jest.Mock };
+    let businessRulesService: { evaluate: jest.Mock };
+    let service: CartImportService;
+
+    beforeEach(() => {
+        cartItems = [];
+        databaseService = {
+            cart: {
+                findById: jest.fn(async () => ({ id: 'cart-1', userId: 'user-1', status: CartStatus.ACTIVE, currency: 'EUR', items: cartItems }))
+            },
+            addItemsToCart: jest.fn(async (_cartId, lines) => lines.map((_line: any, index: number) => ({ id: `item-${index + 1}` })))
+        };
+        pricingService = { resolveItemPrice: jest.fn().mockResolvedValue({ price: 8, originalPrice: 10 }) };
+        quantityRulesService = {
+            getRules: jest.fn(async (productId: string) => ({ productId, minQuantity: 1, step: productId === 'case' ? 4 : 1, overridden: false })),
+            customerQuantity: jest.fn().mockResolvedValue(0),
+            otherLinesQuantity: jest.fn().mockReturnValue(0),
+            check: jest.fn((rules, quantity) => quantity % rules.step === 0
+                ? { valid: true }
+                : { valid: false, reason: `${rules.productId} is sold in cases of ${rules.step}`, suggestedQuantity: Math.ceil(quantity / rules.step) * rules.step })
+        };
+        inventoryService = { resolveAvailability: jest.fn().mockResolvedValue({ availability: AvailabilityStatus.IN_STOCK }) };
+        productClient = {
+            getProduct: jest.fn(async (id: string) => ({ id, isActive: true, isDiscontinued: false, variants: [{ id: 'v-1', isActive: true }] }))
+        };
+        itemValidatorService = {
+            validateMultipleItems: jest.fn(async (items: any[]) => ({
+                results: items.map(item => ({ ...item, isValid: true, errors: [], warnings: [], suggestions: [] }))
+            }))
+        };
+        businessRulesService = { evaluate: jest.fn().mockResolvedValue({ outcomes: [] }) };
+        const priceLockService = { lockUntil: jest.fn().mockResolvedValue(lockedUntil) };
+        const currencyService = { round: (amount: number) => Math.round(amount * 100) / 100 };
+
+        service = new CartImportService(
+            databaseService,
+            pricingService as any,
+            {} as any,
+            quantityRulesService,
+            inventoryService as any,
+            priceLockService as any,
+            currencyService as any,
+            productClient as any,
+            itemValidatorService as any,
+            businessRulesService as any
+        );
+    });
+
+    describe('importItems', () => {
+        it('adds every row that passes in one write and reports each row', async () => {
+            const result = await service.importItems('cart-1', { csv: 'sku,variant,qty\r\nmug,v-1,2\r\ncase,,3\r\n' }, 4);
+
+            expect(databaseService.addItemsToCart).toHaveBeenCalledTimes(1);
+            expect(databaseService.addItemsToCart).toHaveBeenCalledWith('cart-1', [
+                {
+                    item: { productId: 'mug', variantId: 'v-1', quantity: 2 },
+                    pricing: { price: 8, originalPrice: 10, lockedUntil },
+                    fulfillment: { availability: AvailabilityStatus.IN_STOCK }
+                },
+                {
+                    item: { productId: 'case', variantId: undefined, quantity: 4 },
+                    pricing: { price: 8, originalPrice: 10, lockedUntil },
+                    fulfillment: { availability: AvailabilityStatus.IN_STOCK }
+                }
+            ], 4);
+            expect(pricingService.resolveItemPrice).toHaveBeenCalledWith('mug', 'v-1', 'EUR', undefined);
+            expect(result).toMatchObject({ totalRows: 2, importedRows: 1, adjustedRows: 1, failedRows: 0 });
+            expect(result.rows[1]).toMatchObject({
+                row: 3,
+                status: ImportRowStatus.ADJUSTED,
+                itemId: 'item-2',
+                warnings: ['case is sold in cases of 4. Quantity changed from 3 to 4']
+            });
+        });
+
+        it('fails rows for products no longer on sale or out of stock without adding them', async () => {
+            productClient.getProduct.mockImplementation(async (id: string) => ({
+                id, isActive: id !== 'retired', isDiscontinued: false, variants: []
+            }));
+            inventoryService.resolveAvailability.mockImplementation(async (productId: string, _variantId, quantity: number) => {
+                if (productId === 'scarce') {
+                    throw new CartServiceError('INSUFFICIENT_STOCK', `${productId} does not have ${quantity} in stock`);
+                }
+                return { availability: AvailabilityStatus.IN_STOCK };
+            });
+
+            const result = await service.importItems('cart-1', {
+                items: [{ productId: 'retired' }, { productId: 'mug', variantId: 'v-9' }, { productId: 'scarce', quantity: 5 }, { productId: 'mug' }]
+            });
+
+            expect(result.rows.map(row => row.errors)).toEqual([
+                ['Product retired is no longer available'],
+                ['Variant v-9 of mug is not available'],
+                ['scarce does not have 5 in stock'],
+                []
+            ]);
+            expect(databaseService.addItemsToCart.mock.calls[0][1]).toHaveLength(1);
+            expect(result).toMatchObject({ importedRows: 1, failedRows: 3 });
+        });
+
+        it('validates the rows and runs the business rules against the cart as the import leaves it', async () => {
+            cartItems = [{ id: 'line-1', cartId: 'cart-1', productId: 'mug', quantity: 3, price: 8, addedAt: new Date(), updatedAt: new Date() }];
+            itemValidatorService.validateMultipleItems.mockImplementation(async (items: any[]) => ({
+                results: items.map(item => ({ ...item, isValid: true, errors: [], warnings: item.quantity > 1 ? ['Low stock warning: 1 available'] : [], suggestions: [] }))
+            }));
+            businessRulesService.evaluate.mockResolvedValue({
+                outcomes: [
+                    { ruleId: 'rule-1', ruleName: 'No gift cards', action: RuleAction.BLOCK, message: 'Gift cards are bought on their own', itemId: 'import_2' },
+                    { ruleId: 'rule-2', ruleName: 'Mug limit', action: RuleAction.WARN, message: 'Mugs ship separately', itemId: 'line-1' }
+                ]
+            });
+
+            const result = await service.importItems('cart-1', { items: [{ productId: 'mug', quantity: 2 }, { productId: 'gift-card' }] });
+
+            expect(itemValidatorService.validateMultipleItems).toHaveBeenCalledWith([
+                { productId: 'mug', variantId: undefined, quantity: 2, price: 8 },
+                { productId: 'gift-card', variantId: undefined, quantity: 1, price: 8 }
+            ]);
+            expect(businessRulesService.evaluate.mock.calls[0][0].items).toMatchObject([
+                { id: 'line-1', quantity: 5 },
+                { id: 'import_2', productId: 'gift-card', quantity: 1, price: 8 }
+            ]);
+            expect(businessRulesService.evaluate.mock.calls[0][1]).toEqual({ id: 'user-1', isGuest: false });
+            expect(result.rows.map(row => [row.errors, row.warnings])).toEqual([
+                [[], ['Low stock warning: 1 available', 'Mugs ship separately']],
+                [['Gift cards are bought on their own'], []]
+            ]);
+            expect(databaseService.addItemsToCart.mock.calls[0][1]).toHaveLength(1);
+        });
+
+        it('checks stock for the whole line a row is merged into', async () => {
+            cartItems = [{ id: 'line-1', cartId: 'cart-1', productId: 'mug', quantity: 3, price: 8, addedAt: new Date(), updatedAt: new Date() }];
+
+            await service.importItems('cart-1', { items: [{ productId: 'mug', quantity: 2 }, { productId: 'mug', quantity: 1 }] });
+
+            expect(inventoryService.resolveAvailability.mock.calls.map(call => call[2])).toEqual([5, 6]);
+        });
+
+        it('adds nothing when the write fails', async () => {
+            databaseService.addItemsToCart.mockRejectedValue(new CartServiceError('TRANSACTION_FAILED', 'Database transaction failed'));
+
+            await expect(service.importItems('cart-1', { items: [{ productId: 'mug' }] }))
+                .rejects.toMatchObject({ code: 'TRANSACTION_FAILED' });
+        });
+
+        it('rejects an import with neither csv nor items', async () => {
+            await expect(service.importItems('cart-1', {})).rejects.toMatchObject({ code: 'INVALID_IMPORT' });
+            expect(databaseService.addItemsToCart).not.toHaveBeenCalled();
+        });
+    });
+
+    describe('toCsv', () => {
+        it('keeps text a spreadsheet would run as a formula as text', () => {
+            const csv = service.toCsv({
+                cartId: 'cart-1',
+                currency: 'USD',
+                lines: [
+                    { productId: '=HYPERLINK("http://evil")', variantId: '@SUM(A1)', quantity: 1, cartPrice: 5, currentPrice: null, lineTotal: null },
+                    { productId: '+1', variantId: '-2', quantity: 2, cartPrice: 5, currentPrice: 5, lineTotal: 10 }
+                ],
+                itemCount: 3,
+                subtotal: 10,
+                exportedAt: new Date()
+            });
+
+            expect(csv.split('\r\n')).toEqual([
+                'productId,variantId,bundleId,quantity,cartPrice,currentPrice,lineTotal,currency',
+                '"\'=HYPERLINK(""http://evil"")",\'@SUM(A1),,1,5,,,USD',
+                '\'+1,\'-2,,2,5,5,10,USD',
+                ''
+            ]);
+        });
+    });
+});
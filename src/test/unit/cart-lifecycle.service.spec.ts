@@ -0,0 +1,171 @@
+import { CartLifecycleService } from '../../cart/operations/cart-lifecycle.service';
+import { CartService } from '../../cart/cart.service';
+import { CartActor } from '../../types/cart-lifecycle.types';
+import { Cart, CartServiceError, CartStatus, SessionContext } from '../../types/cart.types';
+
+describe('Cart lifecycle', () => {
+    const cart = (overrides: Partial<Cart> = {}): Cart => ({
+        id: 'cart-1',
+        sessionId: 'session-1',
+        status: CartStatus.ACTIVE,
+        currency: 'USD',
+        items: [{ id: 'item-1', cartId: 'cart-1', productId: 'p-1', quantity: 2, price: 10, addedAt: new Date(), updatedAt: new Date() }],
+        createdAt: new Date(),
+        updatedAt: new Date(),
+        ...overrides
+    } as Cart);
+
+    let databaseService: any;
+    let inventoryService: { releaseInventoryReservations: jest.Mock };
+    let cartEventPublisher: { publishCartAbandoned: jest.Mock; publishCartRecovered: jest.Mock };
+    let tenantService: { tenantIds: jest.Mock; run: jest.Mock };
+    let service: CartLifecycleService;
+
+    beforeEach(() => {
+        databaseService = {
+            cart: {
+                findById: jest.fn().mockResolvedValue(cart()),
+                changeStatus: jest.fn().mockResolvedValue(true),
+                findIdle: jest.fn().mockResolvedValue([])
+            }
+        };
+        inventoryService = { releaseInventoryReservations: jest.fn().mockResolvedValue(undefined) };
+        cartEventPublisher = {
+            publishCartAbandoned: jest.fn().mockResolvedValue(undefined),
+            publishCartRecovered: jest.fn().mockResolvedValue(undefined)
+        };
+        const configService = { get: jest.fn((_key, fallback) => fallback) };
+        tenantService = {
+            tenantIds: jest.fn().mockReturnValue(['default']),
+            run: jest.fn(async (_tenantId: string, fn: () => unknown) => fn())
+        };
+
+        service = new CartLifecycleService(
+            databaseService,
+            inventoryService as any,
+            cartEventPublisher as any,
+            configService as any,
+            tenantService as any
+        );
+    });
+
+    describe('transition', () => {
+        it('saves the status change and runs its side effects', async () => {
+            databaseService.cart.findById.mockResolvedValue(cart({ status: CartStatus.CHECKOUT }));
+
+            await service.transition('cart-1', CartStatus.ABANDONED, CartActor.SYSTEM, { reason: 'idle' });
+
+            expect(databaseService.cart.changeStatus).toHaveBeenCalledWith(
+                'cart-1', CartStatus.CHECKOUT, CartStatus.ABANDONED, { reason: 'idle', actor: CartActor.SYSTEM }
+            );
+            expect(inventoryService.releaseInventoryReservations).toHaveBeenCalledWith('cart-1');
+            expect(cartEventPublisher.publishCartAbandoned.mock.calls[0][3].totals).toMatchObject({ subtotal: 20, itemCount: 2 });
+        });
+
+        it('keeps the status change when a side effect fails', async () => {
+            databaseService.cart.findById.mockResolvedValue(cart({ status: CartStatus.ABANDONED }));
+            cartEventPublisher.publishCartRecovered.mockRejectedValue(new Error('broker down'));
+
+            await expect(service.transition('cart-1', CartStatus.ACTIVE, CartActor.CUSTOMER)).resolves.toBeDefined();
+            expect(databaseService.cart.changeStatus).toHaveBeenCalled();
+        });
+
+        it('rejects a change the actor may not make', async () => {
+            const error = await service.transition('cart-1', CartStatus.COMPLETED, CartActor.CUSTOMER).catch(caught => caught);
+
+            expect(error).toBeInstanceOf(CartServiceError);
+            expect(error.code).toBe('CART_TRANSITION_NOT_ALLOWED');
+            expect(error.message).toBe('A cart cannot go from ACTIVE to COMPLETED on behalf of customer');
+            expect(databaseService.cart.changeStatus).not.toHaveBeenCalled();
+        });
+
+        it('fails with CART_VERSION_CONFLICT when the status changed underneath', async () => {
+            databaseService.cart.changeStatus.mockResolvedValue(false);
+
+            await expect(service.transition('cart-1', CartStatus.CHECKOUT, CartActor.CUSTOMER))
+                .rejects.toMatchObject({ code: 'CART_VERSION_CONFLICT' });
+        });
+    });
+
+    describe('sweepIdleCarts', () => {
+        it('abandons idle carts with items and expires long-abandoned ones, counting failures', async () => {
+            const now = new Date(Date.UTC(2026, 9, 10));
+            databaseService.cart.findIdle
+                .mockResolvedValueOnce(['cart-1', 'cart-2'])
+                .mockResolvedValueOnce(['cart-2'])
+                .mockResolvedValueOnce(['cart-3'])
+                .mockResolvedValue([]);
+            databaseService.cart.findById.mockImplementation(async (id: string) =>
+                id === 'cart-3' ? cart({ id, status: CartStatus.ABANDONED }) : cart({ id }));
+            databaseService.cart.changeStatus.mockImplementation(async (id: string) => id !== 'cart-2');
+
+            const result = await service.sweepIdleCarts(now);
+
+            expect(result).toEqual({ abandoned: 1, expired: 1, failed: 1 });
+            expect(databaseService.cart.findIdle.mock.calls[0]).toEqual([
+                [CartStatus.ACTIVE, CartStatus.CHECKOUT], new Date(Date.UTC(2026, 9, 9)), 100, true
+            ]);
+            expect(databaseService.cart.findIdle.mock.calls[2]).toEqual([
+                [CartStatus.ABANDONED], new Date(Date.UTC(2026, 9, 7)), 100, false
+            ]);
+        });
+
+        it('sweeps every store within that store', async () => {
+            tenantService.tenantIds.mockReturnValue(['default', 'outlet']);
+
+            await service.sweepIdleCarts(new Date(Date.UTC(2026, 9, 10)));
+
+            expect(tenantService.run.mock.calls.map(([tenantId]) => tenantId)).toEqual(['default', 'outlet']);
+            expect(databaseService.cart.findIdle).toHaveBeenCalledTimes(4);
+        });
+    });
+
+    describe('CartService.getOrCreateCart', () => {
+        let cartLifecycleService: { recoverAbandonedCart: jest.Mock };
+        let cartService: CartService;
+        const sessionContext: SessionContext = { sessionId: 'session-1', isGuest: true, expiresAt: new Date(Date.UTC(2026, 9, 2)) };
+
+        beforeEach(() => {
+            databaseService.getOrCreateCart = jest.fn().mockResolvedValue(cart());
+            cartLifecycleService = { recoverAbandonedCart: jest.fn(async (abandoned: Cart) => ({ ...abandoned, status: CartStatus.ACTIVE })) };
+            const currencyService = { getStoreCurrency: jest.fn().mockReturnValue('EUR') };
+
+            cartService = new CartService(
+                databaseService,
+                {} as any,
+                {} as any,
+                {} as any,
+                {} as any,
+                currencyService as any,
+                cartLifecycleService as any,
+                {} as any,
+                {} as any
+            );
+        });
+
+        it('leaves an active cart alone', async () => {
+            const result = await cartService.getOrCreateCart(sessionContext);
+
+            expect(databaseService.getOrCreateCart).toHaveBeenCalledWith(sessionContext, 'EUR', true);
+            expect(cartLifecycleService.recoverAbandonedCart).not.toHaveBeenCalled();
+            expect(result.status).toBe(CartStatus.ACTIVE);
+        });
+
+        it('recovers the session\'s current cart when the idle sweep abandoned it', async () => {
+            databaseService.getOrCreateCart.mockResolvedValue(cart({ status: CartStatus.ABANDONED }));
+
+            const result = await cartService.getOrCreateCart(sessionContext);
+
+            expect(cartLifecycleService.recoverAbandonedCart).toHaveBeenCalledWith(expect.objectContaining({ id: 'cart-1' }));
+            expect(result.status).toBe(CartStatus.ACTIVE);
+        });
+
+        it('fails with CART_OPERATION_FAILED when the cart cannot be recovered', async () => {
+            databaseService.getOrCreateCart.mockResolvedValue(cart({ status: CartStatus.ABANDONED }));
+            cartLifecycleService.recoverAbandonedCart.mockRejectedValue(new CartServiceError('CART_VERSION_CONFLICT', 'Changed'));
+
+            await expect(cartService.getOrCreateCart(sessionContext))
+                .rejects.toMatchObject({ code: 'CART_OPERATION_FAILED' });
+        });
+    });
+});
@@ -0,0 +1,160 @@
+import { CartQuotesService } from '../../cart/operations/cart-quotes.service';
+import { CartModel } from '../../models/cart.model';
+import { CartItemModel } from '../../models/cart-item.model';
+import { CartEventModel } from '../../models/cart-event.model';
+import { QuoteModel } from '../../models/quote.model';
+import { Quote, QuoteLine, QuoteStatus } from '../../types/quote.types';
+import { CartServiceError, CartStatus, SessionContext } from '../../types/cart.types';
+
+describe('CartQuotesService', () => {
+    const sessionContext: SessionContext = { sessionId: 'token-1', isGuest: false, userId: 'user-1', expiresAt: new Date(Date.UTC(2026, 9, 30)) };
+
+    const quoteLine = (overrides: Partial<QuoteLine> = {}): QuoteLine => ({
+        lineId: 'item-1',
+        productId: 'p-1',
+        quantity: 10,
+        listPrice: 20,
+        price: 20,
+        ...overrides
+    });
+
+    const quote = (overrides: Partial<Quote> = {}): Quote => ({
+        id: 'quote-1',
+        cartId: 'cart-1',
+        sessionId: 'session-1',
+        userId: 'user-1',
+        status: QuoteStatus.REQUESTED,
+        currency: 'USD',
+        lines: [quoteLine(), quoteLine({ lineId: 'item-2', productId: 'p-2', quantity: 1, listPrice: 5, price: 5 })],
+        discount: 0,
+        createdAt: new Date(),
+        updatedAt: new Date(),
+        ...overrides
+    });
+
+    let databaseService: any;
+    let namedCartsService: { findOwnedCart: jest.Mock };
+    let service: CartQuotesService;
+
+    beforeEach(() => {
+        databaseService = {
+            findOrCreateSession: jest.fn().mockResolvedValue({ id: 'session-1' }),
+            getOrCreateCart: jest.fn().mockResolvedValue({
+                id: 'cart-1',
+                status: CartStatus.ACTIVE,
+                currency: 'USD',
+                items: [
+                    { id: 'item-1', productId: 'p-1', quantity: 10, price: 20 },
+                    { id: 'bundle-1', productId: 'kit', bundleId: 'kit', quantity: 1, price: 30 },
+                    { id: 'component-1', productId: 'p-3', bundleId: 'kit', parentItemId: 'bundle-1', quantity: 2, unitQuantity: 2, price: 0 }
+                ]
+            }),
+            quote: {
+                create: jest.fn(async data => quote({ ...data, id: 'quote-2' })),
+                findById: jest.fn().mockResolvedValue(quote()),
+                offer: jest.fn().mockResolvedValue(true),
+                changeStatus: jest.fn().mockResolvedValue(true)
+            },
+            transaction: jest.fn(async fn => fn({}))
+        };
+        namedCartsService = { findOwnedCart: jest.fn() };
+        const currencyService = { round: (amount: number) => Math.round(amount * 100) / 100 };
+        const configService = { get: jest.fn((_key, fallback) => fallback) };
+
+        service = new CartQuotesService(databaseService, currencyService as any, namedCartsService as any, configService as any);
+    });
+
+    afterEach(() => {
+        jest.restoreAllMocks();
+    });
+
+    describe('requestQuote', () => {
+        it('snapshots the active cart\'s top-level lines with bundle components nested', async () => {
+            const result = await service.requestQuote(sessionContext, { note: 'Bulk order' });
+
+            const { lines } = databaseService.quote.create.mock.calls[0][0];
+            expect(lines.map((line: QuoteLine) => line.lineId)).toEqual(['item-1', 'bundle-1']);
+            expect(lines[1].components).toEqual([{ productId: 'p-3', variantId: undefined, unitQuantity: 2, originalPrice: undefined }]);
+            expect(result).toMatchObject({ id: 'quote-2', status: QuoteStatus.REQUESTED, subtotal: 230, customerNote: 'Bulk order' });
+        });
+
+        it('refuses to quote an empty cart', async () => {
+            databaseService.getOrCreateCart.mockResolvedValue({ id: 'cart-1', status: CartStatus.ACTIVE, currency: 'USD', items: [] });
+
+            await expect(service.requestQuote(sessionContext, {})).rejects.toMatchObject({ code: 'VALIDATION_ERROR' });
+            expect(databaseService.quote.create).not.toHaveBeenCalled();
+        });
+    });
+
+    describe('makeOffer', () => {
+        it('reprices the named lines, applies the discount and starts the validity period', async () => {
+            const before = Date.now();
+
+            const result = await service.makeOffer('quote-1', { lines: [{ lineId: 'item-1', price: 17.555 }], discount: 10 }, 'agent-1');
+
+            const [, offerable, offer] = databaseService.quote.offer.mock.calls[0];
+            expect(offerable).toEqual([QuoteStatus.REQUESTED, QuoteStatus.QUOTED, QuoteStatus.EXPIRED]);
+            expect(offer.lines.map((line: QuoteLine) => line.price)).toEqual([17.56, 5]);
+            expect(offer).toMatchObject({ discount: 10, quotedBy: 'agent-1' });
+            expect(offer.expiresAt.getTime()).toBeGreaterThanOrEqual(before + 168 * 60 * 60 * 1000);
+            expect(result.id).toBe('quote-1');
+        });
+
+        it('rejects a discount larger than the quoted subtotal', async () => {
+            const error = await service.makeOffer('quote-1', { discount: 500 }).catch(caught => caught);
+
+            expect(error).toBeInstanceOf(CartServiceError);
+            expect(error.code).toBe('INVALID_QUOTE_OFFER');
+            expect(error.details).toMatchObject({ discount: 500, subtotal: 205 });
+            expect(databaseService.quote.offer).not.toHaveBeenCalled();
+        });
+
+        it('rejects prices for lines the quote does not have', async () => {
+            await expect(service.makeOffer('quote-1', { lines: [{ lineId: 'item-9', price: 1 }] }))
+                .rejects.toMatchObject({ code: 'INVALID_QUOTE_OFFER', details: { lineIds: ['item-9'] } });
+        });
+    });
+
+    describe('acceptQuote', () => {
+        beforeEach(() => {
+            jest.spyOn(CartModel.prototype, 'setCurrent').mockResolvedValue(undefined as any);
+            jest.spyOn(CartModel.prototype, 'create').mockResolvedValue({ id: 'cart-2' } as any);
+            jest.spyOn(CartModel.prototype, 'findById').mockResolvedValue({ id: 'cart-2', items: [] } as any);
+            jest.spyOn(CartEventModel.prototype, 'track').mockImplementation(async (_cartId, _type, write) => write());
+            jest.spyOn(CartItemModel.prototype, 'createQuotedLine').mockResolvedValue({} as any);
+        });
+
+        it('converts a quoted offer into a new current cart with locked lines', async () => {
+            databaseService.quote.findById.mockResolvedValue(quote({ status: QuoteStatus.QUOTED, expiresAt: new Date(Date.now() + 60000) }));
+            const changeStatus = jest.spyOn(QuoteModel.prototype, 'changeStatus').mockResolvedValue(true);
+
+            const result = await service.acceptQuote(sessionContext, 'quote-1');
+
+            expect(CartModel.prototype.create).toHaveBeenCalledWith(expect.objectContaining({ sessionId: 'session-1', isCurrent: true, currency: 'USD' }));
+            expect(CartItemModel.prototype.createQuotedLine).toHaveBeenCalledTimes(2);
+            expect(changeStatus).toHaveBeenCalledWith('quote-1', QuoteStatus.QUOTED, QuoteStatus.ACCEPTED, 'cart-2');
+            expect(result.cart.id).toBe('cart-2');
+        });
+
+        it('expires an offer whose validity has run out instead of accepting it', async () => {
+            databaseService.quote.findById.mockResolvedValue(quote({ status: QuoteStatus.QUOTED, expiresAt: new Date(Date.now() - 60000) }));
+
+            await expect(service.acceptQuote(sessionContext, 'quote-1')).rejects.toMatchObject({ code: 'QUOTE_EXPIRED' });
+            expect(databaseService.quote.changeStatus).toHaveBeenCalledWith('quote-1', QuoteStatus.QUOTED, QuoteStatus.EXPIRED);
+            expect(databaseService.transaction).not.toHaveBeenCalled();
+        });
+
+        it('fails when the quote was answered while it was being accepted', async () => {
+            databaseService.quote.findById.mockResolvedValue(quote({ status: QuoteStatus.QUOTED }));
+            jest.spyOn(QuoteModel.prototype, 'changeStatus').mockResolvedValue(false);
+
+            await expect(service.acceptQuote(sessionContext, 'quote-1')).rejects.toMatchObject({ code: 'INVALID_QUOTE_STATE' });
+        });
+
+        it('hides quotes owned by someone else', async () => {
+            databaseService.quote.findById.mockResolvedValue(quote({ sessionId: 'session-9', userId: 'user-9' }));
+
+            await expect(service.acceptQuote(sessionContext, 'quote-1')).rejects.toMatchObject({ code: 'QUOTE_NOT_FOUND' });
+        });
+    });
+});
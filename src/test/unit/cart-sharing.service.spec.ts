@@ -0,0 +1,128 @@
+import { CartSharingService } from '../../cart/operations/cart-sharing.service';
+import { CartShare } from '../../types/cart-share.types';
+import { Cart, CartStatus, SessionContext } from '../../types/cart.types';
+
+describe('CartSharingService', () => {
+    const sessionContext = { sessionId: 'token-1', isGuest: true } as SessionContext;
+
+    const share = (overrides: Partial<CartShare> = {}): CartShare => ({
+        id: 'share-1',
+        cartId: 'cart-1',
+        token: 'abc',
+        viewCount: 0,
+        cloneCount: 0,
+        createdAt: new Date(),
+        ...overrides
+    });
+
+    const sharedCart = {
+        id: 'cart-1',
+        sessionId: 'session-1',
+        name: 'Party',
+        status: CartStatus.ACTIVE,
+        currency: 'USD',
+        items: [
+            { id: 'item-1', productId: 'p-1', quantity: 2, price: 5 },
+            { id: 'item-2', productId: 'p-2', quantity: 1, price: 8 }
+        ]
+    } as unknown as Cart;
+
+    let databaseService: any;
+    let customizationService: { repriceLine: jest.Mock };
+    let inventoryService: { getInventoryStatus: jest.Mock };
+    let cartMergerService: { cloneItemsIntoCart: jest.Mock };
+    let service: CartSharingService;
+
+    beforeEach(() => {
+        databaseService = {
+            getOrCreateCart: jest.fn().mockResolvedValue(sharedCart),
+            findOrCreateSession: jest.fn().mockResolvedValue({ id: 'session-1' }),
+            cart: { findById: jest.fn().mockResolvedValue(sharedCart) },
+            cartShare: {
+                create: jest.fn(async data => share(data)),
+                findById: jest.fn().mockResolvedValue(share()),
+                findByToken: jest.fn().mockResolvedValue(share()),
+                revoke: jest.fn(async () => share({ revokedAt: new Date() })),
+                recordView: jest.fn().mockResolvedValue(undefined),
+                recordClone: jest.fn().mockResolvedValue(undefined)
+            }
+        };
+        customizationService = { repriceLine: jest.fn(async item => ({ price: item.productId === 'p-1' ? 6 : 8 })) };
+        inventoryService = { getInventoryStatus: jest.fn().mockResolvedValue({ available: 10, isInStock: true }) };
+        cartMergerService = {
+            cloneItemsIntoCart: jest.fn().mockResolvedValue({
+                targetCartId: 'cart-9', itemsAdded: 2, itemsUpdated: 0, conflicts: [], quantityAdjustments: []
+            })
+        };
+        const currencyService = { round: (amount: number) => Math.round(amount * 100) / 100 };
+
+        service = new CartSharingService(
+            databaseService,
+            {} as any,
+            customizationService as any,
+            inventoryService as any,
+            currencyService as any,
+            cartMergerService as any,
+            {} as any
+        );
+    });
+
+    it('mints an unguessable token for the active cart', async () => {
+        const response = await service.createShare(sessionContext, { expiresInHours: 24 });
+
+        const data = databaseService.cartShare.create.mock.calls[0][0];
+        expect(data.cartId).toBe('cart-1');
+        expect(data.token).toHaveLength(32);
+        expect(data.expiresAt.getTime()).toBeGreaterThan(Date.now());
+        expect(response.isActive).toBe(true);
+    });
+
+    it('shows the shared cart at current prices and records the view', async () => {
+        const view = await service.getSharedCart('abc');
+
+        expect(view.items.map(item => item.price)).toEqual([6, 8]);
+        expect(view.subtotal).toBe(20);
+        expect(view.itemCount).toBe(3);
+        expect(databaseService.cartShare.recordView).toHaveBeenCalledWith('share-1');
+    });
+
+    it('shows a line with no current price as unpriced instead of failing the view', async () => {
+        customizationService.repriceLine.mockRejectedValueOnce(new Error('gone'));
+
+        const view = await service.getSharedCart('abc');
+
+        expect(view.items[0]).toMatchObject({ price: null, total: null });
+        expect(view.subtotal).toBe(8);
+    });
+
+    it.each([
+        ['SHARE_REVOKED', share({ revokedAt: new Date() })],
+        ['SHARE_EXPIRED', share({ expiresAt: new Date(Date.now() - 1000) })],
+        ['SHARE_NOT_FOUND', null]
+    ])('refuses the link with %s', async (code, found) => {
+        databaseService.cartShare.findByToken.mockResolvedValue(found);
+
+        await expect(service.getSharedCart('abc')).rejects.toMatchObject({ code });
+        await expect(service.cloneSharedCart('abc', 'cart-9', {} as any)).rejects.toMatchObject({ code });
+        expect(cartMergerService.cloneItemsIntoCart).not.toHaveBeenCalled();
+    });
+
+    it('clones the shared lines into the caller\'s cart and records the clone', async () => {
+        const result = await service.cloneSharedCart('abc', 'cart-9', {} as any, 4);
+
+        expect(cartMergerService.cloneItemsIntoCart).toHaveBeenCalledWith('cart-1', 'cart-9', {}, 4);
+        expect(databaseService.cartShare.recordClone).toHaveBeenCalledWith('share-1');
+        expect(result.itemsAdded).toBe(2);
+    });
+
+    it('refuses to clone a cart into itself', async () => {
+        await expect(service.cloneSharedCart('abc', 'cart-1', {} as any)).rejects.toMatchObject({ code: 'VALIDATION_ERROR' });
+    });
+
+    it('only lets the owning session revoke a share', async () => {
+        databaseService.findOrCreateSession.mockResolvedValue({ id: 'session-2' });
+
+        await expect(service.revokeShare(sessionContext, 'share-1')).rejects.toMatchObject({ code: 'SHARE_NOT_FOUND' });
+        expect(databaseService.cartShare.revoke).not.toHaveBeenCalled();
+    });
+});
@@ -0,0 +1,162 @@
+import { CartUndoService } from '../../cart/operations/cart-undo.service';
+import { CartEventModel } from '../../models/cart-event.model';
+import { CartEventType, CartLineState } from '../../types/cart-event.types';
+import { CartUndoAction, CartUndoStep } from '../../types/cart-undo.types';
+import { CartItem } from '../../types/cart.types';
+
+describe('CartUndoService', () => {
+    const addedAt = new Date(Date.UTC(2026, 9, 1));
+
+    const line = (itemId: string, quantity: number, price = 10): CartLineState => ({
+        itemId,
+        productId: `product-${itemId}`,
+        quantity,
+        price,
+        addedAt
+    });
+
+    const step = (overrides: Partial<CartUndoStep> = {}): CartUndoStep => ({
+        id: 'step-1',
+        cartId: 'cart-1',
+        sequence: 1,
+        action: CartUndoAction.REMOVE_ITEM,
+        changes: [{ itemId: 'a', before: line('a', 2), after: null }],
+        createdAt: new Date(),
+        ...overrides
+    });
+
+    let cartItems: Partial<CartItem>[];
+    let databaseService: any;
+    let customizationService: { priceLine: jest.Mock; fingerprint: jest.Mock };
+    let inventoryService: { checkInventoryAvailability: jest.Mock };
+    let service: CartUndoService;
+
+    beforeEach(() => {
+        cartItems = [];
+        const events = new CartEventModel({} as any);
+        databaseService = {
+            cart: { findById: jest.fn(async () => ({ id: 'cart-1', currency: 'USD', items: cartItems })) },
+            cartEvent: {
+                loadLines: jest.fn(),
+                diffLines: jest.fn((before, after) => events.diffLines(before, after))
+            },
+            cartUndoStep: {
+                push: jest.fn().mockResolvedValue(undefined),
+                findNextUndo: jest.fn().mockResolvedValueOnce(step()).mockResolvedValue(null),
+                findNextRedo: jest.fn().mockResolvedValue(step({ undoneAt: new Date() })),
+                setUndone: jest.fn().mockResolvedValue(undefined)
+            },
+            restoreCartLines: jest.fn().mockResolvedValue(undefined)
+        };
+        customizationService = {
+            priceLine: jest.fn().mockResolvedValue({ pricing: { price: 12 } }),
+            fingerprint: jest.fn().mockReturnValue('')
+        };
+        inventoryService = {
+            checkInventoryAvailability: jest.fn(async items => items.map(item => ({ ...item, requestedQuantity: item.quantity, canFulfill: true })))
+        };
+        const configService = { get: jest.fn((_key, fallback) => fallback) };
+
+        service = new CartUndoService(
+            databaseService,
+            {} as any,
+            customizationService as any,
+            inventoryService as any,
+            configService as any
+        );
+    });
+
+    describe('record', () => {
+        it('pushes the lines an action changed onto the bounded stack', async () => {
+            databaseService.cartEvent.loadLines.mockResolvedValueOnce([line('a', 1)]).mockResolvedValueOnce([line('a', 3)]);
+
+            const result = await service.record('cart-1', CartUndoAction.UPDATE_ITEM, async () => 'written');
+
+            expect(result).toBe('written');
+            expect(databaseService.cartUndoStep.push).toHaveBeenCalledWith(
+                'cart-1',
+                CartUndoAction.UPDATE_ITEM,
+                [{ itemId: 'a', before: line('a', 1), after: line('a', 3) }],
+                20
+            );
+        });
+
+        it('does not record an action that changed nothing', async () => {
+            databaseService.cartEvent.loadLines.mockResolvedValue([line('a', 1)]);
+
+            await service.record('cart-1', CartUndoAction.UPDATE_ITEM, async () => undefined);
+
+            expect(databaseService.cartUndoStep.push).not.toHaveBeenCalled();
+        });
+    });
+
+    describe('undo', () => {
+        it('brings a removed line back at today\'s price and reports the price change', async () => {
+            const result = await service.undo('cart-1', 7);
+
+            expect(databaseService.restoreCartLines).toHaveBeenCalledWith(
+                'cart-1',
+                [{ itemId: 'a', exists: false, state: line('a', 2), pricing: { price: 12 }, customization: undefined }],
+                CartEventType.CHANGE_UNDONE,
+                { action: CartUndoAction.REMOVE_ITEM, stepId: 'step-1' },
+                { id: 'step-1', undone: true },
+                7
+            );
+            expect(result).toMatchObject({
+                action: CartUndoAction.REMOVE_ITEM,
+                skipped: [],
+                repriced: [{ productId: 'product-a', previousPrice: 10, price: 12 }],
+                canUndo: false,
+                canRedo: true
+            });
+        });
+
+        it('skips a line that is no longer in stock and leaves the step on the stack when nothing came back', async () => {
+            inventoryService.checkInventoryAvailability.mockResolvedValue([
+                { productId: 'product-a', requestedQuantity: 2, canFulfill: false, warnings: [] }
+            ]);
+
+            const result = await service.undo('cart-1');
+
+            expect(databaseService.restoreCartLines).not.toHaveBeenCalled();
+            expect(result.skipped).toEqual([
+                expect.objectContaining({ productId: 'product-a', quantity: 2, reason: 'product-a does not have 2 in stock' })
+            ]);
+            expect(databaseService.cartUndoStep.setUndone).not.toHaveBeenCalled();
+        });
+
+        it('marks the step undone without a write when the cart already holds its lines', async () => {
+            cartItems = [{ id: 'a', productId: 'product-a', quantity: 2 }];
+
+            await service.undo('cart-1');
+
+            expect(databaseService.restoreCartLines).not.toHaveBeenCalled();
+            expect(databaseService.cartUndoStep.setUndone).toHaveBeenCalledWith('step-1', true);
+        });
+
+        it('fails with NOTHING_TO_UNDO on an empty stack', async () => {
+            databaseService.cartUndoStep.findNextUndo.mockReset().mockResolvedValue(null);
+
+            await expect(service.undo('cart-1')).rejects.toMatchObject({ code: 'NOTHING_TO_UNDO' });
+            expect(databaseService.restoreCartLines).not.toHaveBeenCalled();
+        });
+    });
+
+    describe('redo', () => {
+        it('removes the line again when redoing a removal', async () => {
+            cartItems = [{ id: 'a', productId: 'product-a', quantity: 2 }];
+
+            await service.redo('cart-1');
+
+            expect(databaseService.restoreCartLines.mock.calls[0][1]).toEqual([{ itemId: 'a', exists: true, state: null }]);
+            expect(databaseService.restoreCartLines.mock.calls[0][2]).toBe(CartEventType.CHANGE_REDONE);
+            expect(databaseService.restoreCartLines.mock.calls[0][4]).toEqual({ id: 'step-1', undone: false });
+        });
+
+        it('fails with NOTHING_TO_REDO when nothing was undone', async () => {
+            databaseService.cartUndoStep.findNextRedo.mockResolvedValue(null);
+
+            await expect(service.redo('cart-1')).rejects.toMatchObject({ code: 'NOTHING_TO_REDO' });
+        });
+    });
+});
@@ -2,6 +2,13 @@ import { Test, TestingModule } from '@nestjs/testing';
 import { CartService } from '../../cart/cart.service';
 import { DatabaseService } from '../../database/database.service';
 import { PricingEngineService } from '../../services/pricing-engine.service';
+import { PricingService } from '../../services/pricing.service';
+import { CustomizationService } from '../../services/customization.service';
+import { QuantityRulesService } from '../../services/quantity-rules.service';
+import { CurrencyService } from '../../currency/currency.service';
+import { CartLifecycleService } from '../../cart/operations/cart-lifecycle.service';
+import { PriceLockService } from '../../services/price-lock.service';
+import { InventoryService } from '../../services/inventory.service';
 import { Logger } from '@nestjs/common';
 
 describe('CartService', () => {
@@ -33,6 +40,37 @@ describe('CartService', () => {
             calculatePricing: jest.fn(),
         };
 
+        const mockPricingService = {
+            resolveItemPrice: jest.fn().mockResolvedValue({ price: 29.99, originalPrice: 39.99 }),
+        };
+
+        const mockCustomizationService = {
+            priceLine: jest.fn().mockResolvedValue({ pricing: { price: 29.99, originalPrice: 39.99 } }),
+            repriceLine: jest.fn().mockResolvedValue({ price: 29.99, originalPrice: 39.99 }),
+        };
+
+        const mockQuantityRulesService = {
+            assertLineQuantity: jest.fn().mockResolvedValue(undefined),
+        };
+
+        const mockCurrencyService = {
+            getBaseCurrency: jest.fn().mockReturnValue('USD'),
+            getStoreCurrency: jest.fn().mockReturnValue('USD'),
+            assertSupported: jest.fn((currency: string) => currency),
+        };
+
+        const mockCartLifecycleService = {
+            recoverAbandonedCart: jest.fn().mockResolvedValue(null),
+        };
+
+        const mockPriceLockService = {
+            lockUntil: jest.fn().mockResolvedValue(undefined),
+        };
+
+        const mockInventoryService = {
+            resolveAvailability: jest.fn().mockResolvedValue({ availability: 'IN_STOCK' }),
+        };
+
         const module: TestingModule = await Test.createTestingModule({
             providers: [
                 CartService,
@@ -44,6 +82,34 @@ describe('CartService', () => {
                     provide: PricingEngineService,
                     useValue: mockPricingEngineService,
                 },
+                {
+                    provide: PricingService,
+                    useValue: mockPricingService,
+                },
+                {
+                    provide: CustomizationService,
+                    useValue: mockCustomizationService,
+                },
+                {
+                    provide: QuantityRulesService,
+                    useValue: mockQuantityRulesService,
+                },
+                {
+                    provide: CurrencyService,
+                    useValue: mockCurrencyService,
+                },
+                {
+                    provide: CartLifecycleService,
+                    useValue: mockCartLifecycleService,
+                },
+                {
+                    provide: PriceLockService,
+                    useValue: mockPriceLockService,
+                },
+                {
+                    provide: InventoryService,
+                    useValue: mockInventoryService,
+                },
                 {
                     provide: Logger,
                     useValue: {
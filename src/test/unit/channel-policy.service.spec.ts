@@ -0,0 +1,69 @@
+import { ChannelPolicyService } from '../../services/channel-policy.service';
+import { PricingService } from '../../services/pricing.service';
+import { CartServiceError } from '../../types/cart.types';
+import { SalesChannel } from '../../types/channel.types';
+import { Promotion } from '../../types/pricing.types';
+
+describe('Sales channels', () => {
+    const createService = (config: Record<string, string>) => {
+        const configService = { get: jest.fn((key: string, fallback: unknown) => config[key] ?? fallback) };
+        return new ChannelPolicyService(configService as any);
+    };
+
+    let service: ChannelPolicyService;
+
+    beforeEach(() => {
+        service = createService({
+            DEFAULT_SALES_CHANNEL: 'app',
+            SALES_CHANNEL_POLICIES: JSON.stringify({
+                marketplace: { priceList: 'marketplace', promotionIds: ['mp-10'], paymentMethods: ['marketplace'] },
+                kiosk: { priceList: 'kiosk' }
+            })
+        });
+    });
+
+    describe('ChannelPolicyService', () => {
+        it('resolves a named channel in any case and falls back to the default channel', () => {
+            expect(service.resolve(' marketplace ')).toBe(SalesChannel.MARKETPLACE);
+            expect(service.resolve(undefined)).toBe(SalesChannel.APP);
+        });
+
+        it('fails with INVALID_SALES_CHANNEL for an unknown channel', () => {
+            expect(() => service.resolve('fax')).toThrow(CartServiceError);
+            expect(() => service.resolve('fax')).toThrow('Unknown sales channel fax; expected one of WEB, APP, POS, MARKETPLACE');
+        });
+
+        it('applies a channel\'s policy and allows everything a policy leaves out', () => {
+            expect(service.priceListFor(SalesChannel.MARKETPLACE)).toBe('marketplace');
+            expect(service.promotionIdsFor(SalesChannel.MARKETPLACE, ['summer', 'mp-10'])).toEqual(['summer', 'mp-10']);
+            expect(service.isPaymentMethodAllowed(SalesChannel.MARKETPLACE, 'card')).toBe(false);
+            expect(service.isPaymentMethodAllowed(SalesChannel.WEB, 'card')).toBe(true);
+            expect(service.isShippingMethodAllowed(SalesChannel.MARKETPLACE, 'express')).toBe(true);
+        });
+
+        it('ignores unknown channels and policies that are not JSON', () => {
+            expect(service.priceListFor(SalesChannel.POS)).toBeUndefined();
+            expect(createService({ SALES_CHANNEL_POLICIES: '{broken' }).policyFor(SalesChannel.WEB)).toEqual({});
+        });
+
+        it('limits a promotion to the channels in its metadata, the default channel when none is given', () => {
+            const promotion = { id: 'app-only', metadata: { channels: ['APP'] } } as unknown as Promotion;
+
+            expect(service.isPromotionAvailable(promotion, SalesChannel.WEB)).toBe(false);
+            expect(service.isPromotionAvailable(promotion)).toBe(true);
+            expect(service.isPromotionAvailable({ id: 'all' } as Promotion, SalesChannel.POS)).toBe(true);
+        });
+    });
+
+    describe('PricingService.resolveItemPrice', () => {
+        it('prices a line from its channel\'s price list', async () => {
+            const productClient = { getProductPricing: jest.fn().mockResolvedValue({ price: 9, currency: 'USD', isActive: true }) };
+            const currencyService = { getBaseCurrency: jest.fn().mockReturnValue('USD'), convert: jest.fn(async (amount: number) => amount) };
+            const pricingService = new PricingService(productClient as any, currencyService as any, service);
+
+            await pricingService.resolveItemPrice('p-1', 'v-1', 'USD', SalesChannel.MARKETPLACE);
+
+            expect(productClient.getProductPricing).toHaveBeenCalledWith('p-1', 'v-1', 'marketplace');
+        });
+    });
+});
@@ -0,0 +1,151 @@
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { CurrencyService } from '../../currency/currency.service';
+import { FileExchangeRateProvider } from '../../currency/file-exchange-rate.provider';
+import { CartService } from '../../cart/cart.service';
+import { CartServiceError } from '../../types/cart.types';
+
+describe('Multi-currency carts', () => {
+    const config = (values: Record<string, any>) =>
+        ({ get: jest.fn((key: string, fallback?: any) => values[key] ?? fallback) }) as any;
+
+    describe('CurrencyService', () => {
+        let provider: { getRate: jest.Mock };
+        let service: CurrencyService;
+
+        beforeEach(() => {
+            provider = { getRate: jest.fn().mockResolvedValue(149.8) };
+            const tenantService = { currentConfig: jest.fn().mockReturnValue({ currency: 'EUR' }) };
+            service = new CurrencyService(provider as any, config({}), tenantService as any);
+        });
+
+        it('converts into the target currency and rounds to its minor units', async () => {
+            await expect(service.convert(10.005, 'USD', 'JPY')).resolves.toBe(1499);
+            expect(provider.getRate).toHaveBeenCalledWith('USD', 'JPY');
+
+            provider.getRate.mockResolvedValue(0.92);
+            await expect(service.convert(19.99, 'USD', 'EUR')).resolves.toBe(18.39);
+        });
+
+        it('does not ask the provider for a same-currency rate', async () => {
+            await expect(service.convert(12.5, 'USD', 'USD')).resolves.toBe(12.5);
+            expect(provider.getRate).not.toHaveBeenCalled();
+        });
+
+        it('starts new carts in the store currency', () => {
+            expect(service.getBaseCurrency()).toBe('USD');
+            expect(service.getStoreCurrency()).toBe('EUR');
+        });
+
+        it('rejects an unsupported currency', async () => {
+            const error = await service.convert(10, 'USD', 'XYZ').catch(caught => caught);
+
+            expect(error).toBeInstanceOf(CartServiceError);
+            expect(error.code).toBe('UNSUPPORTED_CURRENCY');
+            expect(provider.getRate).not.toHaveBeenCalled();
+        });
+
+        it('refuses to convert with a non-positive rate', async () => {
+            provider.getRate.mockResolvedValue(0);
+
+            await expect(service.getRate('USD', 'EUR')).rejects.toMatchObject({ code: 'EXCHANGE_RATE_UNAVAILABLE' });
+        });
+
+        it('expresses amounts in minor units for payment providers', () => {
+            expect(service.toMinorUnits(19.99, 'USD')).toBe(1999);
+            expect(service.toMinorUnits(1500, 'JPY')).toBe(1500);
+        });
+    });
+
+    describe('FileExchangeRateProvider', () => {
+        let dir: string;
+
+        beforeEach(async () => {
+            dir = await fs.mkdtemp(path.join(os.tmpdir(), 'fx-rates-'));
+        });
+
+        afterEach(async () => {
+            await fs.rm(dir, { recursive: true, force: true });
+        });
+
+        it('crosses two rates through the table base', async () => {
+            const file = path.join(dir, 'rates.json');
+            await fs.writeFile(file, JSON.stringify({ base: 'USD', rates: { EUR: 0.8, GBP: 0.5 } }));
+            const provider = new FileExchangeRateProvider(config({ FX_RATES_FILE: file }));
+
+            await expect(provider.getRate('USD' as any, 'EUR' as any)).resolves.toBe(0.8);
+            await expect(provider.getRate('EUR' as any, 'GBP' as any)).resolves.toBe(0.625);
+        });
+
+        it('fails with EXCHANGE_RATE_UNAVAILABLE for a currency missing from the table', async () => {
+            const file = path.join(dir, 'rates.json');
+            await fs.writeFile(file, JSON.stringify({ base: 'USD', rates: { EUR: 0.8 } }));
+            const provider = new FileExchangeRateProvider(config({ FX_RATES_FILE: file }));
+
+            await expect(provider.getRate('USD' as any, 'JPY' as any)).rejects.toMatchObject({
+                code: 'EXCHANGE_RATE_UNAVAILABLE'
+            });
+        });
+
+        it('fails with EXCHANGE_RATE_UNAVAILABLE when the file cannot be read', async () => {
+            const provider = new FileExchangeRateProvider(config({ FX_RATES_FILE: path.join(dir, 'missing.json') }));
+
+            await expect(provider.getRate('USD' as any, 'EUR' as any)).rejects.toMatchObject({
+                code: 'EXCHANGE_RATE_UNAVAILABLE'
+            });
+        });
+    });
+
+    describe('CartService.changeCartCurrency', () => {
+        let databaseService: { repriceCart: jest.Mock };
+        let customizationService: { repriceLine: jest.Mock };
+        let service: CartService;
+
+        beforeEach(() => {
+            databaseService = { repriceCart: jest.fn().mockResolvedValue(undefined) };
+            customizationService = { repriceLine: jest.fn().mockResolvedValue({ price: 9.2 }) };
+            const currencyService = {
+                assertSupported: jest.fn((currency: string) => {
+                    if (currency === 'XYZ') {
+                        throw new CartServiceError('UNSUPPORTED_CURRENCY', 'Currency XYZ is not supported');
+                    }
+                    return currency;
+                })
+            };
+
+            service = new CartService(
+                databaseService as any, {} as any, {} as any, customizationService as any, {} as any,
+                currencyService as any, {} as any, {} as any, {} as any
+            );
+            jest.spyOn(service, 'getCartById').mockResolvedValue({
+                id: 'cart-1',
+                currency: 'USD',
+                items: [{ id: 'item-1', productId: 'p-1', price: 10 }]
+            } as any);
+        });
+
+        it('reprices every line into the new currency in one write', async () => {
+            await service.changeCartCurrency('cart-1', 'EUR', 3);
+
+            expect(customizationService.repriceLine).toHaveBeenCalledWith(expect.objectContaining({ id: 'item-1' }), 'EUR', undefined);
+            expect(databaseService.repriceCart).toHaveBeenCalledWith('cart-1', 'EUR', new Map([['item-1', { price: 9.2 }]]), 3);
+        });
+
+        it('leaves the cart untouched when the currency is not supported', async () => {
+            await expect(service.changeCartCurrency('cart-1', 'XYZ')).rejects.toMatchObject({ code: 'UNSUPPORTED_CURRENCY' });
+            expect(databaseService.repriceCart).not.toHaveBeenCalled();
+        });
+
+        it('leaves the cart untouched when a line cannot be repriced', async () => {
+            customizationService.repriceLine.mockRejectedValue(
+                new CartServiceError('EXCHANGE_RATE_UNAVAILABLE', 'No exchange rate available from USD to EUR')
+            );
+
+            await expect(service.changeCartCurrency('cart-1', 'EUR')).rejects.toMatchObject({
+                code: 'EXCHANGE_RATE_UNAVAILABLE'
+            });
+            expect(databaseService.repriceCart).not.toHaveBeenCalled();
+        });
+    });
+});
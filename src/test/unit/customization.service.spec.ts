@@ -0,0 +1,120 @@
+import { CustomizationService } from '../../services/customization.service';
+import { CartItemModel } from '../../models/cart-item.model';
+import { CartServiceError } from '../../types/cart.types';
+import { ProductCustomizationSchema } from '../../types/product-integration.types';
+
+describe('Customized cart lines', () => {
+    const schema: ProductCustomizationSchema = {
+        productId: 'mug',
+        fields: [
+            { key: 'engraving', label: 'Engraving', type: 'text', maxLength: 10, surcharge: 5 },
+            { key: 'colour', label: 'Colour', type: 'select', options: ['red', 'blue'], optionSurcharges: { blue: 1.5 } },
+            { key: 'giftBox', label: 'Gift box', type: 'boolean', surcharge: 2 }
+        ]
+    };
+
+    let productClient: { getCustomizationSchema: jest.Mock };
+    let pricingService: { resolveItemPrice: jest.Mock };
+    let service: CustomizationService;
+
+    beforeEach(() => {
+        productClient = { getCustomizationSchema: jest.fn().mockResolvedValue(schema) };
+        pricingService = { resolveItemPrice: jest.fn().mockResolvedValue({ price: 10, originalPrice: 12 }) };
+        const currencyService = {
+            getBaseCurrency: jest.fn().mockReturnValue('USD'),
+            convert: jest.fn(async (amount: number) => amount),
+            round: (amount: number) => Math.round(amount * 100) / 100
+        };
+
+        service = new CustomizationService(productClient as any, pricingService as any, currencyService as any);
+    });
+
+    describe('priceLine', () => {
+        it('adds the per-unit surcharge of every chosen option to the price', async () => {
+            const result = await service.priceLine('mug', undefined, { engraving: ' Ada ', colour: 'blue', giftBox: false });
+
+            expect(result.pricing).toEqual({ price: 16.5, originalPrice: 18.5, surcharge: 6.5 });
+            expect(result.customization!.values).toEqual({ engraving: 'Ada', colour: 'blue' });
+        });
+
+        it('prices a line without customization like any other line', async () => {
+            const result = await service.priceLine('mug', undefined, { engraving: '   ' });
+
+            expect(result).toEqual({ pricing: { price: 10, originalPrice: 12 } });
+        });
+
+        it('rejects values that break the product rules, listing every problem', async () => {
+            const error = await service
+                .priceLine('mug', undefined, { engraving: 'far too long text', colour: 'green', size: 'XL' })
+                .catch(caught => caught);
+
+            expect(error).toBeInstanceOf(CartServiceError);
+            expect(error.code).toBe('INVALID_CUSTOMIZATION');
+            expect(error.details.errors).toEqual([
+                'size is not a customization option for this product',
+                'Engraving must be at most 10 characters',
+                'Colour must be one of: red, blue'
+            ]);
+        });
+
+        it('rejects values for a product that cannot be customized', async () => {
+            productClient.getCustomizationSchema.mockResolvedValue({ productId: 'mug', fields: [] });
+
+            await expect(service.priceLine('mug', undefined, { engraving: 'Ada' })).rejects.toMatchObject({
+                code: 'INVALID_CUSTOMIZATION'
+            });
+        });
+
+        it('fails with CUSTOMIZATION_UNAVAILABLE when the rules cannot be loaded for given values', async () => {
+            productClient.getCustomizationSchema.mockRejectedValue(new Error('timeout'));
+
+            await expect(service.priceLine('mug', undefined, { engraving: 'Ada' })).rejects.toMatchObject({
+                code: 'CUSTOMIZATION_UNAVAILABLE'
+            });
+            await expect(service.priceLine('mug', undefined, undefined)).resolves.toEqual({
+                pricing: { price: 10, originalPrice: 12 }
+            });
+        });
+    });
+
+    describe('fingerprint', () => {
+        it('is the same for the same values in any order and empty for none', () => {
+            expect(service.fingerprint({ engraving: 'Ada', colour: 'red' }))
+                .toBe(service.fingerprint({ colour: 'red', engraving: 'Ada' }));
+            expect(service.fingerprint({ engraving: 'Ada' })).not.toBe(service.fingerprint({ engraving: 'Bob' }));
+            expect(service.fingerprint({ engraving: '' })).toBe('');
+        });
+    });
+
+    describe('CartItemModel.addItem', () => {
+        let prisma: { cartItem: Record<string, jest.Mock> };
+        let model: CartItemModel;
+
+        beforeEach(() => {
+            prisma = {
+                cartItem: {
+                    findFirst: jest.fn().mockResolvedValue(null),
+                    create: jest.fn(async ({ data }) => ({ id: 'item-2', ...data })),
+                    update: jest.fn(async ({ where, data }) => ({ id: where.id, ...data }))
+                }
+            };
+            model = new CartItemModel(prisma as any);
+        });
+
+        it('looks for a line with the same customization before merging quantities', async () => {
+            const customization = { values: { engraving: 'Ada' }, fingerprint: 'abc' };
+
+            await model.addItem('cart-1', { productId: 'mug', quantity: 1 }, { price: 15 }, customization);
+
+            expect(prisma.cartItem.findFirst.mock.calls[0][0].where).toMatchObject({
+                cartId: 'cart-1',
+                productId: 'mug',
+                customizationFingerprint: 'abc'
+            });
+            expect(prisma.cartItem.create.mock.calls[0][0].data).toMatchObject({
+                customization: JSON.stringify({ engraving: 'Ada' }),
+                customizationFingerprint: 'abc'
+            });
+        });
+    });
+});
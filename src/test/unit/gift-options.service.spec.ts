@@ -0,0 +1,89 @@
+import { GiftOptionsService } from '../../services/gift-options.service';
+import { CartGiftService } from '../../cart/operations/cart-gift.service';
+import { CartServiceError } from '../../types/cart.types';
+
+describe('Gift options', () => {
+    let service: GiftOptionsService;
+
+    beforeEach(() => {
+        const config: Record<string, unknown> = { GIFT_WRAP_PRICE: 3, GIFT_MESSAGE_PRICE: 1.5, GIFT_MESSAGE_MAX_LENGTH: 20 };
+        const configService = { get: jest.fn((key: string, fallback: unknown) => config[key] ?? fallback) };
+
+        service = new GiftOptionsService(configService as any);
+    });
+
+    describe('normalize', () => {
+        it('trims the options and drops the ones switched off', () => {
+            expect(service.normalize({
+                wrap: true,
+                giftReceipt: false,
+                message: '  Happy birthday ',
+                recipient: { name: ' Sam ', email: ' ' }
+            })).toEqual({ wrap: true, message: 'Happy birthday', recipient: { name: 'Sam' } });
+        });
+
+        it('clears gift options that are all switched off', () => {
+            expect(service.normalize({ wrap: false, message: '   ' })).toBeUndefined();
+            expect(service.normalize(undefined)).toBeUndefined();
+        });
+
+        it('rejects a message and recipient that break the rules, listing every problem', () => {
+            let error: any;
+            try {
+                service.normalize({ message: 'Hi <b>there</b> friend!', recipient: { name: '', email: 'sam@' } });
+            } catch (caught) {
+                error = caught;
+            }
+
+            expect(error).toBeInstanceOf(CartServiceError);
+            expect(error.code).toBe('INVALID_GIFT_OPTIONS');
+            expect(error.details.errors).toEqual([
+                'message must be at most 20 characters',
+                'message must not contain < >',
+                'recipient.name is required',
+                'recipient.email is not a valid email address'
+            ]);
+        });
+    });
+
+    describe('charge', () => {
+        it('charges wrapping per unit and a message once', () => {
+            expect(service.charge({ wrap: true, message: 'Hi' }, 4)).toBe(13.5);
+            expect(service.charge({ giftReceipt: true })).toBe(0);
+            expect(service.charge(undefined, 4)).toBe(0);
+        });
+    });
+
+    describe('CartGiftService', () => {
+        let databaseService: any;
+        let cartGiftService: CartGiftService;
+
+        beforeEach(() => {
+            databaseService = {
+                cartItem: { findById: jest.fn().mockResolvedValue({ id: 'item-1', cartId: 'cart-1' }) },
+                setItemGiftOptions: jest.fn(async (itemId, gift) => ({ id: itemId, gift })),
+                setCartGiftOptions: jest.fn().mockResolvedValue(undefined)
+            };
+            cartGiftService = new CartGiftService(databaseService, service);
+        });
+
+        it('stores the normalized options of a line in the cart', async () => {
+            const item = await cartGiftService.setItemGiftOptions('cart-1', 'item-1', { wrap: true, message: ' Hi ' }, 3);
+
+            expect(databaseService.setItemGiftOptions).toHaveBeenCalledWith('item-1', { wrap: true, message: 'Hi' }, 3);
+            expect(item.gift).toEqual({ wrap: true, message: 'Hi' });
+        });
+
+        it('fails with ITEM_NOT_FOUND for a line of another cart', async () => {
+            await expect(cartGiftService.setItemGiftOptions('cart-2', 'item-1', { wrap: true }))
+                .rejects.toMatchObject({ code: 'ITEM_NOT_FOUND' });
+            expect(databaseService.setItemGiftOptions).not.toHaveBeenCalled();
+        });
+
+        it('clears the cart\'s gift options when all are switched off', async () => {
+            await cartGiftService.setCartGiftOptions('cart-1', { wrap: false });
+
+            expect(databaseService.setCartGiftOptions).toHaveBeenCalledWith('cart-1', undefined, undefined);
+        });
+    });
+});
@@ -0,0 +1,155 @@
+import { BadRequestException } from '@nestjs/common';
+import { lastValueFrom, of, throwError } from 'rxjs';
+import { IdempotencyInterceptor } from '../../common/interceptors/idempotency.interceptor';
+import { CartServiceError } from '../../types/cart.types';
+import { IdempotencyStatus } from '../../types/idempotency.types';
+
+describe('IdempotencyInterceptor', () => {
+    let idempotencyKey: { acquire: jest.Mock; complete: jest.Mock; release: jest.Mock };
+    let interceptor: IdempotencyInterceptor;
+    let request: any;
+    let response: any;
+    let context: any;
+
+    const record = (overrides: Record<string, any> = {}) => ({
+        id: 'key-1',
+        scope: 'cart.add-item',
+        key: 'abc',
+        requestHash: '',
+        status: IdempotencyStatus.IN_PROGRESS,
+        expiresAt: new Date(Date.now() + 60_000),
+        createdAt: new Date(),
+        updatedAt: new Date(),
+        ...overrides
+    });
+
+    beforeEach(() => {
+        idempotencyKey = {
+            acquire: jest.fn().mockImplementation(async (scope, key, requestHash) => ({
+                record: record({ scope, key, requestHash }),
+                created: true
+            })),
+            complete: jest.fn().mockResolvedValue(undefined),
+            release: jest.fn().mockResolvedValue(undefined)
+        };
+
+        interceptor = new IdempotencyInterceptor(
+            { get: jest.fn().mockReturnValue('cart.add-item') } as any,
+            { idempotencyKey } as any,
+            { get: jest.fn((_key, fallback) => fallback) } as any,
+            { currentTenantId: jest.fn().mockReturnValue('default') } as any
+        );
+
+        const headers: Record<string, string> = {};
+        request = {
+            method: 'POST',
+            originalUrl: '/cart/items',
+            body: { productId: 'p-1', quantity: 2 },
+            headers: { 'idempotency-key': 'abc', 'x-session-token': 'token-1' }
+        };
+        response = {
+            statusCode: 201,
+            status: jest.fn(),
+            setHeader: jest.fn((name: string, value: string) => { headers[name] = value; }),
+            getHeader: jest.fn((name: string) => headers[name])
+        };
+        context = {
+            getHandler: () => undefined,
+            switchToHttp: () => ({ getRequest: () => request, getResponse: () => response })
+        };
+    });
+
+    afterEach(() => {
+        jest.restoreAllMocks();
+    });
+
+    it('stores the first response with its ETag under the caller and store', async () => {
+        jest.spyOn(Date, 'now').mockReturnValue(Date.UTC(2026, 9, 1, 12));
+        const handler = {
+            handle: () => {
+                response.setHeader('ETag', '"cart-1:2"');
+                return of({ id: 'cart-1' });
+            }
+        };
+
+        const result = await lastValueFrom(await interceptor.intercept(context, handler));
+
+        expect(result).toEqual({ id: 'cart-1' });
+        expect(idempotencyKey.acquire.mock.calls[0][0]).toBe('cart.add-item:tenant:default:session:token-1');
+        expect(idempotencyKey.acquire.mock.calls[0][3]).toEqual(new Date(Date.UTC(2026, 9, 1, 12, 1)));
+        expect(idempotencyKey.complete).toHaveBeenCalledWith(
+            'key-1', 201, { id: 'cart-1' }, { ETag: '"cart-1:2"' }, new Date(Date.UTC(2026, 9, 2, 12))
+        );
+    });
+
+    it('replays a completed response with its ETag instead of running the handler', async () => {
+        idempotencyKey.acquire.mockImplementation(async (scope, key, requestHash) => ({
+            record: record({
+                requestHash,
+                status: IdempotencyStatus.COMPLETED,
+                responseStatus: 201,
+                responseBody: { id: 'cart-1' },
+                responseHeaders: { ETag: '"cart-1:2"' }
+            }),
+            created: false
+        }));
+        const handle = jest.fn();
+
+        const result = await lastValueFrom(await interceptor.intercept(context, { handle }));
+
+        expect(result).toEqual({ id: 'cart-1' });
+        expect(handle).not.toHaveBeenCalled();
+        expect(response.status).toHaveBeenCalledWith(201);
+        expect(response.setHeader).toHaveBeenCalledWith('ETag', '"cart-1:2"');
+        expect(response.setHeader).toHaveBeenCalledWith('Idempotent-Replayed', 'true');
+    });
+
+    it('rejects a key reused with a different payload', async () => {
+        idempotencyKey.acquire.mockResolvedValue({
+            record: record({ requestHash: 'other', status: IdempotencyStatus.COMPLETED }),
+            created: false
+        });
+
+        const error = await interceptor.intercept(context, { handle: jest.fn() }).catch(caught => caught);
+
+        expect(error).toBeInstanceOf(CartServiceError);
+        expect(error.code).toBe('IDEMPOTENCY_KEY_REUSED');
+    });
+
+    it('rejects a retry while the first request is still running', async () => {
+        idempotencyKey.acquire.mockImplementation(async (scope, key, requestHash) => ({
+            record: record({ requestHash }),
+            created: false
+        }));
+
+        const error = await interceptor.intercept(context, { handle: jest.fn() }).catch(caught => caught);
+
+        expect(error.code).toBe('IDEMPOTENCY_KEY_IN_PROGRESS');
+    });
+
+    it('refuses a key from a caller with no user or session', async () => {
+        delete request.headers['x-session-token'];
+
+        await expect(interceptor.intercept(context, { handle: jest.fn() })).rejects.toBeInstanceOf(BadRequestException);
+        expect(idempotencyKey.acquire).not.toHaveBeenCalled();
+    });
+
+    it('keeps the key in progress on its lease when the response cannot be stored', async () => {
+        idempotencyKey.complete.mockRejectedValue(new Error('connection reset'));
+
+        const result = await lastValueFrom(await interceptor.intercept(context, { handle: () => of({ id: 'cart-1' }) }));
+
+        expect(result).toEqual({ id: 'cart-1' });
+        expect(idempotencyKey.release).not.toHaveBeenCalled();
+    });
+
+    it('releases the key when the request fails so it can be retried', async () => {
+        const failure = new Error('boom');
+
+        const result = lastValueFrom(await interceptor.intercept(context, { handle: () => throwError(() => failure) }));
+
+        await expect(result).rejects.toBe(failure);
+        expect(idempotencyKey.release).toHaveBeenCalledWith('key-1');
+        expect(idempotencyKey.complete).not.toHaveBeenCalled();
+    });
+});
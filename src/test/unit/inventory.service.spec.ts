@@ -0,0 +1,109 @@
+import { InventoryService } from '../../services/inventory.service';
+import { CartService } from '../../cart/cart.service';
+import { CartServiceError, CartStatus } from '../../types/cart.types';
+import { AvailabilityStatus } from '../../types/fulfillment.types';
+
+describe('Back-orders and pre-orders', () => {
+    const restock = new Date(Date.UTC(2026, 10, 1));
+    const release = new Date(Date.UTC(2026, 11, 1));
+
+    let productClient: { getInventoryStatus: jest.Mock; getProduct: jest.Mock };
+    let service: InventoryService;
+
+    beforeEach(() => {
+        productClient = {
+            getInventoryStatus: jest.fn().mockResolvedValue({ isInStock: true, available: 2, stock: 2, reserved: 0, estimatedRestock: restock }),
+            getProduct: jest.fn().mockResolvedValue({})
+        };
+        service = new InventoryService(productClient as any, {} as any);
+    });
+
+    describe('InventoryService.resolveAvailability', () => {
+        it('ships a quantity the stock covers right away', async () => {
+            await expect(service.resolveAvailability('p-1', undefined, 2)).resolves.toEqual({ availability: AvailabilityStatus.IN_STOCK });
+            expect(productClient.getProduct).not.toHaveBeenCalled();
+        });
+
+        it('back-orders a short quantity to ship on restock', async () => {
+            productClient.getProduct.mockResolvedValue({ backorderable: true });
+
+            await expect(service.resolveAvailability('p-1', undefined, 5)).resolves.toEqual({
+                availability: AvailabilityStatus.BACKORDER,
+                estimatedShipDate: restock
+            });
+        });
+
+        it('pre-orders an unreleased product to ship on its release date without a restock date', async () => {
+            productClient.getInventoryStatus.mockResolvedValue({ isInStock: false, available: 0, stock: 0, reserved: 0 });
+            productClient.getProduct.mockResolvedValue({ preorder: true, backorderable: true, releaseDate: release.toISOString() });
+
+            await expect(service.resolveAvailability('p-1', undefined, 1)).resolves.toEqual({
+                availability: AvailabilityStatus.PREORDER,
+                estimatedShipDate: release
+            });
+        });
+
+        it('fails with INSUFFICIENT_STOCK for other products, or when the flags cannot be loaded', async () => {
+            const error = await service.resolveAvailability('p-1', 'v-1', 5).catch(caught => caught);
+
+            expect(error).toBeInstanceOf(CartServiceError);
+            expect(error.code).toBe('INSUFFICIENT_STOCK');
+            expect(error.message).toBe('p-1 does not have 5 in stock');
+
+            productClient.getProduct.mockRejectedValue(new Error('timeout'));
+            await expect(service.resolveAvailability('p-1', undefined, 5)).rejects.toMatchObject({ code: 'INSUFFICIENT_STOCK' });
+        });
+    });
+
+    describe('CartService.addItemToCart', () => {
+        let databaseService: any;
+        let cartService: CartService;
+
+        beforeEach(() => {
+            databaseService = {
+                cart: {
+                    findById: jest.fn().mockResolvedValue({
+                        id: 'cart-1',
+                        status: CartStatus.ACTIVE,
+                        currency: 'USD',
+                        items: [{ id: 'line-1', productId: 'p-1', quantity: 1, price: 10, customizationFingerprint: '' }]
+                    })
+                },
+                addItemToCart: jest.fn(async (cartId, item) => ({ id: 'line-1', cartId, ...item }))
+            };
+            const customizationService = { priceLine: jest.fn().mockResolvedValue({ pricing: { price: 10 } }) };
+            const quantityRulesService = { assertLineQuantity: jest.fn().mockResolvedValue(undefined) };
+            const priceLockService = { lockUntil: jest.fn().mockResolvedValue(undefined) };
+
+            cartService = new CartService(
+                databaseService,
+                {} as any,
+                {} as any,
+                customizationService as any,
+                quantityRulesService as any,
+                {} as any,
+                {} as any,
+                priceLockService as any,
+                service
+            );
+        });
+
+        it('checks stock for the merged line and stores when it is expected to ship', async () => {
+            productClient.getProduct.mockResolvedValue({ backorderable: true });
+
+            await cartService.addItemToCart('cart-1', { productId: 'p-1', quantity: 2 });
+
+            expect(productClient.getInventoryStatus).toHaveBeenCalledWith('p-1', undefined);
+            expect(databaseService.addItemToCart.mock.calls[0][5]).toEqual({
+                availability: AvailabilityStatus.BACKORDER,
+                estimatedShipDate: restock
+            });
+        });
+
+        it('adds nothing when the stock falls short of a product that cannot be back-ordered', async () => {
+            await expect(cartService.addItemToCart('cart-1', { productId: 'p-1', quantity: 2 }))
+                .rejects.toMatchObject({ code: 'INSUFFICIENT_STOCK' });
+            expect(databaseService.addItemToCart).not.toHaveBeenCalled();
+        });
+    });
+});
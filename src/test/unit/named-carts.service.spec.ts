@@ -0,0 +1,173 @@
+import { NamedCartsService } from '../../cart/operations/named-carts.service';
+import { CartLifecycleService } from '../../cart/operations/cart-lifecycle.service';
+import { CartService } from '../../cart/cart.service';
+import { TransferMode } from '../../cart/dto/named-cart.dto';
+import { Cart, CartServiceError, CartStatus, SessionContext } from '../../types/cart.types';
+
+describe('NamedCartsService', () => {
+    const sessionContext = { sessionId: 'token-1', isGuest: true } as SessionContext;
+
+    const cart = (overrides: Partial<Cart> = {}): Cart => ({
+        id: 'cart-1',
+        sessionId: 'session-1',
+        name: 'Weekly shop',
+        status: CartStatus.ACTIVE,
+        isCurrent: true,
+        version: 1,
+        currency: 'USD',
+        items: [],
+        metadata: [],
+        createdAt: new Date(),
+        updatedAt: new Date(),
+        ...overrides
+    } as Cart);
+
+    let carts: Cart[];
+    let tx: { cart: { create: jest.Mock; updateMany: jest.Mock; update: jest.Mock } };
+    let databaseService: any;
+    let cartService: { prepareLine: jest.Mock; withLine: jest.Mock; resolveExpectedVersion: jest.Mock };
+    let service: NamedCartsService;
+
+    beforeEach(() => {
+        carts = [cart(), cart({ id: 'cart-2', name: 'Party', isCurrent: false })];
+        tx = {
+            cart: {
+                create: jest.fn(async ({ data }) => ({ id: 'cart-3', version: 0, ...data, items: [], metadata: [], session: {} })),
+                updateMany: jest.fn().mockResolvedValue({ count: 1 }),
+                update: jest.fn().mockResolvedValue({})
+            }
+        };
+        databaseService = {
+            findOrCreateSession: jest.fn().mockResolvedValue({ id: 'session-1' }),
+            cart: {
+                findBySessionId: jest.fn(async () => carts),
+                findById: jest.fn(async (id: string) => carts.find(entry => entry.id === id) ?? null)
+            },
+            transaction: jest.fn(async (fn: (tx: any) => Promise<any>) => fn(tx)),
+            transferItems: jest.fn().mockResolvedValue(undefined)
+        };
+        cartService = {
+            prepareLine: jest.fn(async (_cart: Cart, item: any) => ({ item, pricing: { price: 5 }, fulfillment: { availability: 'IN_STOCK' } })),
+            withLine: jest.fn(CartService.prototype.withLine),
+            resolveExpectedVersion: jest.fn().mockResolvedValue(1)
+        };
+        const currencyService = {
+            getStoreCurrency: jest.fn().mockReturnValue('USD'),
+            assertSupported: jest.fn((currency: string) => currency)
+        };
+
+        service = new NamedCartsService(
+            databaseService,
+            {} as any,
+            cartService as any,
+            currencyService as any,
+            new CartLifecycleService({} as any, {} as any, {} as any, { get: jest.fn((_key: string, fallback: unknown) => fallback) } as any, {} as any)
+        );
+    });
+
+    describe('createCart', () => {
+        it('creates the cart as the current one, unsetting the previous current cart', async () => {
+            const summary = await service.createCart(sessionContext, { name: '  Gifts  ' });
+
+            expect(tx.cart.updateMany).toHaveBeenCalledWith({
+                where: { sessionId: 'session-1', isCurrent: true },
+                data: { isCurrent: false }
+            });
+            expect(tx.cart.create.mock.calls[0][0].data).toMatchObject({ name: 'Gifts', isCurrent: true, currency: 'USD' });
+            expect(summary).toMatchObject({ id: 'cart-3', name: 'Gifts', isCurrent: true, itemCount: 0 });
+        });
+
+        it('leaves the current cart alone when asked not to activate', async () => {
+            await service.createCart(sessionContext, { name: 'Later', activate: false });
+
+            expect(tx.cart.updateMany).not.toHaveBeenCalled();
+            expect(tx.cart.create.mock.calls[0][0].data.isCurrent).toBe(false);
+        });
+
+        it('rejects a name another of the session\'s carts already uses, ignoring case', async () => {
+            await expect(service.createCart(sessionContext, { name: 'party' })).rejects.toMatchObject({
+                code: 'CART_NAME_TAKEN'
+            });
+            expect(databaseService.transaction).not.toHaveBeenCalled();
+        });
+    });
+
+    describe('activateCart', () => {
+        it('switches the current cart', async () => {
+            const summary = await service.activateCart(sessionContext, 'cart-2');
+
+            expect(tx.cart.update).toHaveBeenCalledWith({ where: { id: 'cart-2' }, data: { isCurrent: true } });
+            expect(summary.isCurrent).toBe(true);
+        });
+
+        it('refuses to activate an archived cart', async () => {
+            carts[1] = cart({ id: 'cart-2', status: CartStatus.ARCHIVED, isCurrent: false });
+
+            await expect(service.activateCart(sessionContext, 'cart-2')).rejects.toMatchObject({ code: 'CART_NOT_ACTIVE' });
+        });
+
+        it('reports another session\'s cart as not found', async () => {
+            carts[1] = cart({ id: 'cart-2', sessionId: 'session-2' });
+
+            await expect(service.activateCart(sessionContext, 'cart-2')).rejects.toMatchObject({ code: 'CART_NOT_FOUND' });
+            expect(databaseService.transaction).not.toHaveBeenCalled();
+        });
+    });
+
+    describe('deleteCart', () => {
+        it('refuses to delete a cart in checkout', async () => {
+            carts[1] = cart({ id: 'cart-2', status: CartStatus.CHECKOUT, isCurrent: false });
+
+            await expect(service.deleteCart(sessionContext, 'cart-2')).rejects.toMatchObject({ code: 'CART_TRANSITION_NOT_ALLOWED' });
+            expect(databaseService.transaction).not.toHaveBeenCalled();
+        });
+    });
+
+    describe('transferItems', () => {
+        const line = (id: string, quantity: number) => ({
+            id, cartId: 'cart-1', productId: 'mug', quantity, price: 4, addedAt: new Date(), updatedAt: new Date()
+        });
+
+        it('checks each line like an add to the target cart, counting the lines before it', async () => {
+            carts[0] = cart({
+                items: [
+                    { ...line('line-1', 2), gift: { wrap: true } },
+                    { ...line('line-2', 1), customizationFingerprint: 'engraved', customization: { text: 'Hi' } }
+                ] as any
+            });
+
+            await service.transferItems(sessionContext, 'cart-1', { targetCartId: 'cart-2', mode: TransferMode.MOVE }, '"cart-2-v1"');
+
+            expect(cartService.resolveExpectedVersion).toHaveBeenCalledWith(carts[1], '"cart-2-v1"');
+            expect(cartService.prepareLine.mock.calls[0][1]).toEqual({ productId: 'mug', variantId: undefined, quantity: 2, customization: undefined });
+            expect(cartService.prepareLine.mock.calls[1][0].items).toMatchObject([{ productId: 'mug', quantity: 2 }]);
+            expect(databaseService.transferItems).toHaveBeenCalledWith('cart-1', 'cart-2', [
+                expect.objectContaining({ sourceItemId: 'line-1', gift: { wrap: true }, quantity: 2 }),
+                expect.objectContaining({ sourceItemId: 'line-2', quantity: 1 })
+            ], true, 1);
+        });
+
+        it('leaves both carts untouched when a line fails its checks', async () => {
+            carts[0] = cart({ items: [line('line-1', 2)] as any });
+            cartService.prepareLine.mockRejectedValue(new CartServiceError('INSUFFICIENT_STOCK', 'mug does not have 2 in stock'));
+
+            await expect(
+                service.transferItems(sessionContext, 'cart-1', { targetCartId: 'cart-2', mode: TransferMode.COPY })
+            ).rejects.toMatchObject({ code: 'INSUFFICIENT_STOCK' });
+            expect(databaseService.transferItems).not.toHaveBeenCalled();
+        });
+
+        it('refuses to transfer a cart into itself', async () => {
+            await expect(
+                service.transferItems(sessionContext, 'cart-1', { targetCartId: 'cart-1', mode: TransferMode.MOVE })
+            ).rejects.toMatchObject({ code: 'VALIDATION_ERROR' });
+        });
+
+        it('refuses to transfer items the source cart does not hold', async () => {
+            await expect(
+                service.transferItems(sessionContext, 'cart-1', { targetCartId: 'cart-2', mode: TransferMode.COPY, itemIds: ['missing'] })
+            ).rejects.toMatchObject({ code: 'ITEM_NOT_FOUND' });
+            expect(databaseService.transaction).not.toHaveBeenCalled();
+        });
+    });
+});
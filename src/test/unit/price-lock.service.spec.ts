@@ -0,0 +1,91 @@
+import { PriceLockService } from '../../services/price-lock.service';
+import { PricingService } from '../../services/pricing.service';
+
+describe('Price locks', () => {
+    const now = new Date(Date.UTC(2026, 9, 1, 12));
+    const hoursFromNow = (hours: number) => new Date(now.getTime() + hours * 60 * 60 * 1000);
+
+    describe('PriceLockService', () => {
+        let productClient: { getProduct: jest.Mock };
+
+        const createService = (config: Record<string, string>) => {
+            const configService = { get: jest.fn((key: string, fallback: unknown) => config[key] ?? fallback) };
+            return new PriceLockService(configService as any, productClient as any);
+        };
+
+        beforeEach(() => {
+            productClient = { getProduct: jest.fn().mockResolvedValue({ category: 'Electronics' }) };
+        });
+
+        it('locks nothing while price locks are switched off', async () => {
+            await expect(createService({}).lockUntil('p-1', now)).resolves.toBeUndefined();
+            expect(productClient.getProduct).not.toHaveBeenCalled();
+        });
+
+        it('locks for the global window without loading the product', async () => {
+            const service = createService({ PRICE_LOCK_ENABLED: 'true', PRICE_LOCK_HOURS: '12' });
+
+            await expect(service.lockUntil('p-1', now)).resolves.toEqual(hoursFromNow(12));
+            expect(productClient.getProduct).not.toHaveBeenCalled();
+        });
+
+        it('uses the product category\'s window, where zero hours means no lock', async () => {
+            const service = createService({ PRICE_LOCK_ENABLED: 'true', PRICE_LOCK_CATEGORY_HOURS: 'electronics=48, grocery=0, broken=x' });
+
+            await expect(service.lockUntil('p-1', now)).resolves.toEqual(hoursFromNow(48));
+
+            productClient.getProduct.mockResolvedValue({ category: 'grocery' });
+            await expect(service.lockUntil('p-2', now)).resolves.toBeUndefined();
+
+            productClient.getProduct.mockResolvedValue({ category: 'broken' });
+            await expect(service.lockUntil('p-3', now)).resolves.toEqual(hoursFromNow(24));
+        });
+
+        it('falls back to the global window when the category cannot be loaded', async () => {
+            productClient.getProduct.mockRejectedValue(new Error('timeout'));
+            const service = createService({ PRICE_LOCK_ENABLED: 'true', PRICE_LOCK_CATEGORY_HOURS: 'electronics=48' });
+
+            await expect(service.lockUntil('p-1', now)).resolves.toEqual(hoursFromNow(24));
+        });
+
+        it('treats a lock as running only until it expires', () => {
+            const service = createService({});
+
+            expect(service.isActive(hoursFromNow(1), now)).toBe(true);
+            expect(service.isActive(now, now)).toBe(false);
+            expect(service.isActive(null, now)).toBe(false);
+        });
+    });
+
+    describe('PricingService.validatePricing', () => {
+        let service: PricingService;
+
+        beforeEach(() => {
+            service = new PricingService({} as any, {} as any, {} as any);
+            jest.spyOn(service, 'comparePricing').mockResolvedValue({
+                productId: 'p-1',
+                cartPrice: 4,
+                currentPrice: 10,
+                priceDifference: -6,
+                isDiscounted: true,
+                discountPercentage: 60,
+                needsUpdate: true
+            });
+        });
+
+        it('does not flag a locked cart price for differing from the current price', async () => {
+            const lockedUntil = new Date(Date.now() + 60 * 60 * 1000);
+
+            const result = await service.validatePricing('p-1', undefined, 4, lockedUntil);
+
+            expect(result).toMatchObject({ isValid: true, warnings: [], priceLockedUntil: lockedUntil });
+        });
+
+        it('flags the difference once the lock has run out', async () => {
+            const result = await service.validatePricing('p-1', undefined, 4, new Date(Date.now() - 1000));
+
+            expect(result.priceLockedUntil).toBeUndefined();
+            expect(result.warnings).toEqual(['Cart price is lower than current price (6.00)', 'Unusually high discount: 60%']);
+        });
+    });
+});
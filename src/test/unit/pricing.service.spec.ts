@@ -0,0 +1,76 @@
+import { ArgumentsHost, HttpStatus } from '@nestjs/common';
+import { PricingService } from '../../services/pricing.service';
+import { AllExceptionsFilter } from '../../common/filters/all-exceptions.filter';
+import { CartServiceError } from '../../types/cart.types';
+
+describe('PricingService', () => {
+    let service: PricingService;
+    let productClient: { getProductPricing: jest.Mock };
+    let currencyService: { getBaseCurrency: jest.Mock; convert: jest.Mock };
+
+    beforeEach(() => {
+        productClient = { getProductPricing: jest.fn() };
+        currencyService = {
+            getBaseCurrency: jest.fn().mockReturnValue('USD'),
+            convert: jest.fn(async (amount: number, from: string, to: string) => from === to ? amount : amount * 2)
+        };
+        const channelPolicyService = { priceListFor: jest.fn().mockReturnValue(undefined) };
+
+        service = new PricingService(productClient as any, currencyService as any, channelPolicyService as any);
+    });
+
+    describe('resolveItemPrice', () => {
+        it('takes the price from the product service, converted into the cart currency', async () => {
+            productClient.getProductPricing.mockResolvedValue({ price: 10, originalPrice: 12, currency: 'USD', isActive: true });
+
+            const pricing = await service.resolveItemPrice('prod-1', undefined, 'EUR');
+
+            expect(pricing).toEqual({ price: 20, originalPrice: 24 });
+            expect(currencyService.convert).toHaveBeenCalledWith(10, 'USD', 'EUR');
+        });
+
+        it('leaves out a compare-at price the product service does not have', async () => {
+            productClient.getProductPricing.mockResolvedValue({ price: 10, currency: 'USD', isActive: true });
+
+            const pricing = await service.resolveItemPrice('prod-1');
+
+            expect(pricing).toEqual({ price: 10, originalPrice: undefined });
+        });
+
+        it('fails with PRICE_UNAVAILABLE when the product service cannot be reached', async () => {
+            productClient.getProductPricing.mockRejectedValue(new Error('timeout'));
+
+            await expect(service.resolveItemPrice('prod-1')).rejects.toMatchObject({ code: 'PRICE_UNAVAILABLE' });
+        });
+
+        it.each([
+            ['inactive', { price: 10, isActive: false }],
+            ['zero', { price: 0, isActive: true }],
+            ['missing', { isActive: true }]
+        ])('fails with PRICE_UNAVAILABLE for a %s price', async (_label, pricing) => {
+            productClient.getProductPricing.mockResolvedValue(pricing);
+
+            await expect(service.resolveItemPrice('prod-1', 'var-1')).rejects.toMatchObject({
+                code: 'PRICE_UNAVAILABLE',
+                details: { productId: 'prod-1', variantId: 'var-1' }
+            });
+        });
+    });
+
+    it('answers PRICE_UNAVAILABLE with 422 Unprocessable Entity', () => {
+        const response = { status: jest.fn().mockReturnThis(), json: jest.fn() };
+        const host = {
+            switchToHttp: () => ({
+                getResponse: () => response,
+                getRequest: () => ({ url: '/cart/items', method: 'POST', headers: {} })
+            })
+        } as unknown as ArgumentsHost;
+
+        new AllExceptionsFilter().catch(new CartServiceError('PRICE_UNAVAILABLE', 'No price'), host);
+
+        expect(response.status).toHaveBeenCalledWith(HttpStatus.UNPROCESSABLE_ENTITY);
+        expect(response.json).toHaveBeenCalledWith(expect.objectContaining({
+            error: { code: 'PRICE_UNAVAILABLE', message: 'No price' }
+        }));
+    });
+});
@@ -0,0 +1,156 @@
+import { QuantityRulesService } from '../../services/quantity-rules.service';
+import { CartItemModel } from '../../models/cart-item.model';
+import { CartItem, CartServiceError } from '../../types/cart.types';
+import { EffectiveQuantityRules } from '../../types/product-integration.types';
+import { OrderStatus } from '../../types/order.types';
+
+describe('Quantity rules', () => {
+    const rules = (overrides: Partial<EffectiveQuantityRules> = {}): EffectiveQuantityRules => ({
+        productId: 'p-1',
+        minQuantity: 1,
+        step: 1,
+        overridden: false,
+        ...overrides
+    });
+
+    let productClient: { getQuantityRules: jest.Mock };
+    let databaseService: any;
+    let service: QuantityRulesService;
+
+    beforeEach(() => {
+        productClient = { getQuantityRules: jest.fn().mockResolvedValue({ minQuantity: 2, maxQuantity: 10, step: 2 }) };
+        databaseService = {
+            quantityRuleOverride: { findByProductId: jest.fn().mockResolvedValue(null) },
+            cartItem: { sumUserQuantity: jest.fn().mockResolvedValue(0) },
+            orderItem: { aggregate: jest.fn().mockResolvedValue({ _sum: { quantity: null } }) }
+        };
+
+        const configService = { get: jest.fn((_key: string, fallback: unknown) => fallback) };
+
+        service = new QuantityRulesService(productClient as any, databaseService, configService as any);
+    });
+
+    afterEach(() => {
+        jest.restoreAllMocks();
+    });
+
+    describe('getRules', () => {
+        it('lets a local override win field by field, with a case pack setting the step', async () => {
+            databaseService.quantityRuleOverride.findByProductId.mockResolvedValue({ productId: 'p-1', casePack: 6 });
+
+            await expect(service.getRules('p-1')).resolves.toEqual({
+                productId: 'p-1', minQuantity: 2, maxQuantity: 10, step: 6, casePack: 6, overridden: true
+            });
+        });
+
+        it('falls back to the override alone when product metadata cannot be loaded', async () => {
+            productClient.getQuantityRules.mockRejectedValue(new Error('timeout'));
+
+            await expect(service.getRules('p-1')).resolves.toMatchObject({ minQuantity: 1, maxQuantity: undefined, step: 1 });
+        });
+    });
+
+    describe('check', () => {
+        it('accepts quantities on the steps between the minimum and maximum', () => {
+            expect(service.check(rules({ minQuantity: 2, step: 3, maxQuantity: 11 }), 8)).toEqual({ valid: true });
+        });
+
+        it('suggests the nearest allowed quantity for a broken rule', () => {
+            expect(service.check(rules({ minQuantity: 2, step: 3 }), 6)).toMatchObject({ valid: false, suggestedQuantity: 5 });
+            expect(service.check(rules({ casePack: 12, step: 12 }), 20)).toMatchObject({
+                valid: false, reason: 'p-1 is sold in cases of 12', suggestedQuantity: 24
+            });
+        });
+
+        it('counts what the customer already holds towards the maximum', () => {
+            expect(service.check(rules({ maxQuantity: 5 }), 3, 4)).toEqual({
+                valid: false,
+                reason: 'Maximum quantity for p-1 is 5 per customer and 4 is already in other cart lines or orders',
+                suggestedQuantity: 1
+            });
+        });
+    });
+
+    describe('customerQuantity', () => {
+        it('adds a signed-in customer\'s other active carts and orders of the last 30 days', async () => {
+            jest.spyOn(Date, 'now').mockReturnValue(Date.UTC(2026, 9, 31));
+            databaseService.cartItem.sumUserQuantity.mockResolvedValue(2);
+            databaseService.orderItem.aggregate.mockResolvedValue({ _sum: { quantity: 3 } });
+
+            await expect(service.customerQuantity('p-1', { userId: 'user-1', cartId: 'cart-1' })).resolves.toBe(5);
+
+            expect(databaseService.cartItem.sumUserQuantity).toHaveBeenCalledWith('user-1', 'p-1', 'cart-1');
+            expect(databaseService.orderItem.aggregate).toHaveBeenCalledWith({
+                _sum: { quantity: true },
+                where: {
+                    productId: 'p-1',
+                    order: {
+                        userId: 'user-1',
+                        status: { notIn: [OrderStatus.CANCELLED, OrderStatus.REFUNDED, OrderStatus.FAILED] },
+                        createdAt: { gte: new Date(Date.UTC(2026, 9, 1)) }
+                    }
+                }
+            });
+        });
+
+        it('holds guests to the maximum per cart', async () => {
+            await expect(service.customerQuantity('p-1', { cartId: 'cart-1' })).resolves.toBe(0);
+            expect(databaseService.orderItem.aggregate).not.toHaveBeenCalled();
+        });
+    });
+
+    describe('assertLineQuantity', () => {
+        const cartItems = [
+            { id: 'line-1', productId: 'p-1', quantity: 2 },
+            { id: 'line-2', productId: 'p-1', quantity: 2, customizationFingerprint: 'abc' }
+        ] as CartItem[];
+
+        it('accepts a line within the customer maximum', async () => {
+            databaseService.orderItem.aggregate.mockResolvedValue({ _sum: { quantity: 2 } });
+
+            await expect(
+                service.assertLineQuantity('p-1', 6, cartItems, 'line-1', { userId: 'user-1', cartId: 'cart-1' })
+            ).resolves.toBeUndefined();
+        });
+
+        it('rejects a line that takes the customer past the maximum, counting past orders', async () => {
+            databaseService.orderItem.aggregate.mockResolvedValue({ _sum: { quantity: 4 } });
+
+            const error = await service
+                .assertLineQuantity('p-1', 6, cartItems, 'line-1', { userId: 'user-1', cartId: 'cart-1' })
+                .catch(caught => caught);
+
+            expect(error).toBeInstanceOf(CartServiceError);
+            expect(error.code).toBe('QUANTITY_RULE_VIOLATION');
+            expect(error.message).toBe(
+                'Maximum quantity for p-1 is 10 per customer and 6 is already in other cart lines or orders. Nearest valid quantity is 4'
+            );
+            expect(error.details.suggestedQuantity).toBe(4);
+        });
+
+        it('says nothing more can be added once the customer has reached the maximum', async () => {
+            databaseService.cartItem.sumUserQuantity.mockResolvedValue(8);
+
+            await expect(
+                service.assertLineQuantity('p-1', 2, cartItems, 'line-1', { userId: 'user-1', cartId: 'cart-1' })
+            ).rejects.toThrow('No more can be added');
+        });
+    });
+
+    describe('CartItemModel.sumUserQuantity', () => {
+        it('sums the product on standalone lines of the user\'s other active carts', async () => {
+            const prisma = { cartItem: { aggregate: jest.fn().mockResolvedValue({ _sum: { quantity: 7 } }) } };
+
+            await expect(new CartItemModel(prisma as any).sumUserQuantity('user-1', 'p-1', 'cart-1')).resolves.toBe(7);
+            expect(prisma.cartItem.aggregate).toHaveBeenCalledWith({
+                _sum: { quantity: true },
+                where: {
+                    productId: 'p-1',
+                    bundleId: null,
+                    parentItemId: null,
+                    cart: { userId: 'user-1', status: 'ACTIVE', id: { not: 'cart-1' } }
+                }
+            });
+        });
+    });
+});
@@ -0,0 +1,57 @@
+import { RecommendationService } from '../../services/recommendation.service';
+import { ProductAffinityModel } from '../../models/product-affinity.model';
+
+describe('RecommendationService.refresh', () => {
+    const now = new Date(Date.UTC(2026, 9, 1));
+    const basket = (id: string, ...productIds: string[]) => ({ id, items: productIds.map(productId => ({ productId })) });
+
+    let databaseService: any;
+    let replaceAll: jest.SpyInstance;
+    let service: RecommendationService;
+
+    beforeEach(() => {
+        databaseService = {
+            order: {
+                findMany: jest.fn().mockResolvedValue([basket('order-1', 'mug', 'tea'), basket('order-2', 'mug', 'tea', 'tea')])
+            },
+            prisma: {
+                cart: { findMany: jest.fn().mockResolvedValue([basket('cart-1', 'mug', 'tea', 'spoon'), basket('cart-2')]) }
+            },
+            transaction: jest.fn(async (fn: (tx: any) => Promise<unknown>) => fn({}))
+        };
+        replaceAll = jest.spyOn(ProductAffinityModel.prototype, 'replaceAll').mockResolvedValue(undefined);
+        const tenantService = {
+            tenantIds: jest.fn().mockReturnValue(['default']),
+            run: jest.fn(async (_tenantId: string, fn: () => unknown) => fn()),
+            currentTenantId: jest.fn().mockReturnValue('default')
+        };
+        const configService = { get: jest.fn((_key: string, fallback: unknown) => fallback) };
+
+        service = new RecommendationService(databaseService, {} as any, tenantService as any, configService as any);
+    });
+
+    afterEach(() => {
+        jest.restoreAllMocks();
+    });
+
+    it('counts placed orders and open carts of the window as baskets', async () => {
+        const result = await service.refresh(now);
+
+        expect(databaseService.order.findMany.mock.calls[0][0].where.createdAt).toEqual({ gte: new Date(Date.UTC(2026, 3, 4)) });
+        expect(replaceAll).toHaveBeenCalledWith([
+            { productId: 'mug', relatedProductId: 'tea', baskets: 3, score: 1 },
+            { productId: 'tea', relatedProductId: 'mug', baskets: 3, score: 1 }
+        ], now);
+        expect(result).toEqual({ tenants: 1, baskets: 3, affinities: 2 });
+    });
+
+    it('still counts the carts when the orders cannot be read', async () => {
+        databaseService.order.findMany.mockRejectedValue(new Error('relation "orders" does not exist'));
+
+        const result = await service.refresh(now);
+
+        expect(databaseService.prisma.cart.findMany).toHaveBeenCalled();
+        expect(replaceAll).toHaveBeenCalledWith([], now);
+        expect(result).toEqual({ tenants: 1, baskets: 1, affinities: 0 });
+    });
+});
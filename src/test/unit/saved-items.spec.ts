@@ -0,0 +1,134 @@
+import { ItemManagerService } from '../../cart/operations/item-manager.service';
+import { CartService } from '../../cart/cart.service';
+import { SavedItemAlertsService } from '../../services/saved-item-alerts.service';
+import { CartServiceError, CartStatus, SessionContext } from '../../types/cart.types';
+import { AvailabilityStatus } from '../../types/fulfillment.types';
+import { SavedItem } from '../../types/saved-item.types';
+
+describe('Saved for later', () => {
+    const now = new Date(Date.UTC(2026, 9, 1, 12));
+    const lockedUntil = new Date(Date.UTC(2026, 9, 2, 12));
+
+    const savedItem = (overrides: Partial<SavedItem> = {}): SavedItem => ({
+        id: 'saved-1',
+        tenantId: 'default',
+        userId: 'user-1',
+        sessionId: 'session-1',
+        productId: 'mug',
+        quantity: 2,
+        customizationFingerprint: '',
+        currency: 'USD',
+        savedPrice: 12,
+        currentPrice: 12,
+        inStock: true,
+        savedAt: now,
+        updatedAt: now,
+        ...overrides
+    });
+
+    describe('ItemManagerService.restoreFromSavedForLater', () => {
+        const sessionContext: SessionContext = {
+            sessionId: 'session-1',
+            userId: 'user-1',
+            isGuest: false,
+            expiresAt: now
+        };
+
+        let databaseService: any;
+        let quantityRulesService: { assertLineQuantity: jest.Mock };
+        let inventoryService: { resolveAvailability: jest.Mock };
+        let service: ItemManagerService;
+
+        beforeEach(() => {
+            databaseService = {
+                cart: {
+                    findById: jest.fn().mockResolvedValue({
+                        id: 'cart-1',
+                        sessionId: 'session-1',
+                        userId: 'user-1',
+                        status: CartStatus.ACTIVE,
+                        currency: 'EUR',
+                        items: [{ id: 'line-1', productId: 'mug', quantity: 1, price: 11, customizationFingerprint: '' }]
+                    })
+                },
+                savedItem: { findById: jest.fn().mockResolvedValue(savedItem()) },
+                restoreSavedItem: jest.fn(async (_savedItemId, cartId, line) => ({ id: 'line-1', cartId, ...line.item }))
+            };
+            quantityRulesService = { assertLineQuantity: jest.fn().mockResolvedValue(undefined) };
+            inventoryService = { resolveAvailability: jest.fn().mockResolvedValue({ availability: AvailabilityStatus.IN_STOCK }) };
+            const customizationService = { priceLine: jest.fn().mockResolvedValue({ pricing: { price: 11 } }) };
+            const priceLockService = { lockUntil: jest.fn().mockResolvedValue(lockedUntil) };
+
+            const cartService = new CartService(
+                databaseService,
+                {} as any,
+                {} as any,
+                customizationService as any,
+                quantityRulesService as any,
+                {} as any,
+                {} as any,
+                priceLockService as any,
+                inventoryService as any
+            );
+            service = new ItemManagerService(databaseService, cartService, customizationService as any, {} as any);
+        });
+
+        it('checks the merged line like any addition and restores it with one write', async () => {
+            await service.restoreFromSavedForLater('saved-1', 'cart-1', sessionContext, 4);
+
+            expect(quantityRulesService.assertLineQuantity).toHaveBeenCalledWith(
+                'mug', 3, expect.any(Array), 'line-1', { userId: 'user-1', cartId: 'cart-1' }
+            );
+            expect(inventoryService.resolveAvailability).toHaveBeenCalledWith('mug', undefined, 3);
+            expect(databaseService.restoreSavedItem).toHaveBeenCalledWith('saved-1', 'cart-1', {
+                item: { productId: 'mug', variantId: undefined, quantity: 2, customization: undefined },
+                pricing: { price: 11, lockedUntil },
+                customization: undefined,
+                fulfillment: { availability: AvailabilityStatus.IN_STOCK }
+            }, 4);
+        });
+
+        it('keeps the item saved when the stock falls short', async () => {
+            inventoryService.resolveAvailability.mockRejectedValue(new CartServiceError('INSUFFICIENT_STOCK', 'mug does not have 3 in stock'));
+
+            await expect(service.restoreFromSavedForLater('saved-1', 'cart-1', sessionContext))
+                .rejects.toMatchObject({ code: 'INSUFFICIENT_STOCK' });
+            expect(databaseService.restoreSavedItem).not.toHaveBeenCalled();
+        });
+    });
+
+    describe('SavedItemAlertsService.checkSavedItems', () => {
+        let databaseService: any;
+        let service: SavedItemAlertsService;
+
+        beforeEach(() => {
+            databaseService = {
+                savedItem: {
+                    findDueForCheck: jest.fn().mockResolvedValue([savedItem(), savedItem({ id: 'saved-2' })]),
+                    recordCheck: jest.fn().mockRejectedValue(new Error('connection reset'))
+                }
+            };
+            const customizationService = { priceLine: jest.fn().mockRejectedValue(new Error('pricing down')) };
+            const tenantService = { run: jest.fn(async (_tenantId: string, fn: () => unknown) => fn()) };
+            const configService = { get: jest.fn((_key: string, fallback: unknown) => fallback) };
+
+            service = new SavedItemAlertsService(
+                databaseService,
+                customizationService as any,
+                { getInventoryStatus: jest.fn().mockResolvedValue({ isInStock: true }) } as any,
+                {} as any,
+                {} as any,
+                tenantService as any,
+                configService as any
+            );
+        });
+
+        it('counts items that fail and moves on when their check cannot be recorded either', async () => {
+            const result = await service.checkSavedItems(now);
+
+            expect(databaseService.savedItem.recordCheck).toHaveBeenCalledTimes(2);
+            expect(databaseService.savedItem.recordCheck).toHaveBeenCalledWith('saved-2', {}, now);
+            expect(result).toEqual({ checked: 0, priceDrops: 0, backInStock: 0, failed: 2 });
+        });
+    });
+});
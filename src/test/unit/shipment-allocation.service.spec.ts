@@ -0,0 +1,92 @@
+import { BadRequestException } from '@nestjs/common';
+import { ShipmentAllocationService } from '../../services/shipment-allocation.service';
+import { CheckoutRequest, CheckoutShipmentRequest, ShippingAddress, ShippingMethod } from '../../types/checkout.types';
+
+describe('ShipmentAllocationService', () => {
+    const address = (city: string): ShippingAddress => ({
+        firstName: 'Sam',
+        lastName: 'Lee',
+        address1: '1 Main St',
+        city,
+        state: 'CA',
+        postalCode: '90001',
+        country: 'US'
+    });
+
+    const shippingMethod = { id: 'standard' } as ShippingMethod;
+
+    const items = [
+        { id: 'mug', productId: 'mug', quantity: 4 },
+        { id: 'kit', productId: 'kit', bundleId: 'kit', quantity: 2 },
+        { id: 'kit-brush', productId: 'brush', bundleId: 'kit', parentItemId: 'kit', quantity: 6, unitQuantity: 3 }
+    ];
+
+    const request = (shipments: CheckoutShipmentRequest[]): CheckoutRequest => ({
+        cartId: 'cart-1',
+        sessionId: 'session-1',
+        shippingAddress: address('Home'),
+        shippingMethod,
+        paymentMethod: {} as any,
+        shipments
+    });
+
+    const service = new ShipmentAllocationService();
+
+    describe('allocate', () => {
+        it('sends what is not assigned to the request\'s own address, bundle components with their kits', () => {
+            const allocations = service.allocate(request([
+                { shippingAddress: address('Office'), shippingMethod, items: [{ itemId: 'mug', quantity: 1 }, { itemId: 'kit', quantity: 1 }] }
+            ]), items);
+
+            expect(allocations.map(allocation => [
+                allocation.shippingAddress.city,
+                allocation.lines.map(line => [line.item.id, line.quantity])
+            ])).toEqual([
+                ['Home', [['mug', 3], ['kit', 1], ['kit-brush', 3]]],
+                ['Office', [['mug', 1], ['kit', 1], ['kit-brush', 3]]]
+            ]);
+        });
+
+        it('leaves out the request\'s own address when every line is assigned elsewhere', () => {
+            const allocations = service.allocate(request([
+                { shippingAddress: address('Office'), shippingMethod, items: [{ itemId: 'mug', quantity: 4 }] },
+                { shippingAddress: address('Cabin'), shippingMethod, items: [{ itemId: 'kit', quantity: 2 }] }
+            ]), items);
+
+            expect(allocations.map(allocation => allocation.shippingAddress.city)).toEqual(['Office', 'Cabin']);
+        });
+
+        it('rejects shipments that cannot be split from the cart', () => {
+            expect(() => service.allocate(request([
+                { shippingAddress: address('Office'), shippingMethod, items: [{ itemId: 'mug', quantity: 5 }] }
+            ]), items)).toThrow(BadRequestException);
+        });
+    });
+
+    describe('validate', () => {
+        it('reports every problem with the requested shipments', () => {
+            const errors = service.validate(request([
+                { shippingAddress: address('Office'), shippingMethod, items: [] },
+                {
+                    shippingAddress: address('Cabin'),
+                    shippingMethod,
+                    items: [
+                        { itemId: 'gone', quantity: 1 },
+                        { itemId: 'kit-brush', quantity: 1 },
+                        { itemId: 'kit', quantity: 0.5 },
+                        { itemId: 'mug', quantity: 3 }
+                    ]
+                },
+                { shippingAddress: address('Lake'), shippingMethod, items: [{ itemId: 'mug', quantity: 2 }] }
+            ]), items);
+
+            expect(errors).toEqual([
+                'Shipment 1 has no items',
+                'Shipment 2: item gone is not in the cart',
+                'Shipment 2: item kit-brush ships with its bundle; assign the bundle line instead',
+                'Shipment 2: quantity for item kit must be a positive whole number',
+                'Item mug has 4 in the cart but 5 are assigned to shipments'
+            ]);
+        });
+    });
+});
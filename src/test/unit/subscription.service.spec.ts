@@ -0,0 +1,140 @@
+import { ConflictException, ForbiddenException } from '@nestjs/common';
+import { SubscriptionService } from '../../services/subscription.service';
+import { SubscriptionPolicyService } from '../../services/subscription-policy.service';
+import { CartServiceError } from '../../types/cart.types';
+import { Subscription, SubscriptionStatus, SubscriptionUnit } from '../../types/subscription.types';
+
+describe('Subscriptions', () => {
+    const day = (month: number, date: number) => new Date(Date.UTC(2026, month, date));
+    const configService = { get: jest.fn((_key, fallback) => fallback) };
+
+    describe('SubscriptionPolicyService', () => {
+        const policy = new SubscriptionPolicyService(configService as any);
+
+        it('keeps the day of month where it can and ends on the last day otherwise', () => {
+            expect(policy.nextOrderDate(day(0, 31), { every: 1, unit: SubscriptionUnit.MONTH })).toEqual(day(1, 28));
+            expect(policy.nextOrderDate(day(0, 15), { every: 3, unit: SubscriptionUnit.MONTH })).toEqual(day(3, 15));
+            expect(policy.nextOrderDate(day(0, 1), { every: 2, unit: SubscriptionUnit.WEEK })).toEqual(day(0, 15));
+        });
+
+        it('rejects frequencies outside 1 to 26 weeks or 1 to 12 months', () => {
+            expect(() => policy.validateFrequency({ every: 13, unit: SubscriptionUnit.MONTH })).toThrow(CartServiceError);
+            expect(() => policy.validateFrequency({ every: 1.5, unit: SubscriptionUnit.WEEK })).toThrow(CartServiceError);
+            expect(policy.validateFrequency({ every: 26, unit: SubscriptionUnit.WEEK })).toEqual({ every: 26, unit: SubscriptionUnit.WEEK });
+        });
+    });
+
+    describe('SubscriptionService', () => {
+        const subscription = (overrides: Partial<Subscription> = {}): Subscription => ({
+            id: 'sub-1',
+            tenantId: 'store-2',
+            userId: 'user-1',
+            status: SubscriptionStatus.ACTIVE,
+            productId: 'coffee',
+            quantity: 2,
+            unitPrice: 12.5,
+            discountPercent: 10,
+            currency: 'USD',
+            frequency: { every: 1, unit: SubscriptionUnit.MONTH },
+            nextOrderAt: day(0, 10),
+            shippingAddress: {} as any,
+            billingAddress: {} as any,
+            shippingMethod: 'standard',
+            paymentMethod: 'card',
+            paymentProvider: 'stripe',
+            firstOrderId: 'order-1',
+            orderCount: 1,
+            failureCount: 0,
+            createdAt: day(0, 1),
+            updatedAt: day(0, 1),
+            ...overrides
+        });
+
+        let databaseService: any;
+        let orderService: { createOrder: jest.Mock };
+        let tenantService: { run: jest.Mock };
+        let service: SubscriptionService;
+
+        beforeEach(() => {
+            databaseService = {
+                subscription: {
+                    findById: jest.fn().mockResolvedValue(subscription()),
+                    findDue: jest.fn().mockResolvedValue([subscription()]),
+                    reschedule: jest.fn().mockResolvedValue(true),
+                    recordOrder: jest.fn().mockResolvedValue(undefined),
+                    recordFailure: jest.fn().mockResolvedValue(subscription({ failureCount: 1 })),
+                    changeStatus: jest.fn().mockResolvedValue(true)
+                }
+            };
+            orderService = { createOrder: jest.fn().mockResolvedValue({ id: 'order-2' }) };
+            tenantService = { run: jest.fn(async (_tenantId, fn) => fn()) };
+            const currencyService = { round: (amount: number) => Math.round(amount * 100) / 100 };
+
+            service = new SubscriptionService(
+                databaseService,
+                orderService as any,
+                new SubscriptionPolicyService(configService as any),
+                currencyService as any,
+                tenantService as any,
+                configService as any
+            );
+        });
+
+        describe('runDueSubscriptions', () => {
+            it('moves an overdue subscription past now once and places one discounted order in its store', async () => {
+                const result = await service.runDueSubscriptions(day(2, 20));
+
+                expect(databaseService.subscription.reschedule).toHaveBeenCalledWith('sub-1', day(0, 10), day(3, 10));
+                expect(tenantService.run).toHaveBeenCalledWith('store-2', expect.any(Function));
+                expect(orderService.createOrder).toHaveBeenCalledTimes(1);
+                expect(orderService.createOrder.mock.calls[0][0].items).toEqual([
+                    { productId: 'coffee', variantId: undefined, quantity: 2, unitPrice: 11.25, metadata: { subscriptionId: 'sub-1' } }
+                ]);
+                expect(databaseService.subscription.recordOrder).toHaveBeenCalledWith('sub-1', 'order-2');
+                expect(result).toEqual({ ordered: 1, failed: 0, paused: 0 });
+            });
+
+            it('skips a subscription another run already claimed', async () => {
+                databaseService.subscription.reschedule.mockResolvedValue(false);
+
+                const result = await service.runDueSubscriptions(day(0, 10));
+
+                expect(orderService.createOrder).not.toHaveBeenCalled();
+                expect(result).toEqual({ ordered: 0, failed: 0, paused: 0 });
+            });
+
+            it('retries a failed order later and counts a subscription paused for failing too often', async () => {
+                orderService.createOrder.mockRejectedValue(new Error('card declined'));
+                databaseService.subscription.recordFailure.mockResolvedValue(subscription({ status: SubscriptionStatus.PAUSED, failureCount: 3 }));
+
+                const result = await service.runDueSubscriptions(day(0, 10));
+
+                expect(databaseService.subscription.recordFailure).toHaveBeenCalledWith('sub-1', 'card declined', day(0, 11), 3);
+                expect(result).toEqual({ ordered: 0, failed: 1, paused: 1 });
+            });
+        });
+
+        describe('customer management', () => {
+            it('resumes a paused subscription a full interval from now when its date has passed', async () => {
+                databaseService.subscription.findById.mockResolvedValue(subscription({ status: SubscriptionStatus.PAUSED }));
+
+                await service.resumeSubscription('sub-1', 'user-1', day(1, 5));
+
+                expect(databaseService.subscription.changeStatus).toHaveBeenCalledWith(
+                    'sub-1', SubscriptionStatus.PAUSED, SubscriptionStatus.ACTIVE, day(2, 5)
+                );
+            });
+
+            it('refuses another customer\'s subscription', async () => {
+                await expect(service.pauseSubscription('sub-1', 'user-9')).rejects.toThrow(ForbiddenException);
+            });
+
+            it('refuses to skip an order of a cancelled subscription', async () => {
+                databaseService.subscription.findById.mockResolvedValue(subscription({ status: SubscriptionStatus.CANCELLED }));
+
+                await expect(service.skipNextOrder('sub-1', 'user-1')).rejects.toThrow(ConflictException);
+                expect(databaseService.subscription.reschedule).not.toHaveBeenCalled();
+            });
+        });
+    });
+});
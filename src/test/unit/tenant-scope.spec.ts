@@ -0,0 +1,65 @@
+import { withTenantScope } from '../../database/tenant-scope';
+import { runWithTenant } from '../../tenant/tenant-context';
+
+describe('withTenantScope', () => {
+    let prisma: any;
+    let query: jest.Mock;
+    let run: (model: string, operation: string, args: any) => Promise<any>;
+
+    beforeEach(() => {
+        prisma = {
+            $extends: jest.fn(extension => extension),
+            cart: { count: jest.fn().mockResolvedValue(1) }
+        };
+        query = jest.fn(async args => args);
+        const extension: any = withTenantScope(prisma);
+        run = (model, operation, args) => extension.query.$allModels.$allOperations({ model, operation, args, query });
+    });
+
+    it('keeps reads to the tenant\'s rows and its children to the tenant\'s parents', async () => {
+        await runWithTenant('outlet', async () => {
+            await run('Order', 'findMany', { where: { status: 'PENDING' } });
+            await run('OrderItem', 'aggregate', { where: { productId: 'p-1' } });
+        });
+
+        expect(query.mock.calls[0][0].where).toEqual({ status: 'PENDING', AND: [{ tenantId: 'outlet' }] });
+        expect(query.mock.calls[1][0].where).toEqual({ productId: 'p-1', AND: [{ order: { tenantId: 'outlet' } }] });
+    });
+
+    it('stores the tenant on discounts, promotions, tax rates and notifications it creates', async () => {
+        await runWithTenant('outlet', async () => {
+            for (const model of ['Discount', 'Promotion', 'TaxRate', 'Notification']) {
+                await run(model, 'create', { data: { id: 'row-1' } });
+            }
+        });
+
+        expect(query.mock.calls.map(([args]) => args.data)).toEqual(Array(4).fill({ id: 'row-1', tenantId: 'outlet' }));
+    });
+
+    it('creates a child only under a parent of the tenant', async () => {
+        await runWithTenant('outlet', () => run('CartItem', 'create', {
+            data: { cartId: 'cart-1', parentItemId: 'line-1', productId: 'p-1' }
+        }));
+
+        expect(query.mock.calls[0][0].data).toEqual({
+            productId: 'p-1',
+            cart: { connect: { id: 'cart-1', tenantId: 'outlet' } },
+            parent: { connect: { id: 'line-1' } }
+        });
+    });
+
+    it('fails with TENANT_MISMATCH for children created in bulk under another tenant\'s parent', async () => {
+        await expect(runWithTenant('outlet', () => run('CartMetadata', 'createMany', {
+            data: [{ cartId: 'cart-1', key: 'a' }, { cartId: 'cart-2', key: 'b' }]
+        }))).rejects.toMatchObject({ code: 'TENANT_MISMATCH' });
+
+        expect(prisma.cart.count).toHaveBeenCalledWith({ where: { id: { in: ['cart-1', 'cart-2'] }, tenantId: 'outlet' } });
+        expect(query).not.toHaveBeenCalled();
+    });
+
+    it('leaves queries alone outside a request', async () => {
+        await run('CartItem', 'create', { data: { cartId: 'cart-1' } });
+
+        expect(query).toHaveBeenCalledWith({ data: { cartId: 'cart-1' } });
+    });
+});
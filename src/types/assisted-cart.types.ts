@@ -0,0 +1,8 @@
+// A support agent working on a customer's cart, as recorded in the audit trail
+export interface AgentContext {
+    agentId: string;
+    ipAddress?: string;
+    userAgent?: string;
+}
+
+export type AssistedCartAction = 'list_carts' | 'view' | 'add_item' | 'remove_item' | 'reprice_item' | 'send';
@@ -0,0 +1,112 @@
+import { Cart } from './cart.types';
+
+// CART rules are checked once per cart; LINE rules once per standalone or
+// bundle line, with the line's product available to the conditions
+export enum RuleScope {
+    CART = 'CART',
+    LINE = 'LINE'
+}
+
+export enum RuleAction {
+    BLOCK = 'BLOCK',
+    WARN = 'WARN',
+    CAP_QUANTITY = 'CAP_QUANTITY',
+    REQUIRE_APPROVAL = 'REQUIRE_APPROVAL'
+}
+
+export enum RuleOperator {
+    EQ = 'EQ',
+    NEQ = 'NEQ',
+    GT = 'GT',
+    GTE = 'GTE',
+    LT = 'LT',
+    LTE = 'LTE',
+    IN = 'IN',
+    NOT_IN = 'NOT_IN',
+    CONTAINS = 'CONTAINS',
+    STARTS_WITH = 'STARTS_WITH',
+    EXISTS = 'EXISTS'
+}
+
+export enum RuleMatch {
+    ALL = 'ALL',
+    ANY = 'ANY'
+}
+
+// A test on one attribute of the evaluation context, addressed by a dotted
+// path such as cart.subtotal, line.quantity, user.isGuest or
+// product.attributes.hazmat
+export interface RuleCondition {
+    field: string;
+    operator: RuleOperator;
+    value?: any;
+}
+
+export interface BusinessRule {
+    id: string;
+    name: string;
+    description?: string;
+    scope: RuleScope;
+    match: RuleMatch;
+    conditions: RuleCondition[];
+    action: RuleAction;
+    // Highest quantity a matching line may have, for CAP_QUANTITY
+    capQuantity?: number;
+    // Shown to the customer; {path} placeholders are filled from the context
+    message: string;
+    priority: number;
+    isActive: boolean;
+    createdAt: Date;
+    updatedAt: Date;
+}
+
+export type BusinessRuleData = Omit<BusinessRule, 'id' | 'createdAt' | 'updatedAt'>;
+
+// The attributes conditions can refer to
+export interface RuleContext {
+    cart: {
+        id: string;
+        name?: string;
+        status: string;
+        currency: string;
+        subtotal: number;
+        itemCount: number;
+        lineCount: number;
+    };
+    user: {
+        id?: string;
+        isGuest: boolean;
+    };
+    line?: {
+        itemId: string;
+        productId: string;
+        variantId?: string;
+        quantity: number;
+        price: number;
+        total: number;
+        bundleId?: string;
+        isCustomized: boolean;
+    };
+    product?: Record<string, any>;
+}
+
+// The parts of a cart rules are evaluated against, so a proposed cart can be
+// checked without being stored
+export type RuleCart = Pick<Cart, 'id' | 'name' | 'status' | 'currency' | 'items'>;
+
+export interface RuleOutcome {
+    ruleId: string;
+    ruleName: string;
+    action: RuleAction;
+    message: string;
+    itemId?: string;
+    productId?: string;
+    capQuantity?: number;
+}
+
+export interface RuleEvaluationResult {
+    outcomes: RuleOutcome[];
+    blocked: boolean;
+    requiresApproval: boolean;
+    rulesEvaluated: number;
+}
@@ -0,0 +1,68 @@
+export enum CartEventType {
+    ITEM_ADDED = 'ITEM_ADDED',
+    ITEM_UPDATED = 'ITEM_UPDATED',
+    ITEM_REMOVED = 'ITEM_REMOVED',
+    CART_CLEARED = 'CART_CLEARED',
+    CART_MERGED = 'CART_MERGED',
+    CART_RESTORED = 'CART_RESTORED',
+    PRICE_CHANGED = 'PRICE_CHANGED',
+    STATUS_CHANGED = 'STATUS_CHANGED',
+    CHANGE_UNDONE = 'CHANGE_UNDONE',
+    CHANGE_REDONE = 'CHANGE_REDONE',
+    QUOTE_CONVERTED = 'QUOTE_CONVERTED',
+    GIFT_OPTIONS_CHANGED = 'GIFT_OPTIONS_CHANGED'
+}
+
+// A cart line as recorded in the event log
+export interface CartLineState {
+    itemId: string;
+    productId: string;
+    variantId?: string;
+    quantity: number;
+    price: number;
+    originalPrice?: number;
+    bundleId?: string;
+    parentItemId?: string;
+    unitQuantity?: number;
+    customization?: Record<string, string | number | boolean>;
+    surcharge?: number;
+    addedAt: Date;
+}
+
+// One line touched by an event: before is null for a new line and after is
+// null for a removed one
+export interface CartLineChange {
+    itemId: string;
+    before: CartLineState | null;
+    after: CartLineState | null;
+}
+
+export interface CartEvent {
+    id: string;
+    cartId: string;
+    sequence: number;
+    type: CartEventType;
+    changes: CartLineChange[];
+    details?: Record<string, any>;
+    createdAt: Date;
+}
+
+export interface AppendCartEventData {
+    cartId: string;
+    type: CartEventType;
+    changes?: CartLineChange[];
+    details?: Record<string, any>;
+}
+
+// A cart rebuilt from its event log as of a point in time
+export interface CartStateAt {
+    cartId: string;
+    at: Date;
+    status?: string;
+    currency?: string;
+    items: CartLineState[];
+    itemCount: number;
+    subtotal: number;
+    lastEventAt?: Date;
+    eventsApplied: number;
+}
@@ -0,0 +1,32 @@
+import { CartStatus } from './cart.types';
+
+// Statuses a cart never leaves; its items and settings can no longer change
+export const TERMINAL_CART_STATUSES: CartStatus[] = [CartStatus.COMPLETED, CartStatus.EXPIRED];
+
+// Who asks for a status change: the cart's owner, an admin, or the service
+// itself (the idle sweep, merges, checkout)
+export enum CartActor {
+    CUSTOMER = 'CUSTOMER',
+    ADMIN = 'ADMIN',
+    SYSTEM = 'SYSTEM'
+}
+
+// Work that runs once a status change has been saved
+export enum CartSideEffect {
+    RELEASE_RESERVATIONS = 'RELEASE_RESERVATIONS',
+    EMIT_ABANDONED = 'EMIT_ABANDONED',
+    EMIT_RECOVERED = 'EMIT_RECOVERED'
+}
+
+export interface CartTransition {
+    from: CartStatus;
+    to: CartStatus;
+    actors: CartActor[];
+    sideEffects: CartSideEffect[];
+}
+
+export interface CartSweepResult {
+    abandoned: number;
+    expired: number;
+    failed: number;
+}
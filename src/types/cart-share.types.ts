@@ -0,0 +1,20 @@
+export interface CartShare {
+    id: string;
+    cartId: string;
+    token: string;
+    createdBy?: string;
+    expiresAt?: Date;
+    revokedAt?: Date;
+    viewCount: number;
+    cloneCount: number;
+    lastViewedAt?: Date;
+    lastClonedAt?: Date;
+    createdAt: Date;
+}
+
+export interface CreateCartShareData {
+    cartId: string;
+    token: string;
+    createdBy?: string;
+    expiresAt?: Date;
+}
@@ -0,0 +1,40 @@
+import { CartLineChange, CartLineState } from './cart-event.types';
+import { ItemPriceDto, LineCustomization } from './cart.types';
+
+export enum CartUndoAction {
+    ADD_ITEM = 'ADD_ITEM',
+    ADD_BUNDLE = 'ADD_BUNDLE',
+    UPDATE_ITEM = 'UPDATE_ITEM',
+    CUSTOMIZE_ITEM = 'CUSTOMIZE_ITEM',
+    REMOVE_ITEM = 'REMOVE_ITEM',
+    SAVE_FOR_LATER = 'SAVE_FOR_LATER',
+    CLEAR_CART = 'CLEAR_CART',
+    BULK_ADD = 'BULK_ADD',
+    BULK_REMOVE = 'BULK_REMOVE',
+    MERGE = 'MERGE',
+    CLONE_SHARED_CART = 'CLONE_SHARED_CART',
+    IMPORT = 'IMPORT'
+}
+
+// One customer action on a cart with every line it changed. Steps that have
+// been undone stay on the stack for redo until a new action is recorded.
+export interface CartUndoStep {
+    id: string;
+    cartId: string;
+    sequence: number;
+    action: CartUndoAction;
+    changes: CartLineChange[];
+    undoneAt?: Date;
+    createdAt: Date;
+}
+
+// How to bring one line to a recorded state: set it to state at the given
+// price, or remove it when state is null. exists tells whether itemId is a
+// line in the cart now or the id to recreate the line with.
+export interface CartLineRestore {
+    itemId: string;
+    exists: boolean;
+    state: CartLineState | null;
+    pricing?: ItemPriceDto;
+    customization?: LineCustomization;
+}
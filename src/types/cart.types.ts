@@ -1,6 +1,11 @@
 // Cart Types and Interfaces
 // TypeScript definitions for cart-related entities
 
+import { GiftOptions } from './gift.types';
+import { SubscriptionFrequency } from './subscription.types';
+import { AvailabilityStatus, FulfillmentExpectation } from './fulfillment.types';
+import { SalesChannel } from './channel.types';
+
 export interface CartItem {
   id: string;
   cartId: string;
@@ -9,6 +14,22 @@ export interface CartItem {
   quantity: number;
   price: number;
   originalPrice?: number;
+  bundleId?: string;
+  parentItemId?: string;
+  unitQuantity?: number;
+  customization?: CustomizationValues;
+  customizationFingerprint?: string;
+  surcharge?: number;
+  // Quote the line was converted from; its price is locked
+  quoteId?: string;
+  // The price the line was added at is guaranteed until then
+  priceLockedUntil?: Date;
+  gift?: GiftOptions;
+  // Subscribe-and-save: reordered at this frequency after checkout
+  subscription?: SubscriptionFrequency;
+  // Back-ordered and pre-ordered lines ship later, around estimatedShipDate
+  availability?: AvailabilityStatus;
+  estimatedShipDate?: Date;
   addedAt: Date;
   updatedAt: Date;
   metadata?: Record<string, any>;
@@ -26,6 +47,7 @@ export interface CartSession {
   id: string;
   userId?: string;
   sessionToken: string;
+  channel: SalesChannel;
   expiresAt: Date;
   createdAt: Date;
   updatedAt: Date;
@@ -35,7 +57,15 @@ export interface Cart {
   id: string;
   sessionId: string;
   userId?: string;
+  name?: string;
   status: CartStatus;
+  isCurrent: boolean;
+  version: number;
+  currency: string;
+  // Sales channel the cart is used in
+  channel?: SalesChannel;
+  // Gift options for the order as a whole
+  gift?: GiftOptions;
   createdAt: Date;
   updatedAt: Date;
   items: CartItem[];
@@ -49,7 +79,8 @@ export enum CartStatus {
   CHECKOUT = 'CHECKOUT',
   ABANDONED = 'ABANDONED',
   COMPLETED = 'COMPLETED',
-  EXPIRED = 'EXPIRED'
+  EXPIRED = 'EXPIRED',
+  ARCHIVED = 'ARCHIVED'
 }
 
 // DTOs for API requests/responses
@@ -57,20 +88,80 @@ export interface AddItemDto {
   productId: string;
   variantId?: string;
   quantity: number;
+  customization?: CustomizationValues;
   metadata?: Record<string, string>;
 }
 
+// Customization field values keyed by field key, e.g. { engraving: 'For Sam' }
+export type CustomizationValues = Record<string, string | number | boolean>;
+
+// A customization validated against the product's rules. Lines of the same
+// product merge only when their fingerprints match.
+export interface LineCustomization {
+  values: CustomizationValues;
+  fingerprint: string;
+}
+
 export interface UpdateItemDto {
   quantity: number;
   metadata?: Record<string, string>;
 }
 
+// Authoritative pricing resolved for a cart line before it is written
+export interface ItemPriceDto {
+  price: number;
+  originalPrice?: number;
+  // Per-unit customization surcharge, already included in price
+  surcharge?: number;
+  // Price lock for a line added at this price
+  lockedUntil?: Date;
+}
+
+// Authoritative pricing for a bundle: the price of one kit plus the list
+// price of each component in it
+export interface BundlePriceDto extends ItemPriceDto {
+  bundleId: string;
+  name: string;
+  components: BundleComponentPriceDto[];
+}
+
+export interface BundleComponentPriceDto {
+  productId: string;
+  variantId?: string;
+  unitQuantity: number;
+  pricing: ItemPriceDto;
+}
+
+// A line to add with its price and fulfillment already resolved
+export interface PricedLineDto {
+  item: AddItemDto;
+  pricing: ItemPriceDto;
+  customization?: LineCustomization;
+  fulfillment?: FulfillmentExpectation;
+}
+
+// A line taken from another cart: a standalone line checked and priced like
+// any add, keeping its gift options and subscription, or kits of a bundle
+export interface TransferLineDto {
+  sourceItemId: string;
+  line?: PricedLineDto;
+  gift?: GiftOptions;
+  subscription?: SubscriptionFrequency;
+  bundlePricing?: BundlePriceDto;
+  quantity: number;
+}
+
 export interface CartResponseDto {
   id: string;
   userId?: string;
+  name?: string;
   status: CartStatus;
+  version: number;
+  currency: string;
+  channel?: SalesChannel;
   items: CartItemResponseDto[];
   totals: CartTotalsDto;
+  gift?: GiftOptions;
   metadata: Record<string, string>;
   createdAt: Date;
   updatedAt: Date;
@@ -84,6 +175,17 @@ export interface CartItemResponseDto {
   price: number;
   originalPrice?: number;
   total: number;
+  bundleId?: string;
+  unitQuantity?: number;
+  components?: CartItemResponseDto[];
+  customization?: CustomizationValues;
+  surcharge?: number;
+  // Present while the line's price is guaranteed by a price lock
+  priceLockedUntil?: Date;
+  gift?: GiftOptions;
+  subscription?: SubscriptionFrequency;
+  availability?: AvailabilityStatus;
+  estimatedShipDate?: Date;
   addedAt: Date;
 }
 
@@ -91,18 +193,26 @@ export interface CartTotalsDto {
   subtotal: number;
   tax: number;
   discount: number;
+  // Gift wrap and message charges, included in total
+  gift: number;
   total: number;
   itemCount: number;
+  currency: string;
 }
 
 // Database operation types
 export interface CreateCartDto {
   sessionId: string;
   userId?: string;
+  name?: string;
+  isCurrent?: boolean;
+  currency?: string;
+  channel?: SalesChannel;
   metadata?: Record<string, string>;
 }
 
 export interface UpdateCartDto {
+  name?: string;
   status?: CartStatus;
   metadata?: Record<string, string>;
 }
@@ -111,6 +221,7 @@ export interface UpdateCartDto {
 export interface CreateSessionDto {
   userId?: string;
   sessionToken: string;
+  channel?: SalesChannel;
   expiresAt: Date;
 }
 
@@ -118,6 +229,7 @@ export interface SessionContext {
   sessionId: string;
   userId?: string;
   isGuest: boolean;
+  channel?: SalesChannel;
   expiresAt: Date;
 }
 
@@ -0,0 +1,19 @@
+// Where a cart is used: the website, the mobile app, an in-store kiosk or
+// point of sale, or a marketplace connector
+export enum SalesChannel {
+    WEB = 'WEB',
+    APP = 'APP',
+    POS = 'POS',
+    MARKETPLACE = 'MARKETPLACE'
+}
+
+// What a channel sells at and how its orders can be shipped and paid.
+// A list that is left out allows everything.
+export interface ChannelPolicy {
+    // Price list the product service prices the channel's lines from
+    priceList?: string;
+    // Promotions applied to every cart in the channel
+    promotionIds?: string[];
+    shippingMethods?: string[];
+    paymentMethods?: string[];
+}
@@ -1,3 +1,8 @@
+import { GiftOptions } from './gift.types';
+import { SubscriptionFrequency } from './subscription.types';
+import { BackorderPolicy, FulfillmentExpectation } from './fulfillment.types';
+import { SalesChannel } from './channel.types';
+
 export interface CheckoutRequest {
   cartId: string;
   sessionId: string;
@@ -6,11 +11,27 @@ export interface CheckoutRequest {
   billingAddress?: BillingAddress;
   paymentMethod: PaymentMethod;
   shippingMethod: ShippingMethod;
+  // Parts of the cart sent elsewhere; whatever is not assigned here ships
+  // to shippingAddress with shippingMethod
+  shipments?: CheckoutShipmentRequest[];
+  // The customer accepts that back-ordered and pre-ordered lines ship later
+  acknowledgeBackorders?: boolean;
   couponCode?: string;
   notes?: string;
   metadata?: Record<string, any>;
 }
 
+export interface CheckoutShipmentRequest {
+  shippingAddress: ShippingAddress;
+  shippingMethod: ShippingMethod;
+  // Cart lines, or part of their quantity, going to this address. A bundle
+  // is assigned by its bundle line, in kits.
+  items: Array<{
+    itemId: string;
+    quantity: number;
+  }>;
+}
+
 export interface ShippingAddress {
   firstName: string;
   lastName: string;
@@ -99,6 +120,8 @@ export interface CheckoutCalculation {
   shipping: number;
   tax: number;
   discount: number;
+  // Gift wrap and message charges, included in total
+  gift: number;
   total: number;
   currency: string;
   breakdown: {
@@ -109,7 +132,22 @@ export interface CheckoutCalculation {
       quantity: number;
       unitPrice: number;
       totalPrice: number;
+      gift?: GiftOptions;
+      giftCharge?: number;
+      subscription?: SubscriptionFrequency;
+      fulfillment?: FulfillmentExpectation;
     }>;
+    // How the order ships, when some lines are back-ordered or pre-ordered
+    backorderPolicy?: BackorderPolicy;
+    // Sales channel of the cart being checked out
+    channel?: SalesChannel;
+    // Gift options for the order as a whole
+    gift?: {
+      options: GiftOptions;
+      charge: number;
+    };
+    // One group per destination when the cart is split across addresses
+    shipments?: ShipmentCalculation[];
     taxes: Array<{
       type: string;
       rate: number;
@@ -123,6 +161,20 @@ export interface CheckoutCalculation {
   };
 }
 
+export interface ShipmentCalculation {
+  shippingAddress: ShippingAddress;
+  shippingMethod: ShippingMethod;
+  items: Array<{
+    itemId: string;
+    productId: string;
+    variantId?: string;
+    quantity: number;
+  }>;
+  subtotal: number;
+  shipping: number;
+  tax: number;
+}
+
 export interface CheckoutSession {
   id: string;
   cartId: string;
@@ -175,7 +227,16 @@ export interface OrderCreationRequest {
     quantity: number;
     price: number;
     name: string;
+    gift?: GiftOptions;
+    giftCharge?: number;
+    subscription?: SubscriptionFrequency;
+    fulfillment?: FulfillmentExpectation;
   }>;
+  backorderPolicy?: BackorderPolicy;
+  channel?: SalesChannel;
+  gift?: GiftOptions;
+  giftCharge?: number;
+  shipments?: ShipmentCalculation[];
   totals: CheckoutCalculation;
   paymentIntentId?: string;
   metadata?: Record<string, any>;
@@ -206,6 +267,7 @@ export interface CheckoutServiceConfig {
   timeout: number;
   retryAttempts: number;
   sessionTimeout: number;
+  backorderPolicy: BackorderPolicy;
 }
 
 export interface ShippingOption {
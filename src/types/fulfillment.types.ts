@@ -0,0 +1,23 @@
+// Whether a cart or order line can ship from stock. BACKORDER lines wait for
+// a restock; PREORDER lines wait for the product's release.
+export enum AvailabilityStatus {
+    IN_STOCK = 'IN_STOCK',
+    BACKORDER = 'BACKORDER',
+    PREORDER = 'PREORDER'
+}
+
+// How checkout handles an order with back-ordered or pre-ordered lines
+export enum BackorderPolicy {
+    // Lines in stock ship now, the others as they become available
+    SPLIT_SHIPMENT = 'SPLIT_SHIPMENT',
+    // The whole order ships once every line is available
+    HOLD_ORDER = 'HOLD_ORDER',
+    // Lines ship as with SPLIT_SHIPMENT, once the customer has acknowledged the wait
+    REQUIRE_ACKNOWLEDGEMENT = 'REQUIRE_ACKNOWLEDGEMENT'
+}
+
+export interface FulfillmentExpectation {
+    availability: AvailabilityStatus;
+    // Absent for lines that ship right away, or when no date is known yet
+    estimatedShipDate?: Date;
+}
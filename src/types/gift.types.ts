@@ -0,0 +1,13 @@
+export interface GiftRecipient {
+    name: string;
+    email?: string;
+}
+
+// Gift options for a single cart line or for the whole cart. A gift receipt
+// tells fulfillment to leave prices off the packing slip.
+export interface GiftOptions {
+    wrap?: boolean;
+    message?: string;
+    giftReceipt?: boolean;
+    recipient?: GiftRecipient;
+}
@@ -0,0 +1,23 @@
+export enum IdempotencyStatus {
+    IN_PROGRESS = 'in_progress',
+    COMPLETED = 'completed'
+}
+
+export interface IdempotencyRecord {
+    id: string;
+    scope: string;
+    key: string;
+    requestHash: string;
+    status: IdempotencyStatus;
+    responseStatus?: number;
+    responseBody?: any;
+    responseHeaders?: Record<string, string>;
+    expiresAt: Date;
+    createdAt: Date;
+    updatedAt: Date;
+}
+
+export interface IdempotencyAcquireResult {
+    record: IdempotencyRecord;
+    created: boolean;
+}
@@ -1,3 +1,7 @@
+import { GiftOptions } from './gift.types';
+import { BackorderPolicy, FulfillmentExpectation } from './fulfillment.types';
+import { SalesChannel } from './channel.types';
+
 export enum OrderStatus {
     PENDING = 'pending',
     CONFIRMED = 'confirmed',
@@ -40,6 +44,11 @@ export interface OrderItem {
     totalPrice: number;
     productImage?: string;
     productUrl?: string;
+    gift?: GiftOptions;
+    // Gift wrap and message charge for the line, not part of totalPrice
+    giftCharge?: number;
+    // Whether the line ships from stock, and when it is expected to ship
+    fulfillment?: FulfillmentExpectation;
     metadata?: Record<string, any>;
     createdAt: Date;
     updatedAt: Date;
@@ -82,6 +91,7 @@ export interface OrderTotals {
     tax: number;
     shipping: number;
     discount: number;
+    gift: number;
     total: number;
     currency: string;
 }
@@ -115,11 +125,21 @@ export interface OrderShipping {
     shippingAddress: ShippingAddress;
     shippingMethod: string;
     shippingCost: number;
+    // Tax charged on what goes to this address
+    tax: number;
+    // What goes to this address when the order ships to several
+    items?: OrderShipmentItem[];
     metadata?: Record<string, any>;
     createdAt: Date;
     updatedAt: Date;
 }
 
+export interface OrderShipmentItem {
+    productId: string;
+    variantId?: string;
+    quantity: number;
+}
+
 export interface Order {
     id: string;
     orderNumber: string;
@@ -129,8 +149,17 @@ export interface Order {
     items: OrderItem[];
     totals: OrderTotals;
     payment: OrderPayment;
+    // The first destination; an order split across addresses has one more
+    // shipping record per further destination
     shipping: OrderShipping;
+    additionalShipments?: OrderShipping[];
     billingAddress: BillingAddress;
+    // Set when some lines are back-ordered or pre-ordered
+    backorderPolicy?: BackorderPolicy;
+    // Sales channel the order was placed in
+    channel?: SalesChannel;
+    // Gift options for the order as a whole
+    gift?: GiftOptions;
     notes?: string;
     metadata?: Record<string, any>;
     createdAt: Date;
@@ -147,13 +176,33 @@ export interface CreateOrderRequest {
         variantId?: string;
         quantity: number;
         unitPrice: number;
+        gift?: GiftOptions;
+        giftCharge?: number;
+        fulfillment?: FulfillmentExpectation;
         metadata?: Record<string, any>;
     }[];
+    backorderPolicy?: BackorderPolicy;
+    channel?: SalesChannel;
+    gift?: GiftOptions;
+    giftCharge?: number;
     shippingAddress: Omit<ShippingAddress, 'id'>;
     billingAddress: Omit<BillingAddress, 'id'>;
     paymentMethod: string;
     paymentProvider: string;
     shippingMethod: string;
+    // Tax worked out for the destination, when known. Without it the order
+    // is taxed at a flat estimate.
+    tax?: number;
+    // One entry per destination for an order split across addresses, in
+    // place of shippingAddress, shippingMethod and tax
+    shipments?: {
+        shippingAddress: Omit<ShippingAddress, 'id'>;
+        shippingMethod: string;
+        shippingCost: number;
+        tax?: number;
+        items: OrderShipmentItem[];
+    }[];
+    currency?: string;
     notes?: string;
     metadata?: Record<string, any>;
 }
@@ -190,10 +239,25 @@ export interface OrderResponse {
         estimatedDelivery?: Date;
         actualDelivery?: Date;
     };
+    // Every destination, when the order ships to more than one address
+    shipments?: {
+        id: string;
+        status: ShippingStatus;
+        carrier: string;
+        trackingNumber?: string;
+        shippingAddress: ShippingAddress;
+        shippingMethod: string;
+        shippingCost: number;
+        tax: number;
+        items?: OrderShipmentItem[];
+    }[];
     addresses: {
         shipping: ShippingAddress;
         billing: BillingAddress;
     };
+    backorderPolicy?: BackorderPolicy;
+    channel?: SalesChannel;
+    gift?: GiftOptions;
     notes?: string;
     metadata?: Record<string, any>;
     createdAt: Date;
@@ -220,6 +284,7 @@ export interface OrderSearchFilters {
     dateTo?: Date;
     orderNumber?: string;
     productId?: string;
+    channel?: SalesChannel;
     page?: number;
     limit?: number;
     sortBy?: 'createdAt' | 'updatedAt' | 'total' | 'status';
@@ -231,6 +296,7 @@ export interface OrderAnalytics {
     totalRevenue: number;
     averageOrderValue: number;
     ordersByStatus: Record<OrderStatus, number>;
+    ordersByChannel: Record<SalesChannel, number>;
     ordersByPaymentStatus: Record<PaymentStatus, number>;
     ordersByShippingStatus: Record<ShippingStatus, number>;
     topProducts: Array<{
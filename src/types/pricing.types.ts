@@ -1,3 +1,7 @@
+import { GiftOptions } from './gift.types';
+import { SubscriptionFrequency } from './subscription.types';
+import { SalesChannel } from './channel.types';
+
 export enum DiscountType {
     PERCENTAGE = 'percentage',
     FIXED_AMOUNT = 'fixed_amount',
@@ -33,6 +37,12 @@ export enum Currency {
     INR = 'INR'
 }
 
+export interface ExchangeRateTable {
+    base: Currency;
+    rates: Partial<Record<Currency, number>>;
+    asOf?: Date;
+}
+
 export interface PriceBreakdown {
     subtotal: number;
     discounts: DiscountApplication[];
@@ -40,6 +50,8 @@ export interface PriceBreakdown {
     taxes: TaxApplication[];
     taxTotal: number;
     shipping: number;
+    // Gift wrap and message charges
+    giftTotal: number;
     total: number;
     currency: Currency;
 }
@@ -164,6 +176,10 @@ export interface PricingRequest {
     couponCodes?: string[];
     promotionIds?: string[];
     currency?: Currency;
+    // Sales channel the cart is used in; selects channel promotions
+    channel?: SalesChannel;
+    // Gift options for the order as a whole
+    gift?: GiftOptions;
     metadata?: Record<string, any>;
 }
 
@@ -173,6 +189,15 @@ export interface PricingItem {
     quantity: number;
     unitPrice: number;
     category?: string;
+    // Set on bundle lines and on their components; components are priced at
+    // zero because the bundle line carries the bundle price
+    bundleId?: string;
+    isBundleComponent?: boolean;
+    // Price before bundle pricing, used to report bundle savings
+    listPrice?: number;
+    gift?: GiftOptions;
+    // Set on subscribe-and-save lines, which earn the subscription discount
+    subscription?: SubscriptionFrequency;
     metadata?: Record<string, any>;
 }
 
@@ -219,6 +244,7 @@ export interface TaxCalculationRequest {
     shippingAddress: ShippingAddress;
     billingAddress?: BillingAddress;
     userId?: string;
+    currency?: Currency;
 }
 
 export interface TaxCalculationResponse {
@@ -12,6 +12,12 @@ export interface Product {
     variants: ProductVariant[];
     images: ProductImage[];
     attributes: Record<string, any>;
+    quantityRules?: QuantityRules;
+    // Out-of-stock quantities can still be ordered, to ship on restock
+    backorderable?: boolean;
+    // Not released yet; orders ship from releaseDate
+    preorder?: boolean;
+    releaseDate?: Date;
 }
 
 export interface ProductVariant {
@@ -57,6 +63,93 @@ export interface ProductPricing {
     isActive: boolean;
 }
 
+// A kit sold as one unit. Priced either at a fixed bundle price (in the
+// bundle currency) or at a percentage off the sum of its components.
+export interface ProductBundle {
+    id: string;
+    name: string;
+    isActive: boolean;
+    components: ProductBundleComponent[];
+    price?: number;
+    discountPercentage?: number;
+    currency?: string;
+}
+
+export interface ProductBundleComponent {
+    productId: string;
+    variantId?: string;
+    quantity: number;
+}
+
+// Customization rules for a product. Surcharges are per unit, in the schema
+// currency (the base currency when not given).
+export interface ProductCustomizationSchema {
+    productId: string;
+    fields: CustomizationField[];
+    currency?: string;
+}
+
+export interface CustomizationField {
+    key: string;
+    label: string;
+    type: 'text' | 'number' | 'select' | 'boolean';
+    required?: boolean;
+    minLength?: number;
+    maxLength?: number;
+    pattern?: string;
+    min?: number;
+    max?: number;
+    options?: string[];
+    // Charged when the field is filled in (or true for a boolean field)
+    surcharge?: number;
+    // Charged on top for particular select options
+    optionSurcharges?: Record<string, number>;
+}
+
+// Quantities a product can be bought in. A case pack sells the product only
+// in whole cases, so quantities are multiples of it; otherwise quantities go
+// up from the minimum in steps. The maximum applies to all of the product's
+// lines in a cart together.
+export interface QuantityRules {
+    minQuantity?: number;
+    maxQuantity?: number;
+    step?: number;
+    casePack?: number;
+}
+
+// Rules in force for a product: its product metadata with any local override
+// applied field by field
+export interface EffectiveQuantityRules {
+    productId: string;
+    minQuantity: number;
+    maxQuantity?: number;
+    step: number;
+    casePack?: number;
+    overridden: boolean;
+}
+
+export interface QuantityRuleOverride extends QuantityRules {
+    id: string;
+    productId: string;
+    createdAt: Date;
+    updatedAt: Date;
+}
+
+// The customer a product's maximum quantity is counted for. A signed-in
+// customer's other active carts and past orders count towards it.
+export interface QuantityCustomer {
+    userId?: string;
+    // The cart being changed; its own lines are counted by the caller
+    cartId: string;
+}
+
+export interface QuantityCheck {
+    valid: boolean;
+    reason?: string;
+    // Nearest quantity the rules allow, absent when none is allowed
+    suggestedQuantity?: number;
+}
+
 export interface InventoryStatus {
     productId: string;
     variantId?: string;
@@ -131,6 +224,23 @@ export interface ProductRecommendation {
     type: 'alternative' | 'upsell' | 'cross-sell' | 'frequently-bought-together';
 }
 
+// Two products bought together, as computed from a store's orders and carts
+export interface ProductAffinity {
+    productId: string;
+    relatedProductId: string;
+    // Baskets that had both products
+    baskets: number;
+    // Share of the product's baskets that also had the related product
+    score: number;
+    computedAt: Date;
+}
+
+export interface RecommendationRefreshResult {
+    tenants: number;
+    baskets: number;
+    affinities: number;
+}
+
 export interface ProductUpdateEvent {
     type: 'product_updated' | 'price_changed' | 'stock_updated' | 'product_discontinued';
     productId: string;
@@ -0,0 +1,73 @@
+// REQUESTED quotes wait for sales; QUOTED quotes wait for the customer until
+// they expire. ACCEPTED quotes have been converted into a cart.
+export enum QuoteStatus {
+    REQUESTED = 'REQUESTED',
+    QUOTED = 'QUOTED',
+    ACCEPTED = 'ACCEPTED',
+    REJECTED = 'REJECTED',
+    EXPIRED = 'EXPIRED'
+}
+
+// A bundle component as snapshotted with its bundle line
+export interface QuoteLineComponent {
+    productId: string;
+    variantId?: string;
+    unitQuantity: number;
+    originalPrice?: number;
+}
+
+// One top-level cart line as snapshotted when the quote was requested.
+// listPrice is the per-unit cart price at that time; price is the per-unit
+// price offered by sales.
+export interface QuoteLine {
+    lineId: string;
+    productId: string;
+    variantId?: string;
+    bundleId?: string;
+    quantity: number;
+    listPrice: number;
+    price: number;
+    originalPrice?: number;
+    surcharge?: number;
+    customization?: Record<string, string | number | boolean>;
+    customizationFingerprint?: string;
+    components?: QuoteLineComponent[];
+}
+
+export interface Quote {
+    id: string;
+    cartId: string;
+    sessionId: string;
+    userId?: string;
+    status: QuoteStatus;
+    currency: string;
+    lines: QuoteLine[];
+    // Amount off the quoted subtotal, on top of any line price changes
+    discount: number;
+    customerNote?: string;
+    salesNote?: string;
+    quotedBy?: string;
+    quotedAt?: Date;
+    expiresAt?: Date;
+    respondedAt?: Date;
+    convertedCartId?: string;
+    createdAt: Date;
+    updatedAt: Date;
+}
+
+export interface CreateQuoteData {
+    cartId: string;
+    sessionId: string;
+    userId?: string;
+    currency: string;
+    lines: QuoteLine[];
+    customerNote?: string;
+}
+
+export interface QuoteOfferData {
+    lines: QuoteLine[];
+    discount: number;
+    salesNote?: string;
+    quotedBy?: string;
+    expiresAt: Date;
+}
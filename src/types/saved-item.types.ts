@@ -0,0 +1,59 @@
+import { CustomizationValues } from './cart.types';
+
+// A product saved for later by a customer, or by a guest session until the
+// guest signs in. savedPrice is the unit price when it was saved and
+// currentPrice the price as last checked, both in currency.
+export interface SavedItem {
+    id: string;
+    tenantId: string;
+    userId?: string;
+    sessionId: string;
+    productId: string;
+    variantId?: string;
+    quantity: number;
+    customization?: CustomizationValues;
+    customizationFingerprint: string;
+    currency: string;
+    savedPrice: number;
+    currentPrice: number;
+    // Lowest price the customer was alerted about
+    alertedPrice?: number;
+    inStock: boolean;
+    notes?: string;
+    checkedAt?: Date;
+    savedAt: Date;
+    updatedAt: Date;
+}
+
+export interface CreateSavedItemData {
+    userId?: string;
+    sessionId: string;
+    productId: string;
+    variantId?: string;
+    quantity: number;
+    customization?: CustomizationValues;
+    customizationFingerprint?: string;
+    currency: string;
+    price: number;
+    notes?: string;
+}
+
+// Whose saved items: the signed-in customer's, or else the guest session's
+export interface SavedItemOwner {
+    userId?: string;
+    sessionId: string;
+}
+
+export interface SavedItemPage {
+    items: SavedItem[];
+    total: number;
+    limit: number;
+    offset: number;
+}
+
+export interface SavedItemCheckResult {
+    checked: number;
+    priceDrops: number;
+    backInStock: number;
+    failed: number;
+}
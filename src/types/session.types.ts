@@ -1,3 +1,5 @@
+import { SalesChannel } from './channel.types';
+
 export enum SessionType {
     GUEST = 'guest',
     AUTHENTICATED = 'authenticated',
@@ -105,6 +107,9 @@ export interface CartItemData {
     quantity: number;
     price: number;
     originalPrice?: number;
+    customization?: Record<string, string | number | boolean>;
+    customizationFingerprint?: string;
+    surcharge?: number;
     addedAt: Date;
     metadata?: Record<string, any>;
 }
@@ -170,6 +175,8 @@ export interface SessionAnalytics {
     activeSessions: number;
     sessionsByType: Record<SessionType, number>;
     sessionsByDevice: Record<DeviceType, number>;
+    // Cart sessions opened in each sales channel
+    sessionsByChannel: Record<SalesChannel, number>;
     averageSessionDuration: number;
     cartRecoveryRate: number;
     syncSuccessRate: number;
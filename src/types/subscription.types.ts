@@ -0,0 +1,87 @@
+export enum SubscriptionUnit {
+    WEEK = 'WEEK',
+    MONTH = 'MONTH'
+}
+
+// ACTIVE subscriptions place an order at nextOrderAt; PAUSED ones wait for
+// the customer to resume them. CANCELLED is final.
+export enum SubscriptionStatus {
+    ACTIVE = 'ACTIVE',
+    PAUSED = 'PAUSED',
+    CANCELLED = 'CANCELLED'
+}
+
+export interface SubscriptionFrequency {
+    every: number;
+    unit: SubscriptionUnit;
+}
+
+export interface SubscriptionAddress {
+    firstName: string;
+    lastName: string;
+    company?: string;
+    address1: string;
+    address2?: string;
+    city: string;
+    state: string;
+    postalCode: string;
+    country: string;
+    phone?: string;
+    email?: string;
+}
+
+// One subscribed product, renewed from the order it was signed up with.
+// unitPrice is the price at sign-up; each order gets discountPercent off it.
+export interface Subscription {
+    id: string;
+    // Store the subscription was signed up in; its renewals are placed there
+    tenantId: string;
+    userId: string;
+    status: SubscriptionStatus;
+    productId: string;
+    variantId?: string;
+    quantity: number;
+    unitPrice: number;
+    discountPercent: number;
+    currency: string;
+    frequency: SubscriptionFrequency;
+    nextOrderAt: Date;
+    shippingAddress: SubscriptionAddress;
+    billingAddress: SubscriptionAddress;
+    shippingMethod: string;
+    paymentMethod: string;
+    paymentProvider: string;
+    firstOrderId: string;
+    lastOrderId?: string;
+    orderCount: number;
+    failureCount: number;
+    lastError?: string;
+    pausedAt?: Date;
+    cancelledAt?: Date;
+    createdAt: Date;
+    updatedAt: Date;
+}
+
+export interface CreateSubscriptionData {
+    userId: string;
+    productId: string;
+    variantId?: string;
+    quantity: number;
+    unitPrice: number;
+    discountPercent: number;
+    currency: string;
+    frequency: SubscriptionFrequency;
+    nextOrderAt: Date;
+    shippingAddress: SubscriptionAddress;
+    billingAddress: SubscriptionAddress;
+    shippingMethod: string;
+    paymentMethod: string;
+    paymentProvider: string;
+    firstOrderId: string;
+}
+
+export interface SubscriptionRunResult {
+    ordered: number;
+    failed: number;
+    paused: number;
+}
@@ -0,0 +1,20 @@
+// Whether a store's prices are quoted before tax, with tax added at
+// checkout, or already include it
+export enum TaxMode {
+    EXCLUSIVE = 'EXCLUSIVE',
+    INCLUSIVE = 'INCLUSIVE'
+}
+
+// A store served from this deployment. Its carts, sessions, orders and
+// pricing data are kept apart from every other store's.
+export interface TenantConfig {
+    id: string;
+    name?: string;
+    // Currency new carts and orders start in
+    currency: string;
+    taxMode: TaxMode;
+    rateLimit: {
+        windowMs: number;
+        maxRequests: number;
+    };
+}